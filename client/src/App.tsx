@@ -6,17 +6,22 @@ import Layout from "./components/layout/Layout";
 import { AuthProvider } from "./contexts/AuthContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { useAuth } from "./contexts/AuthContext";
+import { useLiveUpdates } from "./hooks/use-live-updates";
 
 // Pages
 import Dashboard from "./pages/dashboard";
 import NewPica from "./pages/new-pica";
 import CalendarPica from "./pages/calendar-pica";
 import PicaProgress from "./pages/pica-progress";
+import Verification from "./pages/verification";
+import RecurringPica from "./pages/recurring-pica";
 import PersonInCharge from "./pages/person-in-charge";
 
 import Department from "./pages/department";
 import ProjectJob from "./pages/project-job";
 import User from "./pages/user";
+import Trash from "./pages/trash";
+import Webhooks from "./pages/webhooks";
 import Auth from "./pages/auth";
 import NotFound from "./pages/not-found";
 
@@ -24,6 +29,9 @@ import NotFound from "./pages/not-found";
 function RoutesWithAuth() {
   const { isAuthenticated, isLoading } = useAuth();
   
+  // Refresh lists and the dashboard as other users change records
+  useLiveUpdates(isAuthenticated);
+  
   // If still loading auth state, show nothing
   if (isLoading) {
     return null;
@@ -88,6 +96,18 @@ function RoutesWithAuth() {
         </Layout>
       )} canEdit={true} />
       
+      <ProtectedRoute path="/verification" component={(params) => (
+        <Layout>
+          <Verification {...params} />
+        </Layout>
+      )} canEdit={true} />
+      
+      <ProtectedRoute path="/recurring-pica" component={(params) => (
+        <Layout>
+          <RecurringPica {...params} />
+        </Layout>
+      )} canEdit={true} />
+      
       {/* Routes that require admin permissions */}
       <ProtectedRoute path="/person-in-charge" component={(params) => (
         <Layout>
@@ -113,6 +133,18 @@ function RoutesWithAuth() {
         </Layout>
       )} adminOnly={true} />
       
+      <ProtectedRoute path="/trash" component={(params) => (
+        <Layout>
+          <Trash {...params} />
+        </Layout>
+      )} adminOnly={true} />
+      
+      <ProtectedRoute path="/webhooks" component={(params) => (
+        <Layout>
+          <Webhooks {...params} />
+        </Layout>
+      )} adminOnly={true} />
+      
       {/* 404 route */}
       <Route>
         {() => {
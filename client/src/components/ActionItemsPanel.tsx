@@ -0,0 +1,302 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  actionItemInputSchema,
+  actionItemStatusEnum,
+  actionItemTypeEnum,
+  ActionItemStatus,
+  ActionItemType,
+  ActionItemUpdate,
+  PicaActionItemWithOwner,
+  PicaWithRelations,
+  Person,
+} from "@shared/schema";
+import { z } from "zod";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Trash2 } from "lucide-react";
+
+type ActionItemFormValues = z.infer<typeof actionItemInputSchema>;
+
+interface ActionItemsPanelProps {
+  pica: PicaWithRelations;
+}
+
+export const actionItemTypeLabels: Record<ActionItemType, string> = {
+  corrective: "Corrective",
+  preventive: "Preventive",
+  containment: "Containment",
+};
+
+const actionItemTypeStyles: Record<string, string> = {
+  corrective: "bg-blue-100 text-blue-800",
+  preventive: "bg-purple-100 text-purple-800",
+  containment: "bg-orange-100 text-orange-800",
+};
+
+const actionItemStatusLabels: Record<ActionItemStatus, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  done: "Done",
+};
+
+// Corrective, preventive and containment actions of a PICA with their own owners, due dates and progress
+const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({ pica }) => {
+  const { toast } = useToast();
+  const { getCategory } = useWorkflow();
+  const isComplete = getCategory(pica.status) === "complete";
+  const today = new Date().toISOString().split("T")[0];
+
+  const { data: actionItems, isLoading } = useQuery<PicaActionItemWithOwner[]>({
+    queryKey: [`/api/picas/${pica.id}/actions`],
+  });
+
+  const { data: people } = useQuery<Person[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const form = useForm<ActionItemFormValues>({
+    resolver: zodResolver(actionItemInputSchema),
+    defaultValues: {
+      type: "corrective",
+      description: "",
+      ownerId: pica.personInChargeId,
+      dueDate: pica.dueDate,
+    },
+  });
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const addActionItem = useMutation({
+    mutationFn: async (data: ActionItemFormValues) => {
+      return apiRequest("POST", `/api/picas/${pica.id}/actions`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+      form.reset({ ...form.getValues(), description: "" });
+      toast({
+        title: "Success",
+        description: "Action item added",
+      });
+    },
+    onError: onMutationError("Failed to add action item"),
+  });
+
+  const updateActionItem = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: ActionItemUpdate }) => {
+      return apiRequest("PUT", `/api/picas/${pica.id}/actions/${id}`, update);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+    },
+    onError: onMutationError("Failed to update action item"),
+  });
+
+  const deleteActionItem = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/picas/${pica.id}/actions/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+    },
+    onError: onMutationError("Failed to remove action item"),
+  });
+
+  // Roll-up shown above the list; the server keeps the same figures on the PICA
+  const total = actionItems?.length ?? 0;
+  const completed = actionItems?.filter((item) => item.status === "done").length ?? 0;
+  const overallProgress = total > 0
+    ? Math.round(actionItems!.reduce((sum, item) => sum + item.progress, 0) / total)
+    : 0;
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border p-3 text-sm">
+        <div className="flex justify-between mb-1">
+          <span className="text-gray-500">Overall progress</span>
+          <span className="font-medium">
+            {total > 0 ? `${overallProgress}% · ${completed} of ${total} done` : "No action items yet"}
+          </span>
+        </div>
+        <Progress value={overallProgress} className="h-2" />
+      </div>
+
+      {actionItems && actionItems.length > 0 && (
+        <div className="space-y-3">
+          {actionItems.map((item) => {
+            const isOverdue = item.status !== "done" && item.dueDate < today;
+            return (
+              <div key={item.id} className="rounded-md border p-3 text-sm space-y-2">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <span className={`inline-flex px-2 py-0.5 mr-2 rounded-full text-xs font-semibold ${actionItemTypeStyles[item.type] ?? ""}`}>
+                      {actionItemTypeLabels[item.type as ActionItemType] ?? item.type}
+                    </span>
+                    <span className="text-gray-800">{item.description}</span>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    onClick={() => deleteActionItem.mutate(item.id)}
+                    disabled={deleteActionItem.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+                  <span>Owner: <strong className="text-gray-700">{item.owner?.name ?? "Unknown"}</strong></span>
+                  <span className={isOverdue ? "text-red-600 font-medium" : ""}>
+                    Due {formatDate(item.dueDate)}{isOverdue ? " (overdue)" : ""}
+                  </span>
+                  {item.completedAt && <span>Done on {formatDate(item.completedAt)}</span>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Select
+                    value={item.status}
+                    onValueChange={(status) => updateActionItem.mutate({ id: item.id, update: { status: status as ActionItemStatus } })}
+                  >
+                    <SelectTrigger className="h-8 w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {actionItemStatusEnum.options.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {actionItemStatusLabels[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Slider
+                    key={`${item.id}-${item.progress}`}
+                    className="flex-1"
+                    defaultValue={[item.progress]}
+                    max={100}
+                    step={10}
+                    onValueCommit={([progress]) => updateActionItem.mutate({ id: item.id, update: { progress } })}
+                  />
+                  <span className="w-10 text-right text-xs font-medium">{item.progress}%</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!isComplete && (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => addActionItem.mutate(data))} className="space-y-3 rounded-md border p-3">
+            <h3 className="text-sm font-semibold text-gray-700">Add Action</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {actionItemTypeEnum.options.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {actionItemTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ownerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owner</FormLabel>
+                    <Select value={field.value?.toString()} onValueChange={(value) => field.onChange(parseInt(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select person" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {people?.map((person) => (
+                          <SelectItem key={person.id} value={person.id.toString()}>
+                            {person.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="What needs to be done" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={addActionItem.isPending}>
+                {addActionItem.isPending ? "Adding..." : "Add Action"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+};
+
+export default ActionItemsPanel;
@@ -0,0 +1,213 @@
+import React, { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  attachmentContentTypes,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  PicaAttachmentInfo,
+  PicaHistoryWithRelations,
+} from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, apiUpload, getApiErrorMessage, getApiUrl, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileText, Paperclip, Trash2, Upload } from "lucide-react";
+
+interface AttachmentPanelProps {
+  picaId: number;
+  history?: PicaHistoryWithRelations[];
+}
+
+// Human readable file size, e.g. "2.4 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function attachmentUrl(attachment: PicaAttachmentInfo, thumbnail: boolean = false): string {
+  return getApiUrl(`/api/attachments/${attachment.id}/file${thumbnail ? "?thumbnail=true" : ""}`);
+}
+
+// Upload form and list of a PICA's evidence files
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ picaId, history }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [historyId, setHistoryId] = useState("");
+
+  const { data: attachments, isLoading } = useQuery<PicaAttachmentInfo[]>({
+    queryKey: [`/api/picas/${picaId}/attachments`],
+  });
+
+  const uploadFiles = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      selectedFiles.forEach((file) => formData.append("files", file));
+      if (historyId) {
+        formData.append("historyId", historyId);
+      }
+      return apiUpload(`/api/picas/${picaId}/attachments`, formData);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', picaId);
+      setSelectedFiles([]);
+      setHistoryId("");
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      toast({
+        title: "Success",
+        description: "Attachments uploaded successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to upload attachments"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAttachment = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/attachments/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', picaId);
+      toast({
+        title: "Success",
+        description: "Attachment deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to delete attachment"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Check the limits before uploading so the user gets immediate feedback
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    const problem = files.length > MAX_ATTACHMENTS_PER_UPLOAD
+      ? `Select at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`
+      : files.find((file) => file.size > MAX_ATTACHMENT_SIZE)
+        ? `Files must be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+        : files.find((file) => !attachmentContentTypes.includes(file.type))
+          ? "Only images, PDF, Office documents and text files can be attached"
+          : null;
+
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      e.target.value = "";
+      setSelectedFiles([]);
+      return;
+    }
+    setSelectedFiles(files);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border border-dashed p-4 space-y-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={attachmentContentTypes.join(",")}
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-sm"
+        />
+        {history && history.length > 0 && (
+          <select
+            className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+            value={historyId}
+            onChange={(e) => setHistoryId(e.target.value)}
+          >
+            <option value="">Attach to the PICA</option>
+            {history.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                Attach to update of {formatDate(entry.timestamp)}{entry.comment ? ` – ${entry.comment.slice(0, 40)}` : ""}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-gray-500">
+            Up to {MAX_ATTACHMENTS_PER_UPLOAD} files, {formatFileSize(MAX_ATTACHMENT_SIZE)} each
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => uploadFiles.mutate()}
+            disabled={selectedFiles.length === 0 || uploadFiles.isPending}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {uploadFiles.isPending ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-20 w-full" />
+      ) : attachments && attachments.length > 0 ? (
+        <ul className="divide-y">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 py-2 text-sm">
+              <a href={attachmentUrl(attachment)} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                {attachment.hasThumbnail ? (
+                  <img
+                    src={attachmentUrl(attachment, true)}
+                    alt={attachment.fileName}
+                    className="h-12 w-12 rounded object-cover border"
+                  />
+                ) : (
+                  <div className="h-12 w-12 rounded border flex items-center justify-center bg-gray-50">
+                    <FileText className="h-6 w-6 text-gray-400" />
+                  </div>
+                )}
+              </a>
+              <div className="flex-1 min-w-0">
+                <a
+                  href={attachmentUrl(attachment)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary hover:underline truncate block"
+                >
+                  {attachment.fileName}
+                </a>
+                <div className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)} · {attachment.uploadedBy?.name ?? "Unknown"} · {formatDate(attachment.createdAt)}
+                  {attachment.historyId ? " · linked to an update" : ""}
+                </div>
+              </div>
+              {(user?.role === "admin" || attachment.uploadedById === user?.id) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteAttachment.mutate(attachment.id)}
+                  disabled={deleteAttachment.isPending}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-center py-4 flex items-center justify-center gap-2">
+          <Paperclip className="h-4 w-4" /> No attachments yet
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
@@ -0,0 +1,108 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { PicaAuditEntryWithUser } from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format } from "date-fns";
+
+interface AuditTimelineProps {
+  picaId: number;
+  people?: { id: number; name: string }[];
+  projectSites?: { id: number; code: string }[];
+}
+
+const fieldLabels: Record<string, string> = {
+  picaId: "PICA ID",
+  projectSiteId: "Project site",
+  date: "Date",
+  issue: "Issue",
+  problemIdentification: "Problem identification",
+  correctiveAction: "Corrective action",
+  personInChargeId: "Person in charge",
+  dueDate: "Due date",
+  originalDueDate: "Original due date",
+  extensionCount: "Extensions",
+  severity: "Severity",
+  likelihood: "Likelihood",
+  status: "Status",
+  organizationId: "Organization",
+};
+
+const actionLabels: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Moved to trash",
+  restore: "Restored",
+  purge: "Permanently deleted",
+};
+
+// Field-level change timeline of a PICA
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ picaId, people, projectSites }) => {
+  const { getStatus } = useWorkflow();
+
+  const { data: auditTrail, isLoading } = useQuery<PicaAuditEntryWithUser[]>({
+    queryKey: [`/api/picas/${picaId}/audit`],
+  });
+
+  // Show names instead of raw IDs where we can
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    switch (field) {
+      case "personInChargeId":
+        return people?.find((person) => person.id === value)?.name ?? `#${value}`;
+      case "projectSiteId":
+        return projectSites?.find((site) => site.id === value)?.code ?? `#${value}`;
+      case "status":
+        return getStatus(String(value))?.label ?? String(value);
+      case "date":
+      case "dueDate":
+      case "originalDueDate":
+        return formatDate(String(value));
+      default:
+        return String(value);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-3/4" />
+      </div>
+    );
+  }
+
+  if (!auditTrail || auditTrail.length === 0) {
+    return <p className="text-gray-500 text-center py-4">No recorded changes</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {auditTrail.map((entry) => (
+        <li key={entry.id} className="ml-4 text-sm">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-primary" />
+          <div className="flex justify-between items-start">
+            <span className="font-medium">
+              {actionLabels[entry.action] ?? entry.action} by {entry.user?.name ?? "System"}
+            </span>
+            <span className="text-xs text-gray-500">{format(new Date(entry.createdAt), "dd MMM yyyy HH:mm")}</span>
+          </div>
+          {entry.action === "update" && (
+            <ul className="mt-1 space-y-0.5 text-gray-700">
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <li key={field}>
+                  <span className="text-gray-500">{fieldLabels[field] ?? field}:</span>{" "}
+                  <span className="line-through text-gray-400">{formatValue(field, change.from)}</span>{" "}
+                  → {formatValue(field, change.to)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AuditTimeline;
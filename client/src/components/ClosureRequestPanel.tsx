@@ -0,0 +1,237 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  closureRequestInputSchema,
+  PicaClosureRequestWithRelations,
+  PicaEffectivenessReviewWithRelations,
+  PicaWithRelations,
+  ReopenPicaInput,
+} from "@shared/schema";
+import { z } from "zod";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+type ClosureRequestFormValues = z.infer<typeof closureRequestInputSchema>;
+
+interface ClosureRequestPanelProps {
+  pica: PicaWithRelations;
+}
+
+const closureStatusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+export const effectivenessStatusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  effective: "bg-green-100 text-green-800",
+  ineffective: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+// Closure request form (or reopen form once closed) and the PICA's past closure decisions
+const ClosureRequestPanel: React.FC<ClosureRequestPanelProps> = ({ pica }) => {
+  const { toast } = useToast();
+  const { getCategory } = useWorkflow();
+
+  const { data: closureRequests, isLoading } = useQuery<PicaClosureRequestWithRelations[]>({
+    queryKey: [`/api/picas/${pica.id}/closure-requests`],
+  });
+
+  const form = useForm<ClosureRequestFormValues>({
+    resolver: zodResolver(closureRequestInputSchema),
+    defaultValues: {
+      completionNote: "",
+      evidence: "",
+    },
+  });
+
+  const requestClosure = useMutation({
+    mutationFn: async (data: ClosureRequestFormValues) => {
+      return apiRequest("POST", `/api/picas/${pica.id}/closure-requests`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+      form.reset();
+      toast({
+        title: "Success",
+        description: "Closure submitted for verification",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to request closure"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: effectivenessReviews } = useQuery<PicaEffectivenessReviewWithRelations[]>({
+    queryKey: [`/api/picas/${pica.id}/effectiveness-reviews`],
+  });
+
+  const [reopenReason, setReopenReason] = useState("");
+
+  const reopenPica = useMutation({
+    mutationFn: async (data: ReopenPicaInput) => {
+      return apiRequest("POST", `/api/picas/${pica.id}/reopen`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+      setReopenReason("");
+      toast({
+        title: "Success",
+        description: "PICA reopened",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to reopen PICA"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingRequest = closureRequests?.find((request) => request.status === "pending");
+  const isComplete = getCategory(pica.status) === "complete";
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : isComplete ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            This PICA has been closed.
+            {pica.reopenCount > 0 && ` It has been reopened ${pica.reopenCount} time${pica.reopenCount === 1 ? "" : "s"} before.`}
+          </p>
+          <Textarea
+            value={reopenReason}
+            onChange={(e) => setReopenReason(e.target.value)}
+            rows={2}
+            placeholder="Why does this PICA need to be reopened?"
+          />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => reopenPica.mutate({ reason: reopenReason })}
+              disabled={!reopenReason.trim() || reopenPica.isPending}
+            >
+              {reopenPica.isPending ? "Reopening..." : "Reopen PICA"}
+            </Button>
+          </div>
+        </div>
+      ) : pendingRequest ? (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm">
+          Closure submitted on {formatDate(pendingRequest.createdAt)} is awaiting verification by{" "}
+          <strong>{pendingRequest.verifier?.name ?? "an administrator"}</strong>.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => requestClosure.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="completionNote"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Completion Note</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder="Describe how the corrective action was completed" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="evidence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Evidence</FormLabel>
+                  <FormDescription>Describe or link the evidence the verifier should check</FormDescription>
+                  <FormControl>
+                    <Textarea {...field} rows={2} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={requestClosure.isPending}>
+                {requestClosure.isPending ? "Submitting..." : "Request Closure"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+
+      {effectivenessReviews && effectivenessReviews.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-700">Effectiveness Checks</h3>
+          {effectivenessReviews.map((review) => (
+            <div key={review.id} className="border-b pb-2 text-sm">
+              <div className="flex justify-between items-center">
+                <span>
+                  {review.daysAfterClosure} days after closure · due {formatDate(review.dueDate)}
+                  {review.reviewer && <span className="text-gray-500"> · {review.reviewer.name}</span>}
+                </span>
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${effectivenessStatusStyles[review.status] ?? ""}`}>
+                  {review.status}
+                </span>
+              </div>
+              {review.decidedAt && (
+                <p className="text-gray-500 mt-1">
+                  Reviewed by {review.decidedBy?.name ?? "unknown"} on {formatDate(review.decidedAt)}
+                  {review.notes ? `: ${review.notes}` : ""}
+                  {review.followUp === "reopen" && " · PICA reopened"}
+                  {review.followUpPica && ` · follow-up ${review.followUpPica.picaId} raised`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {closureRequests && closureRequests.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-700">Closure Requests</h3>
+          {closureRequests.map((request) => (
+            <div key={request.id} className="border-b pb-3 text-sm">
+              <div className="flex justify-between items-start mb-1">
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${closureStatusStyles[request.status] ?? ""}`}>
+                  {request.status}
+                </span>
+                <span className="text-gray-500">{formatDate(request.createdAt)}</span>
+              </div>
+              <p className="text-gray-700">{request.completionNote}</p>
+              <p className="text-gray-500 mt-1"><strong>Evidence:</strong> {request.evidence}</p>
+              {request.decidedAt && (
+                <p className="text-gray-500 mt-1">
+                  {request.status === "approved" ? "Approved" : "Rejected"} by {request.decidedBy?.name ?? "unknown"} on{" "}
+                  {formatDate(request.decidedAt)}
+                  {request.decisionReason ? `: ${request.decisionReason}` : ""}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClosureRequestPanel;
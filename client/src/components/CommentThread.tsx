@@ -0,0 +1,273 @@
+import React, { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PicaCommentWithAuthor, UserSummary } from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { renderMarkdownLite } from "@/lib/markdownLite";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+
+interface CommentThreadProps {
+  picaId: number;
+}
+
+interface CommentEditorProps {
+  initialValue?: string;
+  submitLabel: string;
+  isPending: boolean;
+  users: UserSummary[];
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}
+
+// Textarea with @mention suggestions for the word being typed
+const CommentEditor: React.FC<CommentEditorProps> = ({ initialValue = "", submitLabel, isPending, users, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : users
+        .filter((user) =>
+          user.username.toLowerCase().startsWith(mentionQuery.toLowerCase()) ||
+          user.name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+  // Track the "@partial" word right before the cursor
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setValue(e.target.value);
+    const beforeCursor = e.target.value.slice(0, e.target.selectionStart);
+    const match = beforeCursor.match(/(?:^|[^\w@])@([\w.-]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (username: string) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? value.length;
+    const beforeCursor = value.slice(0, cursor).replace(/@([\w.-]*)$/, `@${username} `);
+    setValue(beforeCursor + value.slice(cursor));
+    setMentionQuery(null);
+    textarea?.focus();
+  };
+
+  const handleSubmit = () => {
+    if (!value.trim()) return;
+    onSubmit(value);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={handleChange}
+          rows={3}
+          placeholder="Write a comment. Use @username to mention, **bold**, *italic*, `code` and - lists"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-64 rounded-md border bg-white shadow-md text-sm">
+            {suggestions.map((user) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-1.5 text-left hover:bg-gray-100"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(user.username);
+                  }}
+                >
+                  <span className="font-medium">{user.name}</span>{" "}
+                  <span className="text-gray-500">@{user.username}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={isPending || !value.trim()}>
+          {isPending ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Comment thread of a PICA with one level of replies
+const CommentThread: React.FC<CommentThreadProps> = ({ picaId }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const commentsKey = [`/api/picas/${picaId}/comments`];
+
+  const { data: comments, isLoading } = useQuery<PicaCommentWithAuthor[]>({
+    queryKey: commentsKey,
+  });
+
+  const { data: mentionableUsers = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/users/mentionable"],
+  });
+
+  const usernames = new Set(mentionableUsers.map((mentionable) => mentionable.username.toLowerCase()));
+  const isMention = (username: string) => usernames.has(username.toLowerCase());
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createComment = useMutation({
+    mutationFn: async (data: { body: string; parentId?: number }) => {
+      return apiRequest("POST", `/api/picas/${picaId}/comments`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setReplyTo(null);
+    },
+    onError: onError("Failed to add comment"),
+  });
+
+  const updateComment = useMutation({
+    mutationFn: async (data: { id: number; body: string }) => {
+      return apiRequest("PUT", `/api/picas/${picaId}/comments/${data.id}`, { body: data.body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setEditingId(null);
+    },
+    onError: onError("Failed to update comment"),
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/picas/${picaId}/comments/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: onError("Failed to delete comment"),
+  });
+
+  const topLevelComments = comments?.filter((comment) => !comment.parentId) ?? [];
+  const repliesOf = (commentId: number) => comments?.filter((comment) => comment.parentId === commentId) ?? [];
+
+  const renderComment = (comment: PicaCommentWithAuthor) => {
+    const isOwn = comment.userId === user?.id;
+    const isEdited = new Date(comment.updatedAt).getTime() - new Date(comment.createdAt).getTime() > 1000;
+
+    return (
+      <div className="text-sm">
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="font-medium text-gray-900">{comment.author?.name ?? "Unknown user"}</span>{" "}
+            <span className="text-xs text-gray-500">
+              {formatDate(comment.createdAt)}{isEdited && !comment.deletedAt ? " · edited" : ""}
+            </span>
+          </div>
+          {!comment.deletedAt && (
+            <div className="flex gap-1">
+              {!comment.parentId && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setReplyTo(comment.id)}>
+                  <Reply className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {isOwn && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(comment.id)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {(isOwn || user?.role === "admin") && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteComment.mutate(comment.id)}
+                  disabled={deleteComment.isPending}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+        {comment.deletedAt ? (
+          <p className="text-gray-400 italic">This comment was deleted</p>
+        ) : editingId === comment.id ? (
+          <CommentEditor
+            initialValue={comment.body}
+            submitLabel="Save"
+            isPending={updateComment.isPending}
+            users={mentionableUsers}
+            onSubmit={(body) => updateComment.mutate({ id: comment.id, body })}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <div className="text-gray-700 space-y-1">{renderMarkdownLite(comment.body, isMention)}</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </div>
+      ) : topLevelComments.length > 0 ? (
+        <div className="space-y-4">
+          {topLevelComments.map((comment) => (
+            <div key={comment.id} className="border-b pb-3">
+              {renderComment(comment)}
+              <div className="ml-6 mt-2 space-y-3 border-l pl-3">
+                {repliesOf(comment.id).map((reply) => (
+                  <div key={reply.id}>{renderComment(reply)}</div>
+                ))}
+                {replyTo === comment.id && (
+                  <CommentEditor
+                    submitLabel="Reply"
+                    isPending={createComment.isPending}
+                    users={mentionableUsers}
+                    onSubmit={(body) => createComment.mutate({ body, parentId: comment.id })}
+                    onCancel={() => setReplyTo(null)}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-4 flex items-center justify-center gap-2">
+          <MessageSquare className="h-4 w-4" /> No comments yet
+        </p>
+      )}
+
+      {/* Remount after each new comment so the editor starts empty again */}
+      <CommentEditor
+        key={comments?.length ?? 0}
+        submitLabel="Comment"
+        isPending={createComment.isPending && replyTo === null}
+        users={mentionableUsers}
+        onSubmit={(body) => createComment.mutate({ body })}
+      />
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DigestFrequency, DigestPreferencesInput, PicaDigest } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+
+interface DigestPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const frequencyLabels: Record<DigestFrequency, string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+const weekdayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// The browser's time zone, used until the user saves their own
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// The signed-in user's daily or weekly digest email subscription
+const DigestPreferencesDialog: React.FC<DigestPreferencesDialogProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DigestPreferencesInput>({
+    frequency: "off",
+    weekday: 1,
+    hour: 7,
+    timeZone: browserTimeZone,
+  });
+
+  const { data: preferences } = useQuery<DigestPreferencesInput & { id?: number }>({
+    queryKey: ["/api/digest-preferences"],
+    enabled: open,
+  });
+
+  const { data: preview, error: previewError } = useQuery<PicaDigest>({
+    queryKey: ["/api/digest-preferences/preview"],
+    enabled: open,
+  });
+
+  // Start from the saved subscription; a user who never saved one gets their browser's time zone
+  useEffect(() => {
+    if (preferences) {
+      setForm({
+        frequency: preferences.frequency,
+        weekday: preferences.weekday,
+        hour: preferences.hour,
+        timeZone: preferences.id ? preferences.timeZone : browserTimeZone,
+      });
+    }
+  }, [preferences]);
+
+  const savePreferences = useMutation({
+    mutationFn: async (data: DigestPreferencesInput) => {
+      return apiRequest("PUT", "/api/digest-preferences", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/digest-preferences"] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: form.frequency === "off" ? "Digest emails turned off" : "Digest preferences saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save digest preferences"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email Digests</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            A summary of your open and overdue PICAs, plus the sites you manage and the departments you head.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select
+              value={form.frequency}
+              onValueChange={(value) => setForm({ ...form, frequency: value as DigestFrequency })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(frequencyLabels) as DigestFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {frequencyLabels[frequency]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {form.frequency !== "off" && (
+            <div className="grid grid-cols-2 gap-4">
+              {form.frequency === "weekly" && (
+                <div className="space-y-2">
+                  <Label>Day</Label>
+                  <Select
+                    value={form.weekday.toString()}
+                    onValueChange={(value) => setForm({ ...form, weekday: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {weekdayLabels.map((label, index) => (
+                        <SelectItem key={label} value={index.toString()}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Time</Label>
+                <Select
+                  value={form.hour.toString()}
+                  onValueChange={(value) => setForm({ ...form, hour: parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>
+                        {`${hour.toString().padStart(2, "0")}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Time zone</Label>
+                <Input
+                  value={form.timeZone}
+                  onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+                  placeholder="e.g. Asia/Jakarta"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="rounded-md border bg-gray-50 p-3 text-sm text-gray-700">
+            {preview ? (
+              <>
+                Your digest currently covers {preview.progressCount + preview.overdueCount} open PICA(s)
+                ({preview.overdueCount} overdue), {preview.sites.length} site(s) and {preview.departments.length} department(s).
+              </>
+            ) : previewError ? (
+              getApiErrorMessage(previewError, "Digest preview is unavailable")
+            ) : (
+              "Loading preview..."
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => savePreferences.mutate(form)} disabled={savePreferences.isPending}>
+            {savePreferences.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DigestPreferencesDialog;
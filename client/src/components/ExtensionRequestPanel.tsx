@@ -0,0 +1,166 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { extensionRequestInputSchema, PicaDueDateExtensionWithRelations, PicaWithRelations } from "@shared/schema";
+import { z } from "zod";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+type ExtensionRequestFormValues = z.infer<typeof extensionRequestInputSchema>;
+
+interface ExtensionRequestPanelProps {
+  pica: PicaWithRelations;
+}
+
+const extensionStatusStyles: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Original and current due date, extension request form and past extension decisions
+const ExtensionRequestPanel: React.FC<ExtensionRequestPanelProps> = ({ pica }) => {
+  const { toast } = useToast();
+  const { getCategory } = useWorkflow();
+
+  const { data: extensionRequests, isLoading } = useQuery<PicaDueDateExtensionWithRelations[]>({
+    queryKey: [`/api/picas/${pica.id}/extension-requests`],
+  });
+
+  const form = useForm<ExtensionRequestFormValues>({
+    resolver: zodResolver(extensionRequestInputSchema),
+    defaultValues: {
+      requestedDueDate: "",
+      justification: "",
+    },
+  });
+
+  const requestExtension = useMutation({
+    mutationFn: async (data: ExtensionRequestFormValues) => {
+      return apiRequest("POST", `/api/picas/${pica.id}/extension-requests`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+      form.reset();
+      toast({
+        title: "Success",
+        description: "Extension submitted for approval",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to request extension"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingRequest = extensionRequests?.find((request) => request.status === "pending");
+  const isComplete = getCategory(pica.status) === "complete";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 rounded-md border p-3 text-sm">
+        <div>
+          <div className="text-gray-500">Original due date</div>
+          <div className="font-medium">{formatDate(pica.originalDueDate ?? pica.dueDate)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Current due date</div>
+          <div className="font-medium">{formatDate(pica.dueDate)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Extensions</div>
+          <div className="font-medium">{pica.extensionCount}</div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : isComplete ? (
+        <p className="text-sm text-gray-600">This PICA has been closed.</p>
+      ) : pendingRequest ? (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm">
+          Extension to {formatDate(pendingRequest.requestedDueDate)} submitted on {formatDate(pendingRequest.createdAt)} is
+          awaiting approval by <strong>{pendingRequest.approver?.name ?? "an administrator"}</strong>.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => requestExtension.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="requestedDueDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Requested Due Date</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="date" min={pica.dueDate} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="justification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Justification</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder="Explain why the due date needs to move" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={requestExtension.isPending}>
+                {requestExtension.isPending ? "Submitting..." : "Request Extension"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+
+      {extensionRequests && extensionRequests.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-700">Extension Requests</h3>
+          {extensionRequests.map((request) => (
+            <div key={request.id} className="border-b pb-3 text-sm">
+              <div className="flex justify-between items-start mb-1">
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${extensionStatusStyles[request.status] ?? ""}`}>
+                  {request.status}
+                </span>
+                <span className="text-gray-500">{formatDate(request.createdAt)}</span>
+              </div>
+              <p className="text-gray-700">
+                {formatDate(request.previousDueDate)} → {formatDate(request.requestedDueDate)}
+              </p>
+              <p className="text-gray-500 mt-1"><strong>Justification:</strong> {request.justification}</p>
+              {request.decidedAt && (
+                <p className="text-gray-500 mt-1">
+                  {request.status === "approved" ? "Approved" : "Rejected"} by {request.decidedBy?.name ?? "unknown"} on{" "}
+                  {formatDate(request.decidedAt)}
+                  {request.decisionReason ? `: ${request.decisionReason}` : ""}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtensionRequestPanel;
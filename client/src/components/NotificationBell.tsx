@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { UserNotificationPage, UserNotificationWithRelations } from "@shared/schema";
+import { formatDate, cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+// Bell with the current user's unread count; each notification opens its PICA
+const NotificationBell: React.FC<NotificationBellProps> = ({ className }) => {
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+
+  // Poll for new notifications while the app is open
+  const { data } = useQuery<UserNotificationPage>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60000,
+  });
+
+  const markRead = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: UserNotificationWithRelations) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    setOpen(false);
+    navigate(`/pica-progress?pica=${notification.pica.id}`);
+  };
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const items = data?.items ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn("relative p-2 rounded-lg transition-colors", className)}
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="text-sm font-medium">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => markAllRead.mutate()}
+            disabled={unreadCount === 0 || markAllRead.isPending}
+          >
+            Mark all read
+          </Button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">You have no notifications</p>
+          ) : (
+            items.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50",
+                  !notification.readAt && "bg-primary/5"
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 flex-shrink-0 rounded-full",
+                      notification.readAt ? "bg-transparent" : "bg-primary"
+                    )}
+                  />
+                  <div className="min-w-0">
+                    <p className={cn("text-sm text-gray-800 break-words", !notification.readAt && "font-medium")}>
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {formatDate(notification.createdAt)}
+                      {notification.actor ? ` · ${notification.actor.name}` : ""}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
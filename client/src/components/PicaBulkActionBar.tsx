@@ -0,0 +1,215 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Person, PicaBulkAction, PicaBulkResult } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+
+type BulkActionType = PicaBulkAction["action"];
+
+interface PicaBulkActionBarProps {
+  picaIds: number[];
+  people: Person[];
+  onDone: (updatedIds: number[]) => void;
+  onClear: () => void;
+}
+
+const bulkActionTitles: Record<BulkActionType, string> = {
+  reassign: "Reassign Person in Charge",
+  due_date: "Change Due Date",
+  status: "Change Status",
+  delete: "Delete PICAs",
+};
+
+// Actions applied to every PICA selected in the PICA Progress table
+const PicaBulkActionBar: React.FC<PicaBulkActionBarProps> = ({ picaIds, people, onDone, onClear }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { statuses, getCategory } = useWorkflow();
+  const [action, setAction] = useState<BulkActionType | null>(null);
+  const [personInChargeId, setPersonInChargeId] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [status, setStatus] = useState("");
+  const [comment, setComment] = useState("");
+  const [failures, setFailures] = useState<PicaBulkResult["failed"]>([]);
+
+  // Completing and reopening have their own approval steps, so they're not offered here
+  const statusOptions = statuses.filter((option) => getCategory(option.key) !== "complete");
+
+  const openAction = (nextAction: BulkActionType) => {
+    setAction(nextAction);
+    setPersonInChargeId("");
+    setDueDate("");
+    setStatus("");
+    setComment("");
+    setFailures([]);
+  };
+
+  const buildRequest = (): PicaBulkAction | undefined => {
+    switch (action) {
+      case "reassign":
+        return personInChargeId
+          ? { action, picaIds, personInChargeId: parseInt(personInChargeId), comment: comment || undefined }
+          : undefined;
+      case "due_date":
+        return dueDate && comment.trim() ? { action, picaIds, dueDate, comment } : undefined;
+      case "status":
+        return status ? { action, picaIds, status, comment: comment || undefined } : undefined;
+      case "delete":
+        return { action, picaIds };
+      default:
+        return undefined;
+    }
+  };
+
+  const applyAction = useMutation({
+    mutationFn: async (request: PicaBulkAction) => {
+      const res = await apiRequest("POST", "/api/picas/bulk", request);
+      return (await res.json()) as PicaBulkResult;
+    },
+    onSuccess: (result) => {
+      invalidateRelatedQueries('picas');
+      result.updated.forEach((id) => invalidateRelatedQueries('picas', id));
+      onDone(result.updated);
+      toast({
+        title: result.failed.length > 0 ? "Partly applied" : "Success",
+        description: `Updated ${result.updated.length} of ${result.updated.length + result.failed.length} PICAs`,
+        variant: result.updated.length === 0 ? "destructive" : undefined,
+      });
+      // Keep the dialog open to show why some PICAs were skipped
+      if (result.failed.length > 0) {
+        setFailures(result.failed);
+      } else {
+        setAction(null);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update PICAs"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const request = buildRequest();
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-4 rounded-md border border-primary/20 bg-primary/5 p-3 text-sm">
+        <span className="font-medium text-gray-700 mr-2">{picaIds.length} selected</span>
+        <Button size="sm" variant="outline" onClick={() => openAction("reassign")}>Reassign</Button>
+        <Button size="sm" variant="outline" onClick={() => openAction("due_date")}>Change Due Date</Button>
+        <Button size="sm" variant="outline" onClick={() => openAction("status")}>Change Status</Button>
+        {user?.role === "admin" && (
+          <Button size="sm" variant="outline" className="text-red-600" onClick={() => openAction("delete")}>Delete</Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onClear}>Clear selection</Button>
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action ? bulkActionTitles[action] : ""}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Applies to {picaIds.length} selected PICA{picaIds.length === 1 ? "" : "s"}.</p>
+
+            {action === "reassign" && (
+              <div className="space-y-2">
+                <Label>New person in charge</Label>
+                <Select value={personInChargeId} onValueChange={setPersonInChargeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {people.map((person) => (
+                      <SelectItem key={person.id} value={person.id.toString()}>
+                        {person.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {action === "due_date" && (
+              <div className="space-y-2">
+                <Label>New due date</Label>
+                <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                <p className="text-xs text-gray-500">
+                  An extension request is filed for each PICA; due dates change once its verifier approves.
+                </p>
+              </div>
+            )}
+
+            {action === "status" && (
+              <div className="space-y-2">
+                <Label>New status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusOptions.map((option) => (
+                      <SelectItem key={option.key} value={option.key}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {action === "delete" && (
+              <p className="text-sm">The selected PICAs are moved to the trash, where an admin can restore them.</p>
+            )}
+
+            {action && action !== "delete" && (
+              <div className="space-y-2">
+                <Label>{action === "due_date" ? "Justification" : "Comment (added to each PICA's history)"}</Label>
+                <Textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={3} />
+              </div>
+            )}
+
+            {failures.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm">
+                <p className="font-medium text-amber-800 mb-1">Skipped {failures.length} PICA{failures.length === 1 ? "" : "s"}:</p>
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-amber-900">
+                  {failures.map((failure) => (
+                    <li key={failure.id}>
+                      <strong>{failure.picaId ?? `#${failure.id}`}</strong>: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              {failures.length > 0 ? "Close" : "Cancel"}
+            </Button>
+            <Button
+              variant={action === "delete" ? "destructive" : "default"}
+              onClick={() => request && applyAction.mutate(request)}
+              disabled={!request || applyAction.isPending || failures.length > 0}
+            >
+              {applyAction.isPending ? "Applying..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PicaBulkActionBar;
@@ -1,6 +1,7 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { useWorkflow } from "@/hooks/use-workflow";
 
 interface PicaFilterButtonsProps {
   activeFilter: string;
@@ -11,11 +12,12 @@ const PicaFilterButtons: React.FC<PicaFilterButtonsProps> = ({
   activeFilter,
   onFilterChange,
 }) => {
+  const { statuses } = useWorkflow();
+
+  // One button per status of the organization's workflow
   const filters = [
     { id: "all", label: "All" },
-    { id: "progress", label: "Progress" },
-    { id: "complete", label: "Complete" },
-    { id: "overdue", label: "Overdue" },
+    ...statuses.map((status) => ({ id: status.key, label: status.label })),
   ];
 
   return (
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  picaLinkTypeEnum,
+  PicaLinkInput,
+  PicaLinkType,
+  PicaLinkWithPica,
+  PicaListPage,
+  PicaWithRelations,
+  SimilarPica,
+} from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import StatusBadge from "@/components/StatusBadge";
+import { AlertTriangle, Link2, Trash2 } from "lucide-react";
+
+interface PicaLinksPanelProps {
+  pica: PicaWithRelations;
+}
+
+// How a link reads from the PICA it starts at...
+export const picaLinkTypeLabels: Record<PicaLinkType, string> = {
+  duplicate_of: "Duplicate of",
+  caused_by: "Caused by",
+  related_to: "Related to",
+  recurrence_of: "Recurrence of",
+};
+
+// ...and from the PICA it points at
+const incomingLinkTypeLabels: Record<PicaLinkType, string> = {
+  duplicate_of: "Has duplicate",
+  caused_by: "Causes",
+  related_to: "Related to",
+  recurrence_of: "Recurred as",
+};
+
+// Links to other PICAs, plus earlier PICAs at the same site that look like the same finding
+const PicaLinksPanel: React.FC<PicaLinksPanelProps> = ({ pica }) => {
+  const { toast } = useToast();
+  const [linkType, setLinkType] = useState<PicaLinkType>("related_to");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const { data: links, isLoading } = useQuery<PicaLinkWithPica[]>({
+    queryKey: [`/api/picas/${pica.id}/links`],
+  });
+
+  const { data: searchResults } = useQuery<PicaListPage>({
+    queryKey: ["/api/picas", { search: debouncedSearch, pageSize: 10 }],
+    enabled: debouncedSearch.length > 0,
+  });
+
+  const { data: similarPicas } = useQuery<SimilarPica[]>({
+    queryKey: ["/api/picas/similar", { projectSiteId: pica.projectSiteId, issue: pica.issue, excludeId: pica.id }],
+  });
+
+  const linkedIds = new Set(links?.map((link) => link.linkedPica.id) ?? []);
+
+  const addLink = useMutation({
+    mutationFn: async (data: PicaLinkInput) => {
+      return apiRequest("POST", `/api/picas/${pica.id}/links`, data);
+    },
+    onSuccess: (_, data) => {
+      invalidateRelatedQueries('picas', pica.id);
+      invalidateRelatedQueries('picas', data.targetPicaId);
+      setSearchQuery("");
+      toast({
+        title: "Success",
+        description: "PICAs linked",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to link PICAs"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeLink = useMutation({
+    mutationFn: async (link: PicaLinkWithPica) => {
+      return apiRequest("DELETE", `/api/picas/${pica.id}/links/${link.id}`);
+    },
+    onSuccess: (_, link) => {
+      invalidateRelatedQueries('picas', pica.id);
+      invalidateRelatedQueries('picas', link.linkedPica.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to remove link"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const candidates = searchResults?.items.filter((item) => item.id !== pica.id && !linkedIds.has(item.id)) ?? [];
+  const suggestions = similarPicas?.filter((item) => !linkedIds.has(item.id)) ?? [];
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-700">Linked PICAs</h3>
+        {links && links.length > 0 ? (
+          <ul className="space-y-2">
+            {links.map((link) => {
+              const type = link.linkType as PicaLinkType;
+              const label = link.direction === "outgoing" ? picaLinkTypeLabels[type] : incomingLinkTypeLabels[type];
+              return (
+                <li key={link.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="text-gray-500 mr-2">{label ?? link.linkType}</span>
+                    <span className="font-medium text-gray-900 mr-2">{link.linkedPica.picaId}</span>
+                    <StatusBadge status={link.linkedPica.status} size="xs" />
+                    <div className="text-xs text-gray-500 truncate">
+                      {formatDate(link.linkedPica.date)} · {link.linkedPica.issue}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    onClick={() => removeLink.mutate(link)}
+                    disabled={removeLink.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Not linked to any other PICA</p>
+        )}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
+          <h3 className="flex items-center gap-1 text-sm font-semibold text-amber-800">
+            <AlertTriangle className="h-4 w-4" /> Possible repeat findings at this site
+          </h3>
+          <ul className="space-y-1">
+            {suggestions.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="min-w-0 truncate text-gray-700">
+                  <strong>{item.picaId}</strong> ({Math.round(item.similarity * 100)}% similar) · {item.issue}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLink.mutate({ targetPicaId: item.id, linkType: "recurrence_of" })}
+                  disabled={addLink.isPending}
+                >
+                  Link as recurrence
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2 rounded-md border p-3">
+        <h3 className="text-sm font-semibold text-gray-700">Add Link</h3>
+        <div className="flex gap-2">
+          <Select value={linkType} onValueChange={(value) => setLinkType(value as PicaLinkType)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {picaLinkTypeEnum.options.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {picaLinkTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search PICA ID or issue"
+          />
+        </div>
+        {debouncedSearch && (
+          <ul className="max-h-48 overflow-y-auto divide-y rounded-md border">
+            {candidates.length > 0 ? candidates.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-2 p-2 text-sm">
+                <span className="min-w-0 truncate text-gray-700">
+                  <strong>{item.picaId}</strong> · {item.issue}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => addLink.mutate({ targetPicaId: item.id, linkType })}
+                  disabled={addLink.isPending}
+                >
+                  <Link2 className="h-4 w-4 mr-1" /> Link
+                </Button>
+              </li>
+            )) : (
+              <li className="p-2 text-sm text-gray-500">No matching PICAs</li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PicaLinksPanel;
@@ -0,0 +1,30 @@
+import React from "react";
+import { colorClasses } from "@/lib/utils";
+import { useRiskMatrix } from "@/hooks/use-risk-matrix";
+
+interface RiskBadgeProps {
+  level: string | null;
+  score?: number | null;
+  size?: 'xs' | 'sm' | 'default';
+}
+
+const RiskBadge: React.FC<RiskBadgeProps> = ({ level, score, size = 'default' }) => {
+  const { getLevel } = useRiskMatrix();
+  const definition = level ? getLevel(level) : undefined;
+  const { bg, text } = colorClasses(definition?.color ?? "gray");
+
+  const sizeClasses = {
+    xs: 'px-1.5 py-0.5 text-xs leading-4',
+    sm: 'px-2 py-0.5 text-xs leading-4',
+    default: 'px-2 py-0.5 text-sm leading-5'
+  };
+
+  return (
+    <span className={`inline-flex font-semibold rounded-full whitespace-nowrap ${sizeClasses[size]} ${bg} ${text}`}>
+      {level ? definition?.label ?? level : "Unrated"}
+      {score ? ` · ${score}` : ""}
+    </span>
+  );
+};
+
+export default RiskBadge;
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  FishboneCategory,
+  fishboneCategoryEnum,
+  MAX_WHYS,
+  PicaRootCauseAnalysisWithFactors,
+  PicaWithRelations,
+  RootCauseAnalysisInput,
+} from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, X } from "lucide-react";
+
+interface RootCausePanelProps {
+  pica: PicaWithRelations;
+}
+
+export const fishboneCategoryLabels: Record<FishboneCategory, string> = {
+  man: "Man",
+  machine: "Machine",
+  method: "Method",
+  material: "Material",
+  measurement: "Measurement",
+  environment: "Environment",
+};
+
+type Factor = RootCauseAnalysisInput["factors"][number];
+
+// 5-Why chain and Ishikawa breakdown of a PICA, saved together
+const RootCausePanel: React.FC<RootCausePanelProps> = ({ pica }) => {
+  const { toast } = useToast();
+  const [whys, setWhys] = useState<string[]>([""]);
+  const [rootCause, setRootCause] = useState("");
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [newCauses, setNewCauses] = useState<Partial<Record<FishboneCategory, string>>>({});
+
+  const { data: analysis, isLoading } = useQuery<PicaRootCauseAnalysisWithFactors | null>({
+    queryKey: [`/api/picas/${pica.id}/root-cause`],
+  });
+
+  // Start editing from the saved analysis once it has loaded
+  useEffect(() => {
+    if (analysis === undefined) return;
+    setWhys(analysis && analysis.whys.length > 0 ? analysis.whys : [""]);
+    setRootCause(analysis?.rootCause ?? "");
+    setFactors(analysis?.factors.map(({ category, description }) => ({ category: category as FishboneCategory, description })) ?? []);
+  }, [analysis]);
+
+  const saveAnalysis = useMutation({
+    mutationFn: async () => {
+      const data: RootCauseAnalysisInput = {
+        whys: whys.map((why) => why.trim()).filter(Boolean),
+        rootCause: rootCause.trim() || null,
+        factors,
+      };
+      return apiRequest("PUT", `/api/picas/${pica.id}/root-cause`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', pica.id);
+      toast({
+        title: "Success",
+        description: "Root cause analysis saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save root cause analysis"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateWhy = (index: number, value: string) => {
+    setWhys((current) => current.map((why, whyIndex) => (whyIndex === index ? value : why)));
+  };
+
+  const addCause = (category: FishboneCategory) => {
+    const description = newCauses[category]?.trim();
+    if (!description) return;
+    setFactors((current) => [...current, { category, description }]);
+    setNewCauses((current) => ({ ...current, [category]: "" }));
+  };
+
+  const removeCause = (factor: Factor) => {
+    setFactors((current) => current.filter((item) => item !== factor));
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-700">5 Whys</h3>
+        <p className="text-xs text-gray-500"><strong>Problem:</strong> {pica.problemIdentification}</p>
+        {whys.map((why, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-14 shrink-0 text-xs font-medium text-gray-500">Why {index + 1}?</span>
+            <Input value={why} onChange={(e) => updateWhy(index, e.target.value)} placeholder="Because..." />
+            {whys.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setWhys((current) => current.filter((_, whyIndex) => whyIndex !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {whys.length < MAX_WHYS && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setWhys((current) => [...current, ""])}>
+            <Plus className="h-4 w-4 mr-1" /> Ask why again
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-700">Root Cause</h3>
+        <Textarea value={rootCause} onChange={(e) => setRootCause(e.target.value)} rows={2} placeholder="Concluded root cause" />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-700">Fishbone</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {fishboneCategoryEnum.options.map((category) => (
+            <div key={category} className="rounded-md border p-2 text-sm">
+              <div className="font-medium text-gray-800 mb-1">{fishboneCategoryLabels[category]}</div>
+              <ul className="space-y-1 mb-2">
+                {factors.filter((factor) => factor.category === category).map((factor, index) => (
+                  <li key={index} className="flex items-start justify-between gap-1 text-gray-700">
+                    <span>• {factor.description}</span>
+                    <button type="button" className="text-gray-400 hover:text-red-500" onClick={() => removeCause(factor)}>
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-1">
+                <Input
+                  className="h-7 text-xs"
+                  value={newCauses[category] ?? ""}
+                  onChange={(e) => setNewCauses((current) => ({ ...current, [category]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addCause(category);
+                    }
+                  }}
+                  placeholder="Add cause"
+                />
+                <Button type="button" variant="outline" size="sm" className="h-7 px-2" onClick={() => addCause(category)}>
+                  <Plus className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-500">
+          {analysis ? `Last updated by ${analysis.updatedBy?.name ?? "unknown"} on ${formatDate(analysis.updatedAt)}` : "Not analysed yet"}
+        </span>
+        <Button type="button" onClick={() => saveAnalysis.mutate()} disabled={saveAnalysis.isPending}>
+          {saveAnalysis.isPending ? "Saving..." : "Save Analysis"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RootCausePanel;
@@ -1,5 +1,6 @@
 import React from "react";
 import { statusColor } from "@/lib/utils";
+import { useWorkflow } from "@/hooks/use-workflow";
 
 interface StatusBadgeProps {
   status: string;
@@ -7,7 +8,8 @@ interface StatusBadgeProps {
 }
 
 const StatusBadge: React.FC<StatusBadgeProps> = ({ status, size = 'default' }) => {
-  const { bg, text, label } = statusColor(status);
+  const { getStatus } = useWorkflow();
+  const { bg, text, label } = statusColor(status, getStatus(status));
 
   const sizeClasses = {
     xs: 'px-1.5 py-0.5 text-xs leading-4',
@@ -0,0 +1,66 @@
+import React from "react";
+import { RISK_SCALE, RiskHeatMapCell } from "@shared/schema";
+import { colorClasses } from "@/lib/utils";
+import { useRiskMatrix } from "@/hooks/use-risk-matrix";
+
+interface RiskHeatMapProps {
+  cells: RiskHeatMapCell[];
+}
+
+const ratings = Array.from({ length: RISK_SCALE }, (_, index) => index + 1);
+
+// Severity × likelihood grid of open PICAs, each cell tinted by its risk level
+const RiskHeatMap: React.FC<RiskHeatMapProps> = ({ cells }) => {
+  const { matrix, getRisk, getLevel } = useRiskMatrix();
+
+  const countAt = (severity: number, likelihood: number) =>
+    cells.find((cell) => cell.severity === severity && cell.likelihood === likelihood)?.count ?? 0;
+
+  return (
+    <div className="flex">
+      <div className="flex items-center">
+        <span className="text-[10px] font-medium text-gray-500 [writing-mode:vertical-lr] rotate-180">Severity</span>
+      </div>
+      <div className="flex-1">
+        <table className="w-full table-fixed border-separate border-spacing-0.5">
+          <tbody>
+            {/* Highest severity on top */}
+            {[...ratings].reverse().map((severity) => (
+              <tr key={severity}>
+                <th className="w-24 text-right pr-1 text-[10px] font-normal text-gray-600 truncate" title={matrix.severityLabels[severity - 1]}>
+                  {severity} {matrix.severityLabels[severity - 1]}
+                </th>
+                {ratings.map((likelihood) => {
+                  const { riskLevel, riskScore } = getRisk(severity, likelihood);
+                  const level = riskLevel ? getLevel(riskLevel) : undefined;
+                  const { bg, text } = colorClasses(level?.color ?? "gray");
+                  const count = countAt(severity, likelihood);
+                  return (
+                    <td
+                      key={likelihood}
+                      className={`h-7 rounded text-center text-xs ${bg} ${text} ${count > 0 ? "font-bold" : "opacity-60"}`}
+                      title={`${level?.label ?? "Unrated"} (score ${riskScore}): ${count} open PICA${count === 1 ? "" : "s"}`}
+                    >
+                      {count > 0 ? count : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <th />
+              {ratings.map((likelihood) => (
+                <th key={likelihood} className="text-[10px] font-normal text-gray-600 truncate" title={matrix.likelihoodLabels[likelihood - 1]}>
+                  {likelihood} {matrix.likelihoodLabels[likelihood - 1]}
+                </th>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+        <div className="text-center text-[10px] font-medium text-gray-500">Likelihood</div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskHeatMap;
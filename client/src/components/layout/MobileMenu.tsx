@@ -8,6 +8,8 @@ import {
   CalendarDays,
   Plus,
   ListTodo,
+  ShieldCheck,
+  Repeat,
   Users,
   Building2,
   Building,
@@ -16,15 +18,22 @@ import {
   ChevronRight,
   User,
   UserCircle,
+  Trash2,
+  Webhook,
+  Mail,
   LogOut
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import DigestPreferencesDialog from "@/components/DigestPreferencesDialog";
+import NotificationBell from "@/components/NotificationBell";
 
 const navigationItems = [
   { label: "Dashboard", href: "/dashboard", icon: <LayoutDashboard className="w-5 h-5 mr-3" /> },
   { label: "New PICA", href: "/new-pica", icon: <Plus className="w-5 h-5 mr-3" /> },
   { label: "Calendar View", href: "/calendar-pica", icon: <CalendarDays className="w-5 h-5 mr-3" /> },
   { label: "PICA Progress", href: "/pica-progress", icon: <ListTodo className="w-5 h-5 mr-3" /> },
+  { label: "Verification", href: "/verification", icon: <ShieldCheck className="w-5 h-5 mr-3" /> },
+  { label: "Recurring PICAs", href: "/recurring-pica", icon: <Repeat className="w-5 h-5 mr-3" /> },
 ];
 
 const dataSettingItems = [
@@ -33,12 +42,15 @@ const dataSettingItems = [
   { label: "Department", href: "/department", icon: <Building2 className="w-5 h-5 mr-3" /> },
   { label: "Job", href: "/project-job", icon: <Building className="w-5 h-5 mr-3" /> },
   { label: "User", href: "/user", icon: <User className="w-5 h-5 mr-3" /> },
+  { label: "Trash", href: "/trash", icon: <Trash2 className="w-5 h-5 mr-3" /> },
+  { label: "Webhooks", href: "/webhooks", icon: <Webhook className="w-5 h-5 mr-3" /> },
 ];
 
 const MobileMenu = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [dataSettingsOpen, setDataSettingsOpen] = useState(true);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  const [digestDialogOpen, setDigestDialogOpen] = useState(false);
   const [location] = useLocation();
   const { user, logout, isAuthenticated } = useAuth();
 
@@ -106,6 +118,13 @@ const MobileMenu = () => {
         </button>
       </div>
 
+      {/* Notification Bell - top right on mobile */}
+      {isAuthenticated && (
+        <div className="fixed top-3 right-3 z-40 md:hidden">
+          <NotificationBell className="bg-slate-900 text-white shadow-lg hover:bg-slate-800" />
+        </div>
+      )}
+
       {/* Overlay when menu is open */}
       {isOpen && (
         <div className="fixed inset-0 bg-black/30 z-40 md:hidden" onClick={closeMenu}></div>
@@ -217,6 +236,16 @@ const MobileMenu = () => {
                       <User className="w-4 h-4 mr-3 flex-shrink-0" />
                       <span>Role: {user.role || "User"}</span>
                     </div>
+                    <button 
+                      onClick={() => {
+                        closeMenu();
+                        setDigestDialogOpen(true);
+                      }}
+                      className="flex items-center mt-2 px-2 py-1.5 text-sm text-slate-300 hover:bg-slate-700 rounded w-full"
+                    >
+                      <Mail className="w-4 h-4 mr-3 flex-shrink-0" />
+                      <span>Email Digests</span>
+                    </button>
                     <button 
                       onClick={handleLogout}
                       className="flex items-center mt-2 px-2 py-1.5 text-sm text-red-400 hover:bg-slate-700 rounded w-full"
@@ -243,6 +272,10 @@ const MobileMenu = () => {
           </div>
         </div>
       </div>
+      
+      {isAuthenticated && (
+        <DigestPreferencesDialog open={digestDialogOpen} onOpenChange={setDigestDialogOpen} />
+      )}
     </>
   );
 };
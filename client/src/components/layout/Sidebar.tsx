@@ -6,6 +6,8 @@ import {
   CalendarDays,
   Plus,
   ListTodo,
+  ShieldCheck,
+  Repeat,
   Users,
   Building2,
   Building,
@@ -14,16 +16,23 @@ import {
   ChevronRight,
   User,
   UserCircle,
+  Trash2,
+  Webhook,
+  Mail,
   LogOut
 } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import DigestPreferencesDialog from "@/components/DigestPreferencesDialog";
+import NotificationBell from "@/components/NotificationBell";
 
 const navigationItems = [
   { label: "Dashboard", href: "/dashboard", icon: <LayoutDashboard className="w-5 h-5 mr-3" /> },
   { label: "New PICA", href: "/new-pica", icon: <Plus className="w-5 h-5 mr-3" /> },
   { label: "Calendar View", href: "/calendar-pica", icon: <CalendarDays className="w-5 h-5 mr-3" /> },
   { label: "PICA Progress", href: "/pica-progress", icon: <ListTodo className="w-5 h-5 mr-3" /> },
+  { label: "Verification", href: "/verification", icon: <ShieldCheck className="w-5 h-5 mr-3" /> },
+  { label: "Recurring PICAs", href: "/recurring-pica", icon: <Repeat className="w-5 h-5 mr-3" /> },
 ];
 
 const dataSettingItems = [
@@ -31,6 +40,8 @@ const dataSettingItems = [
   { label: "Department", href: "/department", icon: <Building2 className="w-5 h-5 mr-3" /> },
   { label: "Job", href: "/project-job", icon: <Building className="w-5 h-5 mr-3" /> },
   { label: "User", href: "/user", icon: <User className="w-5 h-5 mr-3" /> },
+  { label: "Trash", href: "/trash", icon: <Trash2 className="w-5 h-5 mr-3" /> },
+  { label: "Webhooks", href: "/webhooks", icon: <Webhook className="w-5 h-5 mr-3" /> },
 ];
 
 const Sidebar = () => {
@@ -38,6 +49,7 @@ const Sidebar = () => {
   const { user, logout, isAuthenticated } = useAuth();
   const [dataSettingsOpen, setDataSettingsOpen] = useState(true);
   const [userDropdownOpen, setUserDropdownOpen] = useState(false);
+  const [digestDialogOpen, setDigestDialogOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   
   // Check if current location is one of the data settings pages
@@ -76,8 +88,11 @@ const Sidebar = () => {
   return (
     <div className="hidden md:flex md:flex-shrink-0">
       <div className="flex flex-col w-64 bg-slate-900 text-white">
-        <div className="flex h-20 items-center px-6 border-b border-slate-800">
+        <div className="flex h-20 items-center justify-between px-6 border-b border-slate-800">
           <Logo />
+          {isAuthenticated && (
+            <NotificationBell className="text-slate-300 hover:text-white hover:bg-slate-800" />
+          )}
         </div>
 
         <div className="overflow-y-auto flex-1">
@@ -182,6 +197,17 @@ const Sidebar = () => {
                     </div>
                   </div>
                   
+                  <button
+                    onClick={() => {
+                      setUserDropdownOpen(false);
+                      setDigestDialogOpen(true);
+                    }}
+                    className="w-full flex items-center px-4 py-2 border-t border-slate-700 text-sm text-slate-300 hover:bg-slate-700"
+                  >
+                    <Mail className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span>Email Digests</span>
+                  </button>
+                  
                   <button
                     onClick={handleLogout}
                     className="w-full flex items-center px-4 py-2 border-t border-slate-700 text-sm text-red-400 hover:bg-slate-700"
@@ -207,6 +233,10 @@ const Sidebar = () => {
           </div>
         </div>
       </div>
+      
+      {isAuthenticated && (
+        <DigestPreferencesDialog open={digestDialogOpen} onOpenChange={setDigestDialogOpen} />
+      )}
     </div>
   );
 };
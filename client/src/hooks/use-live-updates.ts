@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import type { ChangeEntity, ChangeEvent } from "@shared/schema";
+import { getApiUrl, invalidateRelatedQueries } from "@/lib/queryClient";
+
+// Query collection refreshed for each kind of change
+const changeQueryKeys: Record<ChangeEntity, string> = {
+  pica: "picas",
+  person: "people",
+  department: "departments",
+  project_site: "project-sites",
+};
+
+function applyChange(event: ChangeEvent) {
+  invalidateRelatedQueries(changeQueryKeys[event.entity], event.id ?? undefined);
+  // PICA lists show people and sites, and deleting a person reassigns their PICAs
+  if (event.entity !== "pica") {
+    invalidateRelatedQueries("picas");
+  }
+}
+
+// Keep queries in step with changes other users make, from the organization's event stream
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      return;
+    }
+
+    const source = new EventSource(getApiUrl("/api/events"), { withCredentials: true });
+    let missedChanges = false;
+
+    source.addEventListener("change", (message) => {
+      applyChange(JSON.parse((message as MessageEvent).data) as ChangeEvent);
+    });
+    // EventSource reconnects by itself; changes made while disconnected are caught up with on reconnect
+    source.onerror = () => {
+      missedChanges = true;
+    };
+    source.onopen = () => {
+      if (missedChanges) {
+        missedChanges = false;
+        (Object.keys(changeQueryKeys) as ChangeEntity[]).forEach((entity) => applyChange({ entity, id: null }));
+      }
+    };
+
+    return () => source.close();
+  }, [enabled]);
+}
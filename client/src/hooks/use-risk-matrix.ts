@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { OrganizationRiskMatrix } from "@shared/schema";
+import { DEFAULT_RISK_MATRIX, computeRisk, findRiskLevel, getRiskDueDate } from "@shared/risk";
+
+// The current organization's risk matrix; falls back to the default matrix while loading
+export function useRiskMatrix() {
+  const { data, isLoading } = useQuery<OrganizationRiskMatrix>({
+    queryKey: ["/api/risk-matrix"],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return useMemo(() => {
+    const matrix = data ?? { ...DEFAULT_RISK_MATRIX, isDefault: true };
+
+    return {
+      matrix,
+      isLoading,
+      levels: matrix.levels,
+      getLevel: (key: string) => findRiskLevel(matrix, key),
+      getRisk: (severity?: number | null, likelihood?: number | null) => computeRisk(matrix, severity, likelihood),
+      getDueDate: (date: string, severity?: number | null, likelihood?: number | null) =>
+        getRiskDueDate(matrix, date, severity, likelihood),
+    };
+  }, [data, isLoading]);
+}
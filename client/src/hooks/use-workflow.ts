@@ -0,0 +1,30 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { OrganizationWorkflow } from "@shared/schema";
+import {
+  DEFAULT_WORKFLOW,
+  findWorkflowStatus,
+  getAvailableTransitions,
+  getStatusCategory,
+} from "@shared/workflow";
+
+// The current organization's PICA workflow; falls back to the default workflow while loading
+export function useWorkflow() {
+  const { data, isLoading } = useQuery<OrganizationWorkflow>({
+    queryKey: ["/api/workflow"],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return useMemo(() => {
+    const workflow = data ?? { ...DEFAULT_WORKFLOW, isDefault: true };
+
+    return {
+      workflow,
+      isLoading,
+      statuses: workflow.statuses,
+      getStatus: (key: string) => findWorkflowStatus(workflow, key),
+      getCategory: (key: string) => getStatusCategory(workflow, key),
+      getTransitions: (from: string, role: string) => getAvailableTransitions(workflow, from, role),
+    };
+  }, [data, isLoading]);
+}
@@ -0,0 +1,72 @@
+import React from "react";
+
+// Inline tokens: **bold**, *italic*, `code`, [label](https://link), bare links and @mentions
+const inlinePattern =
+  /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^\s)]+\)|https?:\/\/[^\s<]+|@[A-Za-z0-9_.-]*[A-Za-z0-9_])/g;
+
+function renderInline(text: string, isMention: (username: string) => boolean, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(inlinePattern))) {
+    const token = match[0];
+    const index = match.index ?? 0;
+    const key = `${keyPrefix}-${index}`;
+    let node: React.ReactNode = null;
+
+    if (token.startsWith("**")) {
+      node = <strong key={key}>{token.slice(2, -2)}</strong>;
+    } else if (token.startsWith("`")) {
+      node = <code key={key} className="rounded bg-gray-100 px-1 text-xs">{token.slice(1, -1)}</code>;
+    } else if (token.startsWith("*")) {
+      node = <em key={key}>{token.slice(1, -1)}</em>;
+    } else if (token.startsWith("[")) {
+      const [, label, href] = token.match(/^\[([^\]]+)\]\((.+)\)$/) ?? [];
+      node = <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">{label}</a>;
+    } else if (token.startsWith("http")) {
+      node = <a key={key} href={token} target="_blank" rel="noopener noreferrer" className="text-primary underline break-all">{token}</a>;
+    } else if (token.startsWith("@") && !/[\w@]/.test(text[index - 1] ?? "") && isMention(token.slice(1))) {
+      node = <span key={key} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700">{token}</span>;
+    }
+
+    if (node) {
+      nodes.push(text.slice(lastIndex, index), node);
+      lastIndex = index + token.length;
+    }
+  }
+
+  nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+// Render markdown-lite comment text: inline formatting, "- " bullet lists and line breaks.
+// Everything is rendered as React elements, so user input is never injected as HTML.
+export function renderMarkdownLite(text: string, isMention: (username: string) => boolean = () => true): React.ReactNode {
+  const blocks: React.ReactNode[] = [];
+  let listItems: React.ReactNode[] = [];
+
+  const flushList = () => {
+    if (listItems.length > 0) {
+      blocks.push(<ul key={`list-${blocks.length}`} className="list-disc pl-5">{listItems}</ul>);
+      listItems = [];
+    }
+  };
+
+  text.split("\n").forEach((line, lineIndex) => {
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (bullet) {
+      listItems.push(<li key={`item-${lineIndex}`}>{renderInline(bullet[1], isMention, `line-${lineIndex}`)}</li>);
+      return;
+    }
+
+    flushList();
+    blocks.push(
+      <p key={`line-${lineIndex}`} className="min-h-[1em]">
+        {renderInline(line, isMention, `line-${lineIndex}`)}
+      </p>,
+    );
+  });
+  flushList();
+
+  return <>{blocks}</>;
+}
@@ -6,7 +6,7 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
 // Helper to construct full API URL
-function getApiUrl(path: string): string {
+export function getApiUrl(path: string): string {
   // If path already starts with http, return as is
   if (path.startsWith('http')) {
     return path;
@@ -39,13 +39,57 @@ export async function apiRequest(
   return res;
 }
 
+// Send multipart form data (file uploads); the browser sets the multipart Content-Type
+export async function apiUpload(url: string, formData: FormData): Promise<Response> {
+  const res = await fetch(getApiUrl(url), {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Extract the server's message from an apiRequest error, e.g. '409: {"message":"..."}'
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.slice(error.message.indexOf(":") + 1).trim();
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed?.message === "string" ? parsed.message : fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// Build the request URL from a query key: the first element is the path and an optional
+// second element holds query parameters, e.g. ["/api/picas", { status: "overdue", page: 2 }].
+// Keeping parameters out of the path lets invalidating ["/api/picas"] refresh every variant.
+function getQueryUrl(queryKey: readonly unknown[]): string {
+  const [path, params] = queryKey;
+  
+  if (!params || typeof params !== "object") {
+    return getApiUrl(path as string);
+  }
+  
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
+    if (value !== undefined && value !== null && value !== "") {
+      searchParams.set(key, String(value));
+    }
+  }
+  
+  const queryString = searchParams.toString();
+  return getApiUrl(queryString ? `${path}?${queryString}` : (path as string));
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const url = getApiUrl(queryKey[0] as string);
+    const url = getQueryUrl(queryKey);
     const res = await fetch(url, {
       credentials: "include",
     });
@@ -73,13 +117,35 @@ export function invalidateRelatedQueries(entityType: string, id?: number) {
     queryClient.invalidateQueries({ queryKey: ['/api/picas/stats'] });
     queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/department'] });
     queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/site'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/risk'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/root-causes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/repeats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/reopens'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/picas/stats/effectiveness'] });
     
-    // If we have an ID, invalidate its history too
+    queryClient.invalidateQueries({ queryKey: ['/api/closure-requests/queue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/extension-requests/queue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/effectiveness-reviews/queue'] });
+    
+    // If we have an ID, invalidate its history, requests, analysis, action items and links too
     if (id) {
       queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/closure-requests`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/effectiveness-reviews`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/extension-requests`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/root-cause`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/actions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/links`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/attachments`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/comments`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/picas/${id}/audit`] });
     }
   }
   
+  // Deletes and restores move records in and out of the trash, which hides or shows their notifications
+  queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+  
   // Invalidate dashboard data
   queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
 }
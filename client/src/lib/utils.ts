@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { format, parseISO } from "date-fns";
+import type { WorkflowColor, WorkflowStatusDefinition } from "@shared/schema";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -12,34 +13,54 @@ export function formatDate(date: Date | string, shortFormat: boolean = false): s
   return format(parsedDate, shortFormat ? "dd MMM" : "dd MMM yyyy");
 }
 
-export function statusColor(status: string): {
+// Badge classes per workflow color (kept literal so Tailwind picks them up)
+const workflowColorClasses: Record<WorkflowColor, { bg: string; text: string }> = {
+  blue: { bg: "bg-blue-100", text: "text-blue-800" },
+  green: { bg: "bg-green-100", text: "text-green-800" },
+  red: { bg: "bg-red-100", text: "text-red-800" },
+  yellow: { bg: "bg-yellow-100", text: "text-yellow-800" },
+  orange: { bg: "bg-orange-100", text: "text-orange-800" },
+  purple: { bg: "bg-purple-100", text: "text-purple-800" },
+  teal: { bg: "bg-teal-100", text: "text-teal-800" },
+  gray: { bg: "bg-gray-100", text: "text-gray-800" },
+};
+
+export function colorClasses(color: WorkflowColor): { bg: string; text: string } {
+  return workflowColorClasses[color] ?? workflowColorClasses.gray;
+}
+
+export function statusColor(status: string, definition?: WorkflowStatusDefinition): {
   bg: string;
   text: string;
   label: string;
 } {
+  // Custom workflow statuses carry their own label and color
+  if (definition) {
+    return {
+      ...workflowColorClasses[definition.color],
+      label: definition.label,
+    };
+  }
+
   switch (status.toLowerCase()) {
     case "progress":
       return {
-        bg: "bg-blue-100",
-        text: "text-blue-800",
+        ...workflowColorClasses.blue,
         label: "Progress",
       };
     case "complete":
       return {
-        bg: "bg-green-100",
-        text: "text-green-800",
+        ...workflowColorClasses.green,
         label: "Complete",
       };
     case "overdue":
       return {
-        bg: "bg-red-100",
-        text: "text-red-800",
+        ...workflowColorClasses.red,
         label: "Overdue",
       };
     default:
       return {
-        bg: "bg-gray-100",
-        text: "text-gray-800",
+        ...workflowColorClasses.gray,
         label: status,
       };
   }
@@ -9,8 +9,10 @@ import { Input } from "@/components/ui/input";
 import * as HoverCard from '@radix-ui/react-hover-card';
 import { PicaWithRelations } from "@shared/schema";
 import { formatDate } from "@/lib/utils";
+import { useWorkflow } from "@/hooks/use-workflow";
 
 const CalendarPica: React.FC = () => {
+  const { getStatus, getCategory } = useWorkflow();
   // Set default date range from beginning of current month to today
   const [dateRange, setDateRange] = useState(() => { 
     const today = new Date();
@@ -90,13 +92,13 @@ const CalendarPica: React.FC = () => {
       const picaDate = parseISO(pica.date);
       
       // For completed PICAs, use the updatedAt (completion date) instead of due date
-      const dateToCompare = pica.status === 'complete' 
+      const dateToCompare = getCategory(pica.status) === 'complete' 
         ? new Date(pica.updatedAt) 
         : parseISO(pica.dueDate);
         
       return isSameMonth(picaDate, currentMonth) || isSameMonth(dateToCompare, currentMonth);
     });
-  }, [filteredPicas, currentMonth]);
+  }, [filteredPicas, currentMonth, getCategory]);
 
   // Get PICAs for a specific day
   const getPicasForDay = (day: Date) => {
@@ -107,7 +109,7 @@ const CalendarPica: React.FC = () => {
       
       // For completed PICAs, use the updatedAt (completion date) instead of due date
       // For other PICAs, use the due date
-      const dateToCompare = pica.status === 'complete' 
+      const dateToCompare = getCategory(pica.status) === 'complete' 
         ? new Date(pica.updatedAt) 
         : parseISO(pica.dueDate);
       
@@ -137,7 +139,7 @@ const CalendarPica: React.FC = () => {
       return "bg-yellow-300 text-black"; // Creation date is always yellow
     } else {
       // For due date, color based on status
-      switch (pica.status) {
+      switch (getCategory(pica.status)) {
         case 'complete':
           return "bg-green-500 text-white";
         case 'overdue':
@@ -151,7 +153,7 @@ const CalendarPica: React.FC = () => {
   
   // Get the appropriate icon based on PICA status
   const getStatusIcon = (status: string) => {
-    switch (status) {
+    switch (getCategory(status)) {
       case 'complete':
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'overdue':
@@ -267,7 +269,7 @@ const CalendarPica: React.FC = () => {
                               <span className="font-bold">{pica.picaId}</span>
                               <span className="flex items-center gap-1">
                                 {getStatusIcon(pica.status)}
-                                <span className="capitalize text-xs">{pica.status}</span>
+                                <span className="capitalize text-xs">{getStatus(pica.status)?.label ?? pica.status}</span>
                               </span>
                             </div>
                             <div className="text-xs">
@@ -276,7 +278,7 @@ const CalendarPica: React.FC = () => {
                               <div><strong>Action:</strong> {pica.correctiveAction}</div>
                               <div><strong>Created:</strong> {formatDate(pica.date)}</div>
                               <div><strong>Due:</strong> {formatDate(pica.dueDate)}</div>
-                              {pica.status === 'complete' && (
+                              {getCategory(pica.status) === 'complete' && (
                                 <div><strong>Completed:</strong> {formatDate(pica.updatedAt)}</div>
                               )}
                               <div><strong>Project:</strong> {pica.projectSite?.name || 'Unknown'}</div>
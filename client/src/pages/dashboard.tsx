@@ -3,10 +3,13 @@ import { useQuery } from "@tanstack/react-query";
 import { addMonths, subMonths, format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameMonth, isToday, parseISO } from "date-fns";
 import PieChart from "@/components/charts/PieChart";
 import BarChart from "@/components/charts/BarChart";
+import RiskHeatMap from "@/components/charts/RiskHeatMap";
+import { fishboneCategoryLabels } from "@/components/RootCausePanel";
 import StatusBadge from "@/components/StatusBadge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDate } from "@/lib/utils";
-import { PicaWithRelations } from "@shared/schema";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { EffectivenessStat, fishboneCategoryEnum, PicaWithRelations, ReopenRateStat, ReopenStats, RepeatFindingStat, RiskHeatMapCell, RootCauseCategoryStat } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight, Calendar, AlertCircle, CheckCircle, Clock, Edit } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -14,6 +17,7 @@ import * as HoverCard from '@radix-ui/react-hover-card';
 import { Link } from "wouter";
 
 const Dashboard: React.FC = () => {
+  const { getStatus, getCategory } = useWorkflow();
   const [activeFilter, setActiveFilter] = useState("all");
   
   // Set default date range from beginning of current month to today
@@ -62,20 +66,61 @@ const Dashboard: React.FC = () => {
     overdue: number;
   };
 
+  // Statistics are scoped to the selected period on the server
+  const statsRange = { dateFrom: dateRange.start, dateTo: dateRange.end };
+
   // Fetch PICAs stats and data
   const { data: stats, isLoading: statsLoading } = useQuery<StatusStats>({ 
-    queryKey: ['/api/picas/stats'],
+    queryKey: ['/api/picas/stats', statsRange],
   });
   
   // Load department statistics
   const { data: deptStats, isLoading: deptStatsLoading } = useQuery<DeptStat[]>({ 
-    queryKey: ['/api/picas/stats/department'],
+    queryKey: ['/api/picas/stats/department', statsRange],
   });
   
   // Load job statistics
   const { data: jobStats, isLoading: jobStatsLoading } = useQuery<JobStat[]>({ 
-    queryKey: ['/api/picas/stats/job'],
+    queryKey: ['/api/picas/stats/job', statsRange],
+  });
+  
+  // Load open PICA counts per severity and likelihood
+  const { data: riskCells, isLoading: riskCellsLoading } = useQuery<RiskHeatMapCell[]>({ 
+    queryKey: ['/api/picas/stats/risk', statsRange],
+  });
+  
+  // Load root cause categories cited per project site
+  const { data: rootCauseStats, isLoading: rootCauseStatsLoading } = useQuery<RootCauseCategoryStat[]>({ 
+    queryKey: ['/api/picas/stats/root-causes', statsRange],
+  });
+  
+  // Sites that have root cause analyses, as table columns
+  const rootCauseSites = Array.from(new Set((rootCauseStats ?? []).map((stat) => stat.site)));
+  const rootCauseCount = (category: string, site?: string) =>
+    (rootCauseStats ?? [])
+      .filter((stat) => stat.category === category && (!site || stat.site === site))
+      .reduce((total, stat) => total + stat.picaCount, 0);
+  
+  // Share of PICAs per site that repeat an earlier finding
+  const { data: repeatStats, isLoading: repeatStatsLoading } = useQuery<RepeatFindingStat[]>({ 
+    queryKey: ['/api/picas/stats/repeats', statsRange],
+  });
+  const repeatSites = (repeatStats ?? []).filter((stat) => stat.total > 0);
+  
+  // Share of effectiveness reviews per site that found the corrective action effective
+  const { data: effectivenessStats, isLoading: effectivenessStatsLoading } = useQuery<EffectivenessStat[]>({ 
+    queryKey: ['/api/picas/stats/effectiveness', statsRange],
+  });
+  const effectivenessSites = (effectivenessStats ?? []).filter((stat) => stat.reviewed > 0);
+  
+  // Closed PICAs that had to be reopened, per department and person in charge
+  const { data: reopenStats, isLoading: reopenStatsLoading } = useQuery<ReopenStats>({ 
+    queryKey: ['/api/picas/stats/reopens', statsRange],
   });
+  const reopenGroups: { title: string; rows: ReopenRateStat[] }[] = [
+    { title: "Department", rows: (reopenStats?.departments ?? []).filter((stat) => stat.closed > 0) },
+    { title: "Person In Charge", rows: (reopenStats?.peopleInCharge ?? []).filter((stat) => stat.closed > 0) },
+  ];
   
   // Load all PICAs with relations
   const { data: picas, isLoading: picasLoading } = useQuery<PicaWithRelations[]>({ 
@@ -98,7 +143,7 @@ const Dashboard: React.FC = () => {
     const picaDate = parseISO(pica.date);
     
     // For completed PICAs, use the updatedAt (completion date) instead of due date
-    const dateToCompare = pica.status === 'complete' 
+    const dateToCompare = getCategory(pica.status) === 'complete' 
       ? new Date(pica.updatedAt) 
       : parseISO(pica.dueDate);
       
@@ -114,7 +159,7 @@ const Dashboard: React.FC = () => {
       
       // For completed PICAs, use the updatedAt (completion date) instead of due date
       // For other PICAs, use the due date
-      const dateToCompare = pica.status === 'complete' 
+      const dateToCompare = getCategory(pica.status) === 'complete' 
         ? new Date(pica.updatedAt) 
         : parseISO(pica.dueDate);
       
@@ -144,7 +189,7 @@ const Dashboard: React.FC = () => {
       return "bg-yellow-300 text-black"; // Creation date is always yellow
     } else {
       // For due date, color based on status
-      switch (pica.status) {
+      switch (getCategory(pica.status)) {
         case 'complete':
           return "bg-green-500 text-white";
         case 'overdue':
@@ -158,7 +203,7 @@ const Dashboard: React.FC = () => {
   
   // Get the appropriate icon based on PICA status
   const getStatusIcon = (status: string) => {
-    switch (status) {
+    switch (getCategory(status)) {
       case 'complete':
         return <CheckCircle className="w-3 h-3 text-green-500" />;
       case 'overdue':
@@ -182,35 +227,6 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  // Calculate statistics based on filtered PICAs
-  const calcFilteredStats = React.useMemo(() => {
-    if (!picas) return { progress: 0, complete: 0, overdue: 0, total: 0 };
-    
-    // Filter by date range if both dates are set
-    let filtered = picas;
-    if (dateRange.start && dateRange.end) {
-      const startDate = new Date(dateRange.start);
-      const endDate = new Date(dateRange.end);
-      endDate.setHours(23, 59, 59, 999); // Include the entire end day
-      
-      filtered = filtered.filter((pica) => {
-        const picaDate = new Date(pica.date);
-        return picaDate >= startDate && picaDate <= endDate;
-      });
-    }
-    
-    const progress = filtered.filter(pica => pica.status === 'progress').length;
-    const complete = filtered.filter(pica => pica.status === 'complete').length;
-    const overdue = filtered.filter(pica => pica.status === 'overdue').length;
-    
-    return {
-      progress,
-      complete,
-      overdue,
-      total: filtered.length
-    };
-  }, [picas, dateRange]);
-  
   // Calculate department statistics based on backend data
   const calcFilteredDeptStats = React.useMemo(() => {
     // Use the data directly from the backend, which is already calculated per department
@@ -224,13 +240,11 @@ const Dashboard: React.FC = () => {
   
   // Calculate job statistics based on data from the API
   const calcFilteredJobStats = React.useMemo(() => {
-    // Use the pre-calculated job stats directly from the API
+    // Use the pre-calculated job stats directly from the API (already scoped to the date range)
     if (!jobStats || !Array.isArray(jobStats)) {
       return [];
     }
     
-    // For date filtering, if needed, we could add a date range to the API query in the future
-    // For now, we'll just use the pre-calculated stats directly
     return jobStats;
   }, [jobStats]);
 
@@ -254,27 +268,12 @@ const Dashboard: React.FC = () => {
     
     // Filter by status
     if (activeFilter !== "all") {
-      filtered = filtered.filter((pica) => pica.status === activeFilter);
+      filtered = filtered.filter((pica) => getCategory(pica.status) === activeFilter);
     }
     
     return filtered;
-  }, [picas, activeFilter, dateRange]);
+  }, [picas, activeFilter, dateRange, getCategory]);
   
-  // Calculate statistics from filtered data
-  const filteredStats = React.useMemo(() => {
-    const progress = filteredPicas.filter(pica => pica.status === "progress").length;
-    const complete = filteredPicas.filter(pica => pica.status === "complete").length;
-    const overdue = filteredPicas.filter(pica => pica.status === "overdue").length;
-    const total = filteredPicas.length;
-    
-    return {
-      progress,
-      complete,
-      overdue,
-      total
-    };
-  }, [filteredPicas]);
-
   // For table pagination
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10; // Show more items per page
@@ -318,10 +317,10 @@ const Dashboard: React.FC = () => {
           <div className="bg-white border border-gray-100 rounded-md shadow-sm p-1.5">
             <div className="flex items-center">
               <h3 className="text-base md:text-lg font-bold text-primary mr-1">
-                {statsLoading || !filteredStats ? (
+                {statsLoading || !stats ? (
                   <Skeleton className="h-4 w-8" />
                 ) : (
-                  filteredStats.progress
+                  stats.progress
                 )}
               </h3>
               <p className="text-[10px] md:text-xs font-medium text-gray-500">In Progress</p>
@@ -335,10 +334,10 @@ const Dashboard: React.FC = () => {
           <div className="bg-white border border-gray-100 rounded-md shadow-sm p-1.5">
             <div className="flex items-center">
               <h3 className="text-base md:text-lg font-bold text-green-600 mr-1">
-                {statsLoading || !filteredStats ? (
+                {statsLoading || !stats ? (
                   <Skeleton className="h-4 w-8" />
                 ) : (
-                  filteredStats.complete
+                  stats.complete
                 )}
               </h3>
               <p className="text-[10px] md:text-xs font-medium text-gray-500">Completed</p>
@@ -352,10 +351,10 @@ const Dashboard: React.FC = () => {
           <div className="bg-white border border-gray-100 rounded-md shadow-sm p-1.5">
             <div className="flex items-center">
               <h3 className="text-base md:text-lg font-bold text-red-600 mr-1">
-                {statsLoading || !filteredStats ? (
+                {statsLoading || !stats ? (
                   <Skeleton className="h-4 w-8" />
                 ) : (
-                  filteredStats.overdue
+                  stats.overdue
                 )}
               </h3>
               <p className="text-[10px] md:text-xs font-medium text-gray-500">Overdue</p>
@@ -369,10 +368,10 @@ const Dashboard: React.FC = () => {
           <div className="bg-white border border-gray-100 rounded-md shadow-sm p-1.5">
             <div className="flex items-center">
               <h3 className="text-base md:text-lg font-bold text-gray-800 mr-1">
-                {statsLoading || !filteredStats ? (
+                {statsLoading || !stats ? (
                   <Skeleton className="h-4 w-8" />
                 ) : (
-                  filteredStats.total
+                  stats.total
                 )}
               </h3>
               <p className="text-[10px] md:text-xs font-medium text-gray-500">Total PICA</p>
@@ -508,13 +507,16 @@ const Dashboard: React.FC = () => {
                                   <span className="font-bold text-sm">{pica.picaId}</span>
                                   <span className="flex items-center gap-0.5">
                                     {getStatusIcon(pica.status)}
-                                    <span className="capitalize text-xs">{pica.status}</span>
+                                    <span className="capitalize text-xs">{getStatus(pica.status)?.label ?? pica.status}</span>
                                   </span>
                                 </div>
                                 <div className="text-xs">
                                   <div><strong>Issue:</strong> {pica.issue}</div>
                                   <div><strong>Created:</strong> {formatDate(pica.date)}</div>
                                   <div><strong>Due:</strong> {formatDate(pica.dueDate)}</div>
+                                  {pica.extensionCount > 0 && pica.originalDueDate && (
+                                    <div><strong>Originally due:</strong> {formatDate(pica.originalDueDate)} ({pica.extensionCount} extension{pica.extensionCount === 1 ? '' : 's'})</div>
+                                  )}
                                   <div><strong>Project:</strong> {pica.projectSite?.name || 'Unknown'}</div>
                                   <div><strong>PIC:</strong> {pica.personInCharge?.name || 'Unknown'}</div>
                                 </div>
@@ -536,6 +538,168 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-1 mb-1">
+        {/* Risk Heat-Map of open PICAs */}
+        <div className="bg-white border border-gray-100 rounded-md shadow-sm p-2">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold">Risk Heat-Map</h3>
+            <span className="text-[10px] text-gray-500">Open PICAs by severity and likelihood</span>
+          </div>
+          {riskCellsLoading ? (
+            <Skeleton className="w-full h-[180px]" />
+          ) : (
+            <RiskHeatMap cells={riskCells ?? []} />
+          )}
+        </div>
+
+        {/* Recurring root cause categories per project site */}
+        <div className="bg-white border border-gray-100 rounded-md shadow-sm p-2">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold">Root Cause Categories</h3>
+            <span className="text-[10px] text-gray-500">PICAs citing each fishbone category</span>
+          </div>
+          {rootCauseStatsLoading ? (
+            <Skeleton className="w-full h-[180px]" />
+          ) : rootCauseSites.length === 0 ? (
+            <p className="text-xs text-gray-500 text-center py-6">No root cause analyses in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b">
+                    <th className="text-xs font-medium text-gray-700 py-1 px-2 text-left">Category</th>
+                    {rootCauseSites.map((site) => (
+                      <th key={site} className="text-xs font-medium text-gray-700 py-1 px-2 text-center">{site}</th>
+                    ))}
+                    <th className="text-xs font-medium text-gray-700 py-1 px-2 text-center">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fishboneCategoryEnum.options.map((category, index) => (
+                    <tr key={category} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                      <td className="text-xs font-medium text-gray-800 py-1 px-2">{fishboneCategoryLabels[category]}</td>
+                      {rootCauseSites.map((site) => (
+                        <td key={site} className="text-xs text-gray-700 py-1 px-2 text-center">
+                          {rootCauseCount(category, site) || "-"}
+                        </td>
+                      ))}
+                      <td className="text-xs font-semibold text-gray-800 py-1 px-2 text-center">{rootCauseCount(category)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Repeat finding rate per project site */}
+      <div className="bg-white border border-gray-100 rounded-md shadow-sm p-2 mb-1">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-semibold">Repeat Finding Rate</h3>
+          <span className="text-[10px] text-gray-500">PICAs recorded as a recurrence of an earlier PICA</span>
+        </div>
+        {repeatStatsLoading ? (
+          <Skeleton className="w-full h-[80px]" />
+        ) : repeatSites.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-4">No PICAs in this period</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+            {repeatSites.map((stat) => (
+              <div key={stat.projectSiteId} className="border rounded-md p-2">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-medium text-gray-800">{stat.site}</span>
+                  <span className={`text-sm font-semibold ${stat.rate >= 0.2 ? "text-red-600" : "text-gray-800"}`}>
+                    {Math.round(stat.rate * 100)}%
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                  <div className="bg-red-500 h-1.5 rounded-full" style={{ width: `${Math.round(stat.rate * 100)}%` }}></div>
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1">{stat.repeats} of {stat.total} PICAs</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Effectiveness rate per project site */}
+      <div className="bg-white border border-gray-100 rounded-md shadow-sm p-2 mb-1">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-semibold">Effectiveness Rate</h3>
+          <span className="text-[10px] text-gray-500">Effectiveness reviews that found the corrective action effective</span>
+        </div>
+        {effectivenessStatsLoading ? (
+          <Skeleton className="w-full h-[80px]" />
+        ) : effectivenessSites.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-4">No effectiveness reviews in this period</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+            {effectivenessSites.map((stat) => (
+              <div key={stat.projectSiteId} className="border rounded-md p-2">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-medium text-gray-800">{stat.site}</span>
+                  <span className={`text-sm font-semibold ${stat.rate < 0.8 ? "text-red-600" : "text-green-600"}`}>
+                    {Math.round(stat.rate * 100)}%
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                  <div className="bg-green-500 h-1.5 rounded-full" style={{ width: `${Math.round(stat.rate * 100)}%` }}></div>
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1">{stat.effective} of {stat.reviewed} reviews effective</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reopen rate of closed PICAs */}
+      <div className="bg-white border border-gray-100 rounded-md shadow-sm p-2 mb-1">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-semibold">Reopen Rate</h3>
+          <span className="text-[10px] text-gray-500">Closed PICAs that had to be reopened</span>
+        </div>
+        {reopenStatsLoading ? (
+          <Skeleton className="w-full h-[120px]" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {reopenGroups.map(({ title, rows }) => (
+              <div key={title} className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b">
+                      <th className="text-xs font-medium text-gray-700 py-1 px-2 text-left">{title}</th>
+                      <th className="text-xs font-medium text-gray-700 py-1 px-2 text-center">Closed</th>
+                      <th className="text-xs font-medium text-gray-700 py-1 px-2 text-center">Reopened</th>
+                      <th className="text-xs font-medium text-gray-700 py-1 px-2 text-center">Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="text-xs text-gray-500 text-center py-4">No closed PICAs in this period</td>
+                      </tr>
+                    ) : rows.map((stat, index) => (
+                      <tr key={stat.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                        <td className="text-xs font-medium text-gray-800 py-1 px-2">{stat.name}</td>
+                        <td className="text-xs text-gray-700 py-1 px-2 text-center">{stat.closed}</td>
+                        <td className="text-xs text-gray-700 py-1 px-2 text-center">
+                          {stat.reopened}
+                          {stat.reopenCount > stat.reopened && <span className="text-gray-400"> ({stat.reopenCount}×)</span>}
+                        </td>
+                        <td className={`text-xs font-semibold py-1 px-2 text-center ${stat.rate >= 0.2 ? "text-red-600" : "text-gray-800"}`}>
+                          {Math.round(stat.rate * 100)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Person In Charge Monitor */}
       <div className="bg-white border border-gray-100 rounded-md shadow-sm">
         <div className="p-1.5 bg-gray-50 border-b flex flex-col md:flex-row md:justify-between md:items-center">
@@ -686,6 +850,12 @@ const Dashboard: React.FC = () => {
                       </td>
                       <td className="px-2 py-1 whitespace-nowrap text-xs text-gray-800">
                         {pica.dueDate ? format(new Date(pica.dueDate), 'dd/MM/yy') : '-'}
+                        {/* Extended PICAs also show their original due date */}
+                        {pica.extensionCount > 0 && pica.originalDueDate && (
+                          <div className="text-[10px] text-orange-600" title={`Extended ${pica.extensionCount} time(s)`}>
+                            was {format(new Date(pica.originalDueDate), 'dd/MM/yy')} · +{pica.extensionCount}
+                          </div>
+                        )}
                       </td>
                       <td className="px-2 py-1 whitespace-nowrap text-center">
                         <StatusBadge status={pica.status} size="xs" />
@@ -777,6 +947,9 @@ const Dashboard: React.FC = () => {
                     <div className="text-xs text-gray-600">
                       <span className="font-medium">PIC:</span> {pica.personInCharge?.name}<br />
                       <span className="font-medium">Due:</span> {pica.dueDate ? format(new Date(pica.dueDate), 'dd/MM/yy') : '-'}
+                      {pica.extensionCount > 0 && pica.originalDueDate && (
+                        <span className="text-orange-600"> (was {format(new Date(pica.originalDueDate), 'dd/MM/yy')}, +{pica.extensionCount})</span>
+                      )}
                     </div>
                     
                     <div className="flex space-x-1">
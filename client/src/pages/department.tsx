@@ -10,7 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { z } from "zod";
 import { insertDepartmentSchema } from "@shared/schema";
 
@@ -112,16 +112,17 @@ const Department: React.FC = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Department deleted successfully",
+        description: "Department moved to the trash",
       });
       setIsDeleteDialogOpen(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete department",
+        description: getApiErrorMessage(error, "Failed to delete department"),
         variant: "destructive",
       });
     },
@@ -360,7 +361,7 @@ const Department: React.FC = () => {
             <DialogTitle>Confirm Deletion</DialogTitle>
           </DialogHeader>
           <p>
-            Are you sure you want to delete <strong>{selectedDepartment?.name}</strong> department? This action cannot be undone.
+            Are you sure you want to delete <strong>{selectedDepartment?.name}</strong> department? An admin can restore it from the trash.
           </p>
           <DialogFooter>
             <Button
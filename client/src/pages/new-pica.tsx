@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,18 +10,23 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useRiskMatrix } from "@/hooks/use-risk-matrix";
+import RiskBadge from "@/components/RiskBadge";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertPicaSchema } from "@shared/schema";
-import { Plus, Trash2 } from "lucide-react";
+import { type PicaBatchItemError, type PicaTemplate, type SimilarPica } from "@shared/schema";
+import { addDays } from "@shared/recurrence";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
 
 // Create a single PICA line item schema
 const picaLineItemSchema = z.object({
-  sequence: z.number(),
   issue: z.string().min(1, "Issue is required"),
   problemIdentification: z.string().min(1, "Problem identification is required"),
   correctiveAction: z.string().min(1, "Corrective action is required"),
   personInChargeId: z.number().min(1, "Person in charge is required"),
   dueDate: z.string().min(1, "Due date is required"),
+  severity: z.number().nullable(),
+  likelihood: z.number().nullable(),
+  recurrenceOfPicaId: z.number().nullable(),
 });
 
 // Extend the schema with form-specific validation
@@ -33,9 +38,88 @@ const formSchema = z.object({
 });
 
 type FormValues = z.infer<typeof formSchema>;
+type PicaLineItem = z.infer<typeof picaLineItemSchema>;
+
+// Extract per-item validation errors from a failed batch request ("400: {json}")
+function parseItemErrors(error: Error): PicaBatchItemError[] {
+  const body = error.message.slice(error.message.indexOf(":") + 1);
+  try {
+    return JSON.parse(body).itemErrors || [];
+  } catch {
+    return [];
+  }
+}
+
+// A blank PICA line item due today
+const emptyPicaItem = (): PicaLineItem => ({
+  issue: "",
+  problemIdentification: "",
+  correctiveAction: "",
+  personInChargeId: 0,
+  dueDate: new Date().toISOString().slice(0, 10),
+  severity: null,
+  likelihood: null,
+  recurrenceOfPicaId: null,
+});
+
+interface RepeatFindingRowProps {
+  projectSiteId: string;
+  issue: string;
+  recurrenceOfPicaId: number | null;
+  onRecurrenceChange: (picaId: number | null) => void;
+}
+
+// Warns when an item's issue resembles an earlier PICA at the same site and lets the user
+// record it as a recurrence of that PICA
+const RepeatFindingRow: React.FC<RepeatFindingRowProps> = ({ projectSiteId, issue, recurrenceOfPicaId, onRecurrenceChange }) => {
+  const [debouncedIssue, setDebouncedIssue] = useState("");
+
+  // Wait for the user to stop typing before checking for repeats
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedIssue(issue.trim()), 500);
+    return () => clearTimeout(timeoutId);
+  }, [issue]);
+
+  const { data: similarPicas } = useQuery<SimilarPica[]>({
+    queryKey: ["/api/picas/similar", { projectSiteId, issue: debouncedIssue }],
+    enabled: !!projectSiteId && debouncedIssue.length > 0,
+  });
+
+  if (!similarPicas || similarPicas.length === 0) {
+    return null;
+  }
+
+  return (
+    <tr>
+      <td colSpan={8} className="py-2 px-4 border-b border-gray-300 text-sm bg-amber-50">
+        <div className="flex items-center gap-1 font-medium text-amber-800">
+          <AlertTriangle size={16} /> Possible repeat finding at this site
+        </div>
+        <ul className="mt-1 space-y-1">
+          {similarPicas.map((similar) => (
+            <li key={similar.id} className="flex items-center gap-2 text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={recurrenceOfPicaId === similar.id}
+                  onChange={(e) => onRecurrenceChange(e.target.checked ? similar.id : null)}
+                />
+                Recurrence of <strong>{similar.picaId}</strong>
+              </label>
+              <span className="truncate text-gray-500">
+                ({Math.round(similar.similarity * 100)}% similar) · {similar.issue}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </td>
+    </tr>
+  );
+};
 
 const NewPica: React.FC = () => {
   const { toast } = useToast();
+  const { matrix, getRisk, getDueDate } = useRiskMatrix();
   
   // Define types for project sites and people
   type ProjectSite = {
@@ -61,23 +145,12 @@ const NewPica: React.FC = () => {
     queryKey: ["/api/people"],
   });
 
-  const [selectedProjectSite, setSelectedProjectSite] = useState<string>("");
-  const [masterPicaId, setMasterPicaId] = useState<string>("");
-
-  // Fetch existing PICAs to check latest sequence numbers
-  const { data: existingPicas } = useQuery<any[]>({
-    queryKey: ["/api/picas"],
+  // Fetch templates for recurring findings
+  const { data: templates } = useQuery<PicaTemplate[]>({
+    queryKey: ["/api/pica-templates"],
   });
 
-  // Generate Master PICA ID based on selected project site
-  const generateMasterPicaId = (siteCode: string) => {
-    // Generate a date-based ID: MMYY + SiteCode
-    const now = new Date();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const year = String(now.getFullYear()).slice(-2);
-    
-    return `${month}${year}${siteCode}`;
-  };
+  const [selectedProjectSite, setSelectedProjectSite] = useState<string>("");
 
   // Generate PICA ID for a specific item
   const generatePicaId = (masterPicaId: string, sequence: number) => {
@@ -91,154 +164,90 @@ const NewPica: React.FC = () => {
       projectSiteId: 0,
       masterPicaId: "",
       date: new Date().toISOString().slice(0, 10),
-      picaItems: [
-        {
-          sequence: 1,
-          issue: "",
-          problemIdentification: "",
-          correctiveAction: "",
-          personInChargeId: 0,
-          dueDate: new Date().toISOString().slice(0, 10),
-        },
-      ],
+      picaItems: [emptyPicaItem()],
     },
   });
 
   // Create field array for PICA items
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, update } = useFieldArray({
     control: form.control,
     name: "picaItems",
   });
 
+  // Preview the next master PICA ID for the selected site and date.
+  // The actual ID is reserved by the server on submit so concurrent users never collide.
+  const selectedDate = form.watch("date");
+  const { data: nextPicaId } = useQuery<{ masterPicaId: string }>({
+    queryKey: ["/api/picas/next-id", { projectSiteId: selectedProjectSite, date: selectedDate }],
+    enabled: !!selectedProjectSite && !!selectedDate,
+  });
+  const masterPicaId = nextPicaId?.masterPicaId || "";
+
+  useEffect(() => {
+    form.setValue("masterPicaId", masterPicaId);
+  }, [masterPicaId, form]);
+
   // Handle project site selection
   const handleProjectSiteChange = (value: string) => {
     setSelectedProjectSite(value);
-    
-    if (projectSites && projectSites.length > 0) {
-      const site = projectSites.find((site) => site.id.toString() === value);
-      if (site) {
-        // Generate base master PICA ID
-        const baseMasterPicaId = generateMasterPicaId(site.code);
-        
-        // Check for existing PICAs with the same base ID
-        let highestSequence = 0;
-        let nextCounter = 0;
-        
-        if (existingPicas && existingPicas.length > 0) {
-          // Extract PICAs with the same base ID format (MMYY + site.code)
-          const now = new Date();
-          const month = String(now.getMonth() + 1).padStart(2, "0");
-          const year = String(now.getFullYear()).slice(-2);
-          const baseIdPattern = `${month}${year}${site.code}`;
-          
-          // Find existing PICAs that match the pattern
-          const relatedPicas = existingPicas.filter(pica => {
-            // Check base pattern and also patterns with 2-digit suffix
-            return pica.picaId.startsWith(baseIdPattern) || 
-                  /^[\d]{4}[A-Za-z0-9-]+[\d]{2}$/.test(pica.picaId);
-          });
-          
-          // Check if we need to increment the counter
-          if (relatedPicas.length > 0) {
-            // Extract the counter from existing PICAs
-            const counters = relatedPicas
-              .map(pica => {
-                // Handle both formats: with and without suffix
-                if (pica.picaId.startsWith(baseIdPattern)) {
-                  // No suffix or has a numeric suffix like MMYYCODE or MMYYCODE01
-                  if (pica.picaId.length === baseIdPattern.length) {
-                    return 0; // No suffix
-                  } else if (pica.picaId.length === baseIdPattern.length + 2) {
-                    // Has a 2-digit suffix
-                    const suffix = pica.picaId.slice(-2);
-                    return !isNaN(parseInt(suffix)) ? parseInt(suffix) : 0;
-                  }
-                }
-                return 0;
-              })
-              .filter(counter => counter !== null);
-            
-            // Get next counter (max + 1)
-            nextCounter = counters.length > 0 ? Math.max(...counters) + 1 : 1;
-            
-            // Get the highest sequence number used across all related PICAs
-            highestSequence = relatedPicas.reduce((max, pica) => {
-              const seq = parseInt(pica.picaId.slice(-2));
-              return isNaN(seq) ? max : Math.max(max, seq);
-            }, 0);
-          }
-        }
-        
-        // Add 2-digit suffix to the master ID
-        const formattedCounter = String(nextCounter).padStart(2, "0");
-        const newMasterPicaId = nextCounter > 0 
-          ? `${baseMasterPicaId}${formattedCounter}` 
-          : baseMasterPicaId;
-        
-        setMasterPicaId(newMasterPicaId);
-        form.setValue("masterPicaId", newMasterPicaId);
-        form.setValue("projectSiteId", parseInt(value));
-        
-        // Update the sequence numbers for existing fields
-        if (highestSequence > 0) {
-          const updatedFields = fields.map((field, index) => ({
-            ...field,
-            sequence: highestSequence + index + 1
-          }));
-          
-          // Update each field's sequence in the form
-          updatedFields.forEach((field, index) => {
-            form.setValue(`picaItems.${index}.sequence`, field.sequence);
-          });
-        }
-      }
-    }
+    form.setValue("projectSiteId", value ? parseInt(value) : 0);
   };
 
   // Add a new PICA item row
   const handleAddPicaItem = () => {
-    // Get the last sequence number from existing fields
-    const lastSequence = fields.length > 0 
-      ? form.getValues(`picaItems.${fields.length - 1}.sequence`) 
-      : 0;
+    append(emptyPicaItem());
+  };
+
+  // Fill a PICA item from a template, reusing the last row while it is still blank
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates?.find((candidate) => candidate.id.toString() === templateId);
+    if (!template) return;
     
-    append({
-      sequence: lastSequence + 1,
-      issue: "",
-      problemIdentification: "",
-      correctiveAction: "",
-      personInChargeId: 0,
-      dueDate: new Date().toISOString().slice(0, 10),
-    });
+    const item: PicaLineItem = {
+      issue: template.issue,
+      problemIdentification: template.problemIdentification,
+      correctiveAction: template.correctiveAction,
+      personInChargeId: template.personInChargeId ?? 0,
+      dueDate: addDays(form.getValues("date"), template.dueInDays),
+      severity: template.severity,
+      likelihood: template.likelihood,
+      recurrenceOfPicaId: null,
+    };
+    const items = form.getValues("picaItems");
+    const lastIndex = items.length - 1;
+    const lastItem = items[lastIndex];
+    if (!lastItem.issue && !lastItem.problemIdentification && !lastItem.correctiveAction) {
+      update(lastIndex, item);
+    } else {
+      append(item);
+    }
+  };
+
+  // Rating an item's risk suggests the due date configured for its risk level
+  const handleRiskChange = (index: number, field: "severity" | "likelihood", value: number | null) => {
+    form.setValue(`picaItems.${index}.${field}`, value);
+    const item = form.getValues(`picaItems.${index}`);
+    const dueDate = getDueDate(form.getValues("date"), item.severity, item.likelihood);
+    if (dueDate) {
+      form.setValue(`picaItems.${index}.dueDate`, dueDate);
+    }
   };
 
   // Create PICA mutation
   const createPica = useMutation({
-    mutationFn: async (data: any) => {
-      // We'll create multiple PICA entries, one for each item
-      const promises = data.picaItems.map((item: any, index: number) => {
-        const picaId = generatePicaId(data.masterPicaId, item.sequence);
-        
-        const picaData = {
-          picaId,
-          projectSiteId: data.projectSiteId,
-          date: data.date,
-          issue: item.issue,
-          problemIdentification: item.problemIdentification,
-          correctiveAction: item.correctiveAction,
-          personInChargeId: item.personInChargeId,
-          dueDate: item.dueDate,
-          status: "progress",
-        };
-        
-        return apiRequest("POST", "/api/picas", picaData);
+    mutationFn: async (data: FormValues) => {
+      // Create all items in one request; the server allocates IDs and inserts them in a single transaction
+      const res = await apiRequest("POST", "/api/picas/batch", {
+        projectSiteId: data.projectSiteId,
+        date: data.date,
+        items: data.picaItems,
       });
-      
-      return Promise.all(promises);
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/picas"] });
       queryClient.invalidateQueries({ queryKey: ["/api/picas/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/picas/next-id"] });
       toast({
         title: "Success",
         description: "PICA(s) created successfully",
@@ -247,24 +256,23 @@ const NewPica: React.FC = () => {
         projectSiteId: 0,
         masterPicaId: "",
         date: new Date().toISOString().slice(0, 10),
-        picaItems: [
-          {
-            sequence: 1,
-            issue: "",
-            problemIdentification: "",
-            correctiveAction: "",
-            personInChargeId: 0,
-            dueDate: new Date().toISOString().slice(0, 10),
-          },
-        ],
+        picaItems: [emptyPicaItem()],
       });
       setSelectedProjectSite("");
-      setMasterPicaId("");
     },
-    onError: (error) => {
+    onError: (error: Error) => {
+      // Show validation errors from the server next to the item they belong to
+      const itemErrors = parseItemErrors(error);
+      itemErrors.forEach(({ index, field, message }) => {
+        const fieldName = field in picaLineItemSchema.shape ? field : "issue";
+        form.setError(`picaItems.${index}.${fieldName as keyof PicaLineItem}`, { message });
+      });
+      
       toast({
         title: "Error",
-        description: "Failed to create PICA",
+        description: itemErrors.length > 0
+          ? `Failed to create PICA: ${itemErrors.length} item error(s), nothing was saved`
+          : "Failed to create PICA",
         variant: "destructive",
       });
     },
@@ -356,16 +364,18 @@ const NewPica: React.FC = () => {
                       <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Problem Identification</th>
                       <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Corrective Action (Task)</th>
                       <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">PIC</th>
+                      <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Risk</th>
                       <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Due Date</th>
                       <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
                     </tr>
                   </thead>
                   <tbody>
                     {fields.map((field, index) => (
-                      <tr key={field.id} className={index % 2 === 0 ? "bg-gray-100" : "bg-white"}>
+                      <React.Fragment key={field.id}>
+                      <tr className={index % 2 === 0 ? "bg-gray-100" : "bg-white"}>
                         <td className="py-2 px-4 border-b border-gray-300 text-sm">
                           {masterPicaId && (
-                            <div className="font-medium">{generatePicaId(masterPicaId, field.sequence)}</div>
+                            <div className="font-medium">{generatePicaId(masterPicaId, index + 1)}</div>
                           )}
                         </td>
                         <td className="py-2 px-4 border-b border-gray-300 text-sm">
@@ -437,6 +447,29 @@ const NewPica: React.FC = () => {
                             )}
                           />
                         </td>
+                        <td className="py-2 px-4 border-b border-gray-300 text-sm">
+                          <div className="flex flex-col gap-1">
+                            {(["severity", "likelihood"] as const).map((ratingField) => (
+                              <select
+                                key={ratingField}
+                                className="w-full bg-transparent border-0 p-0 shadow-none"
+                                value={form.watch(`picaItems.${index}.${ratingField}`)?.toString() ?? ""}
+                                onChange={(e) => handleRiskChange(index, ratingField, e.target.value ? parseInt(e.target.value) : null)}
+                              >
+                                <option value="">{ratingField === "severity" ? "Severity" : "Likelihood"}</option>
+                                {(ratingField === "severity" ? matrix.severityLabels : matrix.likelihoodLabels).map((label, labelIndex) => (
+                                  <option key={label} value={labelIndex + 1}>
+                                    {labelIndex + 1} – {label}
+                                  </option>
+                                ))}
+                              </select>
+                            ))}
+                            <RiskBadge
+                              level={getRisk(form.watch(`picaItems.${index}.severity`), form.watch(`picaItems.${index}.likelihood`)).riskLevel}
+                              size="xs"
+                            />
+                          </div>
+                        </td>
                         <td className="py-2 px-4 border-b border-gray-300 text-sm">
                           <FormField
                             control={form.control}
@@ -464,12 +497,29 @@ const NewPica: React.FC = () => {
                           )}
                         </td>
                       </tr>
+                      <RepeatFindingRow
+                        projectSiteId={selectedProjectSite}
+                        issue={form.watch(`picaItems.${index}.issue`)}
+                        recurrenceOfPicaId={form.watch(`picaItems.${index}.recurrenceOfPicaId`)}
+                        onRecurrenceChange={(picaId) => form.setValue(`picaItems.${index}.recurrenceOfPicaId`, picaId)}
+                      />
+                      {form.formState.errors.picaItems?.[index] && (
+                        <tr>
+                          <td colSpan={8} className="py-1 px-4 border-b border-gray-300 text-sm text-red-600">
+                            {Object.values(form.formState.errors.picaItems[index] ?? {})
+                              .map((fieldError) => (fieldError as { message?: string })?.message)
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </td>
+                        </tr>
+                      )}
+                      </React.Fragment>
                     ))}
                   </tbody>
                 </table>
               </div>
 
-              <div className="mt-4 mb-6">
+              <div className="mt-4 mb-6 flex flex-wrap items-center gap-3">
                 <Button
                   type="button"
                   variant="outline"
@@ -480,6 +530,21 @@ const NewPica: React.FC = () => {
                   <Plus size={18} className="mr-2" />
                   Add Another PICA Item
                 </Button>
+                {templates && templates.length > 0 && (
+                  <select
+                    className="h-10 rounded-md border border-input bg-background px-3 text-sm disabled:opacity-50"
+                    value=""
+                    disabled={!selectedProjectSite}
+                    onChange={(e) => handleApplyTemplate(e.target.value)}
+                  >
+                    <option value="">Add from template...</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id.toString()}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
 
               <div className="mt-6 flex justify-end">
@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
 import { z } from "zod";
 import { insertPersonSchema } from "@shared/schema";
 
@@ -39,6 +39,9 @@ const PersonInCharge: React.FC = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
+  // Set when the server refuses the delete because the person still has open PICAs
+  const [openPicaWarning, setOpenPicaWarning] = useState<string | null>(null);
+  const [reassignToId, setReassignToId] = useState<number | null>(null);
   const [selectedDepartmentId, setSelectedDepartmentId] = useState<number | null>(null);
   const [selectedDepartment, setSelectedDepartment] = useState<Department | null>(null);
 
@@ -142,20 +145,28 @@ const PersonInCharge: React.FC = () => {
   const deletePerson = useMutation({
     mutationFn: async () => {
       if (!selectedPerson) throw new Error("No person selected");
-      return apiRequest("DELETE", `/api/people/${selectedPerson.id}`, undefined);
+      const query = reassignToId ? `?reassignToId=${reassignToId}` : "";
+      return apiRequest("DELETE", `/api/people/${selectedPerson.id}${query}`, undefined);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/people"] });
+      // Reassigned PICAs changed hands
+      invalidateRelatedQueries('picas');
       toast({
         title: "Success",
-        description: "Person deleted successfully",
+        description: "Person moved to the trash",
       });
       setIsDeleteDialogOpen(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // Open PICAs need a new person in charge before the delete can go through
+      if (error.message.startsWith("409")) {
+        setOpenPicaWarning(getApiErrorMessage(error, "This person still has open PICAs"));
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to delete person",
+        description: getApiErrorMessage(error, "Failed to delete person"),
         variant: "destructive",
       });
     },
@@ -187,6 +198,8 @@ const PersonInCharge: React.FC = () => {
   // Handle delete button click
   const handleDelete = (person: Person) => {
     setSelectedPerson(person);
+    setOpenPicaWarning(null);
+    setReassignToId(null);
     setIsDeleteDialogOpen(true);
   };
 
@@ -518,8 +531,29 @@ const PersonInCharge: React.FC = () => {
             <p className="font-medium my-2">
               {selectedPerson?.name}
             </p>
-            <p className="text-sm text-gray-500">This action cannot be undone.</p>
+            <p className="text-sm text-gray-500">An admin can restore them from the trash.</p>
           </div>
+          {openPicaWarning && (
+            <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm">
+              <p className="text-amber-800">{openPicaWarning}</p>
+              <label className="block font-medium text-gray-700" htmlFor="reassign-to">
+                Reassign open PICAs to
+              </label>
+              <select
+                id="reassign-to"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                value={reassignToId?.toString() ?? ""}
+                onChange={(e) => setReassignToId(e.target.value ? parseInt(e.target.value) : null)}
+              >
+                <option value="">Select person</option>
+                {people?.filter((person) => person.id !== selectedPerson?.id).map((person) => (
+                  <option key={person.id} value={person.id.toString()}>
+                    {person.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <DialogFooter>
             <Button
               type="button"
@@ -532,9 +566,9 @@ const PersonInCharge: React.FC = () => {
               type="button"
               variant="destructive"
               onClick={() => deletePerson.mutate()}
-              disabled={deletePerson.isPending}
+              disabled={deletePerson.isPending || (openPicaWarning !== null && !reassignToId)}
             >
-              {deletePerson.isPending ? "Deleting..." : "Delete"}
+              {deletePerson.isPending ? "Deleting..." : openPicaWarning ? "Reassign and Delete" : "Delete"}
             </Button>
           </DialogFooter>
         </DialogContent>
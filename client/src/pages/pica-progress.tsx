@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { PicaWithRelations, PicaHistoryWithRelations } from "@shared/schema";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { PicaWithRelations, PicaHistoryWithRelations, PicaListPage, PicaAttachmentInfo, Person, ProjectSite } from "@shared/schema";
 import { formatDate } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
@@ -12,33 +14,90 @@ import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormDescription } from "@/components/ui/form";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormDescription, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useRiskMatrix } from "@/hooks/use-risk-matrix";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryClient, apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
 import PicaFilterButtons from "@/components/PicaFilterButtons";
 import StatusBadge from "@/components/StatusBadge";
-import { Search, ClipboardList, Clock, MessageCircle } from "lucide-react";
+import RiskBadge from "@/components/RiskBadge";
+import ClosureRequestPanel from "@/components/ClosureRequestPanel";
+import ExtensionRequestPanel from "@/components/ExtensionRequestPanel";
+import RootCausePanel from "@/components/RootCausePanel";
+import ActionItemsPanel from "@/components/ActionItemsPanel";
+import PicaLinksPanel from "@/components/PicaLinksPanel";
+import AttachmentPanel, { attachmentUrl } from "@/components/AttachmentPanel";
+import CommentThread from "@/components/CommentThread";
+import AuditTimeline from "@/components/AuditTimeline";
+import PicaBulkActionBar from "@/components/PicaBulkActionBar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Search, ClipboardList, Clock, MessageCircle, MessageSquare, ShieldCheck, Paperclip, CalendarClock, Microscope, ListChecks, Repeat, Link2, RotateCcw } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 const PicaProgress: React.FC = () => {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { getStatus, getCategory, getTransitions } = useWorkflow();
+  const { matrix: riskMatrix, levels: riskLevels } = useRiskMatrix();
   const [activeFilter, setActiveFilter] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedPica, setSelectedPica] = useState<PicaWithRelations | null>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [siteFilter, setSiteFilter] = useState("all");
+  const [picFilter, setPicFilter] = useState("all");
+  const [riskFilter, setRiskFilter] = useState("all");
+  const [sortOption, setSortOption] = useState("createdAt:desc");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const itemsPerPage = 10;
+  const [, navigate] = useLocation();
 
-  // Fetch PICAs
-  const { data: allPicas, isLoading, refetch } = useQuery<PicaWithRelations[]>({
-    queryKey: ["/api/picas"],
+  // A notification links here with ?pica=<id> to open that PICA
+  const linkedPicaId = parseInt(new URLSearchParams(useSearch()).get("pica") ?? "");
+  const { data: linkedPica } = useQuery<PicaWithRelations>({
+    queryKey: [`/api/picas/${linkedPicaId}`],
+    enabled: !isNaN(linkedPicaId),
+  });
+
+  // Public users only view PICAs, so they get no row selection for bulk actions
+  const canBulkEdit = user?.role === "admin" || user?.role === "user";
+
+  // Wait for the user to stop typing before querying the server
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  // Fetch the current page of PICAs; filtering, sorting and pagination happen on the server
+  const [sort, order] = sortOption.split(":");
+  const { data: picaPage, isLoading, refetch } = useQuery<PicaListPage>({
+    queryKey: ["/api/picas", {
+      status: activeFilter !== "all" ? activeFilter : undefined,
+      projectSiteId: siteFilter !== "all" ? siteFilter : undefined,
+      personInChargeId: picFilter !== "all" ? picFilter : undefined,
+      riskLevel: riskFilter !== "all" ? riskFilter : undefined,
+      search: debouncedSearch,
+      sort,
+      order,
+      page: currentPage,
+      pageSize: itemsPerPage,
+    }],
+    placeholderData: keepPreviousData,
   });
 
   // Fetch people for edit form
-  const { data: people } = useQuery<any[]>({
+  const { data: people } = useQuery<Person[]>({
     queryKey: ["/api/people"],
   });
+
+  // Fetch project sites for the site filter
+  const { data: projectSites } = useQuery<ProjectSite[]>({
+    queryKey: ["/api/project-sites"],
+  });
   
   // Fetch PICA history when a PICA is selected
   const { data: picaHistory, isLoading: isHistoryLoading } = useQuery<PicaHistoryWithRelations[]>({
@@ -46,6 +105,12 @@ const PicaProgress: React.FC = () => {
     enabled: !!selectedPica,
   });
 
+  // Fetch attachments so history entries can show the files linked to them
+  const { data: picaAttachments } = useQuery<PicaAttachmentInfo[]>({
+    queryKey: [`/api/picas/${selectedPica?.id}/attachments`],
+    enabled: !!selectedPica,
+  });
+
   // Set up a periodic refresh to check for status updates
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -55,53 +120,37 @@ const PicaProgress: React.FC = () => {
     return () => clearInterval(intervalId);
   }, [refetch]);
 
-  // Filter PICAs based on the active filter and search query
-  const filteredPicas = React.useMemo(() => {
-    if (!allPicas) return [];
-    
-    let filtered = allPicas;
-    
-    // First apply status filter
-    if (activeFilter !== "all") {
-      filtered = filtered.filter((pica) => pica.status === activeFilter);
-    }
-    
-    // Then apply search filter if a search query exists
-    if (searchQuery.trim()) {
-      const lowerQuery = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter((pica) => 
-        pica.picaId.toLowerCase().includes(lowerQuery) ||
-        pica.issue.toLowerCase().includes(lowerQuery) ||
-        pica.correctiveAction.toLowerCase().includes(lowerQuery) ||
-        pica.problemIdentification.toLowerCase().includes(lowerQuery) ||
-        pica.projectSite.code.toLowerCase().includes(lowerQuery) ||
-        pica.projectSite.name.toLowerCase().includes(lowerQuery) ||
-        pica.personInCharge.name.toLowerCase().includes(lowerQuery)
-      );
-    }
-    
-    return filtered;
-  }, [allPicas, activeFilter, searchQuery]);
-
-  // Reset to first page when filters change
+  // Reset to first page and drop the selection when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [activeFilter, searchQuery]);
+    setSelectedIds([]);
+  }, [activeFilter, debouncedSearch, siteFilter, picFilter, riskFilter, sortOption]);
+
+  const paginatedPicas = picaPage?.items ?? [];
+  const totalPicas = picaPage?.total ?? 0;
+  const totalPages = picaPage?.totalPages ?? 0;
 
-  // Paginate PICAs
-  const paginatedPicas = React.useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredPicas.slice(startIndex, startIndex + itemsPerPage);
-  }, [filteredPicas, currentPage, itemsPerPage]);
+  // The header checkbox selects or clears every PICA on the current page
+  const pageIds = paginatedPicas.map((pica) => pica.id);
+  const isPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
 
-  // Calculate total pages
-  const totalPages = Math.ceil(filteredPicas.length / itemsPerPage);
+  const togglePageSelection = (checked: boolean) => {
+    setSelectedIds((current) => checked
+      ? [...current, ...pageIds.filter((id) => !current.includes(id))]
+      : current.filter((id) => !pageIds.includes(id)));
+  };
+
+  const togglePicaSelection = (id: number, checked: boolean) => {
+    setSelectedIds((current) => checked ? [...current, id] : current.filter((selectedId) => selectedId !== id));
+  };
 
   // Edit PICA schema
   const editPicaSchema = z.object({
     correctiveAction: z.string().min(1, "Required"),
     personInChargeId: z.number().min(1, "Required"),
     dueDate: z.string().min(1, "Required"),
+    severity: z.number().nullable(),
+    likelihood: z.number().nullable(),
     updateDate: z.string().min(1, "Required"),
     status: z.string().min(1, "Required"),
     comment: z.string().optional(),
@@ -116,12 +165,26 @@ const PicaProgress: React.FC = () => {
       correctiveAction: "",
       personInChargeId: 0,
       dueDate: "",
+      severity: null,
+      likelihood: null,
       updateDate: new Date().toISOString().split('T')[0], // Default to today
       status: "",
       comment: "",
     },
   });
 
+  // The edit dialog offers the current status plus the transitions allowed for the user's role.
+  // Complete statuses are reached through closure verification and left through the reopen action instead.
+  const selectedStatus = form.watch("status");
+  const availableTransitions = selectedPica && getCategory(selectedPica.status) !== "complete"
+    ? getTransitions(selectedPica.status, user?.role ?? "").filter((transition) => getCategory(transition.to) !== "complete")
+    : [];
+  const statusOptions = selectedPica
+    ? [selectedPica.status, ...availableTransitions.map((transition) => transition.to)]
+    : [];
+  const selectedTransition = availableTransitions.find((transition) => transition.to === selectedStatus);
+  const selectedCategory = getCategory(selectedStatus);
+
   // Handle filter change
   const handleFilterChange = (filter: string) => {
     setActiveFilter(filter);
@@ -153,10 +216,10 @@ const PicaProgress: React.FC = () => {
       });
       setIsEditDialogOpen(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update PICA",
+        description: getApiErrorMessage(error, "Failed to update PICA"),
         variant: "destructive",
       });
     },
@@ -174,7 +237,7 @@ const PicaProgress: React.FC = () => {
       
       toast({
         title: "Success",
-        description: "PICA deleted successfully",
+        description: "PICA moved to the trash",
       });
       setIsDeleteDialogOpen(false);
     },
@@ -194,6 +257,8 @@ const PicaProgress: React.FC = () => {
       correctiveAction: pica.correctiveAction,
       personInChargeId: pica.personInChargeId,
       dueDate: pica.dueDate.split('T')[0], // Format date to YYYY-MM-DD
+      severity: pica.severity,
+      likelihood: pica.likelihood,
       updateDate: new Date().toISOString().split('T')[0], // Current date as update date
       status: pica.status,
       comment: "",
@@ -201,6 +266,15 @@ const PicaProgress: React.FC = () => {
     setIsEditDialogOpen(true);
   };
 
+  // Open the linked PICA once it loads, then drop the link so closing the dialog doesn't reopen it
+  useEffect(() => {
+    if (linkedPica && linkedPica.id === linkedPicaId) {
+      setSearchQuery(linkedPica.picaId);
+      handleEdit(linkedPica);
+      navigate("/pica-progress", { replace: true });
+    }
+  }, [linkedPica, linkedPicaId]);
+
   // Handle delete button click
   const handleDelete = (pica: PicaWithRelations) => {
     setSelectedPica(pica);
@@ -209,6 +283,10 @@ const PicaProgress: React.FC = () => {
 
   // Handle form submission
   const onSubmit = (data: EditPicaFormValues) => {
+    if (selectedTransition?.requiresComment && !data.comment?.trim()) {
+      form.setError("comment", { message: "A comment is required for this status change" });
+      return;
+    }
     updatePica.mutate(data);
   };
 
@@ -240,10 +318,88 @@ const PicaProgress: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex flex-col md:flex-row gap-2 mb-4">
+            <Select value={siteFilter} onValueChange={setSiteFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue placeholder="All sites" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sites</SelectItem>
+                {projectSites?.map((site) => (
+                  <SelectItem key={site.id} value={site.id.toString()}>
+                    {site.code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <Select value={picFilter} onValueChange={setPicFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue placeholder="All PICs" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All PICs</SelectItem>
+                {people?.map((person) => (
+                  <SelectItem key={person.id} value={person.id.toString()}>
+                    {person.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <Select value={riskFilter} onValueChange={setRiskFilter}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue placeholder="All risk levels" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All risk levels</SelectItem>
+                {riskLevels.map((level) => (
+                  <SelectItem key={level.key} value={level.key}>
+                    {level.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger className="w-full md:w-56">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt:desc">Newest first</SelectItem>
+                <SelectItem value="createdAt:asc">Oldest first</SelectItem>
+                <SelectItem value="dueDate:asc">Due date (earliest)</SelectItem>
+                <SelectItem value="dueDate:desc">Due date (latest)</SelectItem>
+                <SelectItem value="riskScore:desc">Highest risk</SelectItem>
+                <SelectItem value="updatedAt:desc">Recently updated</SelectItem>
+                <SelectItem value="picaId:asc">PICA ID</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {canBulkEdit && selectedIds.length > 0 && (
+            <PicaBulkActionBar
+              picaIds={selectedIds}
+              people={people ?? []}
+              onDone={(updatedIds) => setSelectedIds((current) => current.filter((id) => !updatedIds.includes(id)))}
+              onClear={() => setSelectedIds([])}
+            />
+          )}
+
           <div className="overflow-x-auto">
             <table className="min-w-full bg-white">
               <thead>
                 <tr>
+                  {canBulkEdit && (
+                    <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">
+                      <Checkbox
+                        checked={isPageSelected}
+                        onCheckedChange={(checked) => togglePageSelection(checked === true)}
+                        className="border-white data-[state=checked]:bg-white data-[state=checked]:text-primary"
+                        aria-label="Select all PICAs on this page"
+                      />
+                    </th>
+                  )}
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">ID</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Date</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Site</th>
@@ -252,6 +408,7 @@ const PicaProgress: React.FC = () => {
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">PIC</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Due Date</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Last Updated</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Risk</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Status</th>
                   <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
                 </tr>
@@ -261,6 +418,7 @@ const PicaProgress: React.FC = () => {
                   // Show skeleton while loading
                   Array(5).fill(0).map((_, i) => (
                     <tr key={i} className={i % 2 === 0 ? "bg-gray-50" : ""}>
+                      {canBulkEdit && <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-4 w-4" /></td>}
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-16" /></td>
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-24" /></td>
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-20" /></td>
@@ -271,13 +429,35 @@ const PicaProgress: React.FC = () => {
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-24" /></td>
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-24" /></td>
                       <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-16" /></td>
+                      <td className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-16" /></td>
                     </tr>
                   ))
                 ) : paginatedPicas.length > 0 ? (
                   // Show PICA data
                   paginatedPicas.map((pica, index) => (
                     <tr key={pica.id} className={index % 2 === 0 ? "bg-gray-50" : ""}>
-                      <td className="py-2 px-4 border-b text-sm">{pica.picaId}</td>
+                      {canBulkEdit && (
+                        <td className="py-2 px-4 border-b text-sm">
+                          <Checkbox
+                            checked={selectedIds.includes(pica.id)}
+                            onCheckedChange={(checked) => togglePicaSelection(pica.id, checked === true)}
+                            aria-label={`Select ${pica.picaId}`}
+                          />
+                        </td>
+                      )}
+                      <td className="py-2 px-4 border-b text-sm">
+                        {pica.picaId}
+                        {pica.recurrenceScheduleId && (
+                          <div className="flex items-center gap-1 text-xs text-gray-500">
+                            <Repeat className="h-3 w-3" /> Recurring
+                          </div>
+                        )}
+                        {pica.reopenCount > 0 && (
+                          <div className="flex items-center gap-1 text-xs text-amber-600">
+                            <RotateCcw className="h-3 w-3" /> Reopened {pica.reopenCount}×
+                          </div>
+                        )}
+                      </td>
                       <td className="py-2 px-4 border-b text-sm">{formatDate(pica.date)}</td>
                       <td className="py-2 px-4 border-b text-sm">{pica.projectSite.code}</td>
                       <td className="py-2 px-4 border-b text-sm">{pica.issue}</td>
@@ -285,10 +465,28 @@ const PicaProgress: React.FC = () => {
                         {pica.correctiveAction.length > 50
                           ? `${pica.correctiveAction.substring(0, 50)}...`
                           : pica.correctiveAction}
+                        {pica.actionItemCount > 0 && (
+                          <div className="mt-1 flex items-center gap-2">
+                            <Progress value={pica.actionProgress ?? 0} className="h-1.5 w-24" />
+                            <span className="text-xs text-gray-500">
+                              {pica.completedActionItemCount}/{pica.actionItemCount} actions
+                            </span>
+                          </div>
+                        )}
                       </td>
                       <td className="py-2 px-4 border-b text-sm">{pica.personInCharge.name}</td>
-                      <td className="py-2 px-4 border-b text-sm">{formatDate(pica.dueDate)}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {formatDate(pica.dueDate)}
+                        {pica.extensionCount > 0 && pica.originalDueDate && (
+                          <div className="text-xs text-orange-600">
+                            was {formatDate(pica.originalDueDate)} · {pica.extensionCount} extension{pica.extensionCount === 1 ? "" : "s"}
+                          </div>
+                        )}
+                      </td>
                       <td className="py-2 px-4 border-b text-sm">{formatDate(pica.updatedAt)}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <RiskBadge level={pica.riskLevel} score={pica.riskScore} size="sm" />
+                      </td>
                       <td className="py-2 px-4 border-b text-sm">
                         <StatusBadge status={pica.status} />
                       </td>
@@ -314,7 +512,7 @@ const PicaProgress: React.FC = () => {
                 ) : (
                   // Show no data message
                   <tr>
-                    <td colSpan={10} className="py-4 text-center text-sm text-gray-500">
+                    <td colSpan={canBulkEdit ? 12 : 11} className="py-4 text-center text-sm text-gray-500">
                       {searchQuery ? "No matching PICA records found" : "No PICA records found"}
                     </td>
                   </tr>
@@ -323,6 +521,12 @@ const PicaProgress: React.FC = () => {
             </table>
           </div>
 
+          {!isLoading && totalPicas > 0 && (
+            <div className="mt-4 text-sm text-gray-500 text-center">
+              Showing {(currentPage - 1) * itemsPerPage + 1}-{Math.min(currentPage * itemsPerPage, totalPicas)} of {totalPicas} PICAs
+            </div>
+          )}
+
           {/* Pagination */}
           {!isLoading && totalPages > 1 && (
             <div className="mt-4 flex justify-center">
@@ -334,7 +538,10 @@ const PicaProgress: React.FC = () => {
                 >
                   Previous
                 </button>
-                {Array.from({ length: totalPages }, (_, i) => i + 1).map((pageNumber) => {
+                {Array.from({ length: totalPages }, (_, i) => i + 1)
+                  // Only show the first, last and nearby pages so large result sets stay compact
+                  .filter((pageNumber) => pageNumber === 1 || pageNumber === totalPages || Math.abs(pageNumber - currentPage) <= 2)
+                  .map((pageNumber) => {
                   return (
                     <button
                       key={pageNumber}
@@ -364,19 +571,40 @@ const PicaProgress: React.FC = () => {
 
       {/* Edit PICA Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="max-w-3xl">
+        <DialogContent className="max-w-5xl">
           <DialogHeader>
             <DialogTitle>Edit PICA</DialogTitle>
           </DialogHeader>
           
           <Tabs defaultValue="edit" className="mt-2">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-9">
               <TabsTrigger value="edit" className="flex items-center gap-2">
                 <ClipboardList className="h-4 w-4" /> Edit PICA
               </TabsTrigger>
+              <TabsTrigger value="actions" className="flex items-center gap-2">
+                <ListChecks className="h-4 w-4" /> Actions
+              </TabsTrigger>
+              <TabsTrigger value="root-cause" className="flex items-center gap-2">
+                <Microscope className="h-4 w-4" /> Root Cause
+              </TabsTrigger>
+              <TabsTrigger value="links" className="flex items-center gap-2">
+                <Link2 className="h-4 w-4" /> Links
+              </TabsTrigger>
+              <TabsTrigger value="closure" className="flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4" /> Closure
+              </TabsTrigger>
+              <TabsTrigger value="extension" className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4" /> Due Date
+              </TabsTrigger>
+              <TabsTrigger value="attachments" className="flex items-center gap-2">
+                <Paperclip className="h-4 w-4" /> Attachments
+              </TabsTrigger>
               <TabsTrigger value="history" className="flex items-center gap-2">
                 <Clock className="h-4 w-4" /> History
               </TabsTrigger>
+              <TabsTrigger value="comments" className="flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" /> Comments
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="edit" className="mt-4">
@@ -411,7 +639,7 @@ const PicaProgress: React.FC = () => {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {people?.map((person: any) => (
+                            {people?.map((person) => (
                               <SelectItem key={person.id} value={person.id.toString()}>
                                 {person.name}
                               </SelectItem>
@@ -429,12 +657,46 @@ const PicaProgress: React.FC = () => {
                       <FormItem>
                         <FormLabel>Due Date</FormLabel>
                         <FormControl>
-                          <Input {...field} type="date" />
+                          <Input {...field} type="date" readOnly disabled />
                         </FormControl>
+                        <FormDescription>Request a new due date in the Due Date tab</FormDescription>
                       </FormItem>
                     )}
                   />
                   
+                  <div className="grid grid-cols-2 gap-4">
+                    {(["severity", "likelihood"] as const).map((ratingField) => (
+                      <FormField
+                        key={ratingField}
+                        control={form.control}
+                        name={ratingField}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{ratingField === "severity" ? "Severity" : "Likelihood"}</FormLabel>
+                            <Select
+                              value={field.value?.toString() ?? "none"}
+                              onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Not rated" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">Not rated</SelectItem>
+                                {(ratingField === "severity" ? riskMatrix.severityLabels : riskMatrix.likelihoodLabels).map((label, index) => (
+                                  <SelectItem key={label} value={(index + 1).toString()}>
+                                    {index + 1} – {label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                  
                   <FormField
                     control={form.control}
                     name="updateDate"
@@ -461,9 +723,11 @@ const PicaProgress: React.FC = () => {
                             onChange={field.onChange}
                           >
                             <option value="" disabled>Select a status</option>
-                            <option value="progress">Progress</option>
-                            <option value="complete">Complete</option>
-                            <option value="overdue">Overdue</option>
+                            {statusOptions.map((status) => (
+                              <option key={status} value={status}>
+                                {getStatus(status)?.label ?? status}
+                              </option>
+                            ))}
                           </select>
                         </FormControl>
                       </FormItem>
@@ -475,15 +739,17 @@ const PicaProgress: React.FC = () => {
                     name="comment"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Comment</FormLabel>
+                        <FormLabel>Comment{selectedTransition?.requiresComment ? " *" : ""}</FormLabel>
                         <FormDescription>
-                          {form.getValues("status") === "complete" ? "Please provide a reason for completion" : 
-                          form.getValues("status") === "overdue" ? "Please provide a reason for overdue status" : 
+                          {selectedTransition?.requiresComment ? "A comment is required for this status change" :
+                          selectedCategory === "complete" ? "Please provide a reason for completion" : 
+                          selectedCategory === "overdue" ? "Please provide a reason for overdue status" : 
                           "Optional comment for this update"}
                         </FormDescription>
                         <FormControl>
                           <Textarea {...field} rows={2} placeholder="Enter a comment for this status change" />
                         </FormControl>
+                        <FormMessage />
                       </FormItem>
                     )}
                   />
@@ -504,6 +770,30 @@ const PicaProgress: React.FC = () => {
               </Form>
             </TabsContent>
             
+            <TabsContent value="actions" className="mt-4">
+              {selectedPica && <ActionItemsPanel pica={selectedPica} />}
+            </TabsContent>
+
+            <TabsContent value="root-cause" className="mt-4">
+              {selectedPica && <RootCausePanel pica={selectedPica} />}
+            </TabsContent>
+
+            <TabsContent value="links" className="mt-4">
+              {selectedPica && <PicaLinksPanel pica={selectedPica} />}
+            </TabsContent>
+
+            <TabsContent value="closure" className="mt-4">
+              {selectedPica && <ClosureRequestPanel pica={selectedPica} />}
+            </TabsContent>
+            
+            <TabsContent value="extension" className="mt-4">
+              {selectedPica && <ExtensionRequestPanel pica={selectedPica} />}
+            </TabsContent>
+
+            <TabsContent value="attachments" className="mt-4">
+              {selectedPica && <AttachmentPanel picaId={selectedPica.id} history={picaHistory} />}
+            </TabsContent>
+            
             <TabsContent value="history" className="mt-4">
               <div className="space-y-4">
                 <Card>
@@ -525,8 +815,10 @@ const PicaProgress: React.FC = () => {
                               <div className="font-medium flex items-center gap-2">
                                 <MessageCircle className="h-4 w-4 text-primary" />
                                 <span>
-                                  Status changed to <StatusBadge status={history.newStatus} />
-                                  {history.newStatus === 'complete' && selectedPica && (
+                                  {history.oldStatus !== history.newStatus ? (
+                                    <>Status changed to <StatusBadge status={history.newStatus} /></>
+                                  ) : "Update"}
+                                  {getCategory(history.newStatus) === 'complete' && selectedPica && (
                                     <span className="ml-1 text-gray-600 text-xs">({formatDate(selectedPica.updatedAt, true)})</span>
                                   )}
                                 </span>
@@ -542,6 +834,17 @@ const PicaProgress: React.FC = () => {
                                 <p className="text-gray-500 italic">No comment provided</p>
                               )}
                             </div>
+                            {picaAttachments?.filter((attachment) => attachment.historyId === history.id).map((attachment) => (
+                              <a
+                                key={attachment.id}
+                                href={attachmentUrl(attachment)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="mt-1 mr-3 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                              >
+                                <Paperclip className="h-3 w-3" /> {attachment.fileName}
+                              </a>
+                            ))}
                             <div className="text-xs text-gray-500 mt-1">
                               {history.user?.username ? `Updated by ${history.user.username}` : "System update"}
                             </div>
@@ -553,8 +856,23 @@ const PicaProgress: React.FC = () => {
                     )}
                   </CardContent>
                 </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Change Log</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {selectedPica && (
+                      <AuditTimeline picaId={selectedPica.id} people={people} projectSites={projectSites} />
+                    )}
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
+            
+            <TabsContent value="comments" className="mt-4">
+              {selectedPica && <CommentThread picaId={selectedPica.id} />}
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
@@ -566,7 +884,7 @@ const PicaProgress: React.FC = () => {
             <DialogTitle>Confirm Deletion</DialogTitle>
           </DialogHeader>
           <p>
-            Are you sure you want to delete PICA <strong>{selectedPica?.picaId}</strong>? This action cannot be undone.
+            Are you sure you want to delete PICA <strong>{selectedPica?.picaId}</strong>? An admin can restore it from the trash.
           </p>
           <DialogFooter>
             <Button
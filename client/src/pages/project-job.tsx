@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest, invalidateRelatedQueries } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
 import { z } from "zod";
 import { insertProjectSiteSchema } from "@shared/schema";
 
@@ -121,14 +121,14 @@ const ProjectJob: React.FC = () => {
       invalidateRelatedQueries('project-sites');
       toast({
         title: "Success",
-        description: "Project job deleted successfully",
+        description: "Project job moved to the trash",
       });
       setIsDeleteDialogOpen(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete project job",
+        description: getApiErrorMessage(error, "Failed to delete project job"),
         variant: "destructive",
       });
     },
@@ -459,7 +459,7 @@ const ProjectJob: React.FC = () => {
           </DialogHeader>
           <div className="py-4">
             <p>Are you sure you want to delete this project job?</p>
-            <p className="text-gray-500 text-sm mt-2">This action cannot be undone.</p>
+            <p className="text-gray-500 text-sm mt-2">An admin can restore it from the trash.</p>
           </div>
           <DialogFooter>
             <Button
@@ -0,0 +1,774 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  picaTemplateInputSchema,
+  recurrenceScheduleInputSchema,
+  recurrenceFrequencyEnum,
+  PicaTemplate,
+  PicaRecurrenceScheduleWithRelations,
+  Person,
+  ProjectSite,
+  RecurrenceFrequency,
+} from "@shared/schema";
+import { addDays, getIsoToday, getUpcomingOccurrences } from "@shared/recurrence";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRiskMatrix } from "@/hooks/use-risk-matrix";
+import RiskBadge from "@/components/RiskBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+type TemplateFormValues = z.infer<typeof picaTemplateInputSchema>;
+type ScheduleFormValues = z.infer<typeof recurrenceScheduleInputSchema>;
+
+const PREVIEW_COUNT = 5;
+
+const frequencyUnits: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ["day", "days"],
+  weekly: ["week", "weeks"],
+  monthly: ["month", "months"],
+};
+
+// "Every week", "Every 2 months", ...
+const describeCadence = (frequency: string, interval: number) => {
+  const [singular, plural] = frequencyUnits[frequency as RecurrenceFrequency] ?? [frequency, frequency];
+  return interval === 1 ? `Every ${singular}` : `Every ${interval} ${plural}`;
+};
+
+const emptyTemplate = (): TemplateFormValues => ({
+  name: "",
+  issue: "",
+  problemIdentification: "",
+  correctiveAction: "",
+  personInChargeId: null,
+  dueInDays: 7,
+  severity: null,
+  likelihood: null,
+});
+
+const emptySchedule = (): ScheduleFormValues => ({
+  templateId: 0,
+  projectSiteId: 0,
+  personInChargeId: null,
+  frequency: "weekly",
+  interval: 1,
+  startDate: getIsoToday(),
+  endDate: null,
+});
+
+const RecurringPica: React.FC = () => {
+  const { toast } = useToast();
+  const { matrix } = useRiskMatrix();
+  const [selectedTemplate, setSelectedTemplate] = useState<PicaTemplate | null>(null);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<PicaRecurrenceScheduleWithRelations | null>(null);
+  const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
+  const [previewSchedule, setPreviewSchedule] = useState<PicaRecurrenceScheduleWithRelations | null>(null);
+
+  const { data: templates, isLoading: templatesLoading } = useQuery<PicaTemplate[]>({
+    queryKey: ["/api/pica-templates"],
+  });
+
+  const { data: schedules, isLoading: schedulesLoading } = useQuery<PicaRecurrenceScheduleWithRelations[]>({
+    queryKey: ["/api/recurrence-schedules"],
+  });
+
+  const { data: people } = useQuery<Person[]>({
+    queryKey: ["/api/people"],
+  });
+
+  const { data: projectSites } = useQuery<ProjectSite[]>({
+    queryKey: ["/api/project-sites"],
+  });
+
+  const templateForm = useForm<TemplateFormValues>({
+    resolver: zodResolver(picaTemplateInputSchema),
+    defaultValues: emptyTemplate(),
+  });
+
+  const scheduleForm = useForm<ScheduleFormValues>({
+    resolver: zodResolver(recurrenceScheduleInputSchema),
+    defaultValues: emptySchedule(),
+  });
+
+  const getPersonName = (personId: number | null | undefined) =>
+    people?.find((person) => person.id === personId)?.name ?? "-";
+
+  // Schedules show their template, so both lists refresh after any change
+  const invalidateRecurringQueries = () => {
+    invalidateRelatedQueries('pica-templates');
+    invalidateRelatedQueries('recurrence-schedules');
+  };
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const saveTemplate = useMutation({
+    mutationFn: async (data: TemplateFormValues) => {
+      return selectedTemplate
+        ? apiRequest("PUT", `/api/pica-templates/${selectedTemplate.id}`, data)
+        : apiRequest("POST", "/api/pica-templates", data);
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: selectedTemplate ? "Template updated successfully" : "Template created successfully",
+      });
+      setIsTemplateDialogOpen(false);
+    },
+    onError: onMutationError("Failed to save template"),
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (template: PicaTemplate) => {
+      return apiRequest("DELETE", `/api/pica-templates/${template.id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: "Template deleted successfully",
+      });
+    },
+    onError: onMutationError("Failed to delete template"),
+  });
+
+  const saveSchedule = useMutation({
+    mutationFn: async (data: ScheduleFormValues) => {
+      return selectedSchedule
+        ? apiRequest("PUT", `/api/recurrence-schedules/${selectedSchedule.id}`, data)
+        : apiRequest("POST", "/api/recurrence-schedules", data);
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: selectedSchedule ? "Schedule updated successfully" : "Schedule created successfully",
+      });
+      setIsScheduleDialogOpen(false);
+    },
+    onError: onMutationError("Failed to save schedule"),
+  });
+
+  const setSchedulePaused = useMutation({
+    mutationFn: async ({ id, isPaused }: { id: number; isPaused: boolean }) => {
+      return apiRequest("PUT", `/api/recurrence-schedules/${id}`, { isPaused });
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+    },
+    onError: onMutationError("Failed to update schedule"),
+  });
+
+  const deleteSchedule = useMutation({
+    mutationFn: async (schedule: PicaRecurrenceScheduleWithRelations) => {
+      return apiRequest("DELETE", `/api/recurrence-schedules/${schedule.id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: "Schedule deleted successfully",
+      });
+    },
+    onError: onMutationError("Failed to delete schedule"),
+  });
+
+  const handleAddTemplate = () => {
+    setSelectedTemplate(null);
+    templateForm.reset(emptyTemplate());
+    setIsTemplateDialogOpen(true);
+  };
+
+  const handleEditTemplate = (template: PicaTemplate) => {
+    setSelectedTemplate(template);
+    templateForm.reset({
+      name: template.name,
+      issue: template.issue,
+      problemIdentification: template.problemIdentification,
+      correctiveAction: template.correctiveAction,
+      personInChargeId: template.personInChargeId,
+      dueInDays: template.dueInDays,
+      severity: template.severity,
+      likelihood: template.likelihood,
+    });
+    setIsTemplateDialogOpen(true);
+  };
+
+  const handleAddSchedule = () => {
+    setSelectedSchedule(null);
+    scheduleForm.reset(emptySchedule());
+    setIsScheduleDialogOpen(true);
+  };
+
+  const handleEditSchedule = (schedule: PicaRecurrenceScheduleWithRelations) => {
+    setSelectedSchedule(schedule);
+    scheduleForm.reset({
+      templateId: schedule.templateId,
+      projectSiteId: schedule.projectSiteId,
+      personInChargeId: schedule.personInChargeId,
+      frequency: schedule.frequency as RecurrenceFrequency,
+      interval: schedule.interval,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+    });
+    setIsScheduleDialogOpen(true);
+  };
+
+  // Upcoming PICAs of a schedule from its next run; paused schedules resume from today
+  const today = getIsoToday();
+  const previewOccurrences = previewSchedule?.nextRunDate
+    ? getUpcomingOccurrences(previewSchedule, previewSchedule.nextRunDate < today ? today : previewSchedule.nextRunDate, PREVIEW_COUNT)
+    : [];
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Recurring PICAs</h1>
+      </div>
+
+      <Card className="shadow mb-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Recurrence Schedules</CardTitle>
+          <Button onClick={handleAddSchedule} disabled={!templates || templates.length === 0}>
+            Add Schedule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Site</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Template</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Cadence</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">PIC</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Next Run</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Generated</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Active</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedulesLoading ? (
+                  Array(3).fill(0).map((_, i) => (
+                    <tr key={i} className={i % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td colSpan={8} className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-full" /></td>
+                    </tr>
+                  ))
+                ) : schedules && schedules.length > 0 ? (
+                  schedules.map((schedule, index) => (
+                    <tr key={schedule.id} className={index % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td className="py-2 px-4 border-b text-sm">{schedule.projectSite.code}</td>
+                      <td className="py-2 px-4 border-b text-sm">{schedule.template.name}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {describeCadence(schedule.frequency, schedule.interval)}
+                        <div className="text-xs text-gray-500">
+                          from {formatDate(schedule.startDate)}{schedule.endDate ? ` until ${formatDate(schedule.endDate)}` : ""}
+                        </div>
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {schedule.personInCharge?.name ?? getPersonName(schedule.template.personInChargeId)}
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {schedule.isPaused ? (
+                          <span className="text-gray-500">Paused</span>
+                        ) : schedule.nextRunDate ? (
+                          formatDate(schedule.nextRunDate)
+                        ) : (
+                          <span className="text-gray-500">Ended</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">{schedule.generatedCount}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <Switch
+                          checked={!schedule.isPaused}
+                          disabled={setSchedulePaused.isPending}
+                          onCheckedChange={(checked) => setSchedulePaused.mutate({ id: schedule.id, isPaused: !checked })}
+                        />
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <div className="flex space-x-2">
+                          <button className="text-blue-600 hover:text-blue-800" onClick={() => setPreviewSchedule(schedule)}>
+                            Preview
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-blue-600 hover:text-blue-800" onClick={() => handleEditSchedule(schedule)}>
+                            Edit
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-red-600 hover:text-red-800" onClick={() => deleteSchedule.mutate(schedule)}>
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="py-4 text-center text-sm text-gray-500">
+                      No recurrence schedules yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">PICA Templates</CardTitle>
+          <Button onClick={handleAddTemplate}>Add Template</Button>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Name</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Issue</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Default PIC</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Due In</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Risk</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templatesLoading ? (
+                  Array(3).fill(0).map((_, i) => (
+                    <tr key={i} className={i % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td colSpan={6} className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-full" /></td>
+                    </tr>
+                  ))
+                ) : templates && templates.length > 0 ? (
+                  templates.map((template, index) => (
+                    <tr key={template.id} className={index % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td className="py-2 px-4 border-b text-sm font-medium">{template.name}</td>
+                      <td className="py-2 px-4 border-b text-sm">{template.issue}</td>
+                      <td className="py-2 px-4 border-b text-sm">{getPersonName(template.personInChargeId)}</td>
+                      <td className="py-2 px-4 border-b text-sm">{template.dueInDays} day{template.dueInDays === 1 ? "" : "s"}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <RiskRating severity={template.severity} likelihood={template.likelihood} />
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <div className="flex space-x-2">
+                          <button className="text-blue-600 hover:text-blue-800" onClick={() => handleEditTemplate(template)}>
+                            Edit
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-red-600 hover:text-red-800" onClick={() => deleteTemplate.mutate(template)}>
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="py-4 text-center text-sm text-gray-500">
+                      No templates yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Template Dialog */}
+      <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedTemplate ? "Edit Template" : "Add Template"}</DialogTitle>
+          </DialogHeader>
+          <Form {...templateForm}>
+            <form onSubmit={templateForm.handleSubmit((data) => saveTemplate.mutate(data))} className="space-y-4">
+              <FormField
+                control={templateForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Weekly safety walk – scaffolding" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {(["issue", "problemIdentification", "correctiveAction"] as const).map((textField) => (
+                <FormField
+                  key={textField}
+                  control={templateForm.control}
+                  name={textField}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {textField === "issue" ? "Issue" : textField === "problemIdentification" ? "Problem Identification" : "Corrective Action"}
+                      </FormLabel>
+                      <FormControl>
+                        {textField === "issue" ? <Input {...field} /> : <Textarea {...field} rows={2} />}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={templateForm.control}
+                  name="personInChargeId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default PIC</FormLabel>
+                      <Select
+                        value={field.value ? field.value.toString() : "none"}
+                        onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No default</SelectItem>
+                          {people?.map((person) => (
+                            <SelectItem key={person.id} value={person.id.toString()}>
+                              {person.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={templateForm.control}
+                  name="dueInDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Due In (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={365}
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseInt(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {(["severity", "likelihood"] as const).map((ratingField) => (
+                  <FormField
+                    key={ratingField}
+                    control={templateForm.control}
+                    name={ratingField}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{ratingField === "severity" ? "Severity" : "Likelihood"}</FormLabel>
+                        <Select
+                          value={field.value ? field.value.toString() : "none"}
+                          onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Not rated</SelectItem>
+                            {(ratingField === "severity" ? matrix.severityLabels : matrix.likelihoodLabels).map((label, labelIndex) => (
+                              <SelectItem key={label} value={(labelIndex + 1).toString()}>
+                                {labelIndex + 1} – {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveTemplate.isPending}>
+                  {saveTemplate.isPending ? "Saving..." : "Save Template"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add/Edit Schedule Dialog */}
+      <Dialog open={isScheduleDialogOpen} onOpenChange={setIsScheduleDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedSchedule ? "Edit Schedule" : "Add Schedule"}</DialogTitle>
+          </DialogHeader>
+          <Form {...scheduleForm}>
+            <form onSubmit={scheduleForm.handleSubmit((data) => saveSchedule.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={scheduleForm.control}
+                  name="templateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Template</FormLabel>
+                      <Select value={field.value ? field.value.toString() : ""} onValueChange={(value) => field.onChange(parseInt(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select template" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {templates?.map((template) => (
+                            <SelectItem key={template.id} value={template.id.toString()}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="projectSiteId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project Site</FormLabel>
+                      <Select value={field.value ? field.value.toString() : ""} onValueChange={(value) => field.onChange(parseInt(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select project site" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {projectSites?.map((site) => (
+                            <SelectItem key={site.id} value={site.id.toString()}>
+                              {site.code}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeats</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {recurrenceFrequencyEnum.options.map((frequency) => (
+                            <SelectItem key={frequency} value={frequency} className="capitalize">
+                              {frequency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={52}
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value === "" ? 1 : parseInt(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {describeCadence(scheduleForm.watch("frequency"), scheduleForm.watch("interval") || 1)}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={scheduleForm.control}
+                  name="personInChargeId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>PIC</FormLabel>
+                      <Select
+                        value={field.value ? field.value.toString() : "template"}
+                        onValueChange={(value) => field.onChange(value === "template" ? null : parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="template">Template default</SelectItem>
+                          {people?.map((person) => (
+                            <SelectItem key={person.id} value={person.id.toString()}>
+                              {person.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsScheduleDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveSchedule.isPending}>
+                  {saveSchedule.isPending ? "Saving..." : "Save Schedule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Upcoming PICAs Preview Dialog */}
+      <Dialog open={!!previewSchedule} onOpenChange={(open) => !open && setPreviewSchedule(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Upcoming PICAs</DialogTitle>
+          </DialogHeader>
+          {previewSchedule && (
+            <div className="space-y-3 text-sm">
+              <p className="text-gray-600">
+                {previewSchedule.template.name} at {previewSchedule.projectSite.code} ·{" "}
+                {describeCadence(previewSchedule.frequency, previewSchedule.interval)}
+                {previewSchedule.isPaused ? " · paused" : ""}
+              </p>
+              {previewOccurrences.length > 0 ? (
+                <table className="min-w-full bg-white">
+                  <thead>
+                    <tr>
+                      <th className="py-2 px-4 bg-gray-100 text-left font-medium">Date</th>
+                      <th className="py-2 px-4 bg-gray-100 text-left font-medium">Issue</th>
+                      <th className="py-2 px-4 bg-gray-100 text-left font-medium">PIC</th>
+                      <th className="py-2 px-4 bg-gray-100 text-left font-medium">Due Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewOccurrences.map((date) => (
+                      <tr key={date}>
+                        <td className="py-2 px-4 border-b">{formatDate(date)}</td>
+                        <td className="py-2 px-4 border-b">{previewSchedule.template.issue}</td>
+                        <td className="py-2 px-4 border-b">
+                          {previewSchedule.personInCharge?.name ?? getPersonName(previewSchedule.template.personInChargeId)}
+                        </td>
+                        <td className="py-2 px-4 border-b">{formatDate(addDays(date, previewSchedule.template.dueInDays))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-center py-4">This schedule has no upcoming runs</p>
+              )}
+              {previewSchedule.isPaused && previewOccurrences.length > 0 && (
+                <p className="text-xs text-gray-500">Nothing is generated while the schedule is paused.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+// Risk badge of a template's default rating
+const RiskRating: React.FC<{ severity: number | null; likelihood: number | null }> = ({ severity, likelihood }) => {
+  const { getRisk } = useRiskMatrix();
+  const { riskLevel, riskScore } = getRisk(severity, likelihood);
+  return <RiskBadge level={riskLevel} score={riskScore} size="sm" />;
+};
+
+export default RecurringPica;
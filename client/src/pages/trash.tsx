@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { trashItemTypeEnum, TrashItem, TrashItemType } from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+const trashItemTypeLabels: Record<TrashItemType, string> = {
+  pica: "PICA",
+  person: "Person",
+  department: "Department",
+  project_site: "Project Job",
+};
+
+// Collections that change when an item of each type leaves the trash
+const trashItemQueryKeys: Record<TrashItemType, string> = {
+  pica: "picas",
+  person: "people",
+  department: "departments",
+  project_site: "project-sites",
+};
+
+// Deleted PICAs and master data of the organization, restorable or permanently deleted by admins
+const Trash: React.FC = () => {
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState<TrashItemType | "all">("all");
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem | null>(null);
+
+  const { data: items, isLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const refreshAfter = (item: TrashItem) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    invalidateRelatedQueries(trashItemQueryKeys[item.type]);
+  };
+
+  const restoreItem = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      return apiRequest("POST", `/api/trash/${item.type}/${item.id}/restore`);
+    },
+    onSuccess: (_, item) => {
+      refreshAfter(item);
+      toast({
+        title: "Success",
+        description: `${item.label} restored`,
+      });
+    },
+    onError: onMutationError("Failed to restore item"),
+  });
+
+  const purgeItem = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      return apiRequest("DELETE", `/api/trash/${item.type}/${item.id}`);
+    },
+    onSuccess: (_, item) => {
+      refreshAfter(item);
+      setPurgeTarget(null);
+      toast({
+        title: "Success",
+        description: `${item.label} permanently deleted`,
+      });
+    },
+    onError: (error: Error) => {
+      setPurgeTarget(null);
+      onMutationError("Failed to permanently delete item")(error);
+    },
+  });
+
+  const visibleItems = items?.filter((item) => typeFilter === "all" || item.type === typeFilter) ?? [];
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Trash</h1>
+      </div>
+
+      <Card className="shadow mb-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Deleted Items</CardTitle>
+          <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as TrashItemType | "all")}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {trashItemTypeEnum.options.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {trashItemTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Type</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Item</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Deleted</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Deleted By</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(3).fill(0).map((_, i) => (
+                    <tr key={i} className={i % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td colSpan={5} className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-full" /></td>
+                    </tr>
+                  ))
+                ) : visibleItems.length > 0 ? (
+                  visibleItems.map((item, index) => (
+                    <tr key={`${item.type}-${item.id}`} className={index % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td className="py-2 px-4 border-b text-sm">{trashItemTypeLabels[item.type]}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <span className="font-medium">{item.label}</span>
+                        {item.description && (
+                          <div className="text-xs text-gray-500 truncate max-w-md">{item.description}</div>
+                        )}
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">{formatDate(item.deletedAt)}</td>
+                      <td className="py-2 px-4 border-b text-sm">{item.deletedBy?.name ?? "Unknown"}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => restoreItem.mutate(item)}
+                            disabled={restoreItem.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setPurgeTarget(item)}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" /> Delete Permanently
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">The trash is empty</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget && `${trashItemTypeLabels[purgeTarget.type]} ${purgeTarget.label}`} will be deleted for good
+              {purgeTarget?.type === "pica" ? ", together with its history, comments and attachments" : ""}.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (purgeTarget) {
+                  purgeItem.mutate(purgeTarget);
+                }
+              }}
+              disabled={purgeItem.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purgeItem.isPending ? "Deleting..." : "Delete Permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
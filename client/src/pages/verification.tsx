@@ -0,0 +1,379 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  ClosureQueue,
+  EffectivenessDecision,
+  EffectivenessFollowUp,
+  PicaClosureRequestWithRelations,
+  PicaDueDateExtensionWithRelations,
+  PicaEffectivenessReviewWithRelations,
+} from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import { apiRequest, getApiErrorMessage, invalidateRelatedQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import StatusBadge from "@/components/StatusBadge";
+import { CheckCircle, XCircle } from "lucide-react";
+
+type Decision = "approve" | "reject";
+
+// Closure or extension request awaiting a decision
+type SelectedRequest = {
+  kind: "closure" | "extension";
+  id: number;
+  picaId: number;
+  picaCode: string;
+};
+
+const Verification: React.FC = () => {
+  const { toast } = useToast();
+  const [selectedRequest, setSelectedRequest] = useState<SelectedRequest | null>(null);
+  const [decision, setDecision] = useState<Decision>("approve");
+  const [reason, setReason] = useState("");
+
+  // Fetch closures awaiting my verification and my rejected closures
+  const { data: queue, isLoading } = useQuery<ClosureQueue>({
+    queryKey: ["/api/closure-requests/queue"],
+  });
+
+  // Fetch due date extensions awaiting my approval
+  const { data: pendingExtensions, isLoading: extensionsLoading } = useQuery<PicaDueDateExtensionWithRelations[]>({
+    queryKey: ["/api/extension-requests/queue"],
+  });
+
+  // Fetch effectiveness reviews that are due and assigned to me
+  const { data: dueReviews, isLoading: reviewsLoading } = useQuery<PicaEffectivenessReviewWithRelations[]>({
+    queryKey: ["/api/effectiveness-reviews/queue"],
+  });
+
+  const [selectedReview, setSelectedReview] = useState<PicaEffectivenessReviewWithRelations | null>(null);
+  const [reviewOutcome, setReviewOutcome] = useState<EffectivenessDecision["outcome"]>("effective");
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [followUp, setFollowUp] = useState<EffectivenessFollowUp>("reopen");
+  const [correctiveAction, setCorrectiveAction] = useState("");
+
+  const decisionLabel = selectedRequest?.kind === "extension" ? "Extension" : "Closure";
+
+  // Record the verifier's decision
+  const decideRequest = useMutation({
+    mutationFn: async () => {
+      if (!selectedRequest) throw new Error("No request selected");
+      const path = selectedRequest.kind === "extension" ? "extension-requests" : "closure-requests";
+      return apiRequest("POST", `/api/${path}/${selectedRequest.id}/decision`, { decision, reason });
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', selectedRequest?.picaId);
+      toast({
+        title: "Success",
+        description: `${decisionLabel} ${decision === "approve" ? "approved" : "rejected"}`,
+      });
+      setSelectedRequest(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record decision"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Record the reviewer's effectiveness decision
+  const decideReview = useMutation({
+    mutationFn: async () => {
+      if (!selectedReview) throw new Error("No review selected");
+      const data: EffectivenessDecision = reviewOutcome === "effective"
+        ? { outcome: "effective", notes: reviewNotes }
+        : { outcome: "ineffective", notes: reviewNotes, followUp, correctiveAction: followUp === "new_pica" ? correctiveAction : undefined };
+      return apiRequest("POST", `/api/effectiveness-reviews/${selectedReview.id}/decision`, data);
+    },
+    onSuccess: () => {
+      invalidateRelatedQueries('picas', selectedReview?.picaId);
+      toast({
+        title: "Success",
+        description: `Corrective action marked ${reviewOutcome}`,
+      });
+      setSelectedReview(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record review"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Open the effectiveness review dialog
+  const openReview = (review: PicaEffectivenessReviewWithRelations, outcome: EffectivenessDecision["outcome"]) => {
+    setSelectedReview(review);
+    setReviewOutcome(outcome);
+    setReviewNotes("");
+    setFollowUp("reopen");
+    setCorrectiveAction("");
+  };
+
+  const reviewIncomplete = reviewOutcome === "ineffective" &&
+    (!reviewNotes.trim() || (followUp === "new_pica" && !correctiveAction.trim()));
+
+  // Open the decision dialog
+  const openDecision = (
+    kind: SelectedRequest["kind"],
+    request: PicaClosureRequestWithRelations | PicaDueDateExtensionWithRelations,
+    nextDecision: Decision
+  ) => {
+    setSelectedRequest({ kind, id: request.id, picaId: request.picaId, picaCode: request.pica.picaId });
+    setDecision(nextDecision);
+    setReason("");
+  };
+
+  const renderRequest = (request: PicaClosureRequestWithRelations, actions?: React.ReactNode) => (
+    <div key={request.id} className="border-b pb-4 text-sm">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-2 mb-2">
+        <div>
+          <div className="font-medium text-gray-900 flex items-center gap-2">
+            {request.pica.picaId} <StatusBadge status={request.pica.status} size="xs" />
+          </div>
+          <div className="text-gray-500">
+            {request.pica.projectSite.code} · PIC: {request.pica.personInCharge.name} · Due {formatDate(request.pica.dueDate)}
+          </div>
+        </div>
+        {actions}
+      </div>
+      <p className="text-gray-700"><strong>Issue:</strong> {request.pica.issue}</p>
+      <p className="text-gray-700 mt-1"><strong>Completion note:</strong> {request.completionNote}</p>
+      <p className="text-gray-700 mt-1"><strong>Evidence:</strong> {request.evidence}</p>
+      <p className="text-xs text-gray-500 mt-1">
+        Submitted by {request.requestedBy?.name ?? "unknown"} on {formatDate(request.createdAt)}
+      </p>
+      {request.status === "rejected" && (
+        <p className="text-red-700 mt-1">
+          <strong>Rejected by {request.decidedBy?.name ?? "unknown"}:</strong> {request.decisionReason}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Verification</h1>
+      </div>
+
+      <div className="space-y-6">
+        <Card className="shadow">
+          <CardHeader>
+            <CardTitle className="text-lg">Pending My Verification</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : queue && queue.pendingVerification.length > 0 ? (
+              queue.pendingVerification.map((request) => renderRequest(request, (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => openDecision("closure", request, "approve")}>
+                    <CheckCircle className="h-4 w-4 mr-1" /> Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openDecision("closure", request, "reject")}>
+                    <XCircle className="h-4 w-4 mr-1" /> Reject
+                  </Button>
+                </div>
+              )))
+            ) : (
+              <p className="text-gray-500 text-center py-4">No closures awaiting your verification</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow">
+          <CardHeader>
+            <CardTitle className="text-lg">Due Date Extensions Pending My Approval</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {extensionsLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : pendingExtensions && pendingExtensions.length > 0 ? (
+              pendingExtensions.map((request) => (
+                <div key={request.id} className="border-b pb-4 text-sm">
+                  <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-2 mb-2">
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {request.pica.picaId} <StatusBadge status={request.pica.status} size="xs" />
+                      </div>
+                      <div className="text-gray-500">
+                        {request.pica.projectSite.code} · PIC: {request.pica.personInCharge.name} ·{" "}
+                        {request.pica.extensionCount} previous extension{request.pica.extensionCount === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => openDecision("extension", request, "approve")}>
+                        <CheckCircle className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openDecision("extension", request, "reject")}>
+                        <XCircle className="h-4 w-4 mr-1" /> Reject
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-gray-700"><strong>Issue:</strong> {request.pica.issue}</p>
+                  <p className="text-gray-700 mt-1">
+                    <strong>Due date:</strong> {formatDate(request.previousDueDate)} → {formatDate(request.requestedDueDate)}
+                    {request.pica.originalDueDate && ` (originally ${formatDate(request.pica.originalDueDate)})`}
+                  </p>
+                  <p className="text-gray-700 mt-1"><strong>Justification:</strong> {request.justification}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Requested by {request.requestedBy?.name ?? "unknown"} on {formatDate(request.createdAt)}
+                  </p>
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500 text-center py-4">No extensions awaiting your approval</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow">
+          <CardHeader>
+            <CardTitle className="text-lg">Effectiveness Reviews Due</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {reviewsLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : dueReviews && dueReviews.length > 0 ? (
+              dueReviews.map((review) => (
+                <div key={review.id} className="border-b pb-4 text-sm">
+                  <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-2 mb-2">
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {review.pica.picaId} <StatusBadge status={review.pica.status} size="xs" />
+                      </div>
+                      <div className="text-gray-500">
+                        {review.pica.projectSite.code} · PIC: {review.pica.personInCharge.name} ·{" "}
+                        {review.daysAfterClosure}-day check due {formatDate(review.dueDate)}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => openReview(review, "effective")}>
+                        <CheckCircle className="h-4 w-4 mr-1" /> Effective
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openReview(review, "ineffective")}>
+                        <XCircle className="h-4 w-4 mr-1" /> Ineffective
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-gray-700"><strong>Issue:</strong> {review.pica.issue}</p>
+                  <p className="text-gray-700 mt-1"><strong>Corrective action:</strong> {review.pica.correctiveAction}</p>
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500 text-center py-4">No effectiveness reviews due</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow">
+          <CardHeader>
+            <CardTitle className="text-lg">My Rejected Closures</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : queue && queue.rejected.length > 0 ? (
+              queue.rejected.map((request) => renderRequest(request))
+            ) : (
+              <p className="text-gray-500 text-center py-4">No rejected closures</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Effectiveness Review Dialog */}
+      <Dialog open={!!selectedReview} onOpenChange={(open) => !open && setSelectedReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Corrective action of {selectedReview?.pica.picaId} {reviewOutcome === "effective" ? "effective" : "ineffective"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">
+                {reviewOutcome === "effective" ? "Notes (optional)" : "Why was the action ineffective?"}
+              </label>
+              <Textarea value={reviewNotes} onChange={(e) => setReviewNotes(e.target.value)} rows={3} />
+            </div>
+            {reviewOutcome === "ineffective" && (
+              <>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Follow-up</label>
+                  <Select value={followUp} onValueChange={(value) => setFollowUp(value as EffectivenessFollowUp)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="reopen">Reopen this PICA</SelectItem>
+                      <SelectItem value="new_pica">Raise a new linked PICA</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {followUp === "new_pica" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Corrective action for the new PICA</label>
+                    <Textarea value={correctiveAction} onChange={(e) => setCorrectiveAction(e.target.value)} rows={2} />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSelectedReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => decideReview.mutate()}
+              disabled={decideReview.isPending || reviewIncomplete}
+              variant={reviewOutcome === "ineffective" ? "destructive" : "default"}
+            >
+              {decideReview.isPending ? "Saving..." : reviewOutcome === "effective" ? "Mark Effective" : "Mark Ineffective"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Decision Dialog */}
+      <Dialog open={!!selectedRequest} onOpenChange={(open) => !open && setSelectedRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "approve" ? "Approve" : "Reject"} {decisionLabel.toLowerCase()} of {selectedRequest?.picaCode}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              {decision === "approve" ? "Comment (optional)" : "Reason for rejection"}
+            </label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSelectedRequest(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => decideRequest.mutate()}
+              disabled={decideRequest.isPending || (decision === "reject" && !reason.trim())}
+              variant={decision === "reject" ? "destructive" : "default"}
+            >
+              {decideRequest.isPending ? "Saving..." : decision === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Verification;
@@ -0,0 +1,440 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { webhookInputSchema, webhookEventEnum, Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Send } from "lucide-react";
+
+// Leaving the secret blank generates one for a new webhook and keeps the current one when editing
+const webhookFormSchema = webhookInputSchema.extend({
+  secret: z.union([z.literal(""), z.string().trim().min(16, "Secret must be at least 16 characters").max(200)]),
+});
+type WebhookFormValues = z.infer<typeof webhookFormSchema>;
+
+const webhookEventLabels: Record<WebhookEvent, string> = {
+  "pica.created": "PICA created",
+  "pica.updated": "PICA updated",
+  "pica.completed": "PICA completed",
+  "pica.overdue": "PICA overdue",
+};
+
+const deliveryStatusClasses: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const emptyWebhook = (): WebhookFormValues => ({
+  url: "",
+  events: [...webhookEventEnum.options],
+  secret: "",
+  enabled: true,
+});
+
+const formatTimestamp = (value: Date | string) => format(new Date(value), "dd MMM yyyy HH:mm");
+
+// Webhooks that post signed PICA lifecycle events to other systems, with their delivery logs
+const Webhooks: React.FC = () => {
+  const { toast } = useToast();
+  const [isWebhookDialogOpen, setIsWebhookDialogOpen] = useState(false);
+  const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(null);
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const { data: deliveries, isLoading: isDeliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhooks/${logWebhook?.id}/deliveries`],
+    enabled: !!logWebhook,
+  });
+
+  const webhookForm = useForm<WebhookFormValues>({
+    resolver: zodResolver(webhookFormSchema),
+    defaultValues: emptyWebhook(),
+  });
+
+  const invalidateWebhookQueries = (webhookId?: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    if (webhookId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${webhookId}/deliveries`] });
+    }
+  };
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const saveWebhook = useMutation({
+    mutationFn: async (data: WebhookFormValues) => {
+      const body = { ...data, secret: data.secret || undefined };
+      return selectedWebhook
+        ? apiRequest("PUT", `/api/webhooks/${selectedWebhook.id}`, body)
+        : apiRequest("POST", "/api/webhooks", body);
+    },
+    onSuccess: () => {
+      invalidateWebhookQueries();
+      toast({
+        title: "Success",
+        description: selectedWebhook ? "Webhook updated successfully" : "Webhook created successfully",
+      });
+      setIsWebhookDialogOpen(false);
+    },
+    onError: onMutationError("Failed to save webhook"),
+  });
+
+  const setWebhookEnabled = useMutation({
+    mutationFn: async ({ webhook, enabled }: { webhook: Webhook; enabled: boolean }) => {
+      return apiRequest("PUT", `/api/webhooks/${webhook.id}`, {
+        url: webhook.url,
+        events: webhook.events,
+        enabled,
+      });
+    },
+    onSuccess: () => invalidateWebhookQueries(),
+    onError: onMutationError("Failed to update webhook"),
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      return apiRequest("DELETE", `/api/webhooks/${webhook.id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateWebhookQueries();
+      toast({
+        title: "Success",
+        description: "Webhook deleted successfully",
+      });
+    },
+    onError: onMutationError("Failed to delete webhook"),
+  });
+
+  const sendTestEvent = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+      return (await res.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      invalidateWebhookQueries(delivery.webhookId);
+      toast({
+        title: delivery.status === "delivered" ? "Test event delivered" : "Test event failed",
+        description: delivery.status === "delivered"
+          ? `The endpoint responded with HTTP ${delivery.responseStatus}`
+          : delivery.lastError ?? "The endpoint did not accept the event",
+        variant: delivery.status === "delivered" ? undefined : "destructive",
+      });
+    },
+    onError: onMutationError("Failed to send test event"),
+  });
+
+  const retryDelivery = useMutation({
+    mutationFn: async (delivery: WebhookDelivery) => {
+      return apiRequest("POST", `/api/webhooks/deliveries/${delivery.id}/retry`);
+    },
+    onSuccess: (_, delivery) => {
+      invalidateWebhookQueries(delivery.webhookId);
+      toast({
+        title: "Success",
+        description: "Delivery queued again",
+      });
+    },
+    onError: onMutationError("Failed to retry delivery"),
+  });
+
+  const handleAddWebhook = () => {
+    setSelectedWebhook(null);
+    webhookForm.reset(emptyWebhook());
+    setIsWebhookDialogOpen(true);
+  };
+
+  const handleEditWebhook = (webhook: Webhook) => {
+    setSelectedWebhook(webhook);
+    webhookForm.reset({
+      url: webhook.url,
+      events: webhook.events as WebhookEvent[],
+      secret: "",
+      enabled: webhook.enabled,
+    });
+    setIsWebhookDialogOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-gray-800">Webhooks</h1>
+        <Button onClick={handleAddWebhook}>
+          <Plus className="h-4 w-4 mr-1" /> Add Webhook
+        </Button>
+      </div>
+
+      <Card className="shadow mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Subscriptions</CardTitle>
+          <p className="text-sm text-gray-500">
+            Each event is POSTed as JSON with an <code>X-Pica-Signature</code> header: the HMAC-SHA256 of
+            {" "}<code>{"<X-Pica-Timestamp>.<body>"}</code> keyed with the webhook's secret. Failed posts are retried
+            with backoff, and a webhook that keeps failing is disabled.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">URL</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Events</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Status</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Enabled</th>
+                  <th className="py-2 px-4 bg-primary text-white text-left text-sm font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  Array(3).fill(0).map((_, i) => (
+                    <tr key={i} className={i % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td colSpan={5} className="py-2 px-4 border-b text-sm"><Skeleton className="h-5 w-full" /></td>
+                    </tr>
+                  ))
+                ) : webhooks && webhooks.length > 0 ? (
+                  webhooks.map((webhook, index) => (
+                    <tr key={webhook.id} className={index % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td className="py-2 px-4 border-b text-sm font-medium break-all">{webhook.url}</td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {webhook.events.map((event) => webhookEventLabels[event as WebhookEvent] ?? event).join(", ")}
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        {webhook.enabled ? (
+                          webhook.consecutiveFailures > 0 ? (
+                            <span className="text-amber-600">{webhook.consecutiveFailures} recent failure(s)</span>
+                          ) : (
+                            <span className="text-green-700">Healthy</span>
+                          )
+                        ) : (
+                          <div>
+                            <span className="text-red-600">Disabled</span>
+                            {webhook.disabledReason && (
+                              <div className="text-xs text-gray-500 max-w-xs">{webhook.disabledReason}</div>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <Switch
+                          checked={webhook.enabled}
+                          disabled={setWebhookEnabled.isPending}
+                          onCheckedChange={(checked) => setWebhookEnabled.mutate({ webhook, enabled: checked })}
+                        />
+                      </td>
+                      <td className="py-2 px-4 border-b text-sm">
+                        <div className="flex items-center space-x-2">
+                          <button
+                            className="text-blue-600 hover:text-blue-800 inline-flex items-center disabled:opacity-50"
+                            onClick={() => sendTestEvent.mutate(webhook)}
+                            disabled={sendTestEvent.isPending}
+                          >
+                            <Send className="h-3.5 w-3.5 mr-1" /> Send test event
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-blue-600 hover:text-blue-800" onClick={() => setLogWebhook(webhook)}>
+                            Deliveries
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-blue-600 hover:text-blue-800" onClick={() => handleEditWebhook(webhook)}>
+                            Edit
+                          </button>
+                          <span className="text-gray-300">|</span>
+                          <button className="text-red-600 hover:text-red-800" onClick={() => deleteWebhook.mutate(webhook)}>
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">No webhooks yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isWebhookDialogOpen} onOpenChange={setIsWebhookDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedWebhook ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+          </DialogHeader>
+          <Form {...webhookForm}>
+            <form onSubmit={webhookForm.handleSubmit((data) => saveWebhook.mutate(data))} className="space-y-4">
+              <FormField
+                control={webhookForm.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payload URL</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="https://cmms.example.com/hooks/pica" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={webhookForm.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {webhookEventEnum.options.map((event) => (
+                        <label key={event} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) => field.onChange(checked
+                              ? [...field.value, event]
+                              : field.value.filter((value) => value !== event))}
+                          />
+                          {webhookEventLabels[event]}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={webhookForm.control}
+                name="secret"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Secret</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder={selectedWebhook ? "Leave blank to keep the current secret" : "Leave blank to generate one"} />
+                    </FormControl>
+                    {selectedWebhook && (
+                      <FormDescription className="break-all">
+                        Current secret: <code>{selectedWebhook.secret}</code>
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={webhookForm.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsWebhookDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveWebhook.isPending}>
+                  {saveWebhook.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={logWebhook !== null} onOpenChange={(open) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Deliveries</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-500 break-all">{logWebhook?.url}</p>
+          <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Created</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Event</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">PICA</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Status</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Attempts</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Last Result</th>
+                  <th className="py-2 px-3 bg-primary text-white text-left text-sm font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isDeliveriesLoading ? (
+                  <tr>
+                    <td colSpan={7} className="py-2 px-3 border-b text-sm"><Skeleton className="h-5 w-full" /></td>
+                  </tr>
+                ) : deliveries && deliveries.length > 0 ? (
+                  deliveries.map((delivery, index) => (
+                    <tr key={delivery.id} className={index % 2 === 0 ? "bg-gray-50" : ""}>
+                      <td className="py-2 px-3 border-b text-sm whitespace-nowrap">{formatTimestamp(delivery.createdAt)}</td>
+                      <td className="py-2 px-3 border-b text-sm">{delivery.event}</td>
+                      <td className="py-2 px-3 border-b text-sm">{delivery.payload.data?.picaId ?? "-"}</td>
+                      <td className="py-2 px-3 border-b text-sm">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${deliveryStatusClasses[delivery.status] ?? ""}`}>
+                          {delivery.status}
+                        </span>
+                        {delivery.status === "pending" && delivery.attempts > 0 && (
+                          <div className="text-xs text-gray-500">Next try {formatTimestamp(delivery.nextAttemptAt)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 border-b text-sm">{delivery.attempts}</td>
+                      <td className="py-2 px-3 border-b text-xs text-gray-600 max-w-xs break-words">
+                        {delivery.lastError ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "-")}
+                      </td>
+                      <td className="py-2 px-3 border-b text-sm">
+                        {delivery.status === "failed" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryDelivery.mutate(delivery)}
+                            disabled={retryDelivery.isPending}
+                          >
+                            Retry
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="py-4 px-3 text-center text-sm text-gray-500">No deliveries yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Webhooks;
@@ -0,0 +1,102 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import multer from "multer";
+import sharp from "sharp";
+import type { RequestHandler } from "express";
+import {
+  attachmentContentTypes,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  type PicaAttachmentInfo,
+  type PicaAttachmentWithUploader,
+} from "@shared/schema";
+import { fileStorage } from "./fileStorage";
+
+// Longest side of generated image thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+class UnsupportedFileTypeError extends Error {
+  constructor(fileName: string) {
+    super(`File type of "${fileName}" is not allowed`);
+  }
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: MAX_ATTACHMENTS_PER_UPLOAD,
+  },
+  fileFilter: (_req, file, callback) => {
+    if (!attachmentContentTypes.includes(file.mimetype)) {
+      return callback(new UnsupportedFileTypeError(file.originalname));
+    }
+    callback(null, true);
+  },
+});
+
+// Parse multipart uploads from the "files" field, rejecting oversized, excess or disallowed files
+export const uploadAttachments: RequestHandler = (req, res, next) => {
+  upload.array("files", MAX_ATTACHMENTS_PER_UPLOAD)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Files must be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`
+        : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+          ? `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time in the "files" field`
+          : error.message;
+      return res.status(status).json({ message });
+    }
+    if (error instanceof UnsupportedFileTypeError) {
+      return res.status(415).json({ message: error.message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Write an uploaded file (and a thumbnail for images) to the storage driver
+export async function storeAttachmentFile(
+  organizationId: number,
+  picaId: number,
+  file: Express.Multer.File,
+): Promise<{ storageKey: string; thumbnailKey: string | null }> {
+  const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const storageKey = `org-${organizationId}/pica-${picaId}/${randomUUID()}${extension}`;
+  await fileStorage.put(storageKey, file.buffer, file.mimetype);
+
+  let thumbnailKey: string | null = null;
+  if (file.mimetype.startsWith("image/")) {
+    try {
+      const thumbnail = await sharp(file.buffer)
+        .rotate() // Respect EXIF orientation from phone cameras
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+      thumbnailKey = `${storageKey}.thumb.webp`;
+      await fileStorage.put(thumbnailKey, thumbnail, "image/webp");
+    } catch (error) {
+      // A corrupt or unusual image is still kept, just without a preview
+      console.error("Error generating thumbnail:", error);
+      thumbnailKey = null;
+    }
+  }
+
+  return { storageKey, thumbnailKey };
+}
+
+// Remove an attachment's files from the storage driver
+export async function deleteAttachmentFiles(attachment: { storageKey: string; thumbnailKey: string | null }) {
+  await fileStorage.delete(attachment.storageKey);
+  if (attachment.thumbnailKey) {
+    await fileStorage.delete(attachment.thumbnailKey);
+  }
+}
+
+// Strip storage keys before sending an attachment to the client
+export function toAttachmentInfo(attachment: PicaAttachmentWithUploader): PicaAttachmentInfo {
+  const { storageKey, thumbnailKey, ...info } = attachment;
+  return { ...info, hasThumbnail: thumbnailKey !== null };
+}
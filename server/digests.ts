@@ -0,0 +1,177 @@
+import { storage } from "./storage";
+import { log } from "./logger";
+import { isMailerConfigured } from "./mailer";
+import { APP_URL, deliverQueuedEmails, escapeHtml } from "./notifications";
+import type { DigestPreferences, PicaDigest, PicaDigestSummary, PicaWithRelations, WorkflowDefinition } from "@shared/schema";
+import { findWorkflowStatus } from "@shared/workflow";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Date (YYYY-MM-DD), weekday (0 = Sunday) and hour of an instant in a time zone
+function getLocalTime(instant: Date, timeZone: string): { date: string; weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+    hour: parseInt(part("hour")),
+  };
+}
+
+// A digest goes out once its local hour has come on a day it hasn't been sent yet.
+// Weekly digests only go out on their weekday, so a missed weekday waits for the next week.
+function isDigestDue(preferences: DigestPreferences, local: { date: string; weekday: number; hour: number }): boolean {
+  if (preferences.lastSentOn === local.date || local.hour < preferences.hour) {
+    return false;
+  }
+  return preferences.frequency === "daily" || (preferences.frequency === "weekly" && local.weekday === preferences.weekday);
+}
+
+function hasContent(digest: PicaDigest): boolean {
+  return digest.picas.length > 0 || digest.sites.length > 0 || digest.departments.length > 0;
+}
+
+// HTML table and plain text lines listing PICAs
+function renderPicaList(picaList: PicaWithRelations[], workflow: WorkflowDefinition) {
+  const statusLabel = (pica: PicaWithRelations) => findWorkflowStatus(workflow, pica.status)?.label ?? pica.status;
+
+  const text = picaList.map((pica) =>
+    `- ${pica.picaId} (${pica.projectSite.code}) due ${pica.dueDate}, ${statusLabel(pica)}: ${pica.issue}`
+  );
+  const html = [
+    `<table cellpadding="4" style="border-collapse:collapse;width:100%">`,
+    `<tr><th align="left">PICA ID</th><th align="left">Site</th><th align="left">Issue</th><th align="left">Person in charge</th><th align="left">Due date</th><th align="left">Status</th></tr>`,
+    ...picaList.map((pica) => `<tr>${[
+      pica.picaId,
+      pica.projectSite.code,
+      pica.issue,
+      pica.personInCharge.name,
+      pica.dueDate,
+      statusLabel(pica),
+    ].map((value) => `<td style="border-top:1px solid #e5e7eb">${escapeHtml(value)}</td>`).join("")}</tr>`),
+    `</table>`,
+  ].join("\n");
+
+  return { text, html };
+}
+
+function renderSummary(summary: PicaDigestSummary, workflow: WorkflowDefinition) {
+  const counts = `In progress: ${summary.progress} · Overdue: ${summary.overdue} · Complete: ${summary.complete} · Total: ${summary.total}`;
+  const overdueList = renderPicaList(summary.overduePicas, workflow);
+
+  const text = [summary.name, counts, ...overdueList.text, ""];
+  const html = [
+    `<h3>${escapeHtml(summary.name)}</h3>`,
+    `<p>${escapeHtml(counts)}</p>`,
+    summary.overduePicas.length > 0 ? overdueList.html : "<p>No overdue PICAs.</p>",
+  ];
+  return { text, html };
+}
+
+// Subject, plain text and HTML of a digest
+export function renderDigest(digest: PicaDigest, frequency: "daily" | "weekly", workflow: WorkflowDefinition) {
+  const title = frequency === "daily" ? "Daily PICA digest" : "Weekly PICA digest";
+  const subject = `${title}: ${digest.progressCount + digest.overdueCount} open, ${digest.overdueCount} overdue`;
+  const ownList = renderPicaList(digest.picas, workflow);
+  const ownCounts = `In progress: ${digest.progressCount} · Overdue: ${digest.overdueCount}`;
+
+  const text: string[] = [`${title} for ${digest.person.name}`, "", "Your PICAs", ownCounts, ...ownList.text, ""];
+  const html: string[] = [
+    `<h2>${escapeHtml(title)} for ${escapeHtml(digest.person.name)}</h2>`,
+    `<h3>Your PICAs</h3>`,
+    `<p>${escapeHtml(ownCounts)}</p>`,
+    digest.picas.length > 0 ? ownList.html : "<p>You have no open PICAs.</p>",
+  ];
+
+  const sections: [string, PicaDigestSummary[]][] = [
+    ["Sites you manage", digest.sites],
+    ["Departments you head", digest.departments],
+  ];
+  for (const [heading, summaries] of sections) {
+    if (summaries.length === 0) {
+      continue;
+    }
+    text.push(heading.toUpperCase(), "");
+    html.push(`<h2>${escapeHtml(heading)}</h2>`);
+    for (const summary of summaries) {
+      const rendered = renderSummary(summary, workflow);
+      text.push(...rendered.text);
+      html.push(...rendered.html);
+    }
+  }
+
+  const link = `${APP_URL}/pica-progress`;
+  text.push(`Open PICA Monitor: ${link}`);
+  html.push(`<p><a href="${escapeHtml(link)}">Open PICA Monitor</a></p>`);
+
+  return { subject, text: text.join("\n"), html: html.join("\n") };
+}
+
+// Build and queue one subscriber's digest; false when there is nothing to send them
+async function queueDigest(preferences: DigestPreferences, localDate: string): Promise<boolean> {
+  const user = await storage.getUser(preferences.userId);
+  if (!user || !user.organizationId || preferences.frequency === "off") {
+    return false;
+  }
+
+  const person = await storage.getPersonByEmail(user.organizationId, user.email);
+  const digest = person ? await storage.getDigest(user.organizationId, person.id) : undefined;
+  if (!digest || !hasContent(digest)) {
+    return false;
+  }
+
+  const workflow = await storage.getWorkflow(user.organizationId);
+  const email = renderDigest(digest, preferences.frequency as "daily" | "weekly", workflow);
+  const queued = await storage.enqueueEmails([{
+    organizationId: user.organizationId,
+    event: `${preferences.frequency}_digest`,
+    picaId: null,
+    recipient: user.email,
+    subject: email.subject,
+    textBody: email.text,
+    htmlBody: email.html,
+    dedupeKey: `digest:${user.id}:${localDate}`,
+  }]);
+  return queued.length > 0;
+}
+
+// Queue the digests whose delivery time has come in their subscriber's time zone
+export async function runDigests(now: Date = new Date()): Promise<number> {
+  if (!isMailerConfigured()) {
+    return 0;
+  }
+
+  const subscriptions = await storage.getActiveDigestPreferences();
+  let queued = 0;
+
+  for (const preferences of subscriptions) {
+    // One broken subscription shouldn't hold up the others
+    try {
+      const local = getLocalTime(now, preferences.timeZone);
+      if (!isDigestDue(preferences, local)) {
+        continue;
+      }
+      if (await queueDigest(preferences, local.date)) {
+        queued++;
+      }
+      await storage.markDigestSent(preferences.id, local.date);
+    } catch (error) {
+      log(`Digest for user ${preferences.userId} failed: ${error}`, "digests");
+    }
+  }
+
+  if (queued > 0) {
+    log(`Queued ${queued} digest email(s)`, "digests");
+    await deliverQueuedEmails();
+  }
+  return queued;
+}
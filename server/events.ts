@@ -0,0 +1,55 @@
+import { EventEmitter } from "events";
+import type { ChangeEntity, ChangeEvent } from "@shared/schema";
+
+// Change events of each organization, fanned out to its open event streams. Streams only
+// hear about changes made by this server process.
+const emitter = new EventEmitter();
+// Every open stream adds a listener
+emitter.setMaxListeners(0);
+
+const channelOf = (organizationId: number) => `organization:${organizationId}`;
+
+export function publishChange(organizationId: number, event: ChangeEvent): void {
+  emitter.emit(channelOf(organizationId), event);
+}
+
+// Listen to an organization's changes; returns the function that stops listening
+export function subscribeToChanges(organizationId: number, listener: (event: ChangeEvent) => void): () => void {
+  const channel = channelOf(organizationId);
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
+
+// Entity changed by each API collection; requests, reviews, attachments and comments belong to a PICA
+const collectionEntities: Record<string, ChangeEntity> = {
+  "picas": "pica",
+  "closure-requests": "pica",
+  "extension-requests": "pica",
+  "effectiveness-reviews": "pica",
+  "attachments": "pica",
+  "people": "person",
+  "departments": "department",
+  "project-sites": "project_site",
+};
+
+// The change a successful write request made, from its path under /api:
+// /picas/12/comments is PICA 12, /picas/bulk some PICAs, /trash/person/3/restore person 3
+export function getChangeFromPath(path: string): ChangeEvent | undefined {
+  const [collection, first, second] = path.split("/").filter(Boolean);
+
+  if (collection === "trash") {
+    const entity = first as ChangeEntity;
+    const id = parseInt(second);
+    return Object.values(collectionEntities).includes(entity) ? { entity, id: isNaN(id) ? null : id } : undefined;
+  }
+
+  const entity = collectionEntities[collection];
+  if (!entity) {
+    return undefined;
+  }
+  // Only a PICA's own sub-resources name it; a request or review ID isn't the PICA's
+  const id = parseInt(first);
+  return { entity, id: entity === "pica" && collection !== "picas" ? null : isNaN(id) ? null : id };
+}
@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where uploaded file contents are kept. Keys are relative, slash-separated paths
+// (e.g. "org-1/pica-42/<uuid>.jpg") so a driver for an S3-compatible bucket can use
+// them as object keys unchanged.
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to undefined when the file doesn't exist
+  get(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files under a directory on the local disk
+export class LocalDiskDriver implements StorageDriver {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Map a key to a file path, refusing keys that escape the root directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const filePath = this.resolvePath(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return undefined;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+}
+
+// Pick the driver from FILE_STORAGE_DRIVER (only "local" ships today).
+// Local files go to FILE_STORAGE_DIR, defaulting to ./uploads.
+function createStorageDriver(): StorageDriver {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalDiskDriver(process.env.FILE_STORAGE_DIR || "uploads");
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const fileStorage = createStorageDriver();
@@ -0,0 +1,42 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+// A rendered email ready for the SMTP transport
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// SMTP settings come from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and SMTP_FROM.
+// Without SMTP_HOST no emails are queued. For local testing point it at an SMTP sink such as
+// Mailpit or MailHog (SMTP_HOST=localhost SMTP_PORT=1025), which accepts mail without authentication.
+function createTransporter(): Transporter | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const user = process.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true", // true for port 465, STARTTLS is negotiated otherwise
+    auth: user ? { user, pass: process.env.SMTP_PASS || "" } : undefined,
+  });
+}
+
+const transporter = createTransporter();
+const fromAddress = process.env.SMTP_FROM || "PICA Monitor <no-reply@localhost>";
+
+export function isMailerConfigured(): boolean {
+  return transporter !== null;
+}
+
+// Hand an email to the SMTP server; rejects when the server doesn't accept it
+export async function sendEmail(email: OutgoingEmail): Promise<void> {
+  if (!transporter) {
+    throw new Error("SMTP is not configured");
+  }
+  await transporter.sendMail({ from: fromAddress, ...email });
+}
@@ -0,0 +1,221 @@
+import { storage } from "./storage";
+import { log } from "./logger";
+import { isMailerConfigured, sendEmail } from "./mailer";
+import type { NotificationEvent, NotificationSettings, Pica, ProjectSite } from "@shared/schema";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@shared/notifications";
+import { addDays, getIsoToday } from "@shared/recurrence";
+
+// Failed sends are retried after 1, 2, 4, 8 and 16 minutes before the email is marked failed
+export const MAX_EMAIL_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+// Base URL of the web app for links in emails, e.g. https://pica.example.com
+export const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/+$/, "");
+
+// Event-specific facts the templates mention
+export type NotificationDetails = {
+  previousPersonName?: string; // reassigned
+  reason?: string | null; // closure_rejected
+};
+
+type EmailContent = {
+  subject: string;
+  intro: string;
+  note?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysUntil(date: string, today: string): number {
+  return Math.round((Date.parse(date) - Date.parse(today)) / DAY_MS);
+}
+
+// Subject line and opening sentence of each event's email
+const templates: Record<NotificationEvent, (pica: Pica, details: NotificationDetails) => EmailContent> = {
+  assigned: (pica) => ({
+    subject: `New PICA assigned to you: ${pica.picaId}`,
+    intro: `You have been assigned as the person in charge of PICA ${pica.picaId}.`,
+  }),
+  reassigned: (pica, details) => ({
+    subject: `PICA reassigned to you: ${pica.picaId}`,
+    intro: `PICA ${pica.picaId} has been reassigned to you`
+      + (details.previousPersonName ? ` from ${details.previousPersonName}.` : "."),
+  }),
+  due_soon: (pica) => {
+    const days = daysUntil(pica.dueDate, getIsoToday());
+    const when = days <= 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`;
+    return {
+      subject: `PICA ${pica.picaId} is due ${when}`,
+      intro: `PICA ${pica.picaId} is due ${when}. Please complete the corrective action or request an extension.`,
+    };
+  },
+  overdue: (pica) => ({
+    subject: `PICA ${pica.picaId} is overdue`,
+    intro: `PICA ${pica.picaId} passed its due date without being completed.`,
+  }),
+  closure_rejected: (pica, details) => ({
+    subject: `Closure of PICA ${pica.picaId} was rejected`,
+    intro: `The closure request for PICA ${pica.picaId} was rejected by its verifier. The PICA stays open.`,
+    note: details.reason ? `Reason: ${details.reason}` : undefined,
+  }),
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Plain text and HTML versions of an email, with the PICA's key fields under the opening sentence
+function renderEmail(content: EmailContent, pica: Pica, projectSite: ProjectSite | undefined) {
+  const link = `${APP_URL}/pica-progress`;
+  const fields: [string, string][] = [
+    ["PICA ID", pica.picaId],
+    ["Site", projectSite ? `${projectSite.code} - ${projectSite.name}` : "-"],
+    ["Issue", pica.issue],
+    ["Corrective action", pica.correctiveAction],
+    ["Due date", pica.dueDate],
+  ];
+  const paragraphs = content.note ? [content.intro, content.note] : [content.intro];
+
+  const text = [
+    ...paragraphs,
+    "",
+    ...fields.map(([label, value]) => `${label}: ${value}`),
+    "",
+    `Open PICA Monitor: ${link}`,
+  ].join("\n");
+
+  const html = [
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<table cellpadding="4" style="border-collapse:collapse">`,
+    ...fields.map(([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`),
+    `</table>`,
+    `<p><a href="${escapeHtml(link)}">Open PICA Monitor</a></p>`,
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+}
+
+async function getSettings(organizationId: number | null): Promise<NotificationSettings> {
+  return organizationId ? await storage.getNotificationSettings(organizationId) : DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+// Queue the email for an event to the PICA's person in charge, if the organization sends that event.
+// Reminders (due soon, overdue) are queued once per due date. Never throws: a notification
+// problem must not fail the change that triggered it.
+export async function notifyPica(
+  event: NotificationEvent,
+  pica: Pica,
+  details: NotificationDetails = {},
+  settings?: NotificationSettings
+): Promise<void> {
+  if (!isMailerConfigured()) {
+    return;
+  }
+
+  try {
+    const organizationSettings = settings ?? await getSettings(pica.organizationId);
+    if (!organizationSettings.events[event]) {
+      return;
+    }
+
+    const personInCharge = await storage.getPerson(pica.personInChargeId);
+    if (!personInCharge || personInCharge.deletedAt || !personInCharge.email) {
+      return;
+    }
+
+    const projectSite = await storage.getProjectSite(pica.projectSiteId);
+    const email = renderEmail(templates[event](pica, details), pica, projectSite);
+    const isReminder = event === "due_soon" || event === "overdue";
+
+    const queued = await storage.enqueueEmails([{
+      organizationId: pica.organizationId,
+      event,
+      picaId: pica.id,
+      recipient: personInCharge.email,
+      subject: email.subject,
+      textBody: email.text,
+      htmlBody: email.html,
+      dedupeKey: isReminder ? `${event}:${pica.id}:${pica.dueDate}` : null,
+    }]);
+
+    if (queued.length > 0) {
+      deliverQueuedEmails().catch((error) => log(`Email delivery failed: ${error}`, "notifications"));
+    }
+  } catch (error) {
+    log(`Failed to queue ${event} notification for PICA ${pica.id}: ${error}`, "notifications");
+  }
+}
+
+// Queue reminders for open PICAs due within each organization's reminder window
+export async function queueDueSoonReminders(today: string = getIsoToday()): Promise<number> {
+  if (!isMailerConfigured()) {
+    return 0;
+  }
+
+  // The widest window any organization can configure; each PICA is then checked against its own
+  const candidates = await storage.getOpenPicasDueBetween(today, addDays(today, 30));
+  const settingsByOrganization = new Map<number | null, NotificationSettings>();
+  let queued = 0;
+
+  for (const pica of candidates) {
+    let settings = settingsByOrganization.get(pica.organizationId);
+    if (!settings) {
+      settings = await getSettings(pica.organizationId);
+      settingsByOrganization.set(pica.organizationId, settings);
+    }
+
+    if (settings.events.due_soon && pica.dueDate <= addDays(today, settings.dueSoonDays)) {
+      await notifyPica("due_soon", pica, {}, settings);
+      queued++;
+    }
+  }
+
+  return queued;
+}
+
+let isDelivering = false;
+
+// Send the queued emails whose next attempt is due. A failed send is retried with exponential
+// backoff; after MAX_EMAIL_ATTEMPTS it is marked failed and kept for an admin to retry.
+export async function deliverQueuedEmails(): Promise<{ sent: number; failed: number }> {
+  const result = { sent: 0, failed: 0 };
+  // One delivery run at a time so no email goes out twice
+  if (isDelivering || !isMailerConfigured()) {
+    return result;
+  }
+
+  isDelivering = true;
+  try {
+    let batch = await storage.getDueEmails(DELIVERY_BATCH_SIZE);
+    while (batch.length > 0) {
+      for (const entry of batch) {
+        try {
+          await sendEmail({ to: entry.recipient, subject: entry.subject, text: entry.textBody, html: entry.htmlBody });
+          await storage.markEmailSent(entry.id);
+          result.sent++;
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          const nextAttemptAt = attempts < MAX_EMAIL_ATTEMPTS
+            ? new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1))
+            : null;
+          await storage.markEmailFailed(entry.id, error instanceof Error ? error.message : String(error), nextAttemptAt);
+          result.failed++;
+        }
+      }
+      // Emails that just failed are scheduled in the future, so this ends once the due ones are done
+      batch = batch.length === DELIVERY_BATCH_SIZE ? await storage.getDueEmails(DELIVERY_BATCH_SIZE) : [];
+    }
+  } finally {
+    isDelivering = false;
+  }
+
+  if (result.sent > 0 || result.failed > 0) {
+    log(`Sent ${result.sent} email(s), ${result.failed} failed`, "notifications");
+  }
+  return result;
+}
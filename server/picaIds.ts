@@ -0,0 +1,26 @@
+import { parseISO } from "date-fns";
+import { DEFAULT_PICA_ID_FORMAT } from "@shared/schema";
+
+// Render every token of a master PICA ID format except {COUNTER}.
+// The result identifies the counter scope, e.g. "0425ABC{COUNTER}".
+export function renderPicaIdScope(format: string | null | undefined, siteCode: string, date: string | Date): string {
+  const parsedDate = typeof date === "string" ? parseISO(date) : date;
+  const year = String(parsedDate.getFullYear());
+  const month = String(parsedDate.getMonth() + 1).padStart(2, "0");
+
+  return (format || DEFAULT_PICA_ID_FORMAT)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, month)
+    .replace(/\{SITE\}/g, siteCode);
+}
+
+// Fill the counter into a rendered scope to get the master PICA ID
+export function formatMasterPicaId(scope: string, counter: number): string {
+  return scope.replace("{COUNTER}", String(counter).padStart(2, "0"));
+}
+
+// Item PICA IDs are the master ID followed by a 2-digit sequence
+export function formatItemPicaId(masterPicaId: string, sequence: number): string {
+  return `${masterPicaId}${String(sequence).padStart(2, "0")}`;
+}
@@ -3,6 +3,7 @@ import { registerRoutes } from "./routes";
 import path from "path";
 import { fileURLToPath } from "url";
 import cors from "cors";
+import { startScheduler } from "./scheduler";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -88,5 +89,6 @@ app.use((req, res, next) => {
   server.listen(port, () => {
     console.log(`🚀 PICA Manager API server running on port ${port}`);
     console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    startScheduler();
   });
 })();
@@ -8,9 +8,195 @@ import {
   insertDepartmentSchema,
   insertProjectSiteSchema,
   insertUserSchema,
-  insertOrganizationSchema
+  insertOrganizationSchema,
+  picaBatchSchema,
+  picaListQuerySchema,
+  DEFAULT_PICA_PAGE_SIZE,
+  picaDateRangeSchema,
+  workflowDefinitionSchema,
+  riskMatrixSchema,
+  rootCauseAnalysisInputSchema,
+  actionItemInputSchema,
+  actionItemUpdateSchema,
+  picaTemplateInputSchema,
+  recurrenceScheduleInputSchema,
+  recurrenceScheduleUpdateSchema,
+  type PicaRecurrenceSchedule,
+  type InsertPica,
+  type Person,
+  picaLinkInputSchema,
+  reopenPicaSchema,
+  effectivenessCheckDaysSchema,
+  effectivenessDecisionSchema,
+  closureRequestInputSchema,
+  closureDecisionSchema,
+  extensionRequestInputSchema,
+  extensionDecisionSchema,
+  commentInputSchema,
+  picaAuditQuerySchema,
+  type PicaAuditPage,
+  type PicaListPage,
+  picaBatchItemSchema,
+  type PicaBatchItem,
+  type PicaBatchItemError,
+  picaBulkActionSchema,
+  type PicaBulkResult,
+  type WorkflowDefinition,
+  trashItemTypeEnum,
+  notificationSettingsSchema,
+  emailOutboxStatusEnum,
+  digestPreferencesInputSchema,
+  webhookInputSchema,
+  webhookDeliveryStatusEnum
 } from "@shared/schema";
 import { setupAuth, canEdit, canDelete, hashPassword } from "./auth";
+import { runOverdueCheck } from "./scheduler";
+import { deliverQueuedEmails, notifyPica } from "./notifications";
+import { isMailerConfigured } from "./mailer";
+import { assertPublicWebhookUrl, deliverWebhooks, generateWebhookSecret, sendWebhookTest } from "./webhooks";
+import { getChangeFromPath, publishChange, subscribeToChanges } from "./events";
+import { fileStorage } from "./fileStorage";
+import { uploadAttachments, storeAttachmentFile, deleteAttachmentFiles, toAttachmentInfo } from "./attachments";
+import { extractMentionUsernames } from "@shared/comments";
+import { DEFAULT_RISK_MATRIX, getRiskDueDate } from "@shared/risk";
+import { DEFAULT_EFFECTIVENESS_CHECK_DAYS } from "@shared/effectiveness";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@shared/notifications";
+import { addDays, getIsoToday, getNextOccurrence, type RecurrenceRule } from "@shared/recurrence";
+import {
+  DEFAULT_WORKFLOW,
+  findTransition,
+  findWorkflowStatus,
+  getCategoryStatus,
+  getInitialStatus,
+  getStatusCategory
+} from "@shared/workflow";
+
+// Request body for reserving PICA IDs
+const picaIdReservationSchema = z.object({
+  projectSiteId: z.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  itemCount: z.number().int().min(1).max(99),
+});
+
+// Postgres reports unique constraint violations with SQLSTATE 23505
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
+
+// Postgres reports foreign key violations with SQLSTATE 23503
+function isForeignKeyViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23503";
+}
+
+// Resolve the @mentions in a comment to users of the same organization; unknown names are ignored
+async function resolveMentionedUserIds(organizationId: number, body: string): Promise<number[]> {
+  const usernames = extractMentionUsernames(body).map(username => username.toLowerCase());
+  if (usernames.length === 0) {
+    return [];
+  }
+  
+  const organizationUsers = await storage.getUsersByOrganization(organizationId);
+  return organizationUsers
+    .filter(user => usernames.includes(user.username.toLowerCase()))
+    .map(user => user.id);
+}
+
+// Next occurrence a schedule should generate, never repeating one already generated today
+function getNextScheduleRun(rule: RecurrenceRule, lastRunAt: Date | null): string | null {
+  const today = getIsoToday();
+  const ranToday = lastRunAt !== null && lastRunAt.toISOString().split("T")[0] >= today;
+  return getNextOccurrence(rule, ranToday ? addDays(today, 1) : today) ?? null;
+}
+
+// Check that the people, site and template a PICA, template or schedule points at belong to the
+// organization and are not in the trash
+async function findForeignReference(
+  organizationId: number,
+  references: { personInChargeId?: number | null; projectSiteId?: number; templateId?: number }
+): Promise<string | undefined> {
+  if (references.personInChargeId) {
+    const person = await storage.getPerson(references.personInChargeId);
+    if (!person || person.deletedAt || person.organizationId !== organizationId) {
+      return "Person in charge not found";
+    }
+  }
+  if (references.projectSiteId) {
+    const projectSite = await storage.getProjectSite(references.projectSiteId);
+    if (!projectSite || projectSite.deletedAt || projectSite.organizationId !== organizationId) {
+      return "Project site not found";
+    }
+  }
+  if (references.templateId) {
+    const template = await storage.getPicaTemplate(references.templateId);
+    if (!template || template.organizationId !== organizationId) {
+      return "Template not found";
+    }
+  }
+  return undefined;
+}
+
+// Why a status change is not allowed by the workflow, with the HTTP status to answer; undefined when it is
+function checkStatusChange(
+  workflow: WorkflowDefinition,
+  fromStatus: string,
+  toStatus: string,
+  role: string | undefined,
+  comment: unknown
+): { status: number; message: string } | undefined {
+  // Closing a PICA requires an approved closure request
+  if (getStatusCategory(workflow, toStatus) === "complete") {
+    return { status: 400, message: "PICAs are completed through a closure request approved by a verifier" };
+  }
+  // Reopening goes through the reopen action so the reason and count are kept
+  if (getStatusCategory(workflow, fromStatus) === "complete") {
+    return { status: 400, message: "Completed PICAs are reopened with a reason through the reopen action" };
+  }
+  return checkTransition(workflow, fromStatus, toStatus, role, comment);
+}
+
+// Why the workflow has no transition between two statuses for the role, or requires a comment
+// that is missing; undefined when the transition is allowed. Reopens pass their reason as the comment.
+function checkTransition(
+  workflow: WorkflowDefinition,
+  fromStatus: string,
+  toStatus: string,
+  role: string | undefined,
+  comment: unknown
+): { status: number; message: string } | undefined {
+  const transition = findTransition(workflow, fromStatus, toStatus);
+  if (!transition) {
+    return { status: 400, message: `Cannot change status from "${fromStatus}" to "${toStatus}"` };
+  }
+  if (!role || !(transition.allowedRoles as string[]).includes(role)) {
+    return { status: 403, message: "Your role is not allowed to perform this status change" };
+  }
+  if (transition.requiresComment && !(typeof comment === "string" && comment.trim())) {
+    return { status: 400, message: "A comment is required for this status change" };
+  }
+  return undefined;
+}
+
+// Look up an item of the organization's trash by its route parameters
+async function findTrashItem(type: string, rawId: string, organizationId: number) {
+  const parsedType = trashItemTypeEnum.safeParse(type);
+  const id = parseInt(rawId);
+  if (!parsedType.success || isNaN(id)) {
+    return undefined;
+  }
+  
+  const record = parsedType.data === "pica"
+    ? await storage.getPica(id, true)
+    : parsedType.data === "person"
+      ? await storage.getPerson(id)
+      : parsedType.data === "department"
+        ? await storage.getDepartment(id)
+        : await storage.getProjectSite(id);
+  if (!record || !record.deletedAt || record.organizationId !== organizationId) {
+    return undefined;
+  }
+  
+  return { type: parsedType.data, record };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
@@ -18,14 +204,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // API prefix
   const apiPrefix = '/api';
   
+  // Webhook events are queued with the writes that raise them; post them as soon as a write
+  // has responded rather than waiting for the scheduler
+  app.use(apiPrefix, (req, res, next) => {
+    if (req.method !== "GET") {
+      res.on("finish", () => {
+        deliverWebhooks().catch((error) => console.error("Error delivering webhooks:", error));
+      });
+    }
+    next();
+  });
+  
+  // Tell the organization's open event streams about records a successful write changed
+  app.use(apiPrefix, (req, res, next) => {
+    if (req.method !== "GET") {
+      // The path under /api, read now because Express restores the full URL once the request moves on
+      const path = req.path;
+      res.on("finish", () => {
+        const organizationId = req.user?.organizationId;
+        const change = res.statusCode < 400 ? getChangeFromPath(path) : undefined;
+        if (organizationId && change) {
+          publishChange(organizationId, change);
+        }
+      });
+    }
+    next();
+  });
+  
   // --- PICA Routes ---
-  // Get all PICAs with relations (public can view)
+  // Get PICAs with relations (public can view)
+  // Supports filtering and sorting via query parameters (see picaListQuerySchema).
+  // When page or pageSize is given the response is a PicaListPage, otherwise a plain array.
+  // A page without a pageSize uses DEFAULT_PICA_PAGE_SIZE.
   app.get(`${apiPrefix}/picas`, async (req, res) => {
     try {
       // Filter by organization ID if user is authenticated
       if (req.isAuthenticated() && req.user.organizationId) {
-        const picas = await storage.getPicasWithRelationsByOrganization(req.user.organizationId);
-        return res.json(picas);
+        const query = picaListQuerySchema.parse(req.query);
+        
+        if (query.page || query.pageSize) {
+          const pageSize = query.pageSize ?? DEFAULT_PICA_PAGE_SIZE;
+          const { items, total } = await storage.queryPicas(req.user.organizationId, { ...query, pageSize });
+          const page: PicaListPage = {
+            items,
+            total,
+            page: query.page ?? 1,
+            pageSize,
+            totalPages: Math.ceil(total / pageSize)
+          };
+          return res.json(page);
+        }
+        
+        const { items } = await storage.queryPicas(req.user.organizationId, query);
+        return res.json(items);
       }
       
       // If not authenticated or no organization ID, return empty array
@@ -33,6 +264,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const picas: any[] = [];
       res.json(picas);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PICA query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to retrieve PICAs" });
     }
   });
@@ -41,9 +275,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(`${apiPrefix}/picas/status/:status`, async (req, res) => {
     try {
       const { status } = req.params;
-      const validStatuses = ["progress", "complete", "overdue"];
       
-      if (!validStatuses.includes(status)) {
+      // Valid statuses come from the organization's workflow
+      const workflow = req.isAuthenticated() && req.user.organizationId
+        ? await storage.getWorkflow(req.user.organizationId)
+        : DEFAULT_WORKFLOW;
+      if (!findWorkflowStatus(workflow, status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
       
@@ -58,254 +295,2621 @@ export async function registerRoutes(app: Express): Promise<Server> {
         picas = [] as any[];
       }
       
-      res.json(picas);
+      res.json(picas);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve PICAs by status" });
+    }
+  });
+
+  // Get PICA statistics (optionally scoped with ?dateFrom=YYYY-MM-DD&dateTo=YYYY-MM-DD)
+  app.get(`${apiPrefix}/picas/stats`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      // Filter by organization ID if user is authenticated
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countPicasByStatus(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return empty stats
+      const stats = await storage.countPicasByStatus(undefined, range);
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve PICA statistics" });
+    }
+  });
+
+  // Get PICA statistics by department
+  app.get(`${apiPrefix}/picas/stats/department`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      // Filter by organization ID if user is authenticated
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countPicasByDepartment(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return all stats
+      const stats = await storage.countPicasByDepartment(undefined, range);
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve PICA department statistics" });
+    }
+  });
+
+  // Get PICA statistics by project site
+  app.get(`${apiPrefix}/picas/stats/site`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      // Filter by organization ID if user is authenticated
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countPicasByProjectSite(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return all stats
+      const stats = await storage.countPicasByProjectSite(undefined, range);
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve PICA project site statistics" });
+    }
+  });
+  
+  // Get PICA statistics by job (project site keyed by its code)
+  app.get(`${apiPrefix}/picas/stats/job`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const siteStats = await storage.countPicasByProjectSite(req.user.organizationId, range);
+        const jobStats = siteStats.map(({ site, ...counts }) => ({ job: site, ...counts }));
+        return res.json(jobStats);
+      }
+      
+      // If not authenticated or no organization ID, return empty array
+      res.json([]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      console.error("Error fetching job stats:", error);
+      res.status(500).json({ message: "Failed to retrieve PICA job statistics" });
+    }
+  });
+
+  // Open PICAs per severity and likelihood for the risk heat-map
+  app.get(`${apiPrefix}/picas/stats/risk`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const cells = await storage.countOpenPicasByRisk(req.user.organizationId, range);
+        return res.json(cells);
+      }
+      
+      // If not authenticated or no organization ID, return empty array
+      res.json([]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve PICA risk statistics" });
+    }
+  });
+
+  // Get the fishbone categories cited by PICAs per project site
+  app.get(`${apiPrefix}/picas/stats/root-causes`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countRootCauseCategoriesBySite(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return empty array
+      res.json([]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve root cause statistics" });
+    }
+  });
+
+  // Get the reopen rate of closed PICAs per department and person in charge
+  app.get(`${apiPrefix}/picas/stats/reopens`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.getReopenStats(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return empty statistics
+      res.json({ departments: [], peopleInCharge: [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve reopen statistics" });
+    }
+  });
+
+  // Get the effectiveness rate of decided effectiveness reviews per project site
+  app.get(`${apiPrefix}/picas/stats/effectiveness`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countEffectivenessBySite(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return empty array
+      res.json([]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve effectiveness statistics" });
+    }
+  });
+
+  // Get the share of PICAs per project site that repeat an earlier finding
+  app.get(`${apiPrefix}/picas/stats/repeats`, async (req, res) => {
+    try {
+      const range = picaDateRangeSchema.parse(req.query);
+      
+      if (req.isAuthenticated() && req.user.organizationId) {
+        const stats = await storage.countRepeatFindingsBySite(req.user.organizationId, range);
+        return res.json(stats);
+      }
+      
+      // If not authenticated or no organization ID, return empty array
+      res.json([]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve repeat finding statistics" });
+    }
+  });
+
+  // Find earlier PICAs at a project site whose issue resembles the given text (likely repeat findings)
+  app.get(`${apiPrefix}/picas/similar`, async (req, res) => {
+    try {
+      const projectSiteId = parseInt(req.query.projectSiteId as string);
+      if (isNaN(projectSiteId)) {
+        return res.status(400).json({ message: "Invalid project site ID" });
+      }
+      
+      const issue = typeof req.query.issue === "string" ? req.query.issue.trim() : "";
+      if (!issue || !req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const excludeId = req.query.excludeId ? parseInt(req.query.excludeId as string) : undefined;
+      const similarPicas = await storage.findSimilarPicas(
+        req.user.organizationId,
+        projectSiteId,
+        issue,
+        excludeId && !isNaN(excludeId) ? excludeId : undefined
+      );
+      res.json(similarPicas);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find similar PICAs" });
+    }
+  });
+
+  // Preview the next master PICA ID for a project site without reserving it
+  app.get(`${apiPrefix}/picas/next-id`, canEdit, async (req, res) => {
+    try {
+      const projectSiteId = parseInt(req.query.projectSiteId as string);
+      if (isNaN(projectSiteId)) {
+        return res.status(400).json({ message: "Invalid project site ID" });
+      }
+      
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to generate PICA IDs" });
+      }
+      
+      const date = (req.query.date as string) || new Date().toISOString().slice(0, 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Date must be YYYY-MM-DD" });
+      }
+      
+      const masterPicaId = await storage.previewNextPicaId(req.user.organizationId, projectSiteId, date);
+      if (!masterPicaId) {
+        return res.status(404).json({ message: "Project site not found" });
+      }
+      
+      res.json({ masterPicaId });
+    } catch (error) {
+      console.error("Error previewing PICA ID:", error);
+      res.status(500).json({ message: "Failed to preview PICA ID" });
+    }
+  });
+
+  // Reserve the next master PICA ID and one item ID per PICA (requires edit permission)
+  app.post(`${apiPrefix}/picas/ids/reserve`, canEdit, async (req, res) => {
+    try {
+      const { projectSiteId, date, itemCount } = picaIdReservationSchema.parse(req.body);
+      
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to generate PICA IDs" });
+      }
+      
+      const reservation = await storage.reservePicaIds(
+        req.user.organizationId,
+        projectSiteId,
+        date || new Date().toISOString().slice(0, 10),
+        itemCount
+      );
+      if (!reservation) {
+        return res.status(404).json({ message: "Project site not found" });
+      }
+      
+      res.status(201).json(reservation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reservation data", errors: error.errors });
+      }
+      console.error("Error reserving PICA IDs:", error);
+      res.status(500).json({ message: "Failed to reserve PICA IDs" });
+    }
+  });
+
+  // Recompute overdue PICAs now instead of waiting for the scheduler (admin only)
+  app.post(`${apiPrefix}/picas/overdue/recompute`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to recompute overdue PICAs" });
+      }
+      
+      const overduePicas = await runOverdueCheck(req.user.organizationId);
+      const stats = await storage.countPicasByStatus(req.user.organizationId);
+      
+      res.json({
+        updated: overduePicas.length,
+        picas: overduePicas,
+        stats
+      });
+    } catch (error) {
+      console.error("Error recomputing overdue PICAs:", error);
+      res.status(500).json({ message: "Failed to recompute overdue PICAs" });
+    }
+  });
+
+  // Get a single PICA by ID
+  app.get(`${apiPrefix}/picas/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      // Check if user has access to this PICA (belongs to the same organization)
+      if (req.isAuthenticated() && req.user.organizationId && 
+          pica.organizationId !== req.user.organizationId) {
+        return res.status(403).json({ message: "You don't have access to this PICA" });
+      }
+      
+      res.json(pica);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve PICA" });
+    }
+  });
+
+  // Create a new PICA (requires edit permission)
+  app.post(`${apiPrefix}/picas`, canEdit, async (req, res) => {
+    try {
+      // Parse the PICA data
+      const picaData = insertPicaSchema.parse(req.body);
+      
+      // Make sure organizationId is set to the current user's organization
+      if (req.isAuthenticated() && req.user.organizationId) {
+        picaData.organizationId = req.user.organizationId;
+      }
+      
+      // New PICAs start in the workflow's initial status unless a known status is given.
+      // Like updates, they can't start out complete without an approved closure request.
+      const workflow = picaData.organizationId
+        ? await storage.getWorkflow(picaData.organizationId)
+        : DEFAULT_WORKFLOW;
+      if (!picaData.status) {
+        picaData.status = getInitialStatus(workflow).key;
+      } else if (!findWorkflowStatus(workflow, picaData.status)) {
+        return res.status(400).json({ message: `Unknown status "${picaData.status}"` });
+      } else if (getStatusCategory(workflow, picaData.status) === "complete") {
+        return res.status(400).json({ message: "PICAs are completed through a closure request approved by a verifier" });
+      }
+      
+      if (picaData.organizationId) {
+        const referenceError = await findForeignReference(picaData.organizationId, picaData);
+        if (referenceError) {
+          return res.status(400).json({ message: referenceError });
+        }
+      }
+      
+      // Create the PICA
+      const pica = await storage.createPica(picaData, req.user?.id ?? null);
+      await notifyPica("assigned", pica);
+      res.status(201).json(pica);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PICA data", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "PICA ID already exists in this organization" });
+      }
+      res.status(500).json({ message: "Failed to create PICA" });
+    }
+  });
+
+  // Create a master PICA with all of its items in one transaction (requires edit permission)
+  app.post(`${apiPrefix}/picas/batch`, canEdit, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to create PICAs" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const { projectSiteId, date, items } = picaBatchSchema.parse(req.body);
+      
+      const projectSite = await storage.getProjectSite(projectSiteId);
+      if (!projectSite || projectSite.deletedAt || projectSite.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Project site not found" });
+      }
+      
+      // Validate every item up front and report errors per item
+      const people = await storage.getPeopleByOrganization(organizationId);
+      const personIds = new Set(people.map(person => person.id));
+      const itemErrors: PicaBatchItemError[] = [];
+      const validItems: PicaBatchItem[] = [];
+      
+      // Earlier PICAs that items are flagged as repeating must belong to this organization
+      const recurrenceTargetIds = new Set<number>();
+      for (const item of items) {
+        const targetId = (item as PicaBatchItem)?.recurrenceOfPicaId;
+        if (typeof targetId === "number" && Number.isInteger(targetId) && targetId > 0) {
+          const target = await storage.getPica(targetId);
+          if (target && target.organizationId === organizationId) {
+            recurrenceTargetIds.add(targetId);
+          }
+        }
+      }
+      
+      items.forEach((item, index) => {
+        const result = picaBatchItemSchema.safeParse(item);
+        if (!result.success) {
+          result.error.errors.forEach(issue => {
+            itemErrors.push({ index, field: String(issue.path[0] ?? ""), message: issue.message });
+          });
+          return;
+        }
+        
+        if (!personIds.has(result.data.personInChargeId)) {
+          itemErrors.push({ index, field: "personInChargeId", message: "Person in charge not found" });
+        }
+        if (result.data.recurrenceOfPicaId && !recurrenceTargetIds.has(result.data.recurrenceOfPicaId)) {
+          itemErrors.push({ index, field: "recurrenceOfPicaId", message: "Repeated PICA not found" });
+        }
+        validItems.push(result.data);
+      });
+      
+      if (itemErrors.length > 0) {
+        return res.status(400).json({ message: "Invalid PICA items", itemErrors });
+      }
+      
+      // Reserve IDs only once everything is valid so failed submissions don't burn counters
+      const reservation = await storage.reservePicaIds(organizationId, projectSiteId, date, validItems.length);
+      if (!reservation) {
+        return res.status(404).json({ message: "Project site not found" });
+      }
+      
+      // Items always start in the initial status, so a batch can't create completed PICAs
+      const initialStatus = getInitialStatus(await storage.getWorkflow(organizationId)).key;
+      // Repeats flagged on the form are linked to the earlier PICAs in the same transaction
+      const picaList = validItems.map((item, index) => ({
+        ...insertPicaSchema.parse({
+          ...item,
+          picaId: reservation.picaIds[index],
+          projectSiteId,
+          date,
+          status: initialStatus,
+          organizationId
+        }),
+        recurrenceOfPicaId: item.recurrenceOfPicaId
+      }));
+      
+      const createdPicas = await storage.createPicas(picaList, req.user.id);
+      for (const pica of createdPicas) {
+        await notifyPica("assigned", pica);
+      }
+      
+      res.status(201).json({
+        masterPicaId: reservation.masterPicaId,
+        picas: createdPicas
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PICA data", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "PICA ID already exists in this organization" });
+      }
+      console.error("Error creating PICA batch:", error);
+      res.status(500).json({ message: "Failed to create PICAs" });
+    }
+  });
+
+  // Apply one action to many PICAs selected in the PICA list (requires edit permission; deleting needs admin).
+  // Each PICA gets the same checks as its single-PICA route and its own history entry;
+  // the response lists the PICAs updated and the reason each other one was skipped.
+  app.post(`${apiPrefix}/picas/bulk`, canEdit, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update PICAs" });
+      }
+      const organizationId = req.user.organizationId;
+      const userId = req.user.id;
+      
+      const bulkAction = picaBulkActionSchema.parse(req.body);
+      if (bulkAction.action === "delete" && req.user.role !== "admin") {
+        return res.status(403).json({ message: "Only admins can delete PICAs" });
+      }
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      const actingPerson = await storage.getPersonByEmail(organizationId, req.user.email);
+      
+      // The new person in charge and the target status are the same for every PICA, so check them once
+      let newPersonInCharge: Person | undefined;
+      if (bulkAction.action === "reassign") {
+        newPersonInCharge = await storage.getPerson(bulkAction.personInChargeId);
+        if (!newPersonInCharge || newPersonInCharge.deletedAt || newPersonInCharge.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Person in charge not found" });
+        }
+      }
+      if (bulkAction.action === "status" && !findWorkflowStatus(workflow, bulkAction.status)) {
+        return res.status(400).json({ message: `Unknown status "${bulkAction.status}"` });
+      }
+      
+      const result: PicaBulkResult = { updated: [], failed: [] };
+      const picaIds = Array.from(new Set(bulkAction.picaIds));
+      
+      for (const id of picaIds) {
+        const pica = await storage.getPica(id);
+        if (!pica || pica.organizationId !== organizationId) {
+          result.failed.push({ id, picaId: null, message: "PICA not found" });
+          continue;
+        }
+        const fail = (message: string) => result.failed.push({ id, picaId: pica.picaId, message });
+        
+        switch (bulkAction.action) {
+          case "reassign": {
+            if (pica.personInChargeId === newPersonInCharge!.id) {
+              fail(`Already assigned to ${newPersonInCharge!.name}`);
+              continue;
+            }
+            const previous = await storage.getPerson(pica.personInChargeId);
+            const historyComment = `Person in charge changed from ${previous?.name ?? "unknown"} to ${newPersonInCharge!.name}`
+              + (bulkAction.comment ? `: ${bulkAction.comment}` : "");
+            const reassignedPica = await storage.reassignPica(id, newPersonInCharge!.id, historyComment, userId);
+            if (!reassignedPica) {
+              fail("PICA not found");
+              continue;
+            }
+            await notifyPica("reassigned", reassignedPica, { previousPersonName: previous?.name });
+            break;
+          }
+          case "due_date": {
+            // Same rules as requesting a single extension
+            if (req.user.role !== "admin" && actingPerson?.id !== pica.personInChargeId) {
+              fail("Only the person in charge can request an extension");
+              continue;
+            }
+            if (getStatusCategory(workflow, pica.status) === "complete") {
+              fail("PICA is already complete");
+              continue;
+            }
+            if (bulkAction.dueDate <= pica.dueDate) {
+              fail("The requested due date must be after the current due date");
+              continue;
+            }
+            if (await storage.getPendingExtensionRequest(id)) {
+              fail("An extension request is already awaiting approval");
+              continue;
+            }
+            const approver = await storage.resolvePicaVerifier(pica);
+            await storage.createExtensionRequest(pica, {
+              requestedDueDate: bulkAction.dueDate,
+              justification: bulkAction.comment,
+              approverId: approver?.id ?? null
+            }, userId);
+            break;
+          }
+          case "status": {
+            if (pica.status === bulkAction.status) {
+              fail(`Already ${bulkAction.status}`);
+              continue;
+            }
+            const statusError = checkStatusChange(workflow, pica.status, bulkAction.status, req.user.role, bulkAction.comment);
+            if (statusError) {
+              fail(statusError.message);
+              continue;
+            }
+            await storage.updatePica(id, { status: bulkAction.status }, bulkAction.comment || undefined, userId);
+            break;
+          }
+          case "delete": {
+            if (!(await storage.deletePica(id, userId))) {
+              fail("PICA not found");
+              continue;
+            }
+            break;
+          }
+        }
+        
+        result.updated.push(id);
+      }
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk action", errors: error.errors });
+      }
+      console.error("Error applying bulk PICA action:", error);
+      res.status(500).json({ message: "Failed to update PICAs" });
+    }
+  });
+
+  // Update a PICA (requires edit permission)
+  app.put(`${apiPrefix}/picas/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      // First get the existing PICA to ensure we have the correct organizationId
+      const existingPica = await storage.getPica(id);
+      if (!existingPica) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      // Check if user has access to this PICA (belongs to the same organization)
+      if (req.isAuthenticated() && req.user.organizationId && 
+          existingPica.organizationId && existingPica.organizationId !== req.user.organizationId) {
+        return res.status(403).json({ message: "You don't have access to this PICA" });
+      }
+      
+      // Extract comment and updateDate from the request if present
+      const { comment, updateDate, ...restData } = req.body;
+      
+      // Create a copy of the data to be updated with type assertion
+      let picaData: any = { ...insertPicaSchema.partial().parse(restData) };
+      
+      // Ensure organizationId is preserved
+      if (req.isAuthenticated() && req.user.organizationId) {
+        picaData.organizationId = req.user.organizationId;
+      }
+      
+      // A new person in charge or site must be in the PICA's organization and not in the trash
+      if (existingPica.organizationId) {
+        const referenceError = await findForeignReference(existingPica.organizationId, {
+          personInChargeId: picaData.personInChargeId !== existingPica.personInChargeId ? picaData.personInChargeId : undefined,
+          projectSiteId: picaData.projectSiteId !== existingPica.projectSiteId ? picaData.projectSiteId : undefined
+        });
+        if (referenceError) {
+          return res.status(400).json({ message: referenceError });
+        }
+      }
+      
+      // Due dates only move through approved extension requests so revisions stay on record
+      if (picaData.dueDate && picaData.dueDate !== existingPica.dueDate) {
+        return res.status(400).json({
+          message: "Due dates are changed through an extension request approved by a verifier"
+        });
+      }
+      
+      // Status changes must follow a transition of the organization's workflow
+      if (picaData.status && picaData.status !== existingPica.status) {
+        const workflow = existingPica.organizationId
+          ? await storage.getWorkflow(existingPica.organizationId)
+          : DEFAULT_WORKFLOW;
+        const statusError = checkStatusChange(workflow, existingPica.status, picaData.status, req.user?.role, comment);
+        if (statusError) {
+          return res.status(statusError.status).json({ message: statusError.message });
+        }
+      }
+      
+      // If updateDate is provided, use it to set the updatedAt field
+      if (updateDate) {
+        picaData.updatedAt = new Date(updateDate);
+      } else {
+        // Otherwise use current date (this is already handled by the storage layer)
+        picaData.updatedAt = new Date();
+      }
+      
+      // Pass the history comment if provided and record the acting user
+      const updatedPica = await storage.updatePica(id, picaData, comment, req.user?.id ?? null);
+      
+      if (!updatedPica) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      if (updatedPica.personInChargeId !== existingPica.personInChargeId) {
+        const previous = await storage.getPerson(existingPica.personInChargeId);
+        await notifyPica("reassigned", updatedPica, { previousPersonName: previous?.name });
+      }
+      
+      res.json(updatedPica);
+    } catch (error) {
+      console.error("Error updating PICA:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PICA data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update PICA" });
+    }
+  });
+  
+  // Reopen a completed PICA with a reason (requires edit permission). The workflow's transition
+  // back to in-progress decides which roles may reopen.
+  app.post(`${apiPrefix}/picas/:id/reopen`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to reopen a PICA" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const { reason } = reopenPicaSchema.parse(req.body);
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      if (getStatusCategory(workflow, pica.status) !== "complete") {
+        return res.status(409).json({ message: "Only completed PICAs can be reopened" });
+      }
+      
+      // Reopened PICAs go back to in-progress; the overdue check picks up ones already past due
+      const newStatus = getCategoryStatus(workflow, "progress")?.key ?? getInitialStatus(workflow).key;
+      const transitionError = checkTransition(workflow, pica.status, newStatus, req.user.role, reason);
+      if (transitionError) {
+        return res.status(transitionError.status).json({ message: transitionError.message });
+      }
+      const reopenedPica = await storage.reopenPica(id, { reason, fromStatus: pica.status, newStatus }, req.user.id);
+      if (!reopenedPica) {
+        return res.status(409).json({ message: "PICA has already been reopened" });
+      }
+      
+      res.json(reopenedPica);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reopen request", errors: error.errors });
+      }
+      console.error("Error reopening PICA:", error);
+      res.status(500).json({ message: "Failed to reopen PICA" });
+    }
+  });
+
+  // Get PICA history
+  app.get(`${apiPrefix}/picas/:id/history`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const history = await storage.getPicaHistory(id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve PICA history" });
+    }
+  });
+
+  // Move a PICA to the trash (requires delete permission); admins restore or purge it from there
+  app.delete(`${apiPrefix}/picas/:id`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const success = await storage.deletePica(id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      res.json({ message: "PICA moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete PICA" });
+    }
+  });
+
+  // --- Audit Routes ---
+  // Get the field-level change timeline of a PICA, newest first
+  app.get(`${apiPrefix}/picas/:id/audit`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const auditTrail = await storage.getPicaAuditTrail(id);
+      res.json(auditTrail);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve audit trail" });
+    }
+  });
+
+  // Search the organization's audit log, e.g. ?userId=3&dateFrom=2025-01-01 (requires admin permission)
+  app.get(`${apiPrefix}/audit`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to view the audit log" });
+      }
+      
+      const query = picaAuditQuerySchema.parse(req.query);
+      const { items, total } = await storage.queryPicaAuditLog(req.user.organizationId, query);
+      
+      const result: PicaAuditPage = {
+        items,
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+        totalPages: Math.ceil(total / query.pageSize)
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve audit log" });
+    }
+  });
+
+  // --- Attachment Routes ---
+  // Get the attachments of a PICA, newest first
+  app.get(`${apiPrefix}/picas/:id/attachments`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const attachments = await storage.getAttachmentsForPica(id);
+      res.json(attachments.map(toAttachmentInfo));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve attachments" });
+    }
+  });
+
+  // Upload files to a PICA as multipart "files", optionally linked to a history entry with "historyId"
+  app.post(`${apiPrefix}/picas/:id/attachments`, canEdit, uploadAttachments, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to upload attachments" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      
+      // A linked history entry must belong to the same PICA
+      let historyId: number | null = null;
+      if (req.body.historyId) {
+        historyId = parseInt(req.body.historyId);
+        const history = await storage.getPicaHistory(id);
+        if (isNaN(historyId) || !history.some(entry => entry.id === historyId)) {
+          return res.status(400).json({ message: "History entry not found for this PICA" });
+        }
+      }
+      
+      const attachmentList = [];
+      for (const file of files) {
+        const { storageKey, thumbnailKey } = await storeAttachmentFile(organizationId, id, file);
+        attachmentList.push({
+          picaId: id,
+          historyId,
+          organizationId,
+          fileName: file.originalname,
+          contentType: file.mimetype,
+          size: file.size,
+          storageKey,
+          thumbnailKey,
+          uploadedById: req.user.id
+        });
+      }
+      
+      const attachments = await storage.createAttachments(attachmentList);
+      res.status(201).json(attachments.map(attachment => toAttachmentInfo({
+        ...attachment,
+        uploadedBy: { id: req.user!.id, name: req.user!.name, username: req.user!.username }
+      })));
+    } catch (error) {
+      console.error("Error uploading attachments:", error);
+      res.status(500).json({ message: "Failed to upload attachments" });
+    }
+  });
+
+  // Download an attachment, or its thumbnail with ?thumbnail=true
+  app.get(`${apiPrefix}/attachments/:id/file`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const attachment = await storage.getAttachment(id);
+      if (!attachment || !req.user || attachment.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const wantsThumbnail = req.query.thumbnail === "true";
+      if (wantsThumbnail && !attachment.thumbnailKey) {
+        return res.status(404).json({ message: "Attachment has no thumbnail" });
+      }
+      
+      const stream = await fileStorage.get(wantsThumbnail ? attachment.thumbnailKey! : attachment.storageKey);
+      if (!stream) {
+        return res.status(404).json({ message: "Attachment file is missing" });
+      }
+      
+      // Images and PDFs open in the browser; everything else downloads
+      const inline = wantsThumbnail || attachment.contentType.startsWith("image/") || attachment.contentType === "application/pdf";
+      res.setHeader("Content-Type", wantsThumbnail ? "image/webp" : attachment.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (inline) {
+        res.setHeader("Content-Disposition", "inline");
+      } else {
+        res.attachment(attachment.fileName);
+      }
+      stream.on("error", (error) => {
+        console.error("Error streaming attachment:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve attachment" });
+    }
+  });
+
+  // Delete an attachment (uploader or admin)
+  app.delete(`${apiPrefix}/attachments/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const attachment = await storage.getAttachment(id);
+      if (!attachment || !req.user || attachment.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (req.user.role !== "admin" && attachment.uploadedById !== req.user.id) {
+        return res.status(403).json({ message: "Only the uploader or an admin can delete this attachment" });
+      }
+      
+      await storage.deleteAttachment(id);
+      await deleteAttachmentFiles(attachment);
+      
+      res.json({ message: "Attachment deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // --- Comment Routes ---
+  // Get the comment thread of a PICA, oldest first
+  app.get(`${apiPrefix}/picas/:id/comments`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const comments = await storage.getCommentsForPica(id);
+      res.json(comments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve comments" });
+    }
+  });
+
+  // Add a comment or a reply (requires edit permission)
+  app.post(`${apiPrefix}/picas/:id/comments`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to comment" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const { body, parentId } = commentInputSchema.parse(req.body);
+      
+      // Threads are one level deep: replying to a reply joins its thread
+      let threadId: number | null = null;
+      if (parentId) {
+        const parent = await storage.getComment(parentId);
+        if (!parent || parent.picaId !== id) {
+          return res.status(400).json({ message: "Parent comment not found for this PICA" });
+        }
+        threadId = parent.parentId ?? parent.id;
+      }
+      
+      const comment = await storage.createComment({
+        picaId: id,
+        organizationId,
+        userId: req.user.id,
+        parentId: threadId,
+        body,
+        mentionedUserIds: await resolveMentionedUserIds(organizationId, body)
+      });
+      
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid comment", errors: error.errors });
+      }
+      console.error("Error creating comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  // Edit one of your own comments
+  app.put(`${apiPrefix}/picas/:id/comments/:commentId`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
+      if (isNaN(id) || isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to edit comments" });
+      }
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.picaId !== id || comment.organizationId !== req.user.organizationId || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== req.user.id) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+      
+      const { body } = commentInputSchema.pick({ body: true }).parse(req.body);
+      const updatedComment = await storage.updateComment(commentId, {
+        body,
+        mentionedUserIds: await resolveMentionedUserIds(req.user.organizationId, body)
+      });
+      
+      if (!updatedComment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      res.json(updatedComment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid comment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Delete one of your own comments (admins can delete any)
+  app.delete(`${apiPrefix}/picas/:id/comments/:commentId`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
+      if (isNaN(id) || isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || !req.user || comment.picaId !== id || comment.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ message: "You can only delete your own comments" });
+      }
+      
+      const success = await storage.deleteComment(commentId);
+      if (!success) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Users of the organization that can be @mentioned
+  app.get(`${apiPrefix}/users/mentionable`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const organizationUsers = await storage.getUsersByOrganization(req.user.organizationId);
+      res.json(organizationUsers.map(user => ({ id: user.id, name: user.name, username: user.username })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve users" });
+    }
+  });
+
+  // --- Closure Verification Routes ---
+  // Get the closure requests of a PICA, newest first
+  app.get(`${apiPrefix}/picas/:id/closure-requests`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const closureRequests = await storage.getClosureRequestsForPica(id);
+      res.json(closureRequests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve closure requests" });
+    }
+  });
+
+  // Submit a PICA for closure (person in charge or admin)
+  app.post(`${apiPrefix}/picas/:id/closure-requests`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to request closure" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const requestData = closureRequestInputSchema.parse(req.body);
+      
+      const person = await storage.getPersonByEmail(organizationId, req.user.email);
+      if (req.user.role !== "admin" && person?.id !== pica.personInChargeId) {
+        return res.status(403).json({ message: "Only the person in charge can request closure" });
+      }
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      if (getStatusCategory(workflow, pica.status) === "complete") {
+        return res.status(409).json({ message: "PICA is already complete" });
+      }
+      if (pica.completedActionItemCount < pica.actionItemCount) {
+        return res.status(409).json({ message: "All action items must be done before requesting closure" });
+      }
+      if (await storage.getPendingClosureRequest(id)) {
+        return res.status(409).json({ message: "A closure request is already awaiting verification" });
+      }
+      
+      const verifier = await storage.resolvePicaVerifier(pica);
+      const closureRequest = await storage.createClosureRequest(pica, {
+        ...requestData,
+        verifierId: verifier?.id ?? null
+      }, req.user.id);
+      
+      res.status(201).json(closureRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid closure request", errors: error.errors });
+      }
+      console.error("Error requesting PICA closure:", error);
+      res.status(500).json({ message: "Failed to request closure" });
+    }
+  });
+
+  // Closures awaiting my verification and my rejected closures
+  app.get(`${apiPrefix}/closure-requests/queue`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json({ pendingVerification: [], rejected: [] });
+      }
+      
+      const person = await storage.getPersonByEmail(req.user.organizationId, req.user.email);
+      const queue = await storage.getClosureQueue(req.user.organizationId, {
+        userId: req.user.id,
+        personId: person?.id ?? null,
+        isAdmin: req.user.role === "admin"
+      });
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve verification queue" });
+    }
+  });
+
+  // Approve or reject a closure request (assigned verifier or admin)
+  app.post(`${apiPrefix}/closure-requests/:id/decision`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to verify closures" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const closureRequest = await storage.getClosureRequest(id);
+      if (!closureRequest || closureRequest.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Closure request not found" });
+      }
+      
+      const { decision, reason } = closureDecisionSchema.parse(req.body);
+      
+      const person = await storage.getPersonByEmail(organizationId, req.user.email);
+      const isVerifier = closureRequest.verifierId !== null && person?.id === closureRequest.verifierId;
+      if (req.user.role !== "admin" && !isVerifier) {
+        return res.status(403).json({ message: "Only the assigned verifier can decide this closure" });
+      }
+      
+      // Approved closures complete the PICA; rejected ones return it to in-progress
+      const workflow = await storage.getWorkflow(organizationId);
+      const approved = decision === "approve";
+      const newStatus = approved
+        ? getCategoryStatus(workflow, "complete")?.key ?? "complete"
+        : getCategoryStatus(workflow, "progress")?.key ?? getInitialStatus(workflow).key;
+      
+      const decidedRequest = await storage.decideClosureRequest(id, { approved, reason, newStatus }, req.user.id);
+      if (!decidedRequest) {
+        return res.status(409).json({ message: "Closure request has already been decided" });
+      }
+      
+      if (!approved) {
+        const pica = await storage.getPica(decidedRequest.picaId);
+        if (pica) {
+          await notifyPica("closure_rejected", pica, { reason });
+        }
+      }
+      
+      res.json(decidedRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid closure decision", errors: error.errors });
+      }
+      console.error("Error deciding PICA closure:", error);
+      res.status(500).json({ message: "Failed to record closure decision" });
+    }
+  });
+
+  // --- Root Cause Analysis Routes ---
+  // Get the root cause analysis of a PICA (null until one is recorded)
+  app.get(`${apiPrefix}/picas/:id/root-cause`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const analysis = await storage.getRootCauseAnalysis(id);
+      res.json(analysis ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve root cause analysis" });
+    }
+  });
+
+  // Save the 5-Why chain and fishbone causes of a PICA (requires edit permission)
+  app.put(`${apiPrefix}/picas/:id/root-cause`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to record a root cause analysis" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const analysisData = rootCauseAnalysisInputSchema.parse(req.body);
+      const analysis = await storage.saveRootCauseAnalysis(pica, analysisData, req.user.id);
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid root cause analysis", errors: error.errors });
+      }
+      console.error("Error saving root cause analysis:", error);
+      res.status(500).json({ message: "Failed to save root cause analysis" });
+    }
+  });
+
+  // --- Action Item Routes ---
+  // Get the corrective, preventive and containment actions of a PICA
+  app.get(`${apiPrefix}/picas/:id/actions`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const actionItems = await storage.getActionItemsForPica(id);
+      res.json(actionItems);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve action items" });
+    }
+  });
+
+  // Add an action item to a PICA (requires edit permission)
+  app.post(`${apiPrefix}/picas/:id/actions`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to add an action item" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const itemData = actionItemInputSchema.parse(req.body);
+      
+      const owner = await storage.getPerson(itemData.ownerId);
+      if (!owner || owner.deletedAt || owner.organizationId !== organizationId) {
+        return res.status(400).json({ message: "Owner must be a person in your organization" });
+      }
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      if (getStatusCategory(workflow, pica.status) === "complete") {
+        return res.status(409).json({ message: "PICA is already complete" });
+      }
+      
+      const actionItem = await storage.createActionItem(pica, itemData, req.user.id);
+      res.status(201).json(actionItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid action item", errors: error.errors });
+      }
+      console.error("Error adding action item:", error);
+      res.status(500).json({ message: "Failed to add action item" });
+    }
+  });
+
+  // Update an action item, including its status and progress (requires edit permission)
+  app.put(`${apiPrefix}/picas/:id/actions/:actionId`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actionId = parseInt(req.params.actionId);
+      if (isNaN(id) || isNaN(actionId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update an action item" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      const existingItem = await storage.getActionItem(actionId);
+      if (!pica || pica.organizationId !== organizationId || !existingItem || existingItem.picaId !== id) {
+        return res.status(404).json({ message: "Action item not found" });
+      }
+      
+      const updateData = actionItemUpdateSchema.parse(req.body);
+      
+      if (updateData.ownerId && updateData.ownerId !== existingItem.ownerId) {
+        const owner = await storage.getPerson(updateData.ownerId);
+        if (!owner || owner.deletedAt || owner.organizationId !== organizationId) {
+          return res.status(400).json({ message: "Owner must be a person in your organization" });
+        }
+      }
+      
+      const actionItem = await storage.updateActionItem(actionId, updateData, req.user.id);
+      if (!actionItem) {
+        return res.status(404).json({ message: "Action item not found" });
+      }
+      
+      res.json(actionItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid action item", errors: error.errors });
+      }
+      console.error("Error updating action item:", error);
+      res.status(500).json({ message: "Failed to update action item" });
+    }
+  });
+
+  // Remove an action item from a PICA (requires edit permission)
+  app.delete(`${apiPrefix}/picas/:id/actions/:actionId`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actionId = parseInt(req.params.actionId);
+      if (isNaN(id) || isNaN(actionId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to remove an action item" });
+      }
+      
+      const pica = await storage.getPica(id);
+      const existingItem = await storage.getActionItem(actionId);
+      if (!pica || pica.organizationId !== req.user.organizationId || !existingItem || existingItem.picaId !== id) {
+        return res.status(404).json({ message: "Action item not found" });
+      }
+      
+      await storage.deleteActionItem(actionId, req.user.id);
+      res.json({ message: "Action item removed successfully" });
+    } catch (error) {
+      console.error("Error removing action item:", error);
+      res.status(500).json({ message: "Failed to remove action item" });
+    }
+  });
+
+  // --- PICA Link Routes ---
+  // Get the PICAs linked to a PICA in either direction
+  app.get(`${apiPrefix}/picas/:id/links`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const links = await storage.getPicaLinks(id);
+      res.json(links);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve PICA links" });
+    }
+  });
+
+  // Link a PICA to another PICA in the same organization (requires edit permission)
+  app.post(`${apiPrefix}/picas/:id/links`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to link PICAs" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const linkData = picaLinkInputSchema.parse(req.body);
+      if (linkData.targetPicaId === id) {
+        return res.status(400).json({ message: "A PICA cannot be linked to itself" });
+      }
+      
+      const target = await storage.getPica(linkData.targetPicaId);
+      if (!target || target.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Linked PICA not found" });
+      }
+      
+      // Only one link per pair of PICAs, whichever way round it was made
+      const existingLinks = await storage.getPicaLinks(id);
+      if (existingLinks.some(link => link.linkedPica.id === target.id)) {
+        return res.status(409).json({ message: `${pica.picaId} is already linked to ${target.picaId}` });
+      }
+      
+      const link = await storage.createPicaLink({
+        ...linkData,
+        organizationId,
+        sourcePicaId: id,
+        createdById: req.user.id
+      });
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PICA link", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "These PICAs are already linked" });
+      }
+      console.error("Error linking PICAs:", error);
+      res.status(500).json({ message: "Failed to link PICAs" });
+    }
+  });
+
+  // Remove a link between two PICAs (requires edit permission)
+  app.delete(`${apiPrefix}/picas/:id/links/:linkId`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(id) || isNaN(linkId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const link = await storage.getPicaLink(linkId);
+      if (!link || !req.user || link.organizationId !== req.user.organizationId ||
+          (link.sourcePicaId !== id && link.targetPicaId !== id)) {
+        return res.status(404).json({ message: "PICA link not found" });
+      }
+      
+      await storage.deletePicaLink(linkId);
+      res.json({ message: "PICA link removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove PICA link" });
+    }
+  });
+
+  // --- Due Date Extension Routes ---
+  // Get the extension requests of a PICA, newest first
+  app.get(`${apiPrefix}/picas/:id/extension-requests`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const extensionRequests = await storage.getExtensionRequestsForPica(id);
+      res.json(extensionRequests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve extension requests" });
+    }
+  });
+
+  // Request a later due date for a PICA (person in charge or admin)
+  app.post(`${apiPrefix}/picas/:id/extension-requests`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to request an extension" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const pica = await storage.getPica(id);
+      if (!pica || pica.organizationId !== organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const requestData = extensionRequestInputSchema.parse(req.body);
+      
+      const person = await storage.getPersonByEmail(organizationId, req.user.email);
+      if (req.user.role !== "admin" && person?.id !== pica.personInChargeId) {
+        return res.status(403).json({ message: "Only the person in charge can request an extension" });
+      }
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      if (getStatusCategory(workflow, pica.status) === "complete") {
+        return res.status(409).json({ message: "PICA is already complete" });
+      }
+      if (requestData.requestedDueDate <= pica.dueDate) {
+        return res.status(400).json({ message: "The requested due date must be after the current due date" });
+      }
+      if (await storage.getPendingExtensionRequest(id)) {
+        return res.status(409).json({ message: "An extension request is already awaiting approval" });
+      }
+      
+      const approver = await storage.resolvePicaVerifier(pica);
+      const extensionRequest = await storage.createExtensionRequest(pica, {
+        ...requestData,
+        approverId: approver?.id ?? null
+      }, req.user.id);
+      
+      res.status(201).json(extensionRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid extension request", errors: error.errors });
+      }
+      console.error("Error requesting due date extension:", error);
+      res.status(500).json({ message: "Failed to request extension" });
+    }
+  });
+
+  // Extensions awaiting my approval
+  app.get(`${apiPrefix}/extension-requests/queue`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const person = await storage.getPersonByEmail(req.user.organizationId, req.user.email);
+      const pending = await storage.getPendingExtensionApprovals(req.user.organizationId, {
+        personId: person?.id ?? null,
+        isAdmin: req.user.role === "admin"
+      });
+      res.json(pending);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve extension requests" });
+    }
+  });
+
+  // Approve or reject an extension request (assigned approver or admin)
+  app.post(`${apiPrefix}/extension-requests/:id/decision`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to decide extensions" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const extensionRequest = await storage.getExtensionRequest(id);
+      if (!extensionRequest || extensionRequest.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Extension request not found" });
+      }
+      
+      const { decision, reason } = extensionDecisionSchema.parse(req.body);
+      
+      const person = await storage.getPersonByEmail(organizationId, req.user.email);
+      const isApprover = extensionRequest.approverId !== null && person?.id === extensionRequest.approverId;
+      if (req.user.role !== "admin" && !isApprover) {
+        return res.status(403).json({ message: "Only the assigned approver can decide this extension" });
+      }
+      
+      // An overdue PICA whose new due date hasn't passed goes back to in-progress
+      const approved = decision === "approve";
+      let newStatus: string | undefined;
+      const pica = await storage.getPica(extensionRequest.picaId);
+      if (approved && pica) {
+        const workflow = await storage.getWorkflow(organizationId);
+        const today = new Date().toISOString().split("T")[0];
+        if (getStatusCategory(workflow, pica.status) === "overdue" && extensionRequest.requestedDueDate >= today) {
+          newStatus = getCategoryStatus(workflow, "progress")?.key ?? getInitialStatus(workflow).key;
+        }
+      }
+      
+      const decidedRequest = await storage.decideExtensionRequest(id, { approved, reason, newStatus }, req.user.id);
+      if (!decidedRequest) {
+        return res.status(409).json({ message: "Extension request has already been decided" });
+      }
+      
+      res.json(decidedRequest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid extension decision", errors: error.errors });
+      }
+      console.error("Error deciding due date extension:", error);
+      res.status(500).json({ message: "Failed to record extension decision" });
+    }
+  });
+
+  // --- Effectiveness Review Routes ---
+  // Get the days after closure at which effectiveness is reviewed (the default if never configured)
+  app.get(`${apiPrefix}/effectiveness-checks`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json({ days: DEFAULT_EFFECTIVENESS_CHECK_DAYS, isDefault: true });
+      }
+      
+      const settings = await storage.getEffectivenessCheckDays(req.user.organizationId);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve effectiveness checks" });
+    }
+  });
+
+  // Replace the effectiveness check days for future closures (requires admin permission)
+  app.put(`${apiPrefix}/effectiveness-checks`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update effectiveness checks" });
+      }
+      
+      const { days } = effectivenessCheckDaysSchema.parse(req.body);
+      const settings = await storage.replaceEffectivenessCheckDays(req.user.organizationId, days);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid effectiveness checks", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update effectiveness checks" });
+    }
+  });
+
+  // Restore the default effectiveness check days (requires admin permission)
+  app.delete(`${apiPrefix}/effectiveness-checks`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to reset effectiveness checks" });
+      }
+      
+      const settings = await storage.replaceEffectivenessCheckDays(req.user.organizationId, null);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset effectiveness checks" });
+    }
+  });
+
+  // Get the effectiveness reviews scheduled for a PICA
+  app.get(`${apiPrefix}/picas/:id/effectiveness-reviews`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const pica = await storage.getPica(id);
+      if (!pica || !req.user || pica.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const reviews = await storage.getEffectivenessReviewsForPica(id);
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve effectiveness reviews" });
+    }
+  });
+
+  // Get the effectiveness reviews that are due and assigned to the current user
+  app.get(`${apiPrefix}/effectiveness-reviews/queue`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const person = await storage.getPersonByEmail(req.user.organizationId, req.user.email);
+      const reviews = await storage.getDueEffectivenessReviews(req.user.organizationId, {
+        personId: person?.id ?? null,
+        isAdmin: req.user.role === "admin"
+      }, getIsoToday());
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve effectiveness reviews" });
+    }
+  });
+
+  // Mark a PICA's corrective action effective or ineffective (assigned reviewer or admin).
+  // Ineffective actions reopen the PICA or raise a new PICA linked as its recurrence.
+  app.post(`${apiPrefix}/effectiveness-reviews/:id/decision`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to review effectiveness" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const review = await storage.getEffectivenessReview(id);
+      if (!review || review.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Effectiveness review not found" });
+      }
+      
+      const decision = effectivenessDecisionSchema.parse(req.body);
+      
+      const person = await storage.getPersonByEmail(organizationId, req.user.email);
+      const isReviewer = review.reviewerId !== null && person?.id === review.reviewerId;
+      if (req.user.role !== "admin" && !isReviewer) {
+        return res.status(403).json({ message: "Only the assigned reviewer can decide this review" });
+      }
+      if (review.status !== "pending") {
+        return res.status(409).json({ message: "Effectiveness review has already been decided" });
+      }
+      
+      const today = getIsoToday();
+      if (review.dueDate > today) {
+        return res.status(409).json({ message: `This review is not due until ${review.dueDate}` });
+      }
+      
+      const pica = await storage.getPica(review.picaId);
+      if (!pica) {
+        return res.status(404).json({ message: "PICA not found" });
+      }
+      
+      const workflow = await storage.getWorkflow(organizationId);
+      const followUp: { reopen?: { fromStatus: string; newStatus: string }; newPica?: Omit<InsertPica, "picaId"> } = {};
+      
+      if (decision.outcome === "ineffective" && decision.followUp === "reopen") {
+        if (getStatusCategory(workflow, pica.status) !== "complete") {
+          return res.status(409).json({ message: "PICA is no longer complete" });
+        }
+        const newStatus = getCategoryStatus(workflow, "progress")?.key ?? getInitialStatus(workflow).key;
+        const transitionError = checkTransition(workflow, pica.status, newStatus, req.user.role, decision.notes);
+        if (transitionError) {
+          return res.status(transitionError.status).json({ message: transitionError.message });
+        }
+        followUp.reopen = { fromStatus: pica.status, newStatus };
+      }
+      
+      if (decision.outcome === "ineffective" && decision.followUp === "new_pica") {
+        // The new PICA repeats the finding at the same site with the reviewer's corrective action;
+        // its ID is reserved when the decision is recorded
+        const matrix = await storage.getRiskMatrix(organizationId);
+        followUp.newPica = insertPicaSchema.omit({ picaId: true }).parse({
+          projectSiteId: pica.projectSiteId,
+          date: today,
+          issue: pica.issue,
+          problemIdentification: `Corrective action of ${pica.picaId} found ineffective: ${decision.notes}`,
+          correctiveAction: decision.correctiveAction,
+          personInChargeId: pica.personInChargeId,
+          dueDate: getRiskDueDate(matrix, today, pica.severity, pica.likelihood) ?? addDays(today, 7),
+          severity: pica.severity,
+          likelihood: pica.likelihood,
+          status: getInitialStatus(workflow).key,
+          organizationId
+        });
+      }
+      
+      const decidedReview = await storage.decideEffectivenessReview(review, decision, req.user.id, followUp);
+      if (!decidedReview) {
+        return res.status(409).json({ message: "Effectiveness review has already been decided" });
+      }
+      
+      const followUpPica = decidedReview.followUpPicaId ? await storage.getPica(decidedReview.followUpPicaId) : undefined;
+      if (followUpPica) {
+        await notifyPica("assigned", followUpPica);
+      }
+      
+      res.json(decidedReview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid effectiveness review", errors: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "PICA ID already exists in this organization" });
+      }
+      console.error("Error deciding effectiveness review:", error);
+      res.status(500).json({ message: "Failed to record effectiveness review" });
+    }
+  });
+
+  // --- Workflow Routes ---
+  // Get the organization's PICA workflow (the default workflow if it was never customized)
+  app.get(`${apiPrefix}/workflow`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json({ ...DEFAULT_WORKFLOW, isDefault: true });
+      }
+      
+      const workflow = await storage.getWorkflow(req.user.organizationId);
+      res.json(workflow);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve workflow" });
+    }
+  });
+
+  // Replace the organization's PICA workflow (requires admin permission)
+  app.put(`${apiPrefix}/workflow`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update the workflow" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const definition = workflowDefinitionSchema.parse(req.body);
+      
+      // Statuses still held by PICAs can't be removed
+      const keys = new Set(definition.statuses.map(status => status.key));
+      const missingStatuses = (await storage.getPicaStatusesInUse(organizationId))
+        .filter(status => !keys.has(status));
+      if (missingStatuses.length > 0) {
+        return res.status(409).json({
+          message: `Statuses still used by PICAs cannot be removed: ${missingStatuses.join(", ")}`,
+          statuses: missingStatuses
+        });
+      }
+      
+      const workflow = await storage.replaceWorkflow(organizationId, definition);
+      res.json(workflow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workflow", errors: error.errors });
+      }
+      console.error("Error updating workflow:", error);
+      res.status(500).json({ message: "Failed to update workflow" });
+    }
+  });
+
+  // Restore the default workflow (requires admin permission)
+  app.delete(`${apiPrefix}/workflow`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to reset the workflow" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      // Statuses outside the default workflow must be migrated first
+      const defaultKeys = new Set(DEFAULT_WORKFLOW.statuses.map(status => status.key));
+      const missingStatuses = (await storage.getPicaStatusesInUse(organizationId))
+        .filter(status => !defaultKeys.has(status));
+      if (missingStatuses.length > 0) {
+        return res.status(409).json({
+          message: `Statuses still used by PICAs cannot be removed: ${missingStatuses.join(", ")}`,
+          statuses: missingStatuses
+        });
+      }
+      
+      const workflow = await storage.resetWorkflow(organizationId);
+      res.json(workflow);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset workflow" });
+    }
+  });
+
+  // --- PICA Template Routes ---
+  // Get the organization's PICA templates
+  app.get(`${apiPrefix}/pica-templates`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const templates = await storage.getPicaTemplates(req.user.organizationId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve templates" });
+    }
+  });
+
+  // Create a PICA template (requires edit permission)
+  app.post(`${apiPrefix}/pica-templates`, canEdit, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to create a template" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const templateData = picaTemplateInputSchema.parse(req.body);
+      const referenceError = await findForeignReference(organizationId, templateData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const template = await storage.createPicaTemplate({ ...templateData, organizationId, createdById: req.user.id });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template", errors: error.errors });
+      }
+      console.error("Error creating PICA template:", error);
+      res.status(500).json({ message: "Failed to create template" });
+    }
+  });
+
+  // Update a PICA template; schedules pick up the change from their next run (requires edit permission)
+  app.put(`${apiPrefix}/pica-templates/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update a template" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const existingTemplate = await storage.getPicaTemplate(id);
+      if (!existingTemplate || existingTemplate.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const templateData = picaTemplateInputSchema.parse(req.body);
+      const referenceError = await findForeignReference(organizationId, templateData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const template = await storage.updatePicaTemplate(id, templateData);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template", errors: error.errors });
+      }
+      console.error("Error updating PICA template:", error);
+      res.status(500).json({ message: "Failed to update template" });
+    }
+  });
+
+  // Delete a PICA template that no schedule uses (requires edit permission)
+  app.delete(`${apiPrefix}/pica-templates/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const existingTemplate = await storage.getPicaTemplate(id);
+      if (!existingTemplate || !req.user || existingTemplate.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const scheduleCount = await storage.countSchedulesForTemplate(id);
+      if (scheduleCount > 0) {
+        return res.status(409).json({
+          message: `Template is used by ${scheduleCount} recurrence schedule(s); delete them first`
+        });
+      }
+      
+      await storage.deletePicaTemplate(id);
+      res.json({ message: "Template deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
+
+  // --- Recurrence Schedule Routes ---
+  // Get the organization's recurrence schedules
+  app.get(`${apiPrefix}/recurrence-schedules`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json([]);
+      }
+      
+      const schedules = await storage.getRecurrenceSchedules(req.user.organizationId);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve recurrence schedules" });
+    }
+  });
+
+  // Create a schedule that generates PICAs from a template at a project site (requires edit permission)
+  app.post(`${apiPrefix}/recurrence-schedules`, canEdit, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to create a recurrence schedule" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const scheduleData = recurrenceScheduleInputSchema.parse(req.body);
+      const referenceError = await findForeignReference(organizationId, scheduleData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const template = await storage.getPicaTemplate(scheduleData.templateId);
+      if (!scheduleData.personInChargeId && !template?.personInChargeId) {
+        return res.status(400).json({ message: "Choose a person in charge or give the template a default one" });
+      }
+      
+      const schedule = await storage.createRecurrenceSchedule({
+        ...scheduleData,
+        organizationId,
+        createdById: req.user.id,
+        nextRunDate: getNextScheduleRun(scheduleData, null)
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurrence schedule", errors: error.errors });
+      }
+      console.error("Error creating recurrence schedule:", error);
+      res.status(500).json({ message: "Failed to create recurrence schedule" });
+    }
+  });
+
+  // Edit, pause or resume a schedule (requires edit permission).
+  // The next run is recalculated from today, so occurrences missed while paused are skipped.
+  app.put(`${apiPrefix}/recurrence-schedules/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update a recurrence schedule" });
+      }
+      const organizationId = req.user.organizationId;
+      
+      const existingSchedule = await storage.getRecurrenceSchedule(id);
+      if (!existingSchedule || existingSchedule.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Recurrence schedule not found" });
+      }
+      
+      const scheduleData = recurrenceScheduleUpdateSchema.parse(req.body);
+      const referenceError = await findForeignReference(organizationId, scheduleData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const merged: PicaRecurrenceSchedule = { ...existingSchedule, ...scheduleData };
+      if (merged.endDate && merged.endDate < merged.startDate) {
+        return res.status(400).json({ message: "End date must be on or after the start date" });
+      }
+      const template = await storage.getPicaTemplate(merged.templateId);
+      if (!merged.personInChargeId && !template?.personInChargeId) {
+        return res.status(400).json({ message: "Choose a person in charge or give the template a default one" });
+      }
+      
+      const schedule = await storage.updateRecurrenceSchedule(id, {
+        ...scheduleData,
+        nextRunDate: getNextScheduleRun(merged, existingSchedule.lastRunAt)
+      });
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurrence schedule", errors: error.errors });
+      }
+      console.error("Error updating recurrence schedule:", error);
+      res.status(500).json({ message: "Failed to update recurrence schedule" });
+    }
+  });
+
+  // Delete a schedule; PICAs it generated are kept (requires edit permission)
+  app.delete(`${apiPrefix}/recurrence-schedules/:id`, canEdit, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const existingSchedule = await storage.getRecurrenceSchedule(id);
+      if (!existingSchedule || !req.user || existingSchedule.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Recurrence schedule not found" });
+      }
+      
+      await storage.deleteRecurrenceSchedule(id);
+      res.json({ message: "Recurrence schedule deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurrence schedule" });
+    }
+  });
+
+  // --- Risk Matrix Routes ---
+  // Get the organization's risk matrix (the default matrix if it was never customized)
+  app.get(`${apiPrefix}/risk-matrix`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json({ ...DEFAULT_RISK_MATRIX, isDefault: true });
+      }
+      
+      const matrix = await storage.getRiskMatrix(req.user.organizationId);
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve risk matrix" });
+    }
+  });
+
+  // Replace the organization's risk matrix and re-level its PICAs (requires admin permission)
+  app.put(`${apiPrefix}/risk-matrix`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update the risk matrix" });
+      }
+      
+      const definition = riskMatrixSchema.parse(req.body);
+      const matrix = await storage.replaceRiskMatrix(req.user.organizationId, definition);
+      res.json(matrix);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid risk matrix", errors: error.errors });
+      }
+      console.error("Error updating risk matrix:", error);
+      res.status(500).json({ message: "Failed to update risk matrix" });
+    }
+  });
+
+  // Restore the default risk matrix (requires admin permission)
+  app.delete(`${apiPrefix}/risk-matrix`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to reset the risk matrix" });
+      }
+      
+      const matrix = await storage.resetRiskMatrix(req.user.organizationId);
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset risk matrix" });
+    }
+  });
+
+  // --- Notification Routes ---
+  // Get the organization's email notification settings (the defaults if never configured)
+  app.get(`${apiPrefix}/notification-settings`, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.json({ ...DEFAULT_NOTIFICATION_SETTINGS, isDefault: true });
+      }
+      
+      const settings = await storage.getNotificationSettings(req.user.organizationId);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve notification settings" });
+    }
+  });
+
+  // Choose which events send emails and when due date reminders go out (requires admin permission)
+  app.put(`${apiPrefix}/notification-settings`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update notification settings" });
+      }
+      
+      const definition = notificationSettingsSchema.parse(req.body);
+      const settings = await storage.replaceNotificationSettings(req.user.organizationId, definition);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification settings" });
+    }
+  });
+
+  // Restore the default notification settings (requires admin permission)
+  app.delete(`${apiPrefix}/notification-settings`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to reset notification settings" });
+      }
+      
+      const settings = await storage.replaceNotificationSettings(req.user.organizationId, null);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset notification settings" });
+    }
+  });
+
+  // Recent notification emails of the organization, optionally by status (requires admin permission)
+  app.get(`${apiPrefix}/notifications/outbox`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const status = req.query.status !== undefined
+        ? emailOutboxStatusEnum.parse(req.query.status)
+        : undefined;
+      const entries = await storage.getEmailOutbox(req.user.organizationId, status);
+      res.json({ smtpConfigured: isMailerConfigured(), entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid outbox status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve email outbox" });
+    }
+  });
+
+  // Send an email that ran out of attempts again (requires admin permission)
+  app.post(`${apiPrefix}/notifications/outbox/:id/retry`, canDelete, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const entry = await storage.getEmailOutboxEntry(id);
+      if (!entry || entry.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      if (entry.status !== "failed") {
+        return res.status(409).json({ message: "Only failed emails can be retried" });
+      }
+      
+      const retried = await storage.retryEmail(id);
+      if (!retried) {
+        return res.status(409).json({ message: "Only failed emails can be retried" });
+      }
+      
+      deliverQueuedEmails().catch((error) => console.error("Error delivering emails:", error));
+      res.json(retried);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retry email" });
+    }
+  });
+
+  // Get the current user's digest subscription (off until they opt in)
+  app.get(`${apiPrefix}/digest-preferences`, async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const preferences = await storage.getDigestPreferences(req.user.id);
+      res.json(preferences ?? { frequency: "off", weekday: 1, hour: 7, timeZone: "UTC", lastSentOn: null });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICAs by status" });
+      res.status(500).json({ message: "Failed to retrieve digest preferences" });
     }
   });
 
-  // Get PICA statistics
-  app.get(`${apiPrefix}/picas/stats`, async (req, res) => {
+  // Opt in to or out of digests and choose when they arrive
+  app.put(`${apiPrefix}/digest-preferences`, async (req, res) => {
     try {
-      // Filter by organization ID if user is authenticated
-      if (req.isAuthenticated() && req.user.organizationId) {
-        const stats = await storage.countPicasByStatus(req.user.organizationId);
-        return res.json(stats);
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
       
-      // If not authenticated or no organization ID, return empty stats
-      const stats = await storage.countPicasByStatus();
-      res.json(stats);
+      const preferences = digestPreferencesInputSchema.parse(req.body);
+      const saved = await storage.saveDigestPreferences(req.user.id, req.user.organizationId ?? null, preferences);
+      res.json(saved);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICA statistics" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid digest preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update digest preferences" });
     }
   });
 
-  // Get PICA statistics by department
-  app.get(`${apiPrefix}/picas/stats/department`, async (req, res) => {
+  // What the current user's next digest would report; digests are matched to people by email
+  app.get(`${apiPrefix}/digest-preferences/preview`, async (req, res) => {
     try {
-      // Filter by organization ID if user is authenticated
-      if (req.isAuthenticated() && req.user.organizationId) {
-        const stats = await storage.countPicasByDepartment(req.user.organizationId);
-        return res.json(stats);
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      if (!req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
       }
       
-      // If not authenticated or no organization ID, return all stats
-      const stats = await storage.countPicasByDepartment();
-      res.json(stats);
+      const person = await storage.getPersonByEmail(req.user.organizationId, req.user.email);
+      const digest = person ? await storage.getDigest(req.user.organizationId, person.id) : undefined;
+      if (!digest) {
+        return res.status(404).json({ message: "No person in charge has your email address, so there is nothing to send you" });
+      }
+      
+      res.json(digest);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICA department statistics" });
+      res.status(500).json({ message: "Failed to build digest preview" });
     }
   });
 
-  // Get PICA statistics by project site
-  app.get(`${apiPrefix}/picas/stats/site`, async (req, res) => {
+  // Get the current user's in-app notifications, newest first, with their unread count
+  app.get(`${apiPrefix}/notifications`, async (req, res) => {
     try {
-      // Filter by organization ID if user is authenticated
-      if (req.isAuthenticated() && req.user.organizationId) {
-        const stats = await storage.countPicasByProjectSite(req.user.organizationId);
-        return res.json(stats);
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
       
-      // If not authenticated or no organization ID, return all stats
-      const stats = await storage.countPicasByProjectSite();
-      res.json(stats);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const page = await storage.getNotifications(req.user.id, {
+        unreadOnly: req.query.unread === "true",
+        limit
+      });
+      res.json(page);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICA project site statistics" });
+      res.status(500).json({ message: "Failed to retrieve notifications" });
     }
   });
-  
-  // Get PICA statistics by job
-  app.get(`${apiPrefix}/picas/stats/job`, async (req, res) => {
+
+  // Mark every notification of the current user as read
+  app.post(`${apiPrefix}/notifications/read-all`, async (req, res) => {
     try {
-      // Fetch all PICAs and group them by project site with status counts
-      if (req.isAuthenticated() && req.user.organizationId) {
-        // Get the PICAs for this organization
-        const picas = await storage.getPicasByOrganization(req.user.organizationId);
-        // Get all project sites for this organization
-        const projectSites = await storage.getProjectSitesByOrganization(req.user.organizationId);
-        
-        // Create a map to store job stats
-        const jobStatsMap: Record<string, { job: string, progress: number, complete: number, overdue: number }> = {};
-        
-        // Initialize the map with all project sites
-        projectSites.forEach(site => {
-          jobStatsMap[site.code] = {
-            job: site.code,
-            progress: 0,
-            complete: 0,
-            overdue: 0
-          };
-        });
-        
-        // Count PICAs by site and status
-        picas.forEach(pica => {
-          // Find the site for this PICA
-          const site = projectSites.find(site => site.id === pica.projectSiteId);
-          if (site) {
-            // Increment the appropriate status counter
-            switch(pica.status) {
-              case 'progress':
-                jobStatsMap[site.code].progress += 1;
-                break;
-              case 'complete':
-                jobStatsMap[site.code].complete += 1;
-                break;
-              case 'overdue':
-                jobStatsMap[site.code].overdue += 1;
-                break;
-            }
-          }
-        });
-        
-        // Convert the map to an array
-        const jobStats = Object.values(jobStatsMap);
-        
-        return res.json(jobStats);
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
       }
       
-      // If not authenticated or no organization ID, return empty array
-      res.json([]);
+      const updated = await storage.markAllNotificationsRead(req.user.id);
+      res.json({ updated });
     } catch (error) {
-      console.error("Error fetching job stats:", error);
-      res.status(500).json({ message: "Failed to retrieve PICA job statistics" });
+      res.status(500).json({ message: "Failed to mark notifications as read" });
     }
   });
 
-  // Get a single PICA by ID
-  app.get(`${apiPrefix}/picas/:id`, async (req, res) => {
+  // Mark one of the current user's notifications as read
+  app.post(`${apiPrefix}/notifications/:id/read`, async (req, res) => {
     try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID" });
+        return res.status(400).json({ message: "Invalid notification ID" });
       }
       
-      const pica = await storage.getPica(id);
-      if (!pica) {
-        return res.status(404).json({ message: "PICA not found" });
+      const marked = await storage.markNotificationRead(id, req.user.id);
+      if (!marked) {
+        return res.status(404).json({ message: "Notification not found" });
       }
       
-      // Check if user has access to this PICA (belongs to the same organization)
-      if (req.isAuthenticated() && req.user.organizationId && 
-          pica.organizationId !== req.user.organizationId) {
-        return res.status(403).json({ message: "You don't have access to this PICA" });
+      res.json({ message: "Notification marked as read" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // --- Live Update Routes ---
+  // Server-sent event stream of the organization's PICA, person, department and site changes.
+  // Each change is a "change" event whose data is a ChangeEvent.
+  app.get(`${apiPrefix}/events`, (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!req.user.organizationId) {
+      return res.status(400).json({ message: "Organization ID is required" });
+    }
+    
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no" // Keep reverse proxies from buffering the stream
+    });
+    res.write("retry: 5000\n\n");
+    
+    const unsubscribe = subscribeToChanges(req.user.organizationId, (event) => {
+      res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comments keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 30000);
+    
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // --- Webhook Routes ---
+  // Get the organization's webhooks (requires admin permission)
+  app.get(`${apiPrefix}/webhooks`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
       }
       
-      res.json(pica);
+      const webhooks = await storage.getWebhooks(req.user.organizationId);
+      res.json(webhooks);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICA" });
+      res.status(500).json({ message: "Failed to retrieve webhooks" });
     }
   });
 
-  // Create a new PICA (requires edit permission)
-  app.post(`${apiPrefix}/picas`, canEdit, async (req, res) => {
+  // Subscribe a URL to PICA events (requires admin permission)
+  app.post(`${apiPrefix}/webhooks`, canDelete, async (req, res) => {
     try {
-      // Parse the PICA data
-      const picaData = insertPicaSchema.parse(req.body);
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to create a webhook" });
+      }
       
-      // Make sure organizationId is set to the current user's organization
-      if (req.isAuthenticated() && req.user.organizationId) {
-        picaData.organizationId = req.user.organizationId;
+      const input = webhookInputSchema.parse(req.body);
+      const urlProblem = await assertPublicWebhookUrl(input.url).then(() => null, (error: Error) => error.message);
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
       }
       
-      // Create the PICA
-      const pica = await storage.createPica(picaData);
-      res.status(201).json(pica);
+      const webhook = await storage.createWebhook(
+        req.user.organizationId,
+        { ...input, secret: input.secret ?? generateWebhookSecret() },
+        req.user.id
+      );
+      res.status(201).json(webhook);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid PICA data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid webhook", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create PICA" });
+      res.status(500).json({ message: "Failed to create webhook" });
     }
   });
 
-  // Update a PICA (requires edit permission)
-  app.put(`${apiPrefix}/picas/:id`, canEdit, async (req, res) => {
+  // Change a webhook's URL, events or secret, or enable or disable it (requires admin permission)
+  app.put(`${apiPrefix}/webhooks/:id`, canDelete, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
-      
-      // First get the existing PICA to ensure we have the correct organizationId
-      const existingPica = await storage.getPica(id);
-      if (!existingPica) {
-        return res.status(404).json({ message: "PICA not found" });
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to update a webhook" });
       }
       
-      // Check if user has access to this PICA (belongs to the same organization)
-      if (req.isAuthenticated() && req.user.organizationId && 
-          existingPica.organizationId && existingPica.organizationId !== req.user.organizationId) {
-        return res.status(403).json({ message: "You don't have access to this PICA" });
+      const existing = await storage.getWebhook(id);
+      if (!existing || existing.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
       
-      // Extract comment and updateDate from the request if present
-      const { comment, updateDate, ...restData } = req.body;
+      const input = webhookInputSchema.parse(req.body);
+      const urlProblem = await assertPublicWebhookUrl(input.url).then(() => null, (error: Error) => error.message);
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+      }
       
-      // Create a copy of the data to be updated with type assertion
-      let picaData: any = { ...insertPicaSchema.partial().parse(restData) };
+      const webhook = await storage.updateWebhook(id, input);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
       
-      // Ensure organizationId is preserved
-      if (req.isAuthenticated() && req.user.organizationId) {
-        picaData.organizationId = req.user.organizationId;
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  // Delete a webhook and its delivery log (requires admin permission)
+  app.delete(`${apiPrefix}/webhooks/:id`, canDelete, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required to delete a webhook" });
       }
       
-      // If updateDate is provided, use it to set the updatedAt field
-      if (updateDate) {
-        picaData.updatedAt = new Date(updateDate);
-      } else {
-        // Otherwise use current date (this is already handled by the storage layer)
-        picaData.updatedAt = new Date();
+      const existing = await storage.getWebhook(id);
+      if (!existing || existing.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
       
-      // Pass the history comment if provided
-      const updatedPica = await storage.updatePica(id, picaData, comment);
+      await storage.deleteWebhook(id);
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Post a test event to a webhook now and return the logged delivery (requires admin permission)
+  app.post(`${apiPrefix}/webhooks/:id/test`, canDelete, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
       
-      if (!updatedPica) {
-        return res.status(404).json({ message: "PICA not found" });
+      const webhook = await storage.getWebhook(id);
+      if (!webhook || webhook.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
       
-      res.json(updatedPica);
+      const delivery = await sendWebhookTest(webhook);
+      res.json(delivery);
     } catch (error) {
-      console.error("Error updating PICA:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid PICA data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to update PICA" });
+      res.status(500).json({ message: "Failed to send test event" });
     }
   });
-  
-  // Get PICA history
-  app.get(`${apiPrefix}/picas/:id/history`, async (req, res) => {
+
+  // A webhook's recent deliveries, optionally by status (requires admin permission)
+  app.get(`${apiPrefix}/webhooks/:id/deliveries`, canDelete, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
       
-      const history = await storage.getPicaHistory(id);
-      res.json(history);
+      const webhook = await storage.getWebhook(id);
+      if (!webhook || webhook.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      
+      const status = req.query.status !== undefined
+        ? webhookDeliveryStatusEnum.parse(req.query.status)
+        : undefined;
+      const deliveries = await storage.getWebhookDeliveries(id, status);
+      res.json(deliveries);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve PICA history" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid delivery status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve webhook deliveries" });
     }
   });
 
-  // Delete a PICA (requires delete permission)
-  app.delete(`${apiPrefix}/picas/:id`, canDelete, async (req, res) => {
+  // Post a delivery that ran out of attempts again (requires admin permission)
+  app.post(`${apiPrefix}/webhooks/deliveries/:id/retry`, canDelete, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
       
-      const success = await storage.deletePica(id);
-      if (!success) {
-        return res.status(404).json({ message: "PICA not found" });
+      const delivery = await storage.getWebhookDelivery(id);
+      if (!delivery || delivery.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      if (delivery.status !== "failed") {
+        return res.status(409).json({ message: "Only failed deliveries can be retried" });
       }
       
-      res.json({ message: "PICA deleted successfully" });
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (!webhook?.enabled) {
+        return res.status(409).json({ message: "Enable the webhook before retrying its deliveries" });
+      }
+      
+      const retried = await storage.retryWebhookDelivery(id);
+      if (!retried) {
+        return res.status(409).json({ message: "Only failed deliveries can be retried" });
+      }
+      
+      // Posted by the delivery run that starts once this request finishes
+      res.json(retried);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete PICA" });
+      res.status(500).json({ message: "Failed to retry delivery" });
     }
   });
 
@@ -424,20 +3028,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete a person (requires delete permission)
+  // Move a person to the trash (requires delete permission).
+  // A person still in charge of open PICAs is only deleted with ?reassignToId= naming who takes them over.
   app.delete(`${apiPrefix}/people/:id`, canDelete, async (req, res) => {
     try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
       
-      const success = await storage.deletePerson(id);
-      if (!success) {
+      const person = await storage.getPerson(id);
+      if (!person || person.deletedAt || person.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Person not found" });
+      }
+      
+      let reassignToId: number | undefined;
+      if (req.query.reassignToId !== undefined) {
+        reassignToId = parseInt(String(req.query.reassignToId));
+        const reassignTo = isNaN(reassignToId) ? undefined : await storage.getPerson(reassignToId);
+        if (!reassignTo || reassignTo.deletedAt || reassignTo.organizationId !== req.user.organizationId || reassignTo.id === id) {
+          return res.status(400).json({ message: "Open PICAs must be reassigned to another person in your organization" });
+        }
+      }
+      
+      const openPicaCount = await storage.countOpenPicasForPerson(id);
+      if (openPicaCount > 0 && !reassignToId) {
+        return res.status(409).json({
+          message: `${person.name} is in charge of ${openPicaCount} open PICA(s); reassign them before deleting`,
+          openPicaCount
+        });
+      }
+      
+      const reassignedPicas = await storage.deletePerson(id, req.user.id, reassignToId);
+      if (!reassignedPicas) {
         return res.status(404).json({ message: "Person not found" });
       }
       
-      res.json({ message: "Person deleted successfully" });
+      for (const pica of reassignedPicas) {
+        await notifyPica("reassigned", pica, { previousPersonName: person.name });
+      }
+      
+      res.json({ message: "Person moved to the trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete person" });
     }
@@ -574,20 +3209,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete a department (requires delete permission)
+  // Move a department to the trash (requires delete permission); it must have no people left
   app.delete(`${apiPrefix}/departments/:id`, canDelete, async (req, res) => {
     try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
       
-      const success = await storage.deleteDepartment(id);
+      const department = await storage.getDepartment(id);
+      if (!department || department.deletedAt || department.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      const memberCount = await storage.countActivePeopleInDepartment(id);
+      if (memberCount > 0) {
+        return res.status(409).json({
+          message: `${department.name} still has ${memberCount} person(s); move or delete them first`
+        });
+      }
+      
+      const success = await storage.deleteDepartment(id, req.user.id);
       if (!success) {
         return res.status(404).json({ message: "Department not found" });
       }
       
-      res.json({ message: "Department deleted successfully" });
+      res.json({ message: "Department moved to the trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete department" });
     }
@@ -687,25 +3338,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete a project site (requires delete permission)
+  // Move a project site to the trash (requires delete permission); its PICAs must all be complete
   app.delete(`${apiPrefix}/project-sites/:id`, canDelete, async (req, res) => {
     try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID" });
       }
       
-      const success = await storage.deleteProjectSite(id);
+      const projectSite = await storage.getProjectSite(id);
+      if (!projectSite || projectSite.deletedAt || projectSite.organizationId !== req.user.organizationId) {
+        return res.status(404).json({ message: "Project site not found" });
+      }
+      
+      const openPicaCount = await storage.countOpenPicasForProjectSite(id);
+      if (openPicaCount > 0) {
+        return res.status(409).json({
+          message: `${projectSite.code} still has ${openPicaCount} open PICA(s); close them before deleting the site`
+        });
+      }
+      
+      const success = await storage.deleteProjectSite(id, req.user.id);
       if (!success) {
         return res.status(404).json({ message: "Project site not found" });
       }
       
-      res.json({ message: "Project site deleted successfully" });
+      res.json({ message: "Project site moved to the trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete project site" });
     }
   });
 
+  // --- Trash Routes ---
+  // Soft-deleted PICAs, people, departments and sites of the organization, most recently deleted first (admin only)
+  app.get(`${apiPrefix}/trash`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      res.json(await storage.getTrash(req.user.organizationId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve trash" });
+    }
+  });
+
+  // Restore an item from the trash (admin only). PICAs and people come back only once
+  // the site, person or department they belong to is restored.
+  app.post(`${apiPrefix}/trash/:type/:id/restore`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const item = await findTrashItem(req.params.type, req.params.id, req.user.organizationId);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      
+      if (item.type === "pica") {
+        const pica = await storage.getPica(item.record.id, true);
+        const projectSite = pica ? await storage.getProjectSite(pica.projectSiteId) : undefined;
+        const personInCharge = pica ? await storage.getPerson(pica.personInChargeId) : undefined;
+        if (!projectSite || projectSite.deletedAt) {
+          return res.status(409).json({ message: "Restore the PICA's project site first" });
+        }
+        if (!personInCharge || personInCharge.deletedAt) {
+          return res.status(409).json({ message: "Restore the PICA's person in charge first" });
+        }
+      }
+      if (item.type === "person") {
+        const person = await storage.getPerson(item.record.id);
+        const department = person?.departmentId ? await storage.getDepartment(person.departmentId) : undefined;
+        if (department?.deletedAt) {
+          return res.status(409).json({ message: `Restore the ${department.name} department first` });
+        }
+      }
+      
+      const success = await storage.restoreTrashItem(item.type, item.record.id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      
+      res.json({ message: "Item restored" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  // Permanently delete an item in the trash (admin only)
+  app.delete(`${apiPrefix}/trash/:type/:id`, canDelete, async (req, res) => {
+    try {
+      if (!req.user || !req.user.organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const item = await findTrashItem(req.params.type, req.params.id, req.user.organizationId);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      
+      // PICAs keep the people and sites they point at, even from the trash
+      if (item.type === "person" || item.type === "project_site") {
+        const picaCount = await storage.countPicaReferences(item.type, item.record.id);
+        if (picaCount > 0) {
+          return res.status(409).json({
+            message: `Still referenced by ${picaCount} PICA(s); purge or reassign them first`
+          });
+        }
+      }
+      
+      // Look up attachment files before their records go away with the PICA
+      const attachments = item.type === "pica" ? await storage.getAttachmentsForPica(item.record.id) : [];
+      
+      const success = await storage.purgeTrashItem(item.type, item.record.id, req.user.id);
+      if (!success) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      
+      for (const attachment of attachments) {
+        await deleteAttachmentFiles(attachment);
+      }
+      
+      res.json({ message: "Item permanently deleted" });
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        return res.status(409).json({ message: "Still referenced by other records such as action items, templates or schedules" });
+      }
+      res.status(500).json({ message: "Failed to permanently delete item" });
+    }
+  });
+
   // --- User Management Routes ---
   // Get all users (admin only)
   app.get(`${apiPrefix}/users`, canDelete, async (req, res) => {
@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import { log } from "./logger";
+import { deliverQueuedEmails, notifyPica, queueDueSoonReminders } from "./notifications";
+import { runDigests } from "./digests";
+import { deliverWebhooks } from "./webhooks";
+import { publishChange } from "./events";
+import type { Pica, PicaRecurrenceSchedule } from "@shared/schema";
+import { getInitialStatus } from "@shared/workflow";
+import { addDays, getIsoToday, getNextOccurrence } from "@shared/recurrence";
+
+// A background job that runs on a fixed interval alongside the API server
+type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+};
+
+// Let each organization's open event streams know some of its PICAs changed
+function publishPicaChanges(changedPicas: Pica[]) {
+  const organizationIds = new Set(changedPicas.map((pica) => pica.organizationId));
+  for (const organizationId of Array.from(organizationIds)) {
+    if (organizationId) {
+      publishChange(organizationId, { entity: "pica", id: null });
+    }
+  }
+}
+
+// Overdue detection interval (defaults to every 15 minutes)
+const OVERDUE_CHECK_INTERVAL_MS =
+  parseInt(process.env.OVERDUE_CHECK_INTERVAL_MINUTES || "15") * 60 * 1000;
+
+// Flip in-progress PICAs past their due date to overdue across all organizations
+// and let their people in charge know
+export async function runOverdueCheck(organizationId?: number) {
+  const overduePicas = await storage.markOverduePicas(organizationId);
+  if (overduePicas.length > 0) {
+    log(`Marked ${overduePicas.length} PICA(s) as overdue`, "scheduler");
+  }
+  for (const pica of overduePicas) {
+    await notifyPica("overdue", pica);
+  }
+  publishPicaChanges(overduePicas);
+  return overduePicas;
+}
+
+// Due date reminder interval (defaults to hourly); each PICA is reminded once per due date
+const DUE_SOON_CHECK_INTERVAL_MS =
+  parseInt(process.env.DUE_SOON_CHECK_INTERVAL_MINUTES || "60") * 60 * 1000;
+
+// Digest check interval (defaults to every 15 minutes); digests go out on the first check
+// at or after each subscriber's chosen local hour
+const DIGEST_CHECK_INTERVAL_MS =
+  parseInt(process.env.DIGEST_CHECK_INTERVAL_MINUTES || "15") * 60 * 1000;
+
+// Email outbox delivery interval (defaults to every minute); picks up retries and anything
+// queued while a delivery run was already in progress
+const EMAIL_OUTBOX_INTERVAL_MS =
+  parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MINUTES || "1") * 60 * 1000;
+
+// Webhook delivery interval (defaults to every minute); picks up retries and events raised
+// outside API requests, such as PICAs the overdue check flips
+const WEBHOOK_DELIVERY_INTERVAL_MS =
+  parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL_MINUTES || "1") * 60 * 1000;
+
+// Recurring PICA generation interval (defaults to hourly)
+const RECURRENCE_CHECK_INTERVAL_MS =
+  parseInt(process.env.RECURRENCE_CHECK_INTERVAL_MINUTES || "60") * 60 * 1000;
+
+// Generate the PICA of a due schedule. Occurrences missed while the server was down
+// collapse into one PICA dated at the latest of them.
+async function generateScheduledPica(schedule: PicaRecurrenceSchedule, today: string): Promise<Pica | undefined> {
+  let runDate = schedule.nextRunDate!;
+  let nextRunDate = getNextOccurrence(schedule, addDays(runDate, 1)) ?? null;
+  while (nextRunDate && nextRunDate <= today) {
+    runDate = nextRunDate;
+    nextRunDate = getNextOccurrence(schedule, addDays(runDate, 1)) ?? null;
+  }
+  
+  // A schedule that can't produce a complete PICA is paused rather than retried every run
+  const template = await storage.getPicaTemplate(schedule.templateId);
+  const personInChargeId = schedule.personInChargeId ?? template?.personInChargeId;
+  const projectSite = await storage.getProjectSite(schedule.projectSiteId);
+  const personInCharge = personInChargeId ? await storage.getPerson(personInChargeId) : undefined;
+  // Sites and people in the trash or another organization count as missing
+  const isAvailable = projectSite && !projectSite.deletedAt && projectSite.organizationId === schedule.organizationId
+    && personInCharge && !personInCharge.deletedAt;
+  if (!template || !schedule.organizationId || !personInChargeId || !isAvailable) {
+    await storage.updateRecurrenceSchedule(schedule.id, { isPaused: true });
+    log(`Paused recurrence schedule ${schedule.id}: its template, site or person in charge is missing`, "scheduler");
+    return undefined;
+  }
+  
+  // The PICA ID is reserved when the run is claimed
+  const workflow = await storage.getWorkflow(schedule.organizationId);
+  return await storage.createScheduledPica(schedule, {
+    projectSiteId: schedule.projectSiteId,
+    date: runDate,
+    issue: template.issue,
+    problemIdentification: template.problemIdentification,
+    correctiveAction: template.correctiveAction,
+    personInChargeId,
+    dueDate: addDays(runDate, template.dueInDays),
+    severity: template.severity,
+    likelihood: template.likelihood,
+    status: getInitialStatus(workflow).key,
+    organizationId: schedule.organizationId,
+  }, nextRunDate);
+}
+
+// Generate PICAs for every active schedule whose next occurrence has arrived
+export async function runRecurringPicaGeneration(today: string = getIsoToday()) {
+  const schedules = await storage.getDueRecurrenceSchedules(today);
+  const generatedPicas: Pica[] = [];
+  
+  for (const schedule of schedules) {
+    // One broken schedule shouldn't hold up the others
+    try {
+      const pica = await generateScheduledPica(schedule, today);
+      if (pica) {
+        generatedPicas.push(pica);
+        await notifyPica("assigned", pica);
+      }
+    } catch (error) {
+      log(`Recurrence schedule ${schedule.id} failed: ${error}`, "scheduler");
+    }
+  }
+  
+  if (generatedPicas.length > 0) {
+    log(`Generated ${generatedPicas.length} recurring PICA(s)`, "scheduler");
+  }
+  publishPicaChanges(generatedPicas);
+  return generatedPicas;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    name: "overdue-check",
+    intervalMs: OVERDUE_CHECK_INTERVAL_MS,
+    run: async () => {
+      await runOverdueCheck();
+    },
+  },
+  {
+    name: "recurring-picas",
+    intervalMs: RECURRENCE_CHECK_INTERVAL_MS,
+    run: async () => {
+      await runRecurringPicaGeneration();
+    },
+  },
+  {
+    name: "due-soon-reminders",
+    intervalMs: DUE_SOON_CHECK_INTERVAL_MS,
+    run: async () => {
+      await storage.createDueSoonNotifications(getIsoToday());
+      await queueDueSoonReminders();
+    },
+  },
+  {
+    name: "digests",
+    intervalMs: DIGEST_CHECK_INTERVAL_MS,
+    run: async () => {
+      await runDigests();
+    },
+  },
+  {
+    name: "email-outbox",
+    intervalMs: EMAIL_OUTBOX_INTERVAL_MS,
+    run: async () => {
+      await deliverQueuedEmails();
+    },
+  },
+  {
+    name: "webhooks",
+    intervalMs: WEBHOOK_DELIVERY_INTERVAL_MS,
+    run: async () => {
+      await deliverWebhooks();
+    },
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+// Run a job without letting one failure stop the schedule
+async function runJob(job: ScheduledJob) {
+  try {
+    await job.run();
+  } catch (error) {
+    log(`Scheduled job "${job.name}" failed: ${error}`, "scheduler");
+  }
+}
+
+// Start all background jobs; each job runs once immediately and then on its interval
+export function startScheduler() {
+  if (timers.length > 0) {
+    return;
+  }
+
+  for (const job of jobs) {
+    runJob(job);
+    timers.push(setInterval(() => runJob(job), job.intervalMs));
+  }
+
+  log(`Started ${jobs.length} scheduled job(s)`, "scheduler");
+}
+
+// Stop all background jobs
+export function stopScheduler() {
+  while (timers.length > 0) {
+    clearInterval(timers.pop());
+  }
+}
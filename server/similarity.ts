@@ -0,0 +1,39 @@
+// Issue texts at least this similar are flagged as likely repeat findings
+export const SIMILAR_ISSUE_THRESHOLD = 0.5;
+
+// Lowercase words and digits only, so punctuation and spacing don't affect matches
+export function normalizeIssueText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Adjacent character pairs of each word, counted
+function getBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (const word of normalizeIssueText(text).split(" ")) {
+    for (let index = 0; index < word.length - 1; index++) {
+      const bigram = word.slice(index, index + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+  }
+  return bigrams;
+}
+
+// Sørensen–Dice coefficient of the character bigrams of two texts: 1 for identical wording, 0 for nothing in common.
+// Bigrams tolerate typos and word-form differences ("leaking" / "leak") better than whole-word matching.
+export function issueSimilarity(a: string, b: string): number {
+  const bigramsA = getBigrams(a);
+  const bigramsB = getBigrams(b);
+  let sizeA = 0;
+  let sizeB = 0;
+  let overlap = 0;
+
+  bigramsA.forEach((countA, bigram) => {
+    sizeA += countA;
+    overlap += Math.min(countA, bigramsB.get(bigram) ?? 0);
+  });
+  bigramsB.forEach((countB) => {
+    sizeB += countB;
+  });
+
+  return sizeA + sizeB > 0 ? (2 * overlap) / (sizeA + sizeB) : 0;
+}
@@ -5,6 +5,24 @@ import {
   picas, 
   users,
   organizations,
+  picaIdCounters,
+  workflowStatuses,
+  workflowTransitions,
+  picaClosureRequests,
+  picaDueDateExtensions,
+  picaAttachments,
+  picaComments,
+  picaAuditLog,
+  picaRootCauseAnalyses,
+  picaRootCauseFactors,
+  picaActionItems,
+  picaTemplates,
+  picaRecurrenceSchedules,
+  picaLinks,
+  picaEffectivenessReviews,
+  emailOutbox,
+  digestPreferences,
+  DIGEST_LIST_LIMIT,
   type Department,
   type InsertDepartment,
   type Person,
@@ -17,12 +35,603 @@ import {
   type InsertUser,
   type PicaWithRelations,
   type Organization,
-  type InsertOrganization
+  type InsertOrganization,
+  type PicaIdReservation,
+  type PicaListQuery,
+  type PicaDateRange,
+  type PicaStatus,
+  type UserRole,
+  type WorkflowColor,
+  type WorkflowDefinition,
+  type OrganizationWorkflow,
+  type PicaClosureRequest,
+  type PicaClosureRequestWithRelations,
+  type ClosureQueue,
+  type PicaDueDateExtension,
+  type PicaDueDateExtensionWithRelations,
+  type PicaAttachment,
+  type InsertPicaAttachment,
+  type PicaAttachmentWithUploader,
+  type PicaComment,
+  type InsertPicaComment,
+  type PicaCommentWithAuthor,
+  type PicaAuditAction,
+  type PicaAuditChanges,
+  type PicaAuditEntryWithUser,
+  type PicaAuditQuery,
+  type RiskMatrix,
+  type OrganizationRiskMatrix,
+  type RiskHeatMapCell,
+  type FishboneCategory,
+  type RootCauseAnalysisInput,
+  type PicaRootCauseAnalysisWithFactors,
+  type RootCauseCategoryStat,
+  type PicaActionItem,
+  type PicaActionItemWithOwner,
+  type ActionItemInput,
+  type ActionItemUpdate,
+  type ActionItemStatus,
+  type PicaTemplate,
+  type PicaTemplateInput,
+  type PicaRecurrenceSchedule,
+  type PicaRecurrenceScheduleWithRelations,
+  type RecurrenceScheduleInput,
+  type RecurrenceScheduleUpdate,
+  type PicaLink,
+  type PicaLinkInput,
+  type PicaLinkWithPica,
+  type SimilarPica,
+  type RepeatFindingStat,
+  type ReopenRateStat,
+  type ReopenStats,
+  type PicaEffectivenessReview,
+  type PicaEffectivenessReviewWithRelations,
+  type EffectivenessCheckSettings,
+  type EffectivenessDecision,
+  type EffectivenessStat,
+  type TrashItem,
+  type TrashItemType,
+  type NotificationSettings,
+  type OrganizationNotificationSettings,
+  type EmailOutboxEntry,
+  type InsertEmailOutboxEntry,
+  type EmailOutboxStatus,
+  type DigestPreferences,
+  type DigestPreferencesInput,
+  type PicaDigest,
+  type PicaDigestSummary,
+  notifications,
+  type UserNotificationType,
+  type UserNotificationWithRelations,
+  type UserNotificationPage,
+  webhooks,
+  webhookDeliveries,
+  type Webhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookInput,
+  type WebhookPayload
 } from "@shared/schema";
+import { DEFAULT_WORKFLOW, findWorkflowStatus } from "@shared/workflow";
+import { DEFAULT_RISK_MATRIX, computeRisk } from "@shared/risk";
+import { DEFAULT_EFFECTIVENESS_CHECK_DAYS, getEffectivenessReviewDates } from "@shared/effectiveness";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@shared/notifications";
+import { addDays, getIsoToday } from "@shared/recurrence";
 import { db } from "./db";
-import { eq, and, desc, count, sql, type SQL } from "drizzle-orm";
+import { renderPicaIdScope, formatMasterPicaId, formatItemPicaId } from "./picaIds";
+import { issueSimilarity, SIMILAR_ISSUE_THRESHOLD } from "./similarity";
+import { eq, and, or, lt, gte, lte, asc, desc, count, countDistinct, ilike, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 import { PicaHistory, PicaHistoryWithRelations, InsertPicaHistory, picaHistory } from "@shared/schema";
 
+// Category (progress/complete/overdue) of a PICA's status under its organization's workflow.
+// Without a custom workflow the status key is its own category.
+const picaStatusCategory = sql<string>`coalesce((
+  select ${workflowStatuses.category} from ${workflowStatuses}
+  where ${workflowStatuses.organizationId} = ${picas.organizationId} and ${workflowStatuses.key} = ${picas.status}
+), ${picas.status})`;
+
+// A database handle or an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// PICA fields tracked by the audit log (timestamps change on every write and are left out)
+const auditedPicaFields = [
+  "picaId",
+  "projectSiteId",
+  "date",
+  "issue",
+  "problemIdentification",
+  "correctiveAction",
+  "personInChargeId",
+  "dueDate",
+  "originalDueDate",
+  "extensionCount",
+  "severity",
+  "likelihood",
+  "status",
+  "organizationId",
+] as const;
+
+// Before/after values of the audited fields that differ; a null side means created (or restored) or deleted (or purged)
+function diffPica(before: Pica | null, after: Pica | null): PicaAuditChanges {
+  const changes: PicaAuditChanges = {};
+  for (const field of auditedPicaFields) {
+    const from = before ? before[field] : null;
+    const to = after ? after[field] : null;
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Write an audit entry for a PICA write; updates that change nothing are skipped
+async function recordPicaAudit(
+  executor: DbExecutor,
+  action: PicaAuditAction,
+  before: Pica | null,
+  after: Pica | null,
+  userId: number | null
+): Promise<void> {
+  const pica = after ?? before;
+  const changes = diffPica(before, after);
+  if (!pica || Object.keys(changes).length === 0) {
+    return;
+  }
+  
+  await executor.insert(picaAuditLog).values({
+    picaId: pica.id,
+    picaCode: pica.picaId,
+    organizationId: pica.organizationId,
+    userId,
+    action,
+    changes
+  });
+
+  // Every PICA write passes through here, so this is also where in-app notifications are raised
+  // and webhook events queued, in the same transaction as the change
+  await recordPicaNotifications(executor, action, before, after, userId);
+  await queueWebhookEvents(executor, action, before, after);
+}
+
+// Users who sign in as a person, matched by email within the person's organization
+async function getUserIdsForPerson(executor: DbExecutor, personId: number): Promise<number[]> {
+  const rows = await executor
+    .select({ id: users.id })
+    .from(users)
+    .innerJoin(people, and(
+      eq(people.organizationId, users.organizationId),
+      sql`lower(${people.email}) = lower(${users.email})`
+    ))
+    .where(eq(people.id, personId));
+  return rows.map(row => row.id);
+}
+
+// Label and category of a status under its organization's workflow, falling back to the default
+// workflow and then to the key itself (legacy statuses)
+async function getWorkflowStatus(
+  executor: DbExecutor,
+  organizationId: number | null,
+  key: string
+): Promise<{ label: string; category: string }> {
+  if (organizationId) {
+    const [status] = await executor
+      .select({ label: workflowStatuses.label, category: workflowStatuses.category })
+      .from(workflowStatuses)
+      .where(and(eq(workflowStatuses.organizationId, organizationId), eq(workflowStatuses.key, key)));
+    if (status) {
+      return status;
+    }
+  }
+  const defaultStatus = findWorkflowStatus(DEFAULT_WORKFLOW, key);
+  return { label: defaultStatus?.label ?? key, category: defaultStatus?.category ?? key };
+}
+
+// Notify the given users about a PICA; the user who made the change isn't told about it
+async function createNotifications(
+  executor: DbExecutor,
+  userIds: number[],
+  pica: Pica,
+  type: UserNotificationType,
+  message: string,
+  actorId: number | null,
+  dedupeKey: string | null = null
+): Promise<void> {
+  const recipients = Array.from(new Set(userIds)).filter(id => id !== actorId);
+  if (recipients.length === 0) {
+    return;
+  }
+  
+  await executor
+    .insert(notifications)
+    .values(recipients.map(userId => ({
+      userId,
+      organizationId: pica.organizationId,
+      picaId: pica.id,
+      type,
+      message,
+      actorId,
+      dedupeKey
+    })))
+    .onConflictDoNothing();
+}
+
+// Webhook events raised by a PICA write: every create and update, plus completed or overdue
+// when an update moves the PICA into that status category
+async function getWebhookEvents(
+  executor: DbExecutor,
+  action: PicaAuditAction,
+  before: Pica | null,
+  after: Pica
+): Promise<WebhookEvent[]> {
+  if (action === "create") {
+    return ["pica.created"];
+  }
+  if (action !== "update" || !before) {
+    return [];
+  }
+  
+  const events: WebhookEvent[] = ["pica.updated"];
+  if (before.status !== after.status) {
+    const from = await getWorkflowStatus(executor, after.organizationId, before.status);
+    const to = await getWorkflowStatus(executor, after.organizationId, after.status);
+    if (from.category !== to.category && (to.category === "complete" || to.category === "overdue")) {
+      events.push(to.category === "complete" ? "pica.completed" : "pica.overdue");
+    }
+  }
+  return events;
+}
+
+// A PICA with its site and person in charge, the shape webhook payloads carry
+async function getPicaWithRelations(executor: DbExecutor, pica: Pica): Promise<PicaWithRelations | undefined> {
+  const [projectSite] = await executor.select().from(projectSites).where(eq(projectSites.id, pica.projectSiteId));
+  const [personInCharge] = await executor.select().from(people).where(eq(people.id, pica.personInChargeId));
+  return projectSite && personInCharge ? { ...pica, projectSite, personInCharge } : undefined;
+}
+
+// Queue a delivery to each enabled webhook of the PICA's organization subscribed to the events it raised
+async function queueWebhookEvents(
+  executor: DbExecutor,
+  action: PicaAuditAction,
+  before: Pica | null,
+  after: Pica | null
+): Promise<void> {
+  if (!after || !after.organizationId) {
+    return;
+  }
+  
+  const subscriptions = await executor
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.organizationId, after.organizationId), eq(webhooks.enabled, true)));
+  if (subscriptions.length === 0) {
+    return;
+  }
+  
+  const events = await getWebhookEvents(executor, action, before, after);
+  const data = events.length > 0 ? await getPicaWithRelations(executor, after) : undefined;
+  if (!data) {
+    return;
+  }
+  
+  const occurredAt = new Date().toISOString();
+  const deliveries: InsertWebhookDelivery[] = [];
+  for (const event of events) {
+    for (const webhook of subscriptions.filter(subscription => subscription.events.includes(event))) {
+      deliveries.push({
+        webhookId: webhook.id,
+        organizationId: after.organizationId,
+        event,
+        picaId: after.id,
+        payload: { event, occurredAt, organizationId: after.organizationId, data }
+      });
+    }
+  }
+  
+  if (deliveries.length > 0) {
+    await executor.insert(webhookDeliveries).values(deliveries);
+  }
+}
+
+// In-app notifications for the person in charge when a PICA is created, reassigned to them or changes status
+async function recordPicaNotifications(
+  executor: DbExecutor,
+  action: PicaAuditAction,
+  before: Pica | null,
+  after: Pica | null,
+  userId: number | null
+): Promise<void> {
+  if (!after) {
+    return;
+  }
+  
+  let type: UserNotificationType;
+  let message: string;
+  if (action === "create") {
+    type = "pica_created";
+    message = `${after.picaId} was assigned to you: ${after.issue}`;
+  } else if (action === "update" && before && before.personInChargeId !== after.personInChargeId) {
+    type = "reassigned";
+    message = `${after.picaId} was reassigned to you: ${after.issue}`;
+  } else if (action === "update" && before && before.status !== after.status) {
+    type = "status_changed";
+    const from = await getWorkflowStatus(executor, after.organizationId, before.status);
+    const to = await getWorkflowStatus(executor, after.organizationId, after.status);
+    message = `${after.picaId} moved from ${from.label} to ${to.label}`;
+  } else {
+    return;
+  }
+  
+  const recipients = await getUserIdsForPerson(executor, after.personInChargeId);
+  await createNotifications(executor, recipients, after, type, message, userId);
+}
+
+// Status and progress of an action item after an update: done means 100%,
+// and a progress change alone moves the status along
+function resolveActionItemProgress(
+  current: PicaActionItem,
+  update: ActionItemUpdate
+): { status: ActionItemStatus; progress: number } {
+  if (update.status === "done") {
+    return { status: "done", progress: 100 };
+  }
+  if (update.status) {
+    // Reopened actions drop back below 100%
+    const progress = update.progress ?? (update.status === "open" ? 0 : Math.min(current.progress, 99));
+    return { status: update.status, progress };
+  }
+  if (update.progress !== undefined) {
+    const status = update.progress === 100 ? "done" : update.progress > 0 ? "in_progress" : "open";
+    return { status, progress: update.progress };
+  }
+  return { status: current.status as ActionItemStatus, progress: current.progress };
+}
+
+// Recompute a PICA's action item counts and average progress from its action items
+async function rollUpActionItems(executor: DbExecutor, picaId: number): Promise<void> {
+  const [rollUp] = await executor
+    .select({
+      total: count(),
+      completed: sql<number>`count(*) filter (where ${picaActionItems.status} = 'done')`.mapWith(Number),
+      progress: sql<number | null>`round(avg(${picaActionItems.progress}))`.mapWith(Number),
+    })
+    .from(picaActionItems)
+    .where(eq(picaActionItems.picaId, picaId));
+  
+  await executor
+    .update(picas)
+    .set({
+      actionItemCount: rollUp.total,
+      completedActionItemCount: rollUp.completed,
+      actionProgress: rollUp.total > 0 ? rollUp.progress : null,
+      updatedAt: new Date()
+    })
+    .where(eq(picas.id, picaId));
+}
+
+// Move a completed PICA back into progress, counting the reopening and recording why.
+// Only reopens from the status the caller checked, so concurrent reopens count once.
+async function applyReopen(
+  executor: DbExecutor,
+  id: number,
+  reopen: { reason: string; fromStatus: string; newStatus: string },
+  userId: number
+): Promise<Pica | undefined> {
+  const [pica] = await executor.select().from(picas).where(eq(picas.id, id));
+  
+  const [reopenedPica] = await executor
+    .update(picas)
+    .set({
+      status: reopen.newStatus,
+      reopenCount: sql`${picas.reopenCount} + 1`,
+      updatedAt: new Date()
+    })
+    .where(and(eq(picas.id, id), eq(picas.status, reopen.fromStatus)))
+    .returning();
+  
+  if (!pica || !reopenedPica) {
+    return undefined;
+  }
+  await recordPicaAudit(executor, "update", pica, reopenedPica, userId);
+  
+  await executor.insert(picaHistory).values({
+    picaId: id,
+    userId,
+    oldStatus: pica.status,
+    newStatus: reopen.newStatus,
+    comment: `Reopened: ${reopen.reason}`
+  });
+  
+  // Checks scheduled for the earlier closure no longer apply
+  await executor
+    .update(picaEffectivenessReviews)
+    .set({ status: "cancelled" })
+    .where(and(
+      eq(picaEffectivenessReviews.picaId, id),
+      eq(picaEffectivenessReviews.status, "pending")
+    ));
+  
+  return reopenedPica;
+}
+
+// Schedule the organization's effectiveness checks for a PICA closed today
+async function scheduleEffectivenessReviews(executor: DbExecutor, pica: Pica, reviewerId: number | null): Promise<void> {
+  const [organization] = pica.organizationId
+    ? await executor.select().from(organizations).where(eq(organizations.id, pica.organizationId))
+    : [];
+  const days = organization?.effectivenessCheckDays ?? DEFAULT_EFFECTIVENESS_CHECK_DAYS;
+  if (days.length === 0) {
+    return;
+  }
+  
+  await executor.insert(picaEffectivenessReviews).values(
+    getEffectivenessReviewDates(getIsoToday(), days).map(({ daysAfterClosure, dueDate }) => ({
+      picaId: pica.id,
+      organizationId: pica.organizationId,
+      daysAfterClosure,
+      dueDate,
+      reviewerId
+    }))
+  );
+}
+
+// Hand a PICA to another person in charge, noting the change in its history
+async function reassignPicaInCharge(
+  executor: DbExecutor,
+  pica: Pica,
+  personInChargeId: number,
+  historyComment: string,
+  userId: number | null
+): Promise<Pica> {
+  const [updatedPica] = await executor
+    .update(picas)
+    .set({ personInChargeId, updatedAt: new Date() })
+    .where(eq(picas.id, pica.id))
+    .returning();
+  await executor.insert(picaHistory).values({
+    picaId: pica.id,
+    userId,
+    oldStatus: pica.status,
+    newStatus: pica.status,
+    comment: historyComment
+  });
+  await recordPicaAudit(executor, "update", pica, updatedPica, userId);
+  return updatedPica;
+}
+
+// Link a PICA to another one, noting the link in the source PICA's history
+async function insertPicaLink(
+  executor: DbExecutor,
+  link: PicaLinkInput & { sourcePicaId: number; organizationId: number; createdById: number }
+): Promise<PicaLink> {
+  const [newLink] = await executor
+    .insert(picaLinks)
+    .values(link)
+    .returning();
+  
+  const [source] = await executor.select().from(picas).where(eq(picas.id, link.sourcePicaId));
+  const [target] = await executor.select().from(picas).where(eq(picas.id, link.targetPicaId));
+  await executor.insert(picaHistory).values({
+    picaId: source.id,
+    userId: link.createdById,
+    oldStatus: source.status,
+    newStatus: source.status,
+    comment: `Linked as ${link.linkType.replace(/_/g, " ")} ${target.picaId}`
+  });
+  
+  return newLink;
+}
+
+// Remove a PICA and everything recorded against it for good; its audit entries are kept
+async function deletePicaRecords(executor: DbExecutor, id: number): Promise<void> {
+  // Attachments, comments, history records, requests, root cause analysis, action items, links and effectiveness reviews go first
+  await executor
+    .delete(picaAttachments)
+    .where(eq(picaAttachments.picaId, id));
+  // Replies go before the comments they reference
+  await executor
+    .delete(picaComments)
+    .where(and(eq(picaComments.picaId, id), isNotNull(picaComments.parentId)));
+  await executor
+    .delete(picaComments)
+    .where(eq(picaComments.picaId, id));
+  await executor
+    .delete(picaHistory)
+    .where(eq(picaHistory.picaId, id));
+  await executor
+    .delete(picaClosureRequests)
+    .where(eq(picaClosureRequests.picaId, id));
+  await executor
+    .delete(picaDueDateExtensions)
+    .where(eq(picaDueDateExtensions.picaId, id));
+  await executor
+    .delete(picaRootCauseFactors)
+    .where(eq(picaRootCauseFactors.picaId, id));
+  await executor
+    .delete(picaRootCauseAnalyses)
+    .where(eq(picaRootCauseAnalyses.picaId, id));
+  await executor
+    .delete(picaActionItems)
+    .where(eq(picaActionItems.picaId, id));
+  await executor
+    .delete(picaLinks)
+    .where(or(eq(picaLinks.sourcePicaId, id), eq(picaLinks.targetPicaId, id)));
+  await executor
+    .delete(picaEffectivenessReviews)
+    .where(eq(picaEffectivenessReviews.picaId, id));
+  await executor
+    .update(picaEffectivenessReviews)
+    .set({ followUpPicaId: null })
+    .where(eq(picaEffectivenessReviews.followUpPicaId, id));
+  await executor
+    .delete(notifications)
+    .where(eq(notifications.picaId, id));
+  
+  // Then the PICA itself
+  await executor
+    .delete(picas)
+    .where(eq(picas.id, id));
+}
+
+// Counter scope of the master PICA IDs of a site and date, e.g. "0425ABC{COUNTER}"
+async function getPicaIdScope(executor: DbExecutor, organizationId: number, projectSiteId: number, date: string): Promise<string | undefined> {
+  const [projectSite] = await executor.select().from(projectSites).where(eq(projectSites.id, projectSiteId));
+  if (!projectSite || projectSite.organizationId !== organizationId) {
+    return undefined;
+  }
+  
+  const [organization] = await executor.select().from(organizations).where(eq(organizations.id, organizationId));
+  return renderPicaIdScope(organization?.picaIdFormat, projectSite.code, date);
+}
+
+// Reserve a master PICA ID and its item IDs. Inside a transaction the counter increment is rolled
+// back with it, so a transaction that ends up creating nothing doesn't skip an ID.
+async function allocatePicaIds(
+  executor: DbExecutor,
+  organizationId: number,
+  projectSiteId: number,
+  date: string,
+  itemCount: number
+): Promise<PicaIdReservation | undefined> {
+  const scope = await getPicaIdScope(executor, organizationId, projectSiteId, date);
+  if (!scope) {
+    return undefined;
+  }
+  
+  // Each attempt atomically increments the counter, so concurrent callers never share a master ID.
+  // IDs created before counters existed may still occupy a master ID, in which case we move on.
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const [counter] = await executor
+      .insert(picaIdCounters)
+      .values({ organizationId, scope, lastCounter: 1 })
+      .onConflictDoUpdate({
+        target: [picaIdCounters.organizationId, picaIdCounters.scope],
+        set: { lastCounter: sql`${picaIdCounters.lastCounter} + 1` },
+      })
+      .returning();
+    
+    const masterPicaId = formatMasterPicaId(scope, counter.lastCounter);
+    const picaIds = Array.from({ length: itemCount }, (_, index) => formatItemPicaId(masterPicaId, index + 1));
+    
+    const [existing] = await executor
+      .select({ count: count() })
+      .from(picas)
+      .where(and(eq(picas.organizationId, organizationId), inArray(picas.picaId, picaIds)));
+    
+    if (existing.count === 0) {
+      return { masterPicaId, picaIds };
+    }
+  }
+  
+  throw new Error(`Unable to reserve a free PICA ID for scope ${scope}`);
+}
+
+// Public fields of a user shown next to requests and decisions
+function toUserSummary(user: User | undefined) {
+  return user ? { id: user.id, name: user.name, username: user.username } : null;
+}
+
 // Storage interface
 export interface IStorage {
   // People
@@ -31,7 +640,8 @@ export interface IStorage {
   getPerson(id: number): Promise<Person | undefined>;
   createPerson(person: InsertPerson): Promise<Person>;
   updatePerson(id: number, person: Partial<InsertPerson>): Promise<Person | undefined>;
-  deletePerson(id: number): Promise<boolean>;
+  deletePerson(id: number, userId: number | null, reassignToId?: number): Promise<Pica[] | undefined>;
+  countOpenPicasForPerson(personId: number): Promise<number>;
 
   // Departments
   getAllDepartments(): Promise<Department[]>;
@@ -39,7 +649,8 @@ export interface IStorage {
   getDepartment(id: number): Promise<Department | undefined>;
   createDepartment(department: InsertDepartment): Promise<Department>;
   updateDepartment(id: number, department: Partial<InsertDepartment>): Promise<Department | undefined>;
-  deleteDepartment(id: number): Promise<boolean>;
+  deleteDepartment(id: number, userId: number | null): Promise<boolean>;
+  countActivePeopleInDepartment(departmentId: number): Promise<number>;
 
   // Project Sites
   getAllProjectSites(): Promise<ProjectSite[]>;
@@ -48,27 +659,179 @@ export interface IStorage {
   getProjectSiteByCode(code: string): Promise<ProjectSite | undefined>;
   createProjectSite(projectSite: InsertProjectSite): Promise<ProjectSite>;
   updateProjectSite(id: number, projectSite: Partial<InsertProjectSite>): Promise<ProjectSite | undefined>;
-  deleteProjectSite(id: number): Promise<boolean>;
+  deleteProjectSite(id: number, userId: number | null): Promise<boolean>;
+  countOpenPicasForProjectSite(projectSiteId: number): Promise<number>;
 
   // PICAs
   getAllPicas(): Promise<Pica[]>;
   getPicasByOrganization(organizationId: number): Promise<Pica[]>;
   getPicasWithRelations(): Promise<PicaWithRelations[]>;
   getPicasWithRelationsByOrganization(organizationId: number): Promise<PicaWithRelations[]>;
-  getPica(id: number): Promise<Pica | undefined>;
+  queryPicas(organizationId: number, query: PicaListQuery): Promise<{ items: PicaWithRelations[]; total: number }>;
+  getPica(id: number, includeDeleted?: boolean): Promise<Pica | undefined>;
   getPicaByPicaId(picaId: string): Promise<Pica | undefined>;
-  createPica(pica: InsertPica): Promise<Pica>;
-  updatePica(id: number, pica: Partial<InsertPica>, historyComment?: string): Promise<Pica | undefined>;
-  deletePica(id: number): Promise<boolean>;
+  createPica(pica: InsertPica, userId?: number | null): Promise<Pica>;
+  createPicas(picaList: (InsertPica & { recurrenceOfPicaId?: number | null })[], userId?: number | null): Promise<Pica[]>;
+  updatePica(id: number, pica: Partial<InsertPica>, historyComment?: string, userId?: number | null): Promise<Pica | undefined>;
+  deletePica(id: number, userId?: number | null): Promise<boolean>;
+  reassignPica(id: number, personInChargeId: number, historyComment: string, userId: number): Promise<Pica | undefined>;
+  reopenPica(id: number, reopen: { reason: string; fromStatus: string; newStatus: string }, userId: number): Promise<Pica | undefined>;
+  markOverduePicas(organizationId?: number): Promise<Pica[]>;
+  previewNextPicaId(organizationId: number, projectSiteId: number, date: string): Promise<string | undefined>;
+  reservePicaIds(organizationId: number, projectSiteId: number, date: string, itemCount: number): Promise<PicaIdReservation | undefined>;
   getPicasByStatus(status: string): Promise<Pica[]>;
-  countPicasByStatus(organizationId?: number): Promise<{ progress: number; complete: number; overdue: number; total: number }>;
-  countPicasByDepartment(organizationId?: number): Promise<any[]>;
-  countPicasByProjectSite(organizationId?: number): Promise<any[]>;
+  countPicasByStatus(organizationId?: number, range?: PicaDateRange): Promise<{ progress: number; complete: number; overdue: number; total: number }>;
+  countPicasByDepartment(organizationId?: number, range?: PicaDateRange): Promise<any[]>;
+  countPicasByProjectSite(organizationId?: number, range?: PicaDateRange): Promise<any[]>;
+  countOpenPicasByRisk(organizationId: number, range?: PicaDateRange): Promise<RiskHeatMapCell[]>;
+  getReopenStats(organizationId: number, range?: PicaDateRange): Promise<ReopenStats>;
+  
+  // Trash
+  getTrash(organizationId: number): Promise<TrashItem[]>;
+  countPicaReferences(type: "person" | "project_site", id: number): Promise<number>;
+  restoreTrashItem(type: TrashItemType, id: number, userId: number): Promise<boolean>;
+  purgeTrashItem(type: TrashItemType, id: number, userId: number): Promise<boolean>;
   
   // PICA History
   getPicaHistory(picaId: number): Promise<PicaHistoryWithRelations[]>;
   addPicaHistory(history: InsertPicaHistory): Promise<PicaHistory>;
 
+  // Workflow
+  getWorkflow(organizationId: number): Promise<OrganizationWorkflow>;
+  replaceWorkflow(organizationId: number, workflow: WorkflowDefinition): Promise<OrganizationWorkflow>;
+  resetWorkflow(organizationId: number): Promise<OrganizationWorkflow>;
+  getPicaStatusesInUse(organizationId: number): Promise<string[]>;
+
+  // Risk matrix
+  getRiskMatrix(organizationId: number | null): Promise<OrganizationRiskMatrix>;
+  replaceRiskMatrix(organizationId: number, matrix: RiskMatrix): Promise<OrganizationRiskMatrix>;
+  resetRiskMatrix(organizationId: number): Promise<OrganizationRiskMatrix>;
+
+  // Closure requests
+  getPersonByEmail(organizationId: number, email: string): Promise<Person | undefined>;
+  resolvePicaVerifier(pica: Pica): Promise<Person | undefined>;
+  getClosureRequest(id: number): Promise<PicaClosureRequest | undefined>;
+  getClosureRequestsForPica(picaId: number): Promise<PicaClosureRequestWithRelations[]>;
+  getPendingClosureRequest(picaId: number): Promise<PicaClosureRequest | undefined>;
+  createClosureRequest(pica: Pica, request: { completionNote: string; evidence: string; verifierId: number | null }, userId: number): Promise<PicaClosureRequest>;
+  decideClosureRequest(id: number, decision: { approved: boolean; reason?: string; newStatus: string }, userId: number): Promise<PicaClosureRequest | undefined>;
+  getClosureQueue(organizationId: number, viewer: { userId: number; personId: number | null; isAdmin: boolean }): Promise<ClosureQueue>;
+
+  // Effectiveness reviews
+  getEffectivenessCheckDays(organizationId: number): Promise<EffectivenessCheckSettings>;
+  replaceEffectivenessCheckDays(organizationId: number, days: number[] | null): Promise<EffectivenessCheckSettings>;
+  getEffectivenessReview(id: number): Promise<PicaEffectivenessReview | undefined>;
+  getEffectivenessReviewsForPica(picaId: number): Promise<PicaEffectivenessReviewWithRelations[]>;
+  getDueEffectivenessReviews(organizationId: number, viewer: { personId: number | null; isAdmin: boolean }, today: string): Promise<PicaEffectivenessReviewWithRelations[]>;
+  decideEffectivenessReview(
+    review: PicaEffectivenessReview,
+    decision: EffectivenessDecision,
+    userId: number,
+    followUp: { reopen?: { fromStatus: string; newStatus: string }; newPica?: Omit<InsertPica, "picaId"> }
+  ): Promise<PicaEffectivenessReview | undefined>;
+  countEffectivenessBySite(organizationId: number, range?: PicaDateRange): Promise<EffectivenessStat[]>;
+
+  // Due date extensions
+  getExtensionRequest(id: number): Promise<PicaDueDateExtension | undefined>;
+  getExtensionRequestsForPica(picaId: number): Promise<PicaDueDateExtensionWithRelations[]>;
+  getPendingExtensionRequest(picaId: number): Promise<PicaDueDateExtension | undefined>;
+  createExtensionRequest(pica: Pica, request: { requestedDueDate: string; justification: string; approverId: number | null }, userId: number): Promise<PicaDueDateExtension>;
+  decideExtensionRequest(id: number, decision: { approved: boolean; reason?: string; newStatus?: string }, userId: number): Promise<PicaDueDateExtension | undefined>;
+  getPendingExtensionApprovals(organizationId: number, viewer: { personId: number | null; isAdmin: boolean }): Promise<PicaDueDateExtensionWithRelations[]>;
+
+  // Root cause analysis
+  getRootCauseAnalysis(picaId: number): Promise<PicaRootCauseAnalysisWithFactors | undefined>;
+  saveRootCauseAnalysis(pica: Pica, analysis: RootCauseAnalysisInput, userId: number): Promise<PicaRootCauseAnalysisWithFactors>;
+  countRootCauseCategoriesBySite(organizationId: number, range?: PicaDateRange): Promise<RootCauseCategoryStat[]>;
+
+  // Action items
+  getActionItem(id: number): Promise<PicaActionItem | undefined>;
+  getActionItemsForPica(picaId: number): Promise<PicaActionItemWithOwner[]>;
+  createActionItem(pica: Pica, item: ActionItemInput, userId: number): Promise<PicaActionItem>;
+  updateActionItem(id: number, update: ActionItemUpdate, userId: number): Promise<PicaActionItem | undefined>;
+  deleteActionItem(id: number, userId: number): Promise<boolean>;
+
+  // PICA links and repeat findings
+  getPicaLinks(picaId: number): Promise<PicaLinkWithPica[]>;
+  getPicaLink(id: number): Promise<PicaLink | undefined>;
+  createPicaLink(link: PicaLinkInput & { sourcePicaId: number; organizationId: number; createdById: number }): Promise<PicaLink>;
+  deletePicaLink(id: number): Promise<boolean>;
+  findSimilarPicas(organizationId: number, projectSiteId: number, issue: string, excludePicaId?: number): Promise<SimilarPica[]>;
+  countRepeatFindingsBySite(organizationId: number, range?: PicaDateRange): Promise<RepeatFindingStat[]>;
+
+  // Templates and recurrence schedules
+  getPicaTemplates(organizationId: number): Promise<PicaTemplate[]>;
+  getPicaTemplate(id: number): Promise<PicaTemplate | undefined>;
+  createPicaTemplate(template: PicaTemplateInput & { organizationId: number; createdById: number }): Promise<PicaTemplate>;
+  updatePicaTemplate(id: number, template: PicaTemplateInput): Promise<PicaTemplate | undefined>;
+  deletePicaTemplate(id: number): Promise<boolean>;
+  countSchedulesForTemplate(templateId: number): Promise<number>;
+  getRecurrenceSchedules(organizationId: number): Promise<PicaRecurrenceScheduleWithRelations[]>;
+  getRecurrenceSchedule(id: number): Promise<PicaRecurrenceSchedule | undefined>;
+  createRecurrenceSchedule(schedule: RecurrenceScheduleInput & { organizationId: number; createdById: number; nextRunDate: string | null }): Promise<PicaRecurrenceSchedule>;
+  updateRecurrenceSchedule(id: number, schedule: RecurrenceScheduleUpdate & { nextRunDate?: string | null }): Promise<PicaRecurrenceSchedule | undefined>;
+  deleteRecurrenceSchedule(id: number): Promise<boolean>;
+  getDueRecurrenceSchedules(today: string): Promise<PicaRecurrenceSchedule[]>;
+  createScheduledPica(schedule: PicaRecurrenceSchedule, pica: Omit<InsertPica, "picaId">, nextRunDate: string | null): Promise<Pica | undefined>;
+
+  // Attachments
+  getAttachment(id: number): Promise<PicaAttachment | undefined>;
+  getAttachmentsForPica(picaId: number): Promise<PicaAttachmentWithUploader[]>;
+  createAttachments(attachmentList: InsertPicaAttachment[]): Promise<PicaAttachment[]>;
+  deleteAttachment(id: number): Promise<boolean>;
+
+  // Comments
+  getComment(id: number): Promise<PicaComment | undefined>;
+  getCommentsForPica(picaId: number): Promise<PicaCommentWithAuthor[]>;
+  createComment(comment: InsertPicaComment): Promise<PicaComment>;
+  updateComment(id: number, comment: { body: string; mentionedUserIds: number[] }): Promise<PicaComment | undefined>;
+  deleteComment(id: number): Promise<boolean>;
+
+  // Audit log
+  getPicaAuditTrail(picaId: number): Promise<PicaAuditEntryWithUser[]>;
+  queryPicaAuditLog(organizationId: number, query: PicaAuditQuery): Promise<{ items: PicaAuditEntryWithUser[]; total: number }>;
+
+  // Email notifications
+  getNotificationSettings(organizationId: number): Promise<OrganizationNotificationSettings>;
+  replaceNotificationSettings(organizationId: number, settings: NotificationSettings | null): Promise<OrganizationNotificationSettings>;
+  getOpenPicasDueBetween(from: string, to: string): Promise<Pica[]>;
+  enqueueEmails(entries: InsertEmailOutboxEntry[]): Promise<EmailOutboxEntry[]>;
+  getDueEmails(limit: number): Promise<EmailOutboxEntry[]>;
+  markEmailSent(id: number): Promise<void>;
+  markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  getEmailOutbox(organizationId: number, status?: EmailOutboxStatus): Promise<EmailOutboxEntry[]>;
+  getEmailOutboxEntry(id: number): Promise<EmailOutboxEntry | undefined>;
+  retryEmail(id: number): Promise<EmailOutboxEntry | undefined>;
+
+  // Digests
+  getDigestPreferences(userId: number): Promise<DigestPreferences | undefined>;
+  saveDigestPreferences(userId: number, organizationId: number | null, preferences: DigestPreferencesInput): Promise<DigestPreferences>;
+  getActiveDigestPreferences(): Promise<DigestPreferences[]>;
+  markDigestSent(id: number, localDate: string): Promise<void>;
+  getDigest(organizationId: number, personId: number): Promise<PicaDigest | undefined>;
+
+  // In-app notifications
+  getNotifications(userId: number, options: { unreadOnly?: boolean; limit: number }): Promise<UserNotificationPage>;
+  markNotificationRead(id: number, userId: number): Promise<boolean>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  createDueSoonNotifications(today: string): Promise<number>;
+
+  // Webhooks
+  getWebhooks(organizationId: number): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(organizationId: number, webhook: WebhookInput & { secret: string }, userId: number | null): Promise<Webhook>;
+  updateWebhook(id: number, webhook: WebhookInput): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  disableWebhook(id: number, reason: string): Promise<void>;
+  getDueWebhookDeliveries(limit: number): Promise<{ delivery: WebhookDelivery; webhook: Webhook }[]>;
+  markWebhookDelivered(id: number, responseStatus: number): Promise<void>;
+  markWebhookDeliveryFailed(id: number, error: string, responseStatus: number | null, nextAttemptAt: Date | null): Promise<Webhook | undefined>;
+  logWebhookTest(webhook: Webhook, payload: WebhookPayload, outcome: { responseStatus: number | null; error: string | null }): Promise<WebhookDelivery>;
+  getWebhookTestPayload(organizationId: number): Promise<WebhookPayload>;
+  getWebhookDeliveries(webhookId: number, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  retryWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+
   // Organizations
   getAllOrganizations(): Promise<Organization[]>;
   getOrganization(id: number): Promise<Organization | undefined>;
@@ -91,15 +854,16 @@ export interface IStorage {
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
   // People methods
+  // Lists leave out people in the trash; getPerson still finds them so older PICAs keep their person in charge
   async getAllPeople(): Promise<Person[]> {
-    return await db.select().from(people);
+    return await db.select().from(people).where(isNull(people.deletedAt));
   }
 
   async getPeopleByOrganization(organizationId: number): Promise<Person[]> {
     return await db
       .select()
       .from(people)
-      .where(eq(people.organizationId, organizationId));
+      .where(and(eq(people.organizationId, organizationId), isNull(people.deletedAt)));
   }
 
   async getPerson(id: number): Promise<Person | undefined> {
@@ -119,29 +883,75 @@ export class DatabaseStorage implements IStorage {
     const [updatedPerson] = await db
       .update(people)
       .set(person)
-      .where(eq(people.id, id))
+      .where(and(eq(people.id, id), isNull(people.deletedAt)))
       .returning();
     return updatedPerson || undefined;
   }
 
-  async deletePerson(id: number): Promise<boolean> {
-    const result = await db
-      .delete(people)
-      .where(eq(people.id, id))
-      .returning({ id: people.id });
-    return result.length > 0;
+  async deletePerson(id: number, userId: number | null, reassignToId?: number): Promise<Pica[] | undefined> {
+    // The person goes to the trash, handing their open PICAs to someone else when asked to.
+    // Resolves to the reassigned PICAs, or undefined when the person wasn't found.
+    return await db.transaction(async (tx) => {
+      const [deletedPerson] = await tx
+        .update(people)
+        .set({ deletedAt: new Date(), deletedById: userId })
+        .where(and(eq(people.id, id), isNull(people.deletedAt)))
+        .returning();
+      if (!deletedPerson) {
+        return undefined;
+      }
+      
+      const reassignedPicas: Pica[] = [];
+      if (reassignToId) {
+        const [reassignTo] = await tx.select().from(people).where(eq(people.id, reassignToId));
+        const openPicas = await tx
+          .select()
+          .from(picas)
+          .where(and(
+            eq(picas.personInChargeId, id),
+            isNull(picas.deletedAt),
+            sql`${picaStatusCategory} <> 'complete'`
+          ))
+          .for("update");
+        
+        for (const pica of openPicas) {
+          reassignedPicas.push(await reassignPicaInCharge(
+            tx,
+            pica,
+            reassignToId,
+            `Reassigned from ${deletedPerson.name} to ${reassignTo.name} because ${deletedPerson.name} was deleted`,
+            userId
+          ));
+        }
+      }
+      
+      return reassignedPicas;
+    });
+  }
+
+  // Open (not complete) PICAs outside the trash that a person is in charge of
+  async countOpenPicasForPerson(personId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(picas)
+      .where(and(
+        eq(picas.personInChargeId, personId),
+        isNull(picas.deletedAt),
+        sql`${picaStatusCategory} <> 'complete'`
+      ));
+    return result.count;
   }
 
   // Department methods
   async getAllDepartments(): Promise<Department[]> {
-    return await db.select().from(departments);
+    return await db.select().from(departments).where(isNull(departments.deletedAt));
   }
 
   async getDepartmentsByOrganization(organizationId: number): Promise<Department[]> {
     return await db
       .select()
       .from(departments)
-      .where(eq(departments.organizationId, organizationId));
+      .where(and(eq(departments.organizationId, organizationId), isNull(departments.deletedAt)));
   }
 
   async getDepartment(id: number): Promise<Department | undefined> {
@@ -161,29 +971,39 @@ export class DatabaseStorage implements IStorage {
     const [updatedDepartment] = await db
       .update(departments)
       .set(department)
-      .where(eq(departments.id, id))
+      .where(and(eq(departments.id, id), isNull(departments.deletedAt)))
       .returning();
     return updatedDepartment || undefined;
   }
 
-  async deleteDepartment(id: number): Promise<boolean> {
+  async deleteDepartment(id: number, userId: number | null): Promise<boolean> {
     const result = await db
-      .delete(departments)
-      .where(eq(departments.id, id))
+      .update(departments)
+      .set({ deletedAt: new Date(), deletedById: userId })
+      .where(and(eq(departments.id, id), isNull(departments.deletedAt)))
       .returning({ id: departments.id });
     return result.length > 0;
   }
 
+  // People outside the trash who belong to a department
+  async countActivePeopleInDepartment(departmentId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(people)
+      .where(and(eq(people.departmentId, departmentId), isNull(people.deletedAt)));
+    return result.count;
+  }
+
   // Project site methods
   async getAllProjectSites(): Promise<ProjectSite[]> {
-    return await db.select().from(projectSites);
+    return await db.select().from(projectSites).where(isNull(projectSites.deletedAt));
   }
 
   async getProjectSitesByOrganization(organizationId: number): Promise<ProjectSite[]> {
     return await db
       .select()
       .from(projectSites)
-      .where(eq(projectSites.organizationId, organizationId));
+      .where(and(eq(projectSites.organizationId, organizationId), isNull(projectSites.deletedAt)));
   }
 
   async getProjectSite(id: number): Promise<ProjectSite | undefined> {
@@ -211,24 +1031,39 @@ export class DatabaseStorage implements IStorage {
     const [updatedProjectSite] = await db
       .update(projectSites)
       .set(projectSite)
-      .where(eq(projectSites.id, id))
+      .where(and(eq(projectSites.id, id), isNull(projectSites.deletedAt)))
       .returning();
     return updatedProjectSite || undefined;
   }
 
-  async deleteProjectSite(id: number): Promise<boolean> {
+  async deleteProjectSite(id: number, userId: number | null): Promise<boolean> {
     const result = await db
-      .delete(projectSites)
-      .where(eq(projectSites.id, id))
+      .update(projectSites)
+      .set({ deletedAt: new Date(), deletedById: userId })
+      .where(and(eq(projectSites.id, id), isNull(projectSites.deletedAt)))
       .returning({ id: projectSites.id });
     return result.length > 0;
   }
 
-  // PICA methods
+  // Open (not complete) PICAs outside the trash at a site
+  async countOpenPicasForProjectSite(projectSiteId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(picas)
+      .where(and(
+        eq(picas.projectSiteId, projectSiteId),
+        isNull(picas.deletedAt),
+        sql`${picaStatusCategory} <> 'complete'`
+      ));
+    return result.count;
+  }
+
+  // PICA methods (PICAs in the trash are left out unless asked for)
   async getAllPicas(): Promise<Pica[]> {
     return await db
       .select()
       .from(picas)
+      .where(isNull(picas.deletedAt))
       .orderBy(desc(picas.createdAt));
   }
 
@@ -236,7 +1071,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(picas)
-      .where(eq(picas.organizationId, organizationId))
+      .where(and(eq(picas.organizationId, organizationId), isNull(picas.deletedAt)))
       .orderBy(desc(picas.createdAt));
   }
 
@@ -244,43 +1079,20 @@ export class DatabaseStorage implements IStorage {
     const result: PicaWithRelations[] = [];
     
     const allPicas = await this.getAllPicas();
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set to beginning of day for accurate comparison
-    
-    // Check for overdue PICAs and update their status
-    const picasToUpdate: { id: number, status: string }[] = [];
     
     for (const pica of allPicas) {
       const projectSite = await this.getProjectSite(pica.projectSiteId);
       const personInCharge = await this.getPerson(pica.personInChargeId);
       
       if (projectSite && personInCharge) {
-        // Check if the PICA is overdue (dueDate < today and status is not complete)
-        const dueDate = new Date(pica.dueDate);
-        dueDate.setHours(0, 0, 0, 0); // Set to beginning of day for accurate comparison
-        
-        let currentStatus = pica.status;
-        
-        // Only update status to overdue if it's in progress and the due date has passed
-        if (dueDate < today && pica.status === "progress") {
-          currentStatus = "overdue";
-          picasToUpdate.push({ id: pica.id, status: "overdue" });
-        }
-        
         result.push({
           ...pica,
-          status: currentStatus, // Use the updated status
           projectSite,
           personInCharge
         });
       }
     }
     
-    // Batch update the status of overdue PICAs in the database
-    for (const picaUpdate of picasToUpdate) {
-      await this.updatePica(picaUpdate.id, { status: picaUpdate.status });
-    }
-    
     return result;
   }
 
@@ -288,44 +1100,116 @@ export class DatabaseStorage implements IStorage {
     const result: PicaWithRelations[] = [];
     
     const allPicas = await this.getPicasByOrganization(organizationId);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const picasToUpdate: { id: number, status: string }[] = [];
     
     for (const pica of allPicas) {
       const projectSite = await this.getProjectSite(pica.projectSiteId);
       const personInCharge = await this.getPerson(pica.personInChargeId);
       
       if (projectSite && personInCharge) {
-        const dueDate = new Date(pica.dueDate);
-        dueDate.setHours(0, 0, 0, 0);
-        
-        let currentStatus = pica.status;
-        
-        if (dueDate < today && pica.status === "progress") {
-          currentStatus = "overdue";
-          picasToUpdate.push({ id: pica.id, status: "overdue" });
-        }
-        
         result.push({
           ...pica,
-          status: currentStatus,
           projectSite,
           personInCharge
         });
       }
     }
     
-    for (const picaUpdate of picasToUpdate) {
-      await this.updatePica(picaUpdate.id, { status: picaUpdate.status });
+    return result;
+  }
+
+  async queryPicas(organizationId: number, query: PicaListQuery): Promise<{ items: PicaWithRelations[]; total: number }> {
+    const conditions: SQL[] = [eq(picas.organizationId, organizationId), isNull(picas.deletedAt)];
+    
+    if (query.status && query.status.length > 0) {
+      conditions.push(inArray(picas.status, query.status));
+    }
+    if (query.riskLevel && query.riskLevel.length > 0) {
+      conditions.push(inArray(picas.riskLevel, query.riskLevel));
+    }
+    if (query.projectSiteId) {
+      conditions.push(eq(picas.projectSiteId, query.projectSiteId));
+    }
+    if (query.personInChargeId) {
+      conditions.push(eq(picas.personInChargeId, query.personInChargeId));
+    }
+    if (query.departmentId) {
+      conditions.push(eq(people.departmentId, query.departmentId));
+    }
+    if (query.dateFrom) {
+      conditions.push(gte(picas.date, query.dateFrom));
+    }
+    if (query.dateTo) {
+      conditions.push(lte(picas.date, query.dateTo));
+    }
+    if (query.dueDateFrom) {
+      conditions.push(gte(picas.dueDate, query.dueDateFrom));
+    }
+    if (query.dueDateTo) {
+      conditions.push(lte(picas.dueDate, query.dueDateTo));
+    }
+    if (query.search) {
+      // Escape LIKE wildcards so the search text is matched literally
+      const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(picas.picaId, pattern),
+        ilike(picas.issue, pattern),
+        ilike(picas.problemIdentification, pattern),
+        ilike(picas.correctiveAction, pattern)
+      )!);
+    }
+    
+    const where = and(...conditions);
+    const sortColumns = {
+      date: picas.date,
+      dueDate: picas.dueDate,
+      createdAt: picas.createdAt,
+      updatedAt: picas.updatedAt,
+      picaId: picas.picaId,
+      status: picas.status,
+      riskScore: picas.riskScore,
+    };
+    const sortColumn = sortColumns[query.sort];
+    // Unrated PICAs have no risk score and sort last either way
+    const sortOrder = query.order === "asc" ? sql`asc nulls last` : sql`desc nulls last`;
+    
+    let listQuery = db
+      .select({ pica: picas, projectSite: projectSites, personInCharge: people })
+      .from(picas)
+      .innerJoin(projectSites, eq(picas.projectSiteId, projectSites.id))
+      .innerJoin(people, eq(picas.personInChargeId, people.id))
+      .where(where)
+      .orderBy(sql`${sortColumn} ${sortOrder}`, desc(picas.id))
+      .$dynamic();
+    
+    if (query.pageSize) {
+      listQuery = listQuery
+        .limit(query.pageSize)
+        .offset(((query.page ?? 1) - 1) * query.pageSize);
     }
     
-    return result;
+    const rows = await listQuery;
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(picas)
+      .innerJoin(projectSites, eq(picas.projectSiteId, projectSites.id))
+      .innerJoin(people, eq(picas.personInChargeId, people.id))
+      .where(where);
+    
+    return {
+      items: rows.map(row => ({
+        ...row.pica,
+        projectSite: row.projectSite,
+        personInCharge: row.personInCharge
+      })),
+      total
+    };
   }
 
-  async getPica(id: number): Promise<Pica | undefined> {
-    const [pica] = await db.select().from(picas).where(eq(picas.id, id));
+  async getPica(id: number, includeDeleted = false): Promise<Pica | undefined> {
+    const [pica] = await db
+      .select()
+      .from(picas)
+      .where(includeDeleted ? eq(picas.id, id) : and(eq(picas.id, id), isNull(picas.deletedAt)));
     return pica || undefined;
   }
 
@@ -337,33 +1221,53 @@ export class DatabaseStorage implements IStorage {
     return pica || undefined;
   }
 
-  async createPica(pica: InsertPica): Promise<Pica> {
-    const [newPica] = await db
-      .insert(picas)
-      .values(pica)
-      .returning();
-    return newPica;
+  async createPica(pica: InsertPica, userId: number | null = null): Promise<Pica> {
+    const matrix = await this.getRiskMatrix(pica.organizationId ?? null);
+    return await db.transaction(async (tx) => {
+      const [newPica] = await tx
+        .insert(picas)
+        .values({ ...pica, ...computeRisk(matrix, pica.severity, pica.likelihood) })
+        .returning();
+      await recordPicaAudit(tx, "create", null, newPica, userId);
+      return newPica;
+    });
   }
 
-  async updatePica(id: number, pica: Partial<InsertPica>, historyComment?: string): Promise<Pica | undefined> {
-    try {
-      // Check if user with ID 1 exists, otherwise history tracking will fail
-      const [defaultUser] = await db.select().from(users).where(eq(users.id, 1));
-      let userId = defaultUser ? 1 : null;
-
-      // If status is changing, record history
-      if (pica.status) {
-        const currentPica = await this.getPica(id);
-        if (currentPica && currentPica.status !== pica.status) {
-          // Create history entry for the status change
-          await this.addPicaHistory({
-            picaId: id,
-            userId: userId, // Use null if user doesn't exist (userId is optional in schema)
-            oldStatus: currentPica.status,
-            newStatus: pica.status,
-            comment: historyComment || `Status changed from ${currentPica.status} to ${pica.status}`
+  async createPicas(picaList: (InsertPica & { recurrenceOfPicaId?: number | null })[], userId: number | null = null): Promise<Pica[]> {
+    // Batches belong to one organization, so one risk matrix rates every item
+    const matrix = await this.getRiskMatrix(picaList[0]?.organizationId ?? null);
+    
+    // Insert every PICA, and the recurrence link of each item that repeats an earlier PICA,
+    // in one transaction so a failure never leaves a partial master PICA
+    return await db.transaction(async (tx) => {
+      const created: Pica[] = [];
+      for (const { recurrenceOfPicaId, ...pica } of picaList) {
+        const [newPica] = await tx
+          .insert(picas)
+          .values({ ...pica, ...computeRisk(matrix, pica.severity, pica.likelihood) })
+          .returning();
+        await recordPicaAudit(tx, "create", null, newPica, userId);
+        if (recurrenceOfPicaId && newPica.organizationId && userId) {
+          await insertPicaLink(tx, {
+            organizationId: newPica.organizationId,
+            sourcePicaId: newPica.id,
+            targetPicaId: recurrenceOfPicaId,
+            linkType: "recurrence_of",
+            createdById: userId
           });
         }
+        created.push(newPica);
+      }
+      return created;
+    });
+  }
+
+  async updatePica(id: number, pica: Partial<InsertPica>, historyComment?: string, userId: number | null = null): Promise<Pica | undefined> {
+    // The update, its status history and its audit entry are written together
+    return await db.transaction(async (tx) => {
+      const [currentPica] = await tx.select().from(picas).where(eq(picas.id, id)).for("update");
+      if (!currentPica) {
+        return undefined;
       }
       
       // Always update the updatedAt timestamp when updating a PICA
@@ -373,215 +1277,236 @@ export class DatabaseStorage implements IStorage {
         updatedAt: (pica as any).updatedAt || new Date()
       };
       
-      const [updatedPica] = await db
-        .update(picas)
-        .set(updateData)
-        .where(eq(picas.id, id))
-        .returning();
-      return updatedPica || undefined;
-    } catch (error) {
-      console.error("Error in updatePica:", error);
-      // Just update the PICA itself without history if there's an error with history
-      const updateData: any = {
-        ...pica,
-        updatedAt: (pica as any).updatedAt || new Date()
-      };
+      // Re-rate the risk when either rating changes
+      if ("severity" in pica || "likelihood" in pica) {
+        const matrix = await this.getRiskMatrix(currentPica.organizationId);
+        Object.assign(updateData, computeRisk(
+          matrix,
+          "severity" in pica ? pica.severity : currentPica.severity,
+          "likelihood" in pica ? pica.likelihood : currentPica.likelihood
+        ));
+      }
       
-      const [updatedPica] = await db
+      const [updatedPica] = await tx
         .update(picas)
         .set(updateData)
         .where(eq(picas.id, id))
         .returning();
-      return updatedPica || undefined;
-    }
+      
+      // If status is changing, record history (a null userId marks a system update)
+      if (pica.status && currentPica.status !== pica.status) {
+        await tx.insert(picaHistory).values({
+          picaId: id,
+          userId,
+          oldStatus: currentPica.status,
+          newStatus: pica.status,
+          comment: historyComment || `Status changed from ${currentPica.status} to ${pica.status}`
+        });
+      }
+      
+      await recordPicaAudit(tx, "update", currentPica, updatedPica, userId);
+      return updatedPica;
+    });
   }
 
-  async deletePica(id: number): Promise<boolean> {
-    try {
-      // First, delete all history records for this PICA
-      await db
-        .delete(picaHistory)
-        .where(eq(picaHistory.picaId, id));
+  async markOverduePicas(organizationId?: number): Promise<Pica[]> {
+    // A PICA is overdue when its status is in the progress category and its due date is before today
+    const conditions: SQL[] = [
+      sql`${picaStatusCategory} = 'progress'`,
+      lt(picas.dueDate, sql`CURRENT_DATE`),
+      isNull(picas.deletedAt)
+    ];
+    
+    if (organizationId) {
+      conditions.push(eq(picas.organizationId, organizationId));
+    }
+    
+    return await db.transaction(async (tx) => {
+      const candidates = await tx
+        .select()
+        .from(picas)
+        .where(and(...conditions))
+        .for("update");
       
-      // Then delete the PICA itself
-      const result = await db
-        .delete(picas)
-        .where(eq(picas.id, id))
-        .returning({ id: picas.id });
+      if (candidates.length === 0) {
+        return [];
+      }
       
-      return result.length > 0;
+      // Custom workflows move PICAs to their first overdue-category status;
+      // a custom workflow without one never marks PICAs overdue
+      const organizationIds = Array.from(new Set(
+        candidates.map(pica => pica.organizationId).filter((id): id is number => id !== null)
+      ));
+      const customStatuses = organizationIds.length > 0
+        ? await tx
+            .select()
+            .from(workflowStatuses)
+            .where(inArray(workflowStatuses.organizationId, organizationIds))
+            .orderBy(workflowStatuses.sortOrder)
+        : [];
+      
+      const getOverdueStatus = (picaOrganizationId: number | null): string | undefined => {
+        const organizationStatuses = customStatuses.filter(status => status.organizationId === picaOrganizationId);
+        if (organizationStatuses.length === 0) {
+          return "overdue";
+        }
+        return organizationStatuses.find(status => status.category === "overdue")?.key;
+      };
+      
+      const overduePicas: Pica[] = [];
+      for (const pica of candidates) {
+        const overdueStatus = getOverdueStatus(pica.organizationId);
+        if (!overdueStatus) {
+          continue;
+        }
+        
+        const [updatedPica] = await tx
+          .update(picas)
+          .set({ status: overdueStatus, updatedAt: new Date() })
+          .where(eq(picas.id, pica.id))
+          .returning();
+        
+        // Record the transition as a system update (no user attached)
+        await tx.insert(picaHistory).values({
+          picaId: pica.id,
+          userId: null,
+          oldStatus: pica.status,
+          newStatus: overdueStatus,
+          comment: `Automatically marked overdue (due date ${pica.dueDate} has passed)`
+        });
+        await recordPicaAudit(tx, "update", pica, updatedPica, null);
+        
+        overduePicas.push(updatedPica);
+      }
+      
+      return overduePicas;
+    });
+  }
+
+  async deletePica(id: number, userId: number | null = null): Promise<boolean> {
+    // PICAs go to the trash with their records intact; purgeTrashItem removes them for good
+    try {
+      return await db.transaction(async (tx) => {
+        const [deletedPica] = await tx
+          .update(picas)
+          .set({ deletedAt: new Date(), deletedById: userId })
+          .where(and(eq(picas.id, id), isNull(picas.deletedAt)))
+          .returning();
+        if (!deletedPica) {
+          return false;
+        }
+        
+        await recordPicaAudit(tx, "delete", deletedPica, null, userId);
+        return true;
+      });
     } catch (error) {
       console.error("Error in deletePica:", error);
       return false;
     }
   }
 
+  async reassignPica(id: number, personInChargeId: number, historyComment: string, userId: number): Promise<Pica | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pica] = await tx
+        .select()
+        .from(picas)
+        .where(and(eq(picas.id, id), isNull(picas.deletedAt)))
+        .for("update");
+      if (!pica) {
+        return undefined;
+      }
+      
+      return await reassignPicaInCharge(tx, pica, personInChargeId, historyComment, userId);
+    });
+  }
+
+  // Resolve the counter scope (organization format + site code + date) for master PICA IDs
+  async previewNextPicaId(organizationId: number, projectSiteId: number, date: string): Promise<string | undefined> {
+    const scope = await getPicaIdScope(db, organizationId, projectSiteId, date);
+    if (!scope) {
+      return undefined;
+    }
+    
+    const [counter] = await db
+      .select()
+      .from(picaIdCounters)
+      .where(and(eq(picaIdCounters.organizationId, organizationId), eq(picaIdCounters.scope, scope)));
+    
+    return formatMasterPicaId(scope, (counter?.lastCounter ?? 0) + 1);
+  }
+
+  async reservePicaIds(organizationId: number, projectSiteId: number, date: string, itemCount: number): Promise<PicaIdReservation | undefined> {
+    return await allocatePicaIds(db, organizationId, projectSiteId, date, itemCount);
+  }
+
   async getPicasByStatus(status: string): Promise<Pica[]> {
     return await db
       .select()
       .from(picas)
-      .where(eq(picas.status, status))
+      .where(and(eq(picas.status, status), isNull(picas.deletedAt)))
       .orderBy(desc(picas.createdAt));
   }
 
-  async countPicasByStatus(organizationId?: number): Promise<{ progress: number; complete: number; overdue: number; total: number }> {
-    // Use separate conditions with an array
-    const progressConditions = [eq(picas.status, "progress")];
-    const completeConditions = [eq(picas.status, "complete")];
-    const overdueConditions = [eq(picas.status, "overdue")];
-    const totalConditions: SQL[] = [];
+  // Organization and date range conditions shared by the statistics queries; PICAs in the trash never count
+  private picaStatsConditions(organizationId?: number, range?: PicaDateRange): SQL[] {
+    const conditions: SQL[] = [isNull(picas.deletedAt)];
     
-    // If organizationId is provided, add the condition to each array
     if (organizationId) {
-      progressConditions.push(eq(picas.organizationId, organizationId));
-      completeConditions.push(eq(picas.organizationId, organizationId));
-      overdueConditions.push(eq(picas.organizationId, organizationId));
-      totalConditions.push(eq(picas.organizationId, organizationId));
+      conditions.push(eq(picas.organizationId, organizationId));
+    }
+    if (range?.dateFrom) {
+      conditions.push(gte(picas.date, range.dateFrom));
+    }
+    if (range?.dateTo) {
+      conditions.push(lte(picas.date, range.dateTo));
     }
     
-    // Now use the conditions with a proper where clause
-    const progressCount = await db
-      .select({ count: count() })
-      .from(picas)
-      .where(and(...progressConditions));
-      
-    const completeCount = await db
-      .select({ count: count() })
-      .from(picas)
-      .where(and(...completeConditions));
-      
-    const overdueCount = await db
-      .select({ count: count() })
-      .from(picas)
-      .where(and(...overdueConditions));
-      
-    // For total query, only use organizationId if provided
-    const totalCount = totalConditions.length > 0 
-      ? await db.select({ count: count() }).from(picas).where(and(...totalConditions))
-      : await db.select({ count: count() }).from(picas);
-    
+    return conditions;
+  }
+
+  // Per-category counts over the joined picas rows (rows without a PICA count as zero)
+  private statusCounts() {
     return {
-      progress: progressCount[0].count,
-      complete: completeCount[0].count,
-      overdue: overdueCount[0].count,
-      total: totalCount[0].count
+      progress: sql<number>`count(${picas.id}) filter (where ${picaStatusCategory} = 'progress')`.mapWith(Number),
+      complete: sql<number>`count(${picas.id}) filter (where ${picaStatusCategory} = 'complete')`.mapWith(Number),
+      overdue: sql<number>`count(${picas.id}) filter (where ${picaStatusCategory} = 'overdue')`.mapWith(Number),
     };
   }
 
-  async countPicasByDepartment(organizationId?: number): Promise<any[]> {
+  async countPicasByStatus(organizationId?: number, range?: PicaDateRange): Promise<{ progress: number; complete: number; overdue: number; total: number }> {
+    const conditions = this.picaStatsConditions(organizationId, range);
+    
+    const [result] = await db
+      .select({
+        ...this.statusCounts(),
+        total: count(picas.id),
+      })
+      .from(picas)
+      .where(conditions.length > 0 ? and(...conditions) : undefined);
+    
+    return result;
+  }
+
+  async countPicasByDepartment(organizationId?: number, range?: PicaDateRange): Promise<any[]> {
     try {
-      const result = [];
-      const allDepartments = organizationId 
-        ? await this.getDepartmentsByOrganization(organizationId)
-        : await this.getAllDepartments();
+      // Departments without people or PICAs still appear with zero counts,
+      // so the PICA conditions belong in the join rather than the where clause
+      const picaConditions = this.picaStatsConditions(organizationId, range);
       
-      for (const department of allDepartments) {
-        const departmentPeople = await db
-          .select()
-          .from(people)
-          .where(eq(people.departmentId, department.id));
-        
-        // Skip if no people in department
-        if (departmentPeople.length === 0) {
-          result.push({
-            department: department.name,
-            progress: 0,
-            complete: 0,
-            overdue: 0
-          });
-          continue;
-        }
-        
-        // Get counts for each status
-        let progressCount = 0;
-        let completeCount = 0;
-        let overdueCount = 0;
-        
-        // Loop through each person
-        for (const person of departmentPeople) {
-          let progressQuery = db
-            .select({ count: count() })
-            .from(picas)
-            .where(
-              and(
-                eq(picas.status, "progress"),
-                eq(picas.personInChargeId, person.id)
-              )
-            );
-          
-          let completeQuery = db
-            .select({ count: count() })
-            .from(picas)
-            .where(
-              and(
-                eq(picas.status, "complete"),
-                eq(picas.personInChargeId, person.id)
-              )
-            );
-          
-          let overdueQuery = db
-            .select({ count: count() })
-            .from(picas)
-            .where(
-              and(
-                eq(picas.status, "overdue"),
-                eq(picas.personInChargeId, person.id)
-              )
-            );
-          
-          // If organizationId is provided, create new queries with additional conditions
-          if (organizationId) {
-            progressQuery = db
-              .select({ count: count() })
-              .from(picas)
-              .where(
-                and(
-                  eq(picas.status, "progress"),
-                  eq(picas.personInChargeId, person.id),
-                  eq(picas.organizationId, organizationId)
-                )
-              );
-            
-            completeQuery = db
-              .select({ count: count() })
-              .from(picas)
-              .where(
-                and(
-                  eq(picas.status, "complete"),
-                  eq(picas.personInChargeId, person.id),
-                  eq(picas.organizationId, organizationId)
-                )
-              );
-            
-            overdueQuery = db
-              .select({ count: count() })
-              .from(picas)
-              .where(
-                and(
-                  eq(picas.status, "overdue"),
-                  eq(picas.personInChargeId, person.id),
-                  eq(picas.organizationId, organizationId)
-                )
-              );
-          }
-          
-          const progressResult = await progressQuery;
-          const completeResult = await completeQuery;
-          const overdueResult = await overdueQuery;
-          
-          // Add to department totals
-          progressCount += progressResult[0].count;
-          completeCount += completeResult[0].count;
-          overdueCount += overdueResult[0].count;
-        }
-        
-        result.push({
-          department: department.name,
-          progress: progressCount,
-          complete: completeCount,
-          overdue: overdueCount
-        });
-      }
+      const result = await db
+        .select({
+          department: departments.name,
+          ...this.statusCounts(),
+        })
+        .from(departments)
+        .leftJoin(people, eq(people.departmentId, departments.id))
+        .leftJoin(picas, and(eq(picas.personInChargeId, people.id), ...picaConditions))
+        .where(and(
+          isNull(departments.deletedAt),
+          organizationId ? eq(departments.organizationId, organizationId) : undefined
+        ))
+        .groupBy(departments.id, departments.name)
+        .orderBy(departments.id);
       
       return result;
     } catch (error) {
@@ -591,92 +1516,254 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async countPicasByProjectSite(organizationId?: number): Promise<any[]> {
-    const result = [];
-    const allProjectSites = organizationId
-      ? await this.getProjectSitesByOrganization(organizationId)
-      : await this.getAllProjectSites();
+  async countPicasByProjectSite(organizationId?: number, range?: PicaDateRange): Promise<any[]> {
+    const picaConditions = this.picaStatsConditions(organizationId, range);
     
-    for (const site of allProjectSites) {
-      let progressQuery = db
-        .select({ count: count() })
-        .from(picas)
-        .where(
-          and(
-            eq(picas.status, "progress"),
-            eq(picas.projectSiteId, site.id)
-          )
-        );
-      
-      let completeQuery = db
-        .select({ count: count() })
-        .from(picas)
-        .where(
-          and(
-            eq(picas.status, "complete"),
-            eq(picas.projectSiteId, site.id)
-          )
-        );
-      
-      let overdueQuery = db
-        .select({ count: count() })
+    return await db
+      .select({
+        site: projectSites.code,
+        ...this.statusCounts(),
+      })
+      .from(projectSites)
+      .leftJoin(picas, and(eq(picas.projectSiteId, projectSites.id), ...picaConditions))
+      .where(and(
+        isNull(projectSites.deletedAt),
+        organizationId ? eq(projectSites.organizationId, organizationId) : undefined
+      ))
+      .groupBy(projectSites.id, projectSites.code)
+      .orderBy(projectSites.id);
+  }
+
+  // Open (not complete) rated PICAs per severity and likelihood
+  async countOpenPicasByRisk(organizationId: number, range?: PicaDateRange): Promise<RiskHeatMapCell[]> {
+    const conditions = [
+      ...this.picaStatsConditions(organizationId, range),
+      sql`${picaStatusCategory} <> 'complete'`,
+      isNotNull(picas.severity),
+      isNotNull(picas.likelihood)
+    ];
+    
+    return await db
+      .select({
+        severity: sql<number>`${picas.severity}`.mapWith(Number),
+        likelihood: sql<number>`${picas.likelihood}`.mapWith(Number),
+        count: count(picas.id),
+      })
+      .from(picas)
+      .where(and(...conditions))
+      .groupBy(picas.severity, picas.likelihood);
+  }
+
+  // Closed and reopened PICAs per department and per person in charge
+  async getReopenStats(organizationId: number, range?: PicaDateRange): Promise<ReopenStats> {
+    const picaConditions = this.picaStatsConditions(organizationId, range);
+    const reopenCounts = {
+      closed: sql<number>`count(${picas.id}) filter (where ${picaStatusCategory} = 'complete' or ${picas.reopenCount} > 0)`.mapWith(Number),
+      reopened: sql<number>`count(${picas.id}) filter (where ${picas.reopenCount} > 0)`.mapWith(Number),
+      reopenCount: sql<number>`coalesce(sum(${picas.reopenCount}), 0)`.mapWith(Number),
+    };
+    const withRate = (row: Omit<ReopenRateStat, "rate">): ReopenRateStat => ({
+      ...row,
+      rate: row.closed > 0 ? row.reopened / row.closed : 0
+    });
+    
+    const departmentRows = await db
+      .select({
+        id: departments.id,
+        name: departments.name,
+        ...reopenCounts,
+      })
+      .from(departments)
+      .leftJoin(people, eq(people.departmentId, departments.id))
+      .leftJoin(picas, and(eq(picas.personInChargeId, people.id), ...picaConditions))
+      .where(and(eq(departments.organizationId, organizationId), isNull(departments.deletedAt)))
+      .groupBy(departments.id, departments.name)
+      .orderBy(departments.name);
+    
+    const personRows = await db
+      .select({
+        id: people.id,
+        name: people.name,
+        ...reopenCounts,
+      })
+      .from(people)
+      .leftJoin(picas, and(eq(picas.personInChargeId, people.id), ...picaConditions))
+      .where(and(eq(people.organizationId, organizationId), isNull(people.deletedAt)))
+      .groupBy(people.id, people.name)
+      .orderBy(people.name);
+    
+    return {
+      departments: departmentRows.map(withRate),
+      peopleInCharge: personRows.map(withRate)
+    };
+  }
+
+  // Trash methods
+  async getTrash(organizationId: number): Promise<TrashItem[]> {
+    const deletedBy = { id: users.id, name: users.name, username: users.username };
+    
+    const [trashedPicas, trashedPeople, trashedDepartments, trashedSites] = await Promise.all([
+      db
+        .select({ record: picas, deletedBy })
         .from(picas)
-        .where(
-          and(
-            eq(picas.status, "overdue"),
-            eq(picas.projectSiteId, site.id)
-          )
-        );
-      
-      // If organizationId is provided, create new queries with additional conditions
-      if (organizationId) {
-        progressQuery = db
-          .select({ count: count() })
-          .from(picas)
-          .where(
-            and(
-              eq(picas.status, "progress"),
-              eq(picas.projectSiteId, site.id),
-              eq(picas.organizationId, organizationId)
-            )
-          );
-        
-        completeQuery = db
-          .select({ count: count() })
-          .from(picas)
-          .where(
-            and(
-              eq(picas.status, "complete"),
-              eq(picas.projectSiteId, site.id),
-              eq(picas.organizationId, organizationId)
-            )
-          );
-        
-        overdueQuery = db
-          .select({ count: count() })
-          .from(picas)
-          .where(
-            and(
-              eq(picas.status, "overdue"),
-              eq(picas.projectSiteId, site.id),
-              eq(picas.organizationId, organizationId)
-            )
-          );
+        .leftJoin(users, eq(picas.deletedById, users.id))
+        .where(and(eq(picas.organizationId, organizationId), isNotNull(picas.deletedAt))),
+      db
+        .select({ record: people, deletedBy })
+        .from(people)
+        .leftJoin(users, eq(people.deletedById, users.id))
+        .where(and(eq(people.organizationId, organizationId), isNotNull(people.deletedAt))),
+      db
+        .select({ record: departments, deletedBy })
+        .from(departments)
+        .leftJoin(users, eq(departments.deletedById, users.id))
+        .where(and(eq(departments.organizationId, organizationId), isNotNull(departments.deletedAt))),
+      db
+        .select({ record: projectSites, deletedBy })
+        .from(projectSites)
+        .leftJoin(users, eq(projectSites.deletedById, users.id))
+        .where(and(eq(projectSites.organizationId, organizationId), isNotNull(projectSites.deletedAt)))
+    ]);
+    
+    const items: TrashItem[] = [
+      ...trashedPicas.map(({ record, deletedBy }) => ({
+        type: "pica" as const, id: record.id, label: record.picaId, description: record.issue, deletedAt: record.deletedAt!, deletedBy
+      })),
+      ...trashedPeople.map(({ record, deletedBy }) => ({
+        type: "person" as const, id: record.id, label: record.name, description: record.email, deletedAt: record.deletedAt!, deletedBy
+      })),
+      ...trashedDepartments.map(({ record, deletedBy }) => ({
+        type: "department" as const, id: record.id, label: record.name, description: record.position || null, deletedAt: record.deletedAt!, deletedBy
+      })),
+      ...trashedSites.map(({ record, deletedBy }) => ({
+        type: "project_site" as const, id: record.id, label: record.code, description: record.name, deletedAt: record.deletedAt!, deletedBy
+      }))
+    ];
+    
+    // Most recently deleted first
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  // PICAs (including those in the trash) that point at a person or site and keep it from being purged
+  async countPicaReferences(type: "person" | "project_site", id: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(picas)
+      .where(type === "person" ? eq(picas.personInChargeId, id) : eq(picas.projectSiteId, id));
+    return result.count;
+  }
+
+  async restoreTrashItem(type: TrashItemType, id: number, userId: number): Promise<boolean> {
+    const restored = { deletedAt: null, deletedById: null };
+    
+    switch (type) {
+      case "pica":
+        return await db.transaction(async (tx) => {
+          const [restoredPica] = await tx
+            .update(picas)
+            .set(restored)
+            .where(and(eq(picas.id, id), isNotNull(picas.deletedAt)))
+            .returning();
+          if (!restoredPica) {
+            return false;
+          }
+          
+          await tx.insert(picaHistory).values({
+            picaId: id,
+            userId,
+            oldStatus: restoredPica.status,
+            newStatus: restoredPica.status,
+            comment: "Restored from the trash"
+          });
+          await recordPicaAudit(tx, "restore", null, restoredPica, userId);
+          return true;
+        });
+      case "person": {
+        const result = await db
+          .update(people)
+          .set(restored)
+          .where(and(eq(people.id, id), isNotNull(people.deletedAt)))
+          .returning({ id: people.id });
+        return result.length > 0;
+      }
+      case "department": {
+        const result = await db
+          .update(departments)
+          .set(restored)
+          .where(and(eq(departments.id, id), isNotNull(departments.deletedAt)))
+          .returning({ id: departments.id });
+        return result.length > 0;
+      }
+      case "project_site": {
+        const result = await db
+          .update(projectSites)
+          .set(restored)
+          .where(and(eq(projectSites.id, id), isNotNull(projectSites.deletedAt)))
+          .returning({ id: projectSites.id });
+        return result.length > 0;
       }
-      
-      const progressCount = await progressQuery;
-      const completeCount = await completeQuery;
-      const overdueCount = await overdueQuery;
-      
-      result.push({
-        site: site.code,
-        progress: progressCount[0].count,
-        complete: completeCount[0].count,
-        overdue: overdueCount[0].count
-      });
     }
-    
-    return result;
+  }
+
+  // Permanently delete an item in the trash. People and sites must no longer be referenced by any PICA
+  // (see countPicaReferences); other records still pointing at them make the delete fail with a foreign key violation.
+  async purgeTrashItem(type: TrashItemType, id: number, userId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      switch (type) {
+        case "pica": {
+          const [pica] = await tx
+            .select()
+            .from(picas)
+            .where(and(eq(picas.id, id), isNotNull(picas.deletedAt)))
+            .for("update");
+          if (!pica) {
+            return false;
+          }
+          
+          await deletePicaRecords(tx, id);
+          await recordPicaAudit(tx, "purge", pica, null, userId);
+          return true;
+        }
+        case "person": {
+          const [person] = await tx
+            .select()
+            .from(people)
+            .where(and(eq(people.id, id), isNotNull(people.deletedAt)))
+            .for("update");
+          if (!person) {
+            return false;
+          }
+          
+          // Departments and sites they headed are left without a head or manager
+          await tx.update(departments).set({ headId: null }).where(eq(departments.headId, id));
+          await tx.update(projectSites).set({ managerId: null }).where(eq(projectSites.managerId, id));
+          await tx.delete(people).where(eq(people.id, id));
+          return true;
+        }
+        case "department": {
+          const [department] = await tx
+            .select()
+            .from(departments)
+            .where(and(eq(departments.id, id), isNotNull(departments.deletedAt)))
+            .for("update");
+          if (!department) {
+            return false;
+          }
+          
+          // Only people in the trash can still belong to it
+          await tx.update(people).set({ departmentId: null }).where(eq(people.departmentId, id));
+          await tx.delete(departments).where(eq(departments.id, id));
+          return true;
+        }
+        case "project_site": {
+          const result = await tx
+            .delete(projectSites)
+            .where(and(eq(projectSites.id, id), isNotNull(projectSites.deletedAt)))
+            .returning({ id: projectSites.id });
+          return result.length > 0;
+        }
+      }
+    });
   }
 
   // PICA History methods
@@ -713,6 +1800,1934 @@ export class DatabaseStorage implements IStorage {
     return newHistory;
   }
 
+  // Workflow methods
+  async getWorkflow(organizationId: number): Promise<OrganizationWorkflow> {
+    const statuses = await db
+      .select()
+      .from(workflowStatuses)
+      .where(eq(workflowStatuses.organizationId, organizationId))
+      .orderBy(workflowStatuses.sortOrder, workflowStatuses.id);
+    
+    // Organizations that never customized their workflow use the default one
+    if (statuses.length === 0) {
+      return { ...DEFAULT_WORKFLOW, isDefault: true };
+    }
+    
+    const transitions = await db
+      .select()
+      .from(workflowTransitions)
+      .where(eq(workflowTransitions.organizationId, organizationId))
+      .orderBy(workflowTransitions.id);
+    
+    return {
+      statuses: statuses.map(status => ({
+        key: status.key,
+        label: status.label,
+        color: status.color as WorkflowColor,
+        category: status.category as PicaStatus,
+        isInitial: status.isInitial
+      })),
+      transitions: transitions.map(transition => ({
+        from: transition.fromStatus,
+        to: transition.toStatus,
+        allowedRoles: transition.allowedRoles as UserRole[],
+        requiresComment: transition.requiresComment
+      })),
+      isDefault: false
+    };
+  }
+
+  async replaceWorkflow(organizationId: number, workflow: WorkflowDefinition): Promise<OrganizationWorkflow> {
+    await db.transaction(async (tx) => {
+      await tx.delete(workflowTransitions).where(eq(workflowTransitions.organizationId, organizationId));
+      await tx.delete(workflowStatuses).where(eq(workflowStatuses.organizationId, organizationId));
+      
+      await tx.insert(workflowStatuses).values(
+        workflow.statuses.map((status, index) => ({
+          organizationId,
+          ...status,
+          sortOrder: index
+        }))
+      );
+      
+      if (workflow.transitions.length > 0) {
+        await tx.insert(workflowTransitions).values(
+          workflow.transitions.map(transition => ({
+            organizationId,
+            fromStatus: transition.from,
+            toStatus: transition.to,
+            allowedRoles: transition.allowedRoles,
+            requiresComment: transition.requiresComment
+          }))
+        );
+      }
+    });
+    
+    return await this.getWorkflow(organizationId);
+  }
+
+  async resetWorkflow(organizationId: number): Promise<OrganizationWorkflow> {
+    await db.transaction(async (tx) => {
+      await tx.delete(workflowTransitions).where(eq(workflowTransitions.organizationId, organizationId));
+      await tx.delete(workflowStatuses).where(eq(workflowStatuses.organizationId, organizationId));
+    });
+    
+    return await this.getWorkflow(organizationId);
+  }
+
+  async getPicaStatusesInUse(organizationId: number): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ status: picas.status })
+      .from(picas)
+      .where(eq(picas.organizationId, organizationId));
+    return rows.map(row => row.status);
+  }
+
+  // Risk matrix methods
+  async getRiskMatrix(organizationId: number | null): Promise<OrganizationRiskMatrix> {
+    const organization = organizationId ? await this.getOrganization(organizationId) : undefined;
+    if (!organization?.riskMatrix) {
+      return { ...DEFAULT_RISK_MATRIX, isDefault: true };
+    }
+    return { ...organization.riskMatrix, isDefault: false };
+  }
+
+  async replaceRiskMatrix(organizationId: number, matrix: RiskMatrix): Promise<OrganizationRiskMatrix> {
+    await this.saveRiskMatrix(organizationId, matrix);
+    return { ...matrix, isDefault: false };
+  }
+
+  async resetRiskMatrix(organizationId: number): Promise<OrganizationRiskMatrix> {
+    await this.saveRiskMatrix(organizationId, null);
+    return { ...DEFAULT_RISK_MATRIX, isDefault: true };
+  }
+
+  // Store the matrix and move every rated PICA of the organization to its level under it
+  private async saveRiskMatrix(organizationId: number, matrix: RiskMatrix | null) {
+    const levels = [...(matrix ?? DEFAULT_RISK_MATRIX).levels].sort((a, b) => b.minScore - a.minScore);
+    const levelCase = sql.join([
+      sql`case`,
+      ...levels.map(level => sql`when ${picas.riskScore} >= ${level.minScore} then ${level.key}`),
+      sql`end`
+    ], sql` `);
+    
+    await db.transaction(async (tx) => {
+      await tx
+        .update(organizations)
+        .set({ riskMatrix: matrix })
+        .where(eq(organizations.id, organizationId));
+      await tx
+        .update(picas)
+        .set({ riskLevel: levelCase })
+        .where(and(
+          eq(picas.organizationId, organizationId),
+          isNotNull(picas.riskScore)
+        ));
+    });
+  }
+
+  // Move a completed PICA back into progress, counting the reopening and recording why
+  async reopenPica(id: number, reopen: { reason: string; fromStatus: string; newStatus: string }, userId: number): Promise<Pica | undefined> {
+    return await db.transaction(async (tx) => applyReopen(tx, id, reopen, userId));
+  }
+
+  // Closure request methods
+  // Users and people are linked by email within the organization
+  async getPersonByEmail(organizationId: number, email: string): Promise<Person | undefined> {
+    const [person] = await db
+      .select()
+      .from(people)
+      .where(and(
+        eq(people.organizationId, organizationId),
+        sql`lower(${people.email}) = lower(${email})`,
+        isNull(people.deletedAt)
+      ));
+    return person || undefined;
+  }
+
+  // The site manager verifies closures and approves extensions, falling back to the head of
+  // the PIC's department. Nobody verifies their own PICA, and people in the trash verify nothing;
+  // without a verifier admins decide.
+  async resolvePicaVerifier(pica: Pica): Promise<Person | undefined> {
+    const projectSite = await this.getProjectSite(pica.projectSiteId);
+    if (projectSite?.managerId && projectSite.managerId !== pica.personInChargeId) {
+      const manager = await this.getPerson(projectSite.managerId);
+      if (manager && !manager.deletedAt) {
+        return manager;
+      }
+    }
+    
+    const personInCharge = await this.getPerson(pica.personInChargeId);
+    if (personInCharge?.departmentId) {
+      const department = await this.getDepartment(personInCharge.departmentId);
+      if (department?.headId && department.headId !== pica.personInChargeId) {
+        const head = await this.getPerson(department.headId);
+        if (head && !head.deletedAt) {
+          return head;
+        }
+      }
+    }
+    
+    return undefined;
+  }
+
+  async getClosureRequest(id: number): Promise<PicaClosureRequest | undefined> {
+    const [request] = await db.select().from(picaClosureRequests).where(eq(picaClosureRequests.id, id));
+    return request || undefined;
+  }
+
+  async getClosureRequestsForPica(picaId: number): Promise<PicaClosureRequestWithRelations[]> {
+    const requests = await db
+      .select()
+      .from(picaClosureRequests)
+      .where(eq(picaClosureRequests.picaId, picaId))
+      .orderBy(desc(picaClosureRequests.createdAt));
+    return await this.withClosureRelations(requests);
+  }
+
+  async getPendingClosureRequest(picaId: number): Promise<PicaClosureRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(picaClosureRequests)
+      .where(and(
+        eq(picaClosureRequests.picaId, picaId),
+        eq(picaClosureRequests.status, "pending")
+      ));
+    return request || undefined;
+  }
+
+  async createClosureRequest(
+    pica: Pica,
+    request: { completionNote: string; evidence: string; verifierId: number | null },
+    userId: number
+  ): Promise<PicaClosureRequest> {
+    return await db.transaction(async (tx) => {
+      const [closureRequest] = await tx
+        .insert(picaClosureRequests)
+        .values({
+          picaId: pica.id,
+          organizationId: pica.organizationId,
+          requestedById: userId,
+          ...request
+        })
+        .returning();
+      
+      // The status doesn't change until the closure is verified
+      await tx.insert(picaHistory).values({
+        picaId: pica.id,
+        userId,
+        oldStatus: pica.status,
+        newStatus: pica.status,
+        comment: `Closure requested: ${request.completionNote}`
+      });
+      
+      return closureRequest;
+    });
+  }
+
+  async decideClosureRequest(
+    id: number,
+    decision: { approved: boolean; reason?: string; newStatus: string },
+    userId: number
+  ): Promise<PicaClosureRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only a pending request can be decided, so concurrent decisions can't both apply
+      const [closureRequest] = await tx
+        .update(picaClosureRequests)
+        .set({
+          status: decision.approved ? "approved" : "rejected",
+          decidedById: userId,
+          decisionReason: decision.reason || null,
+          decidedAt: new Date()
+        })
+        .where(and(
+          eq(picaClosureRequests.id, id),
+          eq(picaClosureRequests.status, "pending")
+        ))
+        .returning();
+      
+      if (!closureRequest) {
+        return undefined;
+      }
+      
+      const [pica] = await tx.select().from(picas).where(eq(picas.id, closureRequest.picaId));
+      
+      const [updatedPica] = await tx
+        .update(picas)
+        .set({ status: decision.newStatus, updatedAt: new Date() })
+        .where(eq(picas.id, closureRequest.picaId))
+        .returning();
+      await recordPicaAudit(tx, "update", pica, updatedPica, userId);
+      
+      await tx.insert(picaHistory).values({
+        picaId: closureRequest.picaId,
+        userId,
+        oldStatus: pica.status,
+        newStatus: decision.newStatus,
+        comment: decision.approved
+          ? `Closure approved${decision.reason ? `: ${decision.reason}` : ""}`
+          : `Closure rejected: ${decision.reason}`
+      });
+      
+      // The closure's verifier also checks later whether the corrective action worked
+      if (decision.approved) {
+        await scheduleEffectivenessReviews(tx, updatedPica, closureRequest.verifierId);
+      }
+      
+      return closureRequest;
+    });
+  }
+
+  async getClosureQueue(
+    organizationId: number,
+    viewer: { userId: number; personId: number | null; isAdmin: boolean }
+  ): Promise<ClosureQueue> {
+    // Pending closures assigned to me; admins also pick up closures without a verifier
+    const assignedConditions: SQL[] = [];
+    if (viewer.personId) {
+      assignedConditions.push(eq(picaClosureRequests.verifierId, viewer.personId));
+    }
+    if (viewer.isAdmin) {
+      assignedConditions.push(isNull(picaClosureRequests.verifierId));
+    }
+    
+    const pending = assignedConditions.length > 0
+      ? await db
+          .select()
+          .from(picaClosureRequests)
+          .where(and(
+            eq(picaClosureRequests.organizationId, organizationId),
+            eq(picaClosureRequests.status, "pending"),
+            or(...assignedConditions)
+          ))
+          .orderBy(asc(picaClosureRequests.createdAt))
+      : [];
+    
+    // My rejected closures that haven't been resubmitted yet
+    const ownerConditions: SQL[] = [eq(picaClosureRequests.requestedById, viewer.userId)];
+    if (viewer.personId) {
+      ownerConditions.push(eq(picas.personInChargeId, viewer.personId));
+    }
+    
+    const rejected = await db
+      .select({ request: picaClosureRequests })
+      .from(picaClosureRequests)
+      .innerJoin(picas, eq(picaClosureRequests.picaId, picas.id))
+      .where(and(
+        eq(picaClosureRequests.organizationId, organizationId),
+        eq(picaClosureRequests.status, "rejected"),
+        or(...ownerConditions),
+        sql`not exists (
+          select 1 from ${picaClosureRequests} as later
+          where later.pica_id = ${picaClosureRequests.picaId} and later.created_at > ${picaClosureRequests.createdAt}
+        )`
+      ))
+      .orderBy(desc(picaClosureRequests.decidedAt));
+    
+    return {
+      pendingVerification: await this.withClosureRelations(pending),
+      rejected: await this.withClosureRelations(rejected.map(row => row.request))
+    };
+  }
+
+  private async withClosureRelations(requests: PicaClosureRequest[]): Promise<PicaClosureRequestWithRelations[]> {
+    const result: PicaClosureRequestWithRelations[] = [];
+    
+    for (const request of requests) {
+      const pica = await this.getPica(request.picaId);
+      if (!pica) {
+        continue;
+      }
+      
+      const projectSite = await this.getProjectSite(pica.projectSiteId);
+      const personInCharge = await this.getPerson(pica.personInChargeId);
+      if (!projectSite || !personInCharge) {
+        continue;
+      }
+      
+      result.push({
+        ...request,
+        pica: { ...pica, projectSite, personInCharge },
+        verifier: request.verifierId ? (await this.getPerson(request.verifierId)) ?? null : null,
+        requestedBy: toUserSummary(request.requestedById ? await this.getUser(request.requestedById) : undefined),
+        decidedBy: toUserSummary(request.decidedById ? await this.getUser(request.decidedById) : undefined)
+      });
+    }
+    
+    return result;
+  }
+
+  // Effectiveness review methods
+  async getEffectivenessCheckDays(organizationId: number): Promise<EffectivenessCheckSettings> {
+    const organization = await this.getOrganization(organizationId);
+    if (!organization?.effectivenessCheckDays) {
+      return { days: DEFAULT_EFFECTIVENESS_CHECK_DAYS, isDefault: true };
+    }
+    return { days: organization.effectivenessCheckDays, isDefault: false };
+  }
+
+  // Store the check days (null restores the default); PICAs already closed keep their scheduled reviews
+  async replaceEffectivenessCheckDays(organizationId: number, days: number[] | null): Promise<EffectivenessCheckSettings> {
+    const sortedDays = days ? [...days].sort((a, b) => a - b) : null;
+    await db
+      .update(organizations)
+      .set({ effectivenessCheckDays: sortedDays })
+      .where(eq(organizations.id, organizationId));
+    return sortedDays
+      ? { days: sortedDays, isDefault: false }
+      : { days: DEFAULT_EFFECTIVENESS_CHECK_DAYS, isDefault: true };
+  }
+
+  async getEffectivenessReview(id: number): Promise<PicaEffectivenessReview | undefined> {
+    const [review] = await db.select().from(picaEffectivenessReviews).where(eq(picaEffectivenessReviews.id, id));
+    return review || undefined;
+  }
+
+  async getEffectivenessReviewsForPica(picaId: number): Promise<PicaEffectivenessReviewWithRelations[]> {
+    const reviews = await db
+      .select()
+      .from(picaEffectivenessReviews)
+      .where(eq(picaEffectivenessReviews.picaId, picaId))
+      .orderBy(asc(picaEffectivenessReviews.dueDate), asc(picaEffectivenessReviews.id));
+    return await this.withEffectivenessRelations(reviews);
+  }
+
+  // Pending reviews that are due, assigned to me; admins also pick up reviews without a reviewer
+  async getDueEffectivenessReviews(
+    organizationId: number,
+    viewer: { personId: number | null; isAdmin: boolean },
+    today: string
+  ): Promise<PicaEffectivenessReviewWithRelations[]> {
+    const assignedConditions: SQL[] = [];
+    if (viewer.personId) {
+      assignedConditions.push(eq(picaEffectivenessReviews.reviewerId, viewer.personId));
+    }
+    if (viewer.isAdmin) {
+      assignedConditions.push(isNull(picaEffectivenessReviews.reviewerId));
+    }
+    if (assignedConditions.length === 0) {
+      return [];
+    }
+    
+    const reviews = await db
+      .select()
+      .from(picaEffectivenessReviews)
+      .where(and(
+        eq(picaEffectivenessReviews.organizationId, organizationId),
+        eq(picaEffectivenessReviews.status, "pending"),
+        lte(picaEffectivenessReviews.dueDate, today),
+        or(...assignedConditions)
+      ))
+      .orderBy(asc(picaEffectivenessReviews.dueDate), asc(picaEffectivenessReviews.id));
+    return await this.withEffectivenessRelations(reviews);
+  }
+
+  async decideEffectivenessReview(
+    review: PicaEffectivenessReview,
+    decision: EffectivenessDecision,
+    userId: number,
+    followUp: { reopen?: { fromStatus: string; newStatus: string }; newPica?: Omit<InsertPica, "picaId"> }
+  ): Promise<PicaEffectivenessReview | undefined> {
+    const matrix = followUp.newPica ? await this.getRiskMatrix(followUp.newPica.organizationId ?? null) : null;
+    const effective = decision.outcome === "effective";
+    const checkLabel = `${review.daysAfterClosure}-day effectiveness check`;
+    
+    return await db.transaction(async (tx) => {
+      // Only a pending review can be decided, so concurrent decisions can't both apply
+      const [decidedReview] = await tx
+        .update(picaEffectivenessReviews)
+        .set({
+          status: decision.outcome,
+          notes: decision.notes || null,
+          followUp: effective ? null : decision.followUp,
+          decidedById: userId,
+          decidedAt: new Date()
+        })
+        .where(and(
+          eq(picaEffectivenessReviews.id, review.id),
+          eq(picaEffectivenessReviews.status, "pending")
+        ))
+        .returning();
+      
+      if (!decidedReview) {
+        return undefined;
+      }
+      
+      const [pica] = await tx.select().from(picas).where(eq(picas.id, review.picaId));
+      
+      if (effective) {
+        await tx.insert(picaHistory).values({
+          picaId: pica.id,
+          userId,
+          oldStatus: pica.status,
+          newStatus: pica.status,
+          comment: `${checkLabel}: corrective action effective${decision.notes ? `: ${decision.notes}` : ""}`
+        });
+        return decidedReview;
+      }
+      
+      // An ineffective action ends the remaining checks of this closure
+      await tx
+        .update(picaEffectivenessReviews)
+        .set({ status: "cancelled" })
+        .where(and(
+          eq(picaEffectivenessReviews.picaId, pica.id),
+          eq(picaEffectivenessReviews.status, "pending")
+        ));
+      
+      if (followUp.reopen) {
+        await applyReopen(tx, pica.id, {
+          ...followUp.reopen,
+          reason: `${checkLabel} found the corrective action ineffective: ${decision.notes}`
+        }, userId);
+        return decidedReview;
+      }
+      
+      if (followUp.newPica && matrix) {
+        // Reserved after the review is claimed, so a decision that loses the race doesn't skip an ID
+        const reservation = await allocatePicaIds(tx, review.organizationId!, followUp.newPica.projectSiteId, followUp.newPica.date, 1);
+        if (!reservation) {
+          throw new Error(`Project site ${followUp.newPica.projectSiteId} not found`);
+        }
+        const [newPica] = await tx
+          .insert(picas)
+          .values({
+            ...followUp.newPica,
+            ...computeRisk(matrix, followUp.newPica.severity, followUp.newPica.likelihood),
+            picaId: reservation.picaIds[0]
+          })
+          .returning();
+        await recordPicaAudit(tx, "create", null, newPica, userId);
+        
+        await tx.insert(picaLinks).values({
+          organizationId: pica.organizationId,
+          sourcePicaId: newPica.id,
+          targetPicaId: pica.id,
+          linkType: "recurrence_of",
+          createdById: userId
+        });
+        await tx.insert(picaHistory).values([
+          {
+            picaId: newPica.id,
+            userId,
+            oldStatus: newPica.status,
+            newStatus: newPica.status,
+            comment: `Raised after the corrective action of ${pica.picaId} was found ineffective`
+          },
+          {
+            picaId: pica.id,
+            userId,
+            oldStatus: pica.status,
+            newStatus: pica.status,
+            comment: `${checkLabel}: corrective action ineffective, follow-up ${newPica.picaId} raised: ${decision.notes}`
+          }
+        ]);
+        
+        const [linkedReview] = await tx
+          .update(picaEffectivenessReviews)
+          .set({ followUpPicaId: newPica.id })
+          .where(eq(picaEffectivenessReviews.id, review.id))
+          .returning();
+        return linkedReview;
+      }
+      
+      return decidedReview;
+    });
+  }
+
+  // Decided effectiveness reviews per project site, by the PICAs' dates
+  async countEffectivenessBySite(organizationId: number, range?: PicaDateRange): Promise<EffectivenessStat[]> {
+    const picaConditions = this.picaStatsConditions(organizationId, range);
+    
+    const rows = await db
+      .select({
+        projectSiteId: projectSites.id,
+        site: projectSites.code,
+        effective: sql<number>`count(${picaEffectivenessReviews.id}) filter (where ${picaEffectivenessReviews.status} = 'effective')`.mapWith(Number),
+        ineffective: sql<number>`count(${picaEffectivenessReviews.id}) filter (where ${picaEffectivenessReviews.status} = 'ineffective')`.mapWith(Number),
+      })
+      .from(projectSites)
+      .leftJoin(picas, and(eq(picas.projectSiteId, projectSites.id), ...picaConditions))
+      .leftJoin(picaEffectivenessReviews, eq(picaEffectivenessReviews.picaId, picas.id))
+      .where(and(eq(projectSites.organizationId, organizationId), isNull(projectSites.deletedAt)))
+      .groupBy(projectSites.id, projectSites.code)
+      .orderBy(projectSites.code);
+    
+    return rows.map(row => {
+      const reviewed = row.effective + row.ineffective;
+      return { ...row, reviewed, rate: reviewed > 0 ? row.effective / reviewed : 0 };
+    });
+  }
+
+  private async withEffectivenessRelations(reviews: PicaEffectivenessReview[]): Promise<PicaEffectivenessReviewWithRelations[]> {
+    const result: PicaEffectivenessReviewWithRelations[] = [];
+    
+    for (const review of reviews) {
+      const pica = await this.getPica(review.picaId);
+      if (!pica) {
+        continue;
+      }
+      
+      const projectSite = await this.getProjectSite(pica.projectSiteId);
+      const personInCharge = await this.getPerson(pica.personInChargeId);
+      if (!projectSite || !personInCharge) {
+        continue;
+      }
+      
+      const followUpPica = review.followUpPicaId ? await this.getPica(review.followUpPicaId) : undefined;
+      
+      result.push({
+        ...review,
+        pica: { ...pica, projectSite, personInCharge },
+        reviewer: review.reviewerId ? (await this.getPerson(review.reviewerId)) ?? null : null,
+        decidedBy: toUserSummary(review.decidedById ? await this.getUser(review.decidedById) : undefined),
+        followUpPica: followUpPica
+          ? {
+              id: followUpPica.id,
+              picaId: followUpPica.picaId,
+              issue: followUpPica.issue,
+              status: followUpPica.status,
+              date: followUpPica.date,
+              projectSiteId: followUpPica.projectSiteId
+            }
+          : null
+      });
+    }
+    
+    return result;
+  }
+
+  // Due date extension methods
+  async getExtensionRequest(id: number): Promise<PicaDueDateExtension | undefined> {
+    const [request] = await db.select().from(picaDueDateExtensions).where(eq(picaDueDateExtensions.id, id));
+    return request || undefined;
+  }
+
+  async getExtensionRequestsForPica(picaId: number): Promise<PicaDueDateExtensionWithRelations[]> {
+    const requests = await db
+      .select()
+      .from(picaDueDateExtensions)
+      .where(eq(picaDueDateExtensions.picaId, picaId))
+      .orderBy(desc(picaDueDateExtensions.createdAt));
+    return await this.withExtensionRelations(requests);
+  }
+
+  async getPendingExtensionRequest(picaId: number): Promise<PicaDueDateExtension | undefined> {
+    const [request] = await db
+      .select()
+      .from(picaDueDateExtensions)
+      .where(and(
+        eq(picaDueDateExtensions.picaId, picaId),
+        eq(picaDueDateExtensions.status, "pending")
+      ));
+    return request || undefined;
+  }
+
+  async createExtensionRequest(
+    pica: Pica,
+    request: { requestedDueDate: string; justification: string; approverId: number | null },
+    userId: number
+  ): Promise<PicaDueDateExtension> {
+    return await db.transaction(async (tx) => {
+      const [extension] = await tx
+        .insert(picaDueDateExtensions)
+        .values({
+          picaId: pica.id,
+          organizationId: pica.organizationId,
+          requestedById: userId,
+          previousDueDate: pica.dueDate,
+          ...request
+        })
+        .returning();
+      
+      // The due date doesn't change until the extension is approved
+      await tx.insert(picaHistory).values({
+        picaId: pica.id,
+        userId,
+        oldStatus: pica.status,
+        newStatus: pica.status,
+        comment: `Due date extension to ${request.requestedDueDate} requested: ${request.justification}`
+      });
+      
+      return extension;
+    });
+  }
+
+  async decideExtensionRequest(
+    id: number,
+    decision: { approved: boolean; reason?: string; newStatus?: string },
+    userId: number
+  ): Promise<PicaDueDateExtension | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only a pending request can be decided, so concurrent decisions can't both apply
+      const [extension] = await tx
+        .update(picaDueDateExtensions)
+        .set({
+          status: decision.approved ? "approved" : "rejected",
+          decidedById: userId,
+          decisionReason: decision.reason || null,
+          decidedAt: new Date()
+        })
+        .where(and(
+          eq(picaDueDateExtensions.id, id),
+          eq(picaDueDateExtensions.status, "pending")
+        ))
+        .returning();
+      
+      if (!extension) {
+        return undefined;
+      }
+      
+      const [pica] = await tx.select().from(picas).where(eq(picas.id, extension.picaId)).for("update");
+      const newStatus = decision.newStatus ?? pica.status;
+      
+      if (decision.approved) {
+        // Keep the due date the PICA started with and count the revision
+        const [updatedPica] = await tx
+          .update(picas)
+          .set({
+            dueDate: extension.requestedDueDate,
+            originalDueDate: pica.originalDueDate ?? pica.dueDate,
+            extensionCount: pica.extensionCount + 1,
+            status: newStatus,
+            updatedAt: new Date()
+          })
+          .where(eq(picas.id, extension.picaId))
+          .returning();
+        await recordPicaAudit(tx, "update", pica, updatedPica, userId);
+      }
+      
+      await tx.insert(picaHistory).values({
+        picaId: extension.picaId,
+        userId,
+        oldStatus: pica.status,
+        newStatus,
+        comment: decision.approved
+          ? `Due date extended from ${pica.dueDate} to ${extension.requestedDueDate}${decision.reason ? `: ${decision.reason}` : ""}`
+          : `Due date extension rejected: ${decision.reason}`
+      });
+      
+      return extension;
+    });
+  }
+
+  async getPendingExtensionApprovals(
+    organizationId: number,
+    viewer: { personId: number | null; isAdmin: boolean }
+  ): Promise<PicaDueDateExtensionWithRelations[]> {
+    // Pending extensions assigned to me; admins also pick up extensions without an approver
+    const assignedConditions: SQL[] = [];
+    if (viewer.personId) {
+      assignedConditions.push(eq(picaDueDateExtensions.approverId, viewer.personId));
+    }
+    if (viewer.isAdmin) {
+      assignedConditions.push(isNull(picaDueDateExtensions.approverId));
+    }
+    if (assignedConditions.length === 0) {
+      return [];
+    }
+    
+    const pending = await db
+      .select()
+      .from(picaDueDateExtensions)
+      .where(and(
+        eq(picaDueDateExtensions.organizationId, organizationId),
+        eq(picaDueDateExtensions.status, "pending"),
+        or(...assignedConditions)
+      ))
+      .orderBy(asc(picaDueDateExtensions.createdAt));
+    return await this.withExtensionRelations(pending);
+  }
+
+  private async withExtensionRelations(requests: PicaDueDateExtension[]): Promise<PicaDueDateExtensionWithRelations[]> {
+    const result: PicaDueDateExtensionWithRelations[] = [];
+    
+    for (const request of requests) {
+      const pica = await this.getPica(request.picaId);
+      if (!pica) {
+        continue;
+      }
+      
+      const projectSite = await this.getProjectSite(pica.projectSiteId);
+      const personInCharge = await this.getPerson(pica.personInChargeId);
+      if (!projectSite || !personInCharge) {
+        continue;
+      }
+      
+      result.push({
+        ...request,
+        pica: { ...pica, projectSite, personInCharge },
+        approver: request.approverId ? (await this.getPerson(request.approverId)) ?? null : null,
+        requestedBy: toUserSummary(request.requestedById ? await this.getUser(request.requestedById) : undefined),
+        decidedBy: toUserSummary(request.decidedById ? await this.getUser(request.decidedById) : undefined)
+      });
+    }
+    
+    return result;
+  }
+
+  // Root cause analysis methods
+  async getRootCauseAnalysis(picaId: number): Promise<PicaRootCauseAnalysisWithFactors | undefined> {
+    const [analysis] = await db
+      .select()
+      .from(picaRootCauseAnalyses)
+      .where(eq(picaRootCauseAnalyses.picaId, picaId));
+    if (!analysis) {
+      return undefined;
+    }
+    
+    const factors = await db
+      .select({
+        id: picaRootCauseFactors.id,
+        category: picaRootCauseFactors.category,
+        description: picaRootCauseFactors.description
+      })
+      .from(picaRootCauseFactors)
+      .where(eq(picaRootCauseFactors.analysisId, analysis.id))
+      .orderBy(asc(picaRootCauseFactors.sortOrder), asc(picaRootCauseFactors.id));
+    
+    return {
+      ...analysis,
+      factors,
+      updatedBy: toUserSummary(analysis.updatedById ? await this.getUser(analysis.updatedById) : undefined)
+    };
+  }
+
+  async saveRootCauseAnalysis(pica: Pica, analysis: RootCauseAnalysisInput, userId: number): Promise<PicaRootCauseAnalysisWithFactors> {
+    // The analysis is saved as a whole: its row is upserted and its causes replaced
+    await db.transaction(async (tx) => {
+      const values = {
+        whys: analysis.whys,
+        rootCause: analysis.rootCause || null,
+        updatedById: userId,
+        updatedAt: new Date()
+      };
+      const [saved] = await tx
+        .insert(picaRootCauseAnalyses)
+        .values({ picaId: pica.id, organizationId: pica.organizationId, ...values })
+        .onConflictDoUpdate({ target: picaRootCauseAnalyses.picaId, set: values })
+        .returning();
+      
+      await tx
+        .delete(picaRootCauseFactors)
+        .where(eq(picaRootCauseFactors.analysisId, saved.id));
+      if (analysis.factors.length > 0) {
+        await tx.insert(picaRootCauseFactors).values(analysis.factors.map((factor, index) => ({
+          analysisId: saved.id,
+          picaId: pica.id,
+          organizationId: pica.organizationId,
+          category: factor.category,
+          description: factor.description,
+          sortOrder: index
+        })));
+      }
+    });
+    
+    return (await this.getRootCauseAnalysis(pica.id))!;
+  }
+
+  // Number of PICAs citing each fishbone category, per project site
+  async countRootCauseCategoriesBySite(organizationId: number, range?: PicaDateRange): Promise<RootCauseCategoryStat[]> {
+    const rows = await db
+      .select({
+        category: picaRootCauseFactors.category,
+        projectSiteId: projectSites.id,
+        site: projectSites.code,
+        picaCount: countDistinct(picaRootCauseFactors.picaId),
+      })
+      .from(picaRootCauseFactors)
+      .innerJoin(picas, eq(picaRootCauseFactors.picaId, picas.id))
+      .innerJoin(projectSites, eq(picas.projectSiteId, projectSites.id))
+      .where(and(...this.picaStatsConditions(organizationId, range)))
+      .groupBy(picaRootCauseFactors.category, projectSites.id, projectSites.code)
+      .orderBy(projectSites.code);
+    
+    return rows.map(row => ({ ...row, category: row.category as FishboneCategory }));
+  }
+
+  // Action item methods
+  async getActionItem(id: number): Promise<PicaActionItem | undefined> {
+    const [item] = await db.select().from(picaActionItems).where(eq(picaActionItems.id, id));
+    return item || undefined;
+  }
+
+  async getActionItemsForPica(picaId: number): Promise<PicaActionItemWithOwner[]> {
+    const rows = await db
+      .select({ item: picaActionItems, owner: people })
+      .from(picaActionItems)
+      .leftJoin(people, eq(picaActionItems.ownerId, people.id))
+      .where(eq(picaActionItems.picaId, picaId))
+      .orderBy(asc(picaActionItems.sortOrder), asc(picaActionItems.id));
+    return rows.map(({ item, owner }) => ({ ...item, owner }));
+  }
+
+  async createActionItem(pica: Pica, item: ActionItemInput, userId: number): Promise<PicaActionItem> {
+    // The action item, the PICA roll-up and the history note are written together
+    return await db.transaction(async (tx) => {
+      const [{ sortOrder }] = await tx
+        .select({ sortOrder: sql<number>`coalesce(max(${picaActionItems.sortOrder}) + 1, 0)`.mapWith(Number) })
+        .from(picaActionItems)
+        .where(eq(picaActionItems.picaId, pica.id));
+      
+      const [newItem] = await tx
+        .insert(picaActionItems)
+        .values({
+          ...item,
+          picaId: pica.id,
+          organizationId: pica.organizationId,
+          sortOrder,
+          createdById: userId
+        })
+        .returning();
+      
+      await rollUpActionItems(tx, pica.id);
+      await tx.insert(picaHistory).values({
+        picaId: pica.id,
+        userId,
+        oldStatus: pica.status,
+        newStatus: pica.status,
+        comment: `Action added (${item.type}, due ${item.dueDate}): ${item.description}`
+      });
+      
+      return newItem;
+    });
+  }
+
+  async updateActionItem(id: number, update: ActionItemUpdate, userId: number): Promise<PicaActionItem | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentItem] = await tx.select().from(picaActionItems).where(eq(picaActionItems.id, id)).for("update");
+      if (!currentItem) {
+        return undefined;
+      }
+      
+      const { status, progress } = resolveActionItemProgress(currentItem, update);
+      const [updatedItem] = await tx
+        .update(picaActionItems)
+        .set({
+          ...update,
+          status,
+          progress,
+          // Keep the first completion time while an action stays done
+          completedAt: status === "done" ? currentItem.completedAt ?? new Date() : null,
+          updatedAt: new Date()
+        })
+        .where(eq(picaActionItems.id, id))
+        .returning();
+      
+      await rollUpActionItems(tx, currentItem.picaId);
+      
+      // Completing or reopening an action is noted in the PICA history
+      if (status !== currentItem.status && (status === "done" || currentItem.status === "done")) {
+        const [pica] = await tx.select().from(picas).where(eq(picas.id, currentItem.picaId));
+        await tx.insert(picaHistory).values({
+          picaId: currentItem.picaId,
+          userId,
+          oldStatus: pica.status,
+          newStatus: pica.status,
+          comment: `Action ${status === "done" ? "completed" : "reopened"} (${updatedItem.type}): ${updatedItem.description}`
+        });
+      }
+      
+      return updatedItem;
+    });
+  }
+
+  async deleteActionItem(id: number, userId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deletedItem] = await tx
+        .delete(picaActionItems)
+        .where(eq(picaActionItems.id, id))
+        .returning();
+      if (!deletedItem) {
+        return false;
+      }
+      
+      await rollUpActionItems(tx, deletedItem.picaId);
+      const [pica] = await tx.select().from(picas).where(eq(picas.id, deletedItem.picaId));
+      await tx.insert(picaHistory).values({
+        picaId: deletedItem.picaId,
+        userId,
+        oldStatus: pica.status,
+        newStatus: pica.status,
+        comment: `Action removed (${deletedItem.type}): ${deletedItem.description}`
+      });
+      
+      return true;
+    });
+  }
+
+  // PICA link methods
+  async getPicaLinks(picaId: number): Promise<PicaLinkWithPica[]> {
+    const linkedPica = {
+      id: picas.id,
+      picaId: picas.picaId,
+      issue: picas.issue,
+      status: picas.status,
+      date: picas.date,
+      projectSiteId: picas.projectSiteId
+    };
+    
+    const outgoing = await db
+      .select({ link: picaLinks, linkedPica })
+      .from(picaLinks)
+      .innerJoin(picas, eq(picaLinks.targetPicaId, picas.id))
+      .where(and(eq(picaLinks.sourcePicaId, picaId), isNull(picas.deletedAt)));
+    const incoming = await db
+      .select({ link: picaLinks, linkedPica })
+      .from(picaLinks)
+      .innerJoin(picas, eq(picaLinks.sourcePicaId, picas.id))
+      .where(and(eq(picaLinks.targetPicaId, picaId), isNull(picas.deletedAt)));
+    
+    return [
+      ...outgoing.map(({ link, linkedPica }) => ({ ...link, direction: "outgoing" as const, linkedPica })),
+      ...incoming.map(({ link, linkedPica }) => ({ ...link, direction: "incoming" as const, linkedPica }))
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getPicaLink(id: number): Promise<PicaLink | undefined> {
+    const [link] = await db.select().from(picaLinks).where(eq(picaLinks.id, id));
+    return link || undefined;
+  }
+
+  async createPicaLink(link: PicaLinkInput & { sourcePicaId: number; organizationId: number; createdById: number }): Promise<PicaLink> {
+    return await db.transaction(async (tx) => {
+      return await insertPicaLink(tx, link);
+    });
+  }
+
+  async deletePicaLink(id: number): Promise<boolean> {
+    const result = await db
+      .delete(picaLinks)
+      .where(eq(picaLinks.id, id))
+      .returning({ id: picaLinks.id });
+    return result.length > 0;
+  }
+
+  // PICAs at a site whose issue text resembles the given one, most similar first
+  async findSimilarPicas(organizationId: number, projectSiteId: number, issue: string, excludePicaId?: number): Promise<SimilarPica[]> {
+    const conditions: SQL[] = [
+      eq(picas.organizationId, organizationId),
+      eq(picas.projectSiteId, projectSiteId),
+      isNull(picas.deletedAt)
+    ];
+    if (excludePicaId) {
+      conditions.push(sql`${picas.id} <> ${excludePicaId}`);
+    }
+    
+    const candidates = await db
+      .select({
+        id: picas.id,
+        picaId: picas.picaId,
+        issue: picas.issue,
+        status: picas.status,
+        date: picas.date,
+        projectSiteId: picas.projectSiteId
+      })
+      .from(picas)
+      .where(and(...conditions));
+    
+    return candidates
+      .map(candidate => ({ ...candidate, similarity: issueSimilarity(issue, candidate.issue) }))
+      .filter(candidate => candidate.similarity >= SIMILAR_ISSUE_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 5);
+  }
+
+  // Per site: PICAs in the range and how many of them are linked as a recurrence of an earlier PICA
+  async countRepeatFindingsBySite(organizationId: number, range?: PicaDateRange): Promise<RepeatFindingStat[]> {
+    const picaConditions = this.picaStatsConditions(organizationId, range);
+    
+    const rows = await db
+      .select({
+        projectSiteId: projectSites.id,
+        site: projectSites.code,
+        total: count(picas.id),
+        repeats: sql<number>`count(${picas.id}) filter (where exists (
+          select 1 from ${picaLinks}
+          where ${picaLinks.sourcePicaId} = ${picas.id} and ${picaLinks.linkType} = 'recurrence_of'
+        ))`.mapWith(Number),
+      })
+      .from(projectSites)
+      .leftJoin(picas, and(eq(picas.projectSiteId, projectSites.id), ...picaConditions))
+      .where(and(eq(projectSites.organizationId, organizationId), isNull(projectSites.deletedAt)))
+      .groupBy(projectSites.id, projectSites.code)
+      .orderBy(projectSites.code);
+    
+    return rows.map(row => ({ ...row, rate: row.total > 0 ? row.repeats / row.total : 0 }));
+  }
+
+  // PICA template methods
+  async getPicaTemplates(organizationId: number): Promise<PicaTemplate[]> {
+    return await db
+      .select()
+      .from(picaTemplates)
+      .where(eq(picaTemplates.organizationId, organizationId))
+      .orderBy(asc(picaTemplates.name));
+  }
+
+  async getPicaTemplate(id: number): Promise<PicaTemplate | undefined> {
+    const [template] = await db.select().from(picaTemplates).where(eq(picaTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createPicaTemplate(template: PicaTemplateInput & { organizationId: number; createdById: number }): Promise<PicaTemplate> {
+    const [newTemplate] = await db
+      .insert(picaTemplates)
+      .values(template)
+      .returning();
+    return newTemplate;
+  }
+
+  async updatePicaTemplate(id: number, template: PicaTemplateInput): Promise<PicaTemplate | undefined> {
+    const [updatedTemplate] = await db
+      .update(picaTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(picaTemplates.id, id))
+      .returning();
+    return updatedTemplate || undefined;
+  }
+
+  async deletePicaTemplate(id: number): Promise<boolean> {
+    const result = await db
+      .delete(picaTemplates)
+      .where(eq(picaTemplates.id, id))
+      .returning({ id: picaTemplates.id });
+    return result.length > 0;
+  }
+
+  async countSchedulesForTemplate(templateId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(picaRecurrenceSchedules)
+      .where(eq(picaRecurrenceSchedules.templateId, templateId));
+    return result.count;
+  }
+
+  // Recurrence schedule methods
+  async getRecurrenceSchedules(organizationId: number): Promise<PicaRecurrenceScheduleWithRelations[]> {
+    const rows = await db
+      .select({
+        schedule: picaRecurrenceSchedules,
+        template: picaTemplates,
+        projectSite: projectSites,
+        personInCharge: people,
+        generatedCount: sql<number>`(
+          select count(*) from ${picas} where ${picas.recurrenceScheduleId} = ${picaRecurrenceSchedules.id}
+        )`.mapWith(Number),
+      })
+      .from(picaRecurrenceSchedules)
+      .innerJoin(picaTemplates, eq(picaRecurrenceSchedules.templateId, picaTemplates.id))
+      .innerJoin(projectSites, eq(picaRecurrenceSchedules.projectSiteId, projectSites.id))
+      .leftJoin(people, eq(picaRecurrenceSchedules.personInChargeId, people.id))
+      .where(eq(picaRecurrenceSchedules.organizationId, organizationId))
+      .orderBy(projectSites.code, asc(picaRecurrenceSchedules.nextRunDate));
+    
+    return rows.map(({ schedule, ...relations }) => ({ ...schedule, ...relations }));
+  }
+
+  async getRecurrenceSchedule(id: number): Promise<PicaRecurrenceSchedule | undefined> {
+    const [schedule] = await db.select().from(picaRecurrenceSchedules).where(eq(picaRecurrenceSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async createRecurrenceSchedule(
+    schedule: RecurrenceScheduleInput & { organizationId: number; createdById: number; nextRunDate: string | null }
+  ): Promise<PicaRecurrenceSchedule> {
+    const [newSchedule] = await db
+      .insert(picaRecurrenceSchedules)
+      .values(schedule)
+      .returning();
+    return newSchedule;
+  }
+
+  async updateRecurrenceSchedule(
+    id: number,
+    schedule: RecurrenceScheduleUpdate & { nextRunDate?: string | null }
+  ): Promise<PicaRecurrenceSchedule | undefined> {
+    const [updatedSchedule] = await db
+      .update(picaRecurrenceSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(picaRecurrenceSchedules.id, id))
+      .returning();
+    return updatedSchedule || undefined;
+  }
+
+  async deleteRecurrenceSchedule(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Generated PICAs stay; they just lose the link to their schedule
+      await tx
+        .update(picas)
+        .set({ recurrenceScheduleId: null })
+        .where(eq(picas.recurrenceScheduleId, id));
+      const result = await tx
+        .delete(picaRecurrenceSchedules)
+        .where(eq(picaRecurrenceSchedules.id, id))
+        .returning({ id: picaRecurrenceSchedules.id });
+      return result.length > 0;
+    });
+  }
+
+  // Active schedules, across all organizations, whose next occurrence has arrived
+  async getDueRecurrenceSchedules(today: string): Promise<PicaRecurrenceSchedule[]> {
+    return await db
+      .select()
+      .from(picaRecurrenceSchedules)
+      .where(and(
+        eq(picaRecurrenceSchedules.isPaused, false),
+        lte(picaRecurrenceSchedules.nextRunDate, today)
+      ))
+      .orderBy(asc(picaRecurrenceSchedules.nextRunDate));
+  }
+
+  async createScheduledPica(schedule: PicaRecurrenceSchedule, pica: Omit<InsertPica, "picaId">, nextRunDate: string | null): Promise<Pica | undefined> {
+    const matrix = await this.getRiskMatrix(pica.organizationId ?? null);
+    return await db.transaction(async (tx) => {
+      // Claim the run: a schedule that was paused, edited or already run in the meantime is left alone
+      const [claimed] = await tx
+        .update(picaRecurrenceSchedules)
+        .set({ nextRunDate, lastRunAt: new Date() })
+        .where(and(
+          eq(picaRecurrenceSchedules.id, schedule.id),
+          eq(picaRecurrenceSchedules.isPaused, false),
+          eq(picaRecurrenceSchedules.nextRunDate, schedule.nextRunDate!)
+        ))
+        .returning();
+      if (!claimed) {
+        return undefined;
+      }
+      
+      // The ID is reserved only once the run is claimed, so a run lost to another instance doesn't skip one
+      const reservation = await allocatePicaIds(tx, claimed.organizationId!, pica.projectSiteId, pica.date, 1);
+      if (!reservation) {
+        throw new Error(`Project site ${pica.projectSiteId} not found`);
+      }
+      
+      const [newPica] = await tx
+        .insert(picas)
+        .values({
+          ...pica,
+          ...computeRisk(matrix, pica.severity, pica.likelihood),
+          picaId: reservation.picaIds[0],
+          recurrenceScheduleId: schedule.id
+        })
+        .returning();
+      await recordPicaAudit(tx, "create", null, newPica, null);
+      await tx.insert(picaHistory).values({
+        picaId: newPica.id,
+        userId: null,
+        oldStatus: newPica.status,
+        newStatus: newPica.status,
+        comment: `Generated by the ${schedule.frequency} recurrence schedule`
+      });
+      
+      return newPica;
+    });
+  }
+
+  // Attachment methods
+  async getAttachment(id: number): Promise<PicaAttachment | undefined> {
+    const [attachment] = await db.select().from(picaAttachments).where(eq(picaAttachments.id, id));
+    return attachment || undefined;
+  }
+
+  async getAttachmentsForPica(picaId: number): Promise<PicaAttachmentWithUploader[]> {
+    const rows = await db
+      .select({
+        attachment: picaAttachments,
+        uploadedBy: { id: users.id, name: users.name, username: users.username }
+      })
+      .from(picaAttachments)
+      .leftJoin(users, eq(picaAttachments.uploadedById, users.id))
+      .where(eq(picaAttachments.picaId, picaId))
+      .orderBy(desc(picaAttachments.createdAt));
+    return rows.map(({ attachment, uploadedBy }) => ({ ...attachment, uploadedBy }));
+  }
+
+  async createAttachments(attachmentList: InsertPicaAttachment[]): Promise<PicaAttachment[]> {
+    if (attachmentList.length === 0) {
+      return [];
+    }
+    return await db.insert(picaAttachments).values(attachmentList).returning();
+  }
+
+  async deleteAttachment(id: number): Promise<boolean> {
+    const result = await db
+      .delete(picaAttachments)
+      .where(eq(picaAttachments.id, id))
+      .returning({ id: picaAttachments.id });
+    return result.length > 0;
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<PicaComment | undefined> {
+    const [comment] = await db.select().from(picaComments).where(eq(picaComments.id, id));
+    return comment || undefined;
+  }
+
+  async getCommentsForPica(picaId: number): Promise<PicaCommentWithAuthor[]> {
+    const rows = await db
+      .select({
+        comment: picaComments,
+        author: { id: users.id, name: users.name, username: users.username }
+      })
+      .from(picaComments)
+      .leftJoin(users, eq(picaComments.userId, users.id))
+      .where(eq(picaComments.picaId, picaId))
+      .orderBy(asc(picaComments.createdAt), asc(picaComments.id));
+    
+    // Deleted comments keep their place in the thread but not their text
+    return rows.map(({ comment, author }) => comment.deletedAt
+      ? { ...comment, body: "", mentionedUserIds: [], author }
+      : { ...comment, author });
+  }
+
+  async createComment(comment: InsertPicaComment): Promise<PicaComment> {
+    return await db.transaction(async (tx) => {
+      const [newComment] = await tx
+        .insert(picaComments)
+        .values(comment)
+        .returning();
+      await this.notifyComment(tx, newComment, true);
+      return newComment;
+    });
+  }
+
+  async updateComment(id: number, comment: { body: string; mentionedUserIds: number[] }): Promise<PicaComment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedComment] = await tx
+        .update(picaComments)
+        .set({ ...comment, updatedAt: new Date() })
+        .where(and(eq(picaComments.id, id), isNull(picaComments.deletedAt)))
+        .returning();
+      if (!updatedComment) {
+        return undefined;
+      }
+      await this.notifyComment(tx, updatedComment, false);
+      return updatedComment;
+    });
+  }
+
+  // Tell the person in charge about a new comment and mentioned users about the comment mentioning them.
+  // Mentions are raised once per comment, so an edit only notifies users it newly mentions.
+  private async notifyComment(executor: DbExecutor, comment: PicaComment, isNew: boolean): Promise<void> {
+    const [pica] = await executor.select().from(picas).where(eq(picas.id, comment.picaId));
+    if (!pica) {
+      return;
+    }
+    
+    const [author] = await executor.select({ name: users.name }).from(users).where(eq(users.id, comment.userId));
+    const authorName = author?.name ?? "Someone";
+    
+    await createNotifications(
+      executor,
+      comment.mentionedUserIds,
+      pica,
+      "mention",
+      `${authorName} mentioned you on ${pica.picaId}`,
+      comment.userId,
+      `mention:${comment.id}`
+    );
+    
+    if (isNew) {
+      // Mentioned users already got a notification for this comment
+      const personInChargeUserIds = await getUserIdsForPerson(executor, pica.personInChargeId);
+      await createNotifications(
+        executor,
+        personInChargeUserIds.filter(id => !comment.mentionedUserIds.includes(id)),
+        pica,
+        "comment",
+        `${authorName} commented on ${pica.picaId}`,
+        comment.userId
+      );
+    }
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    const result = await db
+      .update(picaComments)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(picaComments.id, id), isNull(picaComments.deletedAt)))
+      .returning({ id: picaComments.id });
+    return result.length > 0;
+  }
+
+  // Audit log methods
+  private auditEntryColumns() {
+    return {
+      entry: picaAuditLog,
+      user: { id: users.id, name: users.name, username: users.username }
+    };
+  }
+
+  async getPicaAuditTrail(picaId: number): Promise<PicaAuditEntryWithUser[]> {
+    const rows = await db
+      .select(this.auditEntryColumns())
+      .from(picaAuditLog)
+      .leftJoin(users, eq(picaAuditLog.userId, users.id))
+      .where(eq(picaAuditLog.picaId, picaId))
+      .orderBy(desc(picaAuditLog.createdAt), desc(picaAuditLog.id));
+    return rows.map(({ entry, user }) => ({ ...entry, user }));
+  }
+
+  async queryPicaAuditLog(organizationId: number, query: PicaAuditQuery): Promise<{ items: PicaAuditEntryWithUser[]; total: number }> {
+    const conditions: SQL[] = [eq(picaAuditLog.organizationId, organizationId)];
+    
+    if (query.userId) {
+      conditions.push(eq(picaAuditLog.userId, query.userId));
+    }
+    if (query.picaId) {
+      conditions.push(eq(picaAuditLog.picaId, query.picaId));
+    }
+    if (query.action) {
+      conditions.push(eq(picaAuditLog.action, query.action));
+    }
+    if (query.dateFrom) {
+      conditions.push(gte(picaAuditLog.createdAt, sql`${query.dateFrom}::date`));
+    }
+    if (query.dateTo) {
+      // Inclusive end date
+      conditions.push(lt(picaAuditLog.createdAt, sql`${query.dateTo}::date + interval '1 day'`));
+    }
+    
+    const where = and(...conditions);
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select(this.auditEntryColumns())
+        .from(picaAuditLog)
+        .leftJoin(users, eq(picaAuditLog.userId, users.id))
+        .where(where)
+        .orderBy(desc(picaAuditLog.createdAt), desc(picaAuditLog.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ total: count() }).from(picaAuditLog).where(where)
+    ]);
+    
+    return {
+      items: rows.map(({ entry, user }) => ({ ...entry, user })),
+      total
+    };
+  }
+
+  // Email notification methods
+  async getNotificationSettings(organizationId: number): Promise<OrganizationNotificationSettings> {
+    const organization = await this.getOrganization(organizationId);
+    if (!organization?.notificationSettings) {
+      return { ...DEFAULT_NOTIFICATION_SETTINGS, isDefault: true };
+    }
+    return { ...organization.notificationSettings, isDefault: false };
+  }
+
+  // Store the settings (null restores the default); emails already queued are still sent
+  async replaceNotificationSettings(organizationId: number, settings: NotificationSettings | null): Promise<OrganizationNotificationSettings> {
+    await db
+      .update(organizations)
+      .set({ notificationSettings: settings })
+      .where(eq(organizations.id, organizationId));
+    return settings
+      ? { ...settings, isDefault: false }
+      : { ...DEFAULT_NOTIFICATION_SETTINGS, isDefault: true };
+  }
+
+  // Progress-category PICAs outside the trash due within the date range, for due date reminders
+  async getOpenPicasDueBetween(from: string, to: string): Promise<Pica[]> {
+    return await db
+      .select()
+      .from(picas)
+      .where(and(
+        sql`${picaStatusCategory} = 'progress'`,
+        gte(picas.dueDate, from),
+        lte(picas.dueDate, to),
+        isNull(picas.deletedAt)
+      ))
+      .orderBy(asc(picas.dueDate));
+  }
+
+  // Queue emails; entries whose dedupe key was already queued are skipped
+  async enqueueEmails(entries: InsertEmailOutboxEntry[]): Promise<EmailOutboxEntry[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(emailOutbox)
+      .values(entries)
+      .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+      .returning();
+  }
+
+  // Pending emails whose next attempt is due, oldest first
+  async getDueEmails(limit: number): Promise<EmailOutboxEntry[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(emailOutbox.nextAttemptAt), asc(emailOutbox.id))
+      .limit(limit);
+  }
+
+  async markEmailSent(id: number): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: "sent",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: null,
+        sentAt: new Date()
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Record a failed attempt; without a next attempt the email is given up on
+  async markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: nextAttemptAt ? "pending" : "failed",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: error,
+        ...(nextAttemptAt ? { nextAttemptAt } : {})
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // The organization's most recent emails, newest first
+  async getEmailOutbox(organizationId: number, status?: EmailOutboxStatus): Promise<EmailOutboxEntry[]> {
+    const conditions: SQL[] = [eq(emailOutbox.organizationId, organizationId)];
+    if (status) {
+      conditions.push(eq(emailOutbox.status, status));
+    }
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(and(...conditions))
+      .orderBy(desc(emailOutbox.createdAt), desc(emailOutbox.id))
+      .limit(200);
+  }
+
+  async getEmailOutboxEntry(id: number): Promise<EmailOutboxEntry | undefined> {
+    const [entry] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return entry || undefined;
+  }
+
+  // Send a failed email again from scratch
+  async retryEmail(id: number): Promise<EmailOutboxEntry | undefined> {
+    const [entry] = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, "failed")))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Digest methods
+  async getDigestPreferences(userId: number): Promise<DigestPreferences | undefined> {
+    const [preferences] = await db.select().from(digestPreferences).where(eq(digestPreferences.userId, userId));
+    return preferences || undefined;
+  }
+
+  async saveDigestPreferences(userId: number, organizationId: number | null, preferences: DigestPreferencesInput): Promise<DigestPreferences> {
+    const [saved] = await db
+      .insert(digestPreferences)
+      .values({ ...preferences, userId, organizationId })
+      .onConflictDoUpdate({
+        target: digestPreferences.userId,
+        set: { ...preferences, organizationId, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Subscriptions of users who opted in to a daily or weekly digest
+  async getActiveDigestPreferences(): Promise<DigestPreferences[]> {
+    return await db
+      .select()
+      .from(digestPreferences)
+      .where(sql`${digestPreferences.frequency} <> 'off'`);
+  }
+
+  async markDigestSent(id: number, localDate: string): Promise<void> {
+    await db
+      .update(digestPreferences)
+      .set({ lastSentOn: localDate })
+      .where(eq(digestPreferences.id, id));
+  }
+
+  // Open PICAs matching the conditions with their site and person in charge, earliest due first
+  private async getDigestPicas(conditions: SQL[]): Promise<PicaWithRelations[]> {
+    const rows = await db
+      .select({ pica: picas, projectSite: projectSites, personInCharge: people })
+      .from(picas)
+      .innerJoin(projectSites, eq(picas.projectSiteId, projectSites.id))
+      .innerJoin(people, eq(picas.personInChargeId, people.id))
+      .where(and(...conditions))
+      .orderBy(asc(picas.dueDate), asc(picas.id))
+      .limit(DIGEST_LIST_LIMIT);
+    return rows.map(row => ({ ...row.pica, projectSite: row.projectSite, personInCharge: row.personInCharge }));
+  }
+
+  // Status counts and overdue PICAs among the PICAs matching a site or department condition
+  private async getDigestSummary(id: number, name: string, scope: SQL, organizationId: number): Promise<PicaDigestSummary> {
+    const conditions = [...this.picaStatsConditions(organizationId), scope];
+    const [counts] = await db
+      .select({ ...this.statusCounts(), total: count(picas.id) })
+      .from(picas)
+      .where(and(...conditions));
+    const overduePicas = await this.getDigestPicas([...conditions, sql`${picaStatusCategory} = 'overdue'`]);
+    return { id, name, ...counts, overduePicas };
+  }
+
+  // The person's own open PICAs plus summaries of the sites they manage and departments they head.
+  // Counts use the statistics conditions so they agree with the dashboard.
+  async getDigest(organizationId: number, personId: number): Promise<PicaDigest | undefined> {
+    const person = await this.getPerson(personId);
+    if (!person || person.deletedAt || person.organizationId !== organizationId) {
+      return undefined;
+    }
+    
+    const ownConditions = [...this.picaStatsConditions(organizationId), eq(picas.personInChargeId, personId)];
+    const [ownCounts] = await db
+      .select(this.statusCounts())
+      .from(picas)
+      .where(and(...ownConditions));
+    const ownPicas = await this.getDigestPicas([...ownConditions, sql`${picaStatusCategory} <> 'complete'`]);
+    
+    const managedSites = await db
+      .select()
+      .from(projectSites)
+      .where(and(
+        eq(projectSites.managerId, personId),
+        eq(projectSites.organizationId, organizationId),
+        isNull(projectSites.deletedAt)
+      ))
+      .orderBy(projectSites.code);
+    const sites: PicaDigestSummary[] = [];
+    for (const site of managedSites) {
+      sites.push(await this.getDigestSummary(
+        site.id,
+        `${site.code} - ${site.name}`,
+        eq(picas.projectSiteId, site.id),
+        organizationId
+      ));
+    }
+    
+    // Like the department statistics, a department's PICAs are those of its people
+    const headedDepartments = await db
+      .select()
+      .from(departments)
+      .where(and(
+        eq(departments.headId, personId),
+        eq(departments.organizationId, organizationId),
+        isNull(departments.deletedAt)
+      ))
+      .orderBy(departments.name);
+    const departmentSummaries: PicaDigestSummary[] = [];
+    for (const department of headedDepartments) {
+      departmentSummaries.push(await this.getDigestSummary(
+        department.id,
+        department.name,
+        inArray(picas.personInChargeId, db.select({ id: people.id }).from(people).where(eq(people.departmentId, department.id))),
+        organizationId
+      ));
+    }
+    
+    return {
+      person,
+      progressCount: ownCounts.progress,
+      overdueCount: ownCounts.overdue,
+      picas: ownPicas,
+      sites,
+      departments: departmentSummaries
+    };
+  }
+
+  // In-app notification methods
+  // Newest first; notifications about PICAs in the trash are hidden until they're restored
+  async getNotifications(userId: number, options: { unreadOnly?: boolean; limit: number }): Promise<UserNotificationPage> {
+    const conditions: SQL[] = [eq(notifications.userId, userId), isNull(picas.deletedAt)];
+    
+    const rows = await db
+      .select({
+        notification: notifications,
+        pica: { id: picas.id, picaId: picas.picaId },
+        actor: { id: users.id, name: users.name, username: users.username }
+      })
+      .from(notifications)
+      .innerJoin(picas, eq(notifications.picaId, picas.id))
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .where(and(...conditions, options.unreadOnly ? isNull(notifications.readAt) : undefined))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(options.limit);
+    
+    const [{ unread }] = await db
+      .select({ unread: count() })
+      .from(notifications)
+      .innerJoin(picas, eq(notifications.picaId, picas.id))
+      .where(and(...conditions, isNull(notifications.readAt)));
+    
+    const items: UserNotificationWithRelations[] = rows.map(({ notification, pica, actor }) => ({
+      ...notification,
+      pica,
+      actor
+    }));
+    return { items, unreadCount: unread };
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning({ id: notifications.id });
+    return result.length > 0;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  // Notify people in charge of open PICAs due within their organization's reminder window,
+  // once per due date so an extended PICA is reminded again
+  async createDueSoonNotifications(today: string): Promise<number> {
+    const candidates = await this.getOpenPicasDueBetween(today, addDays(today, 30));
+    const dueSoonDaysByOrganization = new Map<number | null, number>();
+    let created = 0;
+    
+    for (const pica of candidates) {
+      let dueSoonDays = dueSoonDaysByOrganization.get(pica.organizationId);
+      if (dueSoonDays === undefined) {
+        dueSoonDays = pica.organizationId
+          ? (await this.getNotificationSettings(pica.organizationId)).dueSoonDays
+          : DEFAULT_NOTIFICATION_SETTINGS.dueSoonDays;
+        dueSoonDaysByOrganization.set(pica.organizationId, dueSoonDays);
+      }
+      if (pica.dueDate > addDays(today, dueSoonDays)) {
+        continue;
+      }
+      
+      const recipients = await getUserIdsForPerson(db, pica.personInChargeId);
+      await createNotifications(
+        db,
+        recipients,
+        pica,
+        "due_soon",
+        pica.dueDate === today ? `${pica.picaId} is due today` : `${pica.picaId} is due on ${pica.dueDate}`,
+        null,
+        `due_soon:${pica.id}:${pica.dueDate}`
+      );
+      created++;
+    }
+    
+    return created;
+  }
+
+  // Webhook methods
+  async getWebhooks(organizationId: number): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.organizationId, organizationId))
+      .orderBy(asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async createWebhook(organizationId: number, webhook: WebhookInput & { secret: string }, userId: number | null): Promise<Webhook> {
+    const [newWebhook] = await db
+      .insert(webhooks)
+      .values({ ...webhook, organizationId, createdById: userId })
+      .returning();
+    return newWebhook;
+  }
+
+  // Enabling a webhook again starts its failure count over; a missing secret keeps the current one
+  async updateWebhook(id: number, webhook: WebhookInput): Promise<Webhook | undefined> {
+    const { secret, ...fields } = webhook;
+    const [updatedWebhook] = await db
+      .update(webhooks)
+      .set({
+        ...fields,
+        ...(secret ? { secret } : {}),
+        ...(webhook.enabled ? { consecutiveFailures: 0, disabledReason: null } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return updatedWebhook || undefined;
+  }
+
+  // Remove a webhook together with its delivery log
+  async deleteWebhook(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+      const result = await tx
+        .delete(webhooks)
+        .where(eq(webhooks.id, id))
+        .returning({ id: webhooks.id });
+      return result.length > 0;
+    });
+  }
+
+  // Stop posting to a webhook; its pending deliveries are given up on and can be retried once it's enabled
+  async disableWebhook(id: number, reason: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(webhooks)
+        .set({ enabled: false, disabledReason: reason, updatedAt: new Date() })
+        .where(eq(webhooks.id, id));
+      await tx
+        .update(webhookDeliveries)
+        .set({ status: "failed", lastError: sql`coalesce(${webhookDeliveries.lastError}, ${reason})` })
+        .where(and(eq(webhookDeliveries.webhookId, id), eq(webhookDeliveries.status, "pending")));
+    });
+  }
+
+  // Pending deliveries of enabled webhooks whose next attempt is due, oldest first
+  async getDueWebhookDeliveries(limit: number): Promise<{ delivery: WebhookDelivery; webhook: Webhook }[]> {
+    return await db
+      .select({ delivery: webhookDeliveries, webhook: webhooks })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, new Date()),
+        eq(webhooks.enabled, true)
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  // Record a successful post; the webhook's failure count starts over
+  async markWebhookDelivered(id: number, responseStatus: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [delivery] = await tx
+        .update(webhookDeliveries)
+        .set({
+          status: "delivered",
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          responseStatus,
+          lastError: null,
+          deliveredAt: new Date()
+        })
+        .where(eq(webhookDeliveries.id, id))
+        .returning({ webhookId: webhookDeliveries.webhookId });
+      if (delivery) {
+        await tx
+          .update(webhooks)
+          .set({ consecutiveFailures: 0 })
+          .where(eq(webhooks.id, delivery.webhookId));
+      }
+    });
+  }
+
+  // Record a failed post and count it against the webhook; without a next attempt the delivery is
+  // given up on. Returns the webhook with its updated failure count.
+  async markWebhookDeliveryFailed(
+    id: number,
+    error: string,
+    responseStatus: number | null,
+    nextAttemptAt: Date | null
+  ): Promise<Webhook | undefined> {
+    return await db.transaction(async (tx) => {
+      const [delivery] = await tx
+        .update(webhookDeliveries)
+        .set({
+          status: nextAttemptAt ? "pending" : "failed",
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          responseStatus,
+          lastError: error,
+          ...(nextAttemptAt ? { nextAttemptAt } : {})
+        })
+        .where(eq(webhookDeliveries.id, id))
+        .returning({ webhookId: webhookDeliveries.webhookId });
+      if (!delivery) {
+        return undefined;
+      }
+      
+      const [webhook] = await tx
+        .update(webhooks)
+        .set({ consecutiveFailures: sql`${webhooks.consecutiveFailures} + 1` })
+        .where(eq(webhooks.id, delivery.webhookId))
+        .returning();
+      return webhook || undefined;
+    });
+  }
+
+  // Test events are posted right away, so they're logged with their outcome and never retried
+  async logWebhookTest(
+    webhook: Webhook,
+    payload: WebhookPayload,
+    outcome: { responseStatus: number | null; error: string | null }
+  ): Promise<WebhookDelivery> {
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        webhookId: webhook.id,
+        organizationId: webhook.organizationId,
+        event: "test",
+        picaId: payload.data?.id ?? null,
+        payload,
+        status: outcome.error ? "failed" : "delivered",
+        attempts: 1,
+        responseStatus: outcome.responseStatus,
+        lastError: outcome.error,
+        deliveredAt: outcome.error ? null : new Date()
+      })
+      .returning();
+    return delivery;
+  }
+
+  // A test event carrying the organization's most recently created PICA
+  async getWebhookTestPayload(organizationId: number): Promise<WebhookPayload> {
+    const [latestPica] = await db
+      .select()
+      .from(picas)
+      .where(and(eq(picas.organizationId, organizationId), isNull(picas.deletedAt)))
+      .orderBy(desc(picas.createdAt), desc(picas.id))
+      .limit(1);
+    return {
+      event: "test",
+      occurredAt: new Date().toISOString(),
+      organizationId,
+      data: latestPica ? (await getPicaWithRelations(db, latestPica)) ?? null : null
+    };
+  }
+
+  // A webhook's most recent deliveries, newest first
+  async getWebhookDeliveries(webhookId: number, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const conditions: SQL[] = [eq(webhookDeliveries.webhookId, webhookId)];
+    if (status) {
+      conditions.push(eq(webhookDeliveries.status, status));
+    }
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(200);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  // Post a failed delivery again from scratch
+  async retryWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.status, "failed")))
+      .returning();
+    return delivery || undefined;
+  }
+
   // Organization methods
   async getAllOrganizations(): Promise<Organization[]> {
     return await db.select().from(organizations);
@@ -812,6 +3827,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUser(id: number): Promise<boolean> {
+    // The user's digest subscription and notifications go with them; notifications they raised for others stay
+    await db.delete(digestPreferences).where(eq(digestPreferences.userId, id));
+    await db.delete(notifications).where(eq(notifications.userId, id));
+    await db.update(notifications).set({ actorId: null }).where(eq(notifications.actorId, id));
+    await db.update(webhooks).set({ createdById: null }).where(eq(webhooks.createdById, id));
     const result = await db
       .delete(users)
       .where(eq(users.id, id))
@@ -0,0 +1,226 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup as lookupCallback } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { BlockList, isIPv4, type LookupFunction } from "net";
+import { storage } from "./storage";
+import { log } from "./logger";
+import type { Webhook, WebhookDelivery, WebhookPayload } from "@shared/schema";
+
+// Failed posts are retried after 1, 2, 4, 8 and 16 minutes before the delivery is marked failed
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+// Consecutive failed attempts, across deliveries, after which a webhook is disabled
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 15;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+// Secret for a new webhook when the admin doesn't choose one
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// Receivers check X-Pica-Signature against an HMAC-SHA256 of "<X-Pica-Timestamp>.<raw body>"
+// keyed with the webhook's secret, and may reject old timestamps to stop replays
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Addresses webhooks may not reach: loopback, private, shared, link-local (including cloud
+// metadata at 169.254.169.254), unique-local, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string, family: number): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as the IPv4 address they carry
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped && isIPv4(mapped[1])) {
+    return blockedAddresses.check(mapped[1], "ipv4");
+  }
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Reject URLs whose host resolves to an address inside the network, so webhooks can't be used
+// to reach internal services. Checked when a webhook is saved and again before every send;
+// the send itself connects through publicOnlyLookup, since DNS answers can change in between.
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Webhook URL is not valid");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Webhook URL must start with http:// or https://");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${hostname} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+    throw new Error(`Webhook host ${hostname} resolves to a private or local address`);
+  }
+}
+
+// Resolver for outgoing webhook requests. The socket connects to the addresses returned here, so
+// a host that answers with a public address for the check and a private one afterwards still
+// can't reach the network. IP literals skip the resolver; assertPublicWebhookUrl covers those.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+      callback(new Error(`Webhook host ${hostname} resolves to a private or local address`), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// POST a body and resolve with the response status. Redirects are never followed, and the
+// response body is discarded unread.
+function sendPost(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+      lookup: publicOnlyLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+type PostOutcome = {
+  responseStatus: number | null;
+  error: string | null;
+};
+
+// POST a payload to a webhook's URL; any 2xx response counts as delivered. Redirects aren't
+// followed, and only the status of a failed response is kept, never its body.
+async function postPayload(webhook: Webhook, deliveryId: number | null, payload: WebhookPayload): Promise<PostOutcome> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "PICA-Monitor-Webhooks/1.0",
+    "X-Pica-Event": payload.event,
+    "X-Pica-Timestamp": timestamp,
+    "X-Pica-Signature": signWebhookBody(webhook.secret, timestamp, body),
+  };
+  if (deliveryId) {
+    headers["X-Pica-Delivery"] = deliveryId.toString();
+  }
+
+  try {
+    await assertPublicWebhookUrl(webhook.url);
+    const status = await sendPost(webhook.url, headers, body);
+    if (status >= 200 && status < 300) {
+      return { responseStatus: status, error: null };
+    }
+    return { responseStatus: status, error: `HTTP ${status}` };
+  } catch (error) {
+    return { responseStatus: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Post a test event right away and log its outcome with the webhook's deliveries.
+// Disabled webhooks can be tested too, so an admin can check a fix before enabling them again.
+export async function sendWebhookTest(webhook: Webhook): Promise<WebhookDelivery> {
+  const payload = await storage.getWebhookTestPayload(webhook.organizationId);
+  const outcome = await postPayload(webhook, null, payload);
+  return await storage.logWebhookTest(webhook, payload, outcome);
+}
+
+let isDelivering = false;
+
+// Post the queued deliveries whose next attempt is due. A failed post is retried with exponential
+// backoff; after MAX_WEBHOOK_ATTEMPTS it is marked failed and kept for an admin to retry. A webhook
+// failing WEBHOOK_DISABLE_AFTER_FAILURES times in a row is disabled.
+export async function deliverWebhooks(): Promise<{ delivered: number; failed: number }> {
+  const result = { delivered: 0, failed: 0 };
+  // One delivery run at a time so no event is posted twice
+  if (isDelivering) {
+    return result;
+  }
+
+  isDelivering = true;
+  try {
+    let batch = await storage.getDueWebhookDeliveries(DELIVERY_BATCH_SIZE);
+    while (batch.length > 0) {
+      const disabledWebhookIds = new Set<number>();
+      for (const { delivery, webhook } of batch) {
+        // Disabling a webhook gives up on the rest of its deliveries in this batch too
+        if (disabledWebhookIds.has(webhook.id)) {
+          continue;
+        }
+
+        const outcome = await postPayload(webhook, delivery.id, delivery.payload);
+        if (!outcome.error) {
+          await storage.markWebhookDelivered(delivery.id, outcome.responseStatus ?? 200);
+          result.delivered++;
+          continue;
+        }
+
+        const attempts = delivery.attempts + 1;
+        const nextAttemptAt = attempts < MAX_WEBHOOK_ATTEMPTS
+          ? new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1))
+          : null;
+        const updatedWebhook = await storage.markWebhookDeliveryFailed(delivery.id, outcome.error, outcome.responseStatus, nextAttemptAt);
+        result.failed++;
+
+        if (updatedWebhook && updatedWebhook.consecutiveFailures >= WEBHOOK_DISABLE_AFTER_FAILURES) {
+          await storage.disableWebhook(webhook.id, `Disabled after ${updatedWebhook.consecutiveFailures} failed attempts in a row. Last error: ${outcome.error}`);
+          disabledWebhookIds.add(webhook.id);
+          log(`Disabled webhook ${webhook.id} (${webhook.url}) after repeated failures`, "webhooks");
+        }
+      }
+      // Deliveries that just failed are scheduled in the future, so this ends once the due ones are done
+      batch = batch.length === DELIVERY_BATCH_SIZE ? await storage.getDueWebhookDeliveries(DELIVERY_BATCH_SIZE) : [];
+    }
+  } finally {
+    isDelivering = false;
+  }
+
+  if (result.delivered > 0 || result.failed > 0) {
+    log(`Delivered ${result.delivered} webhook event(s), ${result.failed} failed`, "webhooks");
+  }
+  return result;
+}
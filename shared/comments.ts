@@ -0,0 +1,14 @@
+// @mentions reference users by username, e.g. "@jane.doe"
+export const mentionPattern = /(^|[^\w@])@([A-Za-z0-9_.-]*[A-Za-z0-9_])/g;
+
+// Distinct usernames mentioned in a comment body, in order of appearance
+export function extractMentionUsernames(body: string): string[] {
+  const usernames: string[] = [];
+  for (const match of Array.from(body.matchAll(mentionPattern))) {
+    const username = match[2];
+    if (!usernames.some((existing) => existing.toLowerCase() === username.toLowerCase())) {
+      usernames.push(username);
+    }
+  }
+  return usernames;
+}
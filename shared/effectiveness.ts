@@ -0,0 +1,14 @@
+import { addDays } from "./recurrence";
+
+// ISO-style follow-up: check 30, 60 and 90 days after closure
+export const DEFAULT_EFFECTIVENESS_CHECK_DAYS: number[] = [30, 60, 90];
+
+// Review due dates (YYYY-MM-DD) for a PICA closed on the given date, earliest first
+export function getEffectivenessReviewDates(
+  closedOn: string,
+  days: number[],
+): { daysAfterClosure: number; dueDate: string }[] {
+  return [...days]
+    .sort((a, b) => a - b)
+    .map((daysAfterClosure) => ({ daysAfterClosure, dueDate: addDays(closedOn, daysAfterClosure) }));
+}
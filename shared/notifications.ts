@@ -0,0 +1,13 @@
+import type { NotificationSettings } from "./schema";
+
+// Every event is sent, with due date reminders three days ahead
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  events: {
+    assigned: true,
+    reassigned: true,
+    due_soon: true,
+    overdue: true,
+    closure_rejected: true,
+  },
+  dueSoonDays: 3,
+};
@@ -0,0 +1,68 @@
+import type { PicaRecurrenceSchedule } from "./schema";
+
+// The parts of a schedule that decide when it recurs
+export type RecurrenceRule = Pick<PicaRecurrenceSchedule, "frequency" | "interval" | "startDate"> & {
+  endDate?: string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseIsoDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Today as YYYY-MM-DD (UTC)
+export function getIsoToday(): string {
+  return toIsoDate(new Date());
+}
+
+// Date (YYYY-MM-DD) a number of days after another
+export function addDays(date: string, days: number): string {
+  const result = parseIsoDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toIsoDate(result);
+}
+
+// The nth occurrence (0 = the start date). Monthly occurrences keep the start's day of month,
+// clamped to the last day of shorter months so the day never drifts.
+function getOccurrence(rule: RecurrenceRule, n: number): string {
+  const start = parseIsoDate(rule.startDate);
+  if (rule.frequency === "monthly") {
+    const monthIndex = start.getUTCMonth() + n * rule.interval;
+    const lastDay = new Date(Date.UTC(start.getUTCFullYear(), monthIndex + 1, 0)).getUTCDate();
+    return toIsoDate(new Date(Date.UTC(start.getUTCFullYear(), monthIndex, Math.min(start.getUTCDate(), lastDay))));
+  }
+  const stepDays = (rule.frequency === "weekly" ? 7 : 1) * rule.interval;
+  return addDays(rule.startDate, n * stepDays);
+}
+
+// First occurrence on or after a date; undefined once the rule has passed its end date
+export function getNextOccurrence(rule: RecurrenceRule, onOrAfter: string): string | undefined {
+  // Jump close to the date instead of walking every occurrence since the start;
+  // counting months as 31 days keeps the jump from overshooting
+  const elapsedDays = Math.max(0, (parseIsoDate(onOrAfter).getTime() - parseIsoDate(rule.startDate).getTime()) / DAY_MS);
+  const approximateStepDays = (rule.frequency === "monthly" ? 31 : rule.frequency === "weekly" ? 7 : 1) * rule.interval;
+  let n = Math.max(0, Math.floor(elapsedDays / approximateStepDays) - 1);
+
+  let occurrence = getOccurrence(rule, n);
+  while (occurrence < onOrAfter) {
+    n += 1;
+    occurrence = getOccurrence(rule, n);
+  }
+  return rule.endDate && occurrence > rule.endDate ? undefined : occurrence;
+}
+
+// Up to count occurrences on or after a date, for previews
+export function getUpcomingOccurrences(rule: RecurrenceRule, onOrAfter: string, count: number): string[] {
+  const occurrences: string[] = [];
+  let next = getNextOccurrence(rule, onOrAfter);
+  while (next && occurrences.length < count) {
+    occurrences.push(next);
+    next = getNextOccurrence(rule, addDays(next, 1));
+  }
+  return occurrences;
+}
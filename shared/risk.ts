@@ -0,0 +1,54 @@
+import type { RiskLevelDefinition, RiskMatrix } from "./schema";
+
+// A 5×5 matrix with four levels; scores run from 1 to 25
+export const DEFAULT_RISK_MATRIX: RiskMatrix = {
+  severityLabels: ["Negligible", "Minor", "Moderate", "Major", "Catastrophic"],
+  likelihoodLabels: ["Rare", "Unlikely", "Possible", "Likely", "Almost certain"],
+  levels: [
+    { key: "low", label: "Low", color: "green", minScore: 1, dueInDays: 30 },
+    { key: "medium", label: "Medium", color: "yellow", minScore: 5, dueInDays: 14 },
+    { key: "high", label: "High", color: "orange", minScore: 10, dueInDays: 7 },
+    { key: "critical", label: "Critical", color: "red", minScore: 17, dueInDays: 1 },
+  ],
+};
+
+export function findRiskLevel(matrix: RiskMatrix, key: string): RiskLevelDefinition | undefined {
+  return matrix.levels.find((level) => level.key === key);
+}
+
+// Level of a risk score: the level with the highest minimum score the score reaches
+export function getRiskLevelForScore(matrix: RiskMatrix, score: number): RiskLevelDefinition | undefined {
+  return [...matrix.levels]
+    .sort((a, b) => b.minScore - a.minScore)
+    .find((level) => score >= level.minScore);
+}
+
+// Risk score and level of a rating; PICAs missing either rating are unrated
+export function computeRisk(
+  matrix: RiskMatrix,
+  severity: number | null | undefined,
+  likelihood: number | null | undefined,
+): { riskScore: number | null; riskLevel: string | null } {
+  if (!severity || !likelihood) {
+    return { riskScore: null, riskLevel: null };
+  }
+  const riskScore = severity * likelihood;
+  return { riskScore, riskLevel: getRiskLevelForScore(matrix, riskScore)?.key ?? null };
+}
+
+// Suggested due date (YYYY-MM-DD) for a new PICA raised on the given date
+export function getRiskDueDate(
+  matrix: RiskMatrix,
+  date: string,
+  severity: number | null | undefined,
+  likelihood: number | null | undefined,
+): string | undefined {
+  const { riskLevel } = computeRisk(matrix, severity, likelihood);
+  const level = riskLevel ? findRiskLevel(matrix, riskLevel) : undefined;
+  if (!level) {
+    return undefined;
+  }
+  const dueDate = new Date(`${date}T00:00:00Z`);
+  dueDate.setUTCDate(dueDate.getUTCDate() + level.dueInDays);
+  return dueDate.toISOString().split("T")[0];
+}
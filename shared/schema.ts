@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, date, timestamp, primaryKey, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, date, timestamp, primaryKey, boolean, uniqueIndex, jsonb, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -11,6 +11,8 @@ export const people = pgTable("people", {
   departmentId: integer("department_id"),
   position: text("position"), // Position in the department
   organizationId: integer("organization_id"), // Associated organization
+  deletedAt: timestamp("deleted_at"), // Set while the person is in the trash
+  deletedById: integer("deleted_by_id").references((): AnyPgColumn => users.id),
 });
 
 // Department
@@ -20,6 +22,8 @@ export const departments = pgTable("departments", {
   headId: integer("head_id"),
   position: text("position"), // Position title that replaces the "Head of Department" field
   organizationId: integer("organization_id"), // Associated organization
+  deletedAt: timestamp("deleted_at"), // Set while the department is in the trash
+  deletedById: integer("deleted_by_id").references((): AnyPgColumn => users.id),
 });
 
 // Project Site
@@ -30,16 +34,22 @@ export const projectSites = pgTable("project_sites", {
   location: text("location"),
   managerId: integer("manager_id"),
   organizationId: integer("organization_id"), // Associated organization
+  deletedAt: timestamp("deleted_at"), // Set while the site is in the trash
+  deletedById: integer("deleted_by_id").references((): AnyPgColumn => users.id),
 });
 
 // PICA Status enum
 export const picaStatusEnum = z.enum(["progress", "complete", "overdue"]);
 export type PicaStatus = z.infer<typeof picaStatusEnum>;
 
+// Severity and likelihood are rated from 1 (lowest) to RISK_SCALE (highest)
+export const RISK_SCALE = 5;
+export const riskRatingSchema = z.number().int().min(1).max(RISK_SCALE);
+
 // PICA record
 export const picas = pgTable("picas", {
   id: serial("id").primaryKey(),
-  picaId: text("pica_id").notNull(), // Made non-unique as it needs to be unique per organization
+  picaId: text("pica_id").notNull(), // Unique per organization (see index below)
   projectSiteId: integer("project_site_id").notNull(),
   date: date("date").notNull(),
   issue: text("issue").notNull(),
@@ -47,11 +57,41 @@ export const picas = pgTable("picas", {
   correctiveAction: text("corrective_action").notNull(),
   personInChargeId: integer("person_in_charge_id").notNull(),
   dueDate: date("due_date").notNull(),
+  originalDueDate: date("original_due_date"), // Due date before the first approved extension; null if never extended
+  extensionCount: integer("extension_count").notNull().default(0), // Number of approved due date extensions
+  severity: integer("severity"), // 1 (lowest) to RISK_SCALE; null when not rated
+  likelihood: integer("likelihood"), // 1 (lowest) to RISK_SCALE; null when not rated
+  riskScore: integer("risk_score"), // severity × likelihood, maintained by the server
+  riskLevel: text("risk_level"), // Level key from the organization's risk matrix
+  actionItemCount: integer("action_item_count").notNull().default(0), // Number of action items, maintained by the server
+  completedActionItemCount: integer("completed_action_item_count").notNull().default(0), // Action items marked done
+  actionProgress: integer("action_progress"), // Average action item progress (0-100); null without action items
+  recurrenceScheduleId: integer("recurrence_schedule_id").references((): AnyPgColumn => picaRecurrenceSchedules.id), // Set on PICAs generated by a schedule
+  reopenCount: integer("reopen_count").notNull().default(0), // Times the PICA was reopened after completion
   status: text("status").notNull().default("progress"), // progress, complete, overdue
   organizationId: integer("organization_id"), // Associated organization
+  deletedAt: timestamp("deleted_at"), // Set while the PICA is in the trash; its PICA ID stays taken
+  deletedById: integer("deleted_by_id").references((): AnyPgColumn => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("picas_organization_pica_id_idx").on(table.organizationId, table.picaId),
+]);
+
+// Master PICA ID format tokens: {YYYY}, {YY}, {MM}, {SITE} and the required {COUNTER}
+export const DEFAULT_PICA_ID_FORMAT = "{MM}{YY}{SITE}{COUNTER}";
+export const picaIdFormatTokens = ["{YYYY}", "{YY}", "{MM}", "{SITE}", "{COUNTER}"];
+
+export const picaIdFormatSchema = z
+  .string()
+  .min(1)
+  .refine((format) => format.split("{COUNTER}").length === 2, {
+    message: "Format must contain {COUNTER} exactly once",
+  })
+  .refine(
+    (format) => (format.match(/\{[^}]*\}/g) || []).every((token) => picaIdFormatTokens.includes(token)),
+    { message: `Format may only use the tokens ${picaIdFormatTokens.join(", ")}` },
+  );
 
 // User roles enum
 export const userRoleEnum = z.enum(["admin", "user", "public"]);
@@ -65,9 +105,23 @@ export const organizations = pgTable("organizations", {
   subscriptionActive: boolean("subscription_active").notNull().default(false),
   paymentDate: timestamp("payment_date"),
   promoCode: text("promo_code"),
+  picaIdFormat: text("pica_id_format"), // Master PICA ID format, falls back to DEFAULT_PICA_ID_FORMAT
+  riskMatrix: jsonb("risk_matrix").$type<RiskMatrix>(), // Custom risk matrix, falls back to DEFAULT_RISK_MATRIX
+  effectivenessCheckDays: jsonb("effectiveness_check_days").$type<number[]>(), // Days after closure to review effectiveness, falls back to DEFAULT_EFFECTIVENESS_CHECK_DAYS
+  notificationSettings: jsonb("notification_settings").$type<NotificationSettings>(), // Email events to send, falls back to DEFAULT_NOTIFICATION_SETTINGS
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Master PICA ID counters, one row per organization and rendered ID scope (e.g. "0425ABC{COUNTER}")
+export const picaIdCounters = pgTable("pica_id_counters", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  scope: text("scope").notNull(),
+  lastCounter: integer("last_counter").notNull().default(0),
+}, (table) => [
+  uniqueIndex("pica_id_counters_scope_idx").on(table.organizationId, table.scope),
+]);
+
 // Users for authentication
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -82,6 +136,38 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
 });
 
+// Workflow status colors available to StatusBadge
+export const workflowColorEnum = z.enum(["blue", "green", "red", "yellow", "orange", "purple", "teal", "gray"]);
+export type WorkflowColor = z.infer<typeof workflowColorEnum>;
+
+// Custom PICA workflow statuses per organization. Every status belongs to one of the
+// PicaStatus categories so statistics and overdue detection keep working.
+// Organizations without rows here use DEFAULT_WORKFLOW from @shared/workflow.
+export const workflowStatuses = pgTable("workflow_statuses", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  key: text("key").notNull(), // Value stored in picas.status
+  label: text("label").notNull(),
+  color: text("color").notNull().default("gray"),
+  category: text("category").notNull(), // progress, complete, overdue
+  isInitial: boolean("is_initial").notNull().default(false), // Status given to new PICAs
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => [
+  uniqueIndex("workflow_statuses_org_key_idx").on(table.organizationId, table.key),
+]);
+
+// Allowed status changes and who may perform them
+export const workflowTransitions = pgTable("workflow_transitions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  allowedRoles: text("allowed_roles").array().notNull(), // User roles allowed to perform the transition
+  requiresComment: boolean("requires_comment").notNull().default(false),
+}, (table) => [
+  uniqueIndex("workflow_transitions_org_from_to_idx").on(table.organizationId, table.fromStatus, table.toStatus),
+]);
+
 // PICA history table to track changes
 export const picaHistory = pgTable("pica_history", {
   id: serial("id").primaryKey(),
@@ -93,6 +179,375 @@ export const picaHistory = pgTable("pica_history", {
   comment: text("comment"),
 });
 
+// PICA audit actions
+export const picaAuditActionEnum = z.enum(["create", "update", "delete", "restore", "purge"]);
+export type PicaAuditAction = z.infer<typeof picaAuditActionEnum>;
+
+// Before/after values of the fields a write changed, keyed by PICA field name
+export type PicaAuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Field-level audit trail of every create, update, delete (to the trash), restore and purge on PICAs.
+// picaId has no foreign key so entries outlive deleted PICAs.
+export const picaAuditLog = pgTable("pica_audit_log", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").notNull(),
+  picaCode: text("pica_code").notNull(), // PICA ID at the time of the change, e.g. "0425ABC0101"
+  organizationId: integer("organization_id").references(() => organizations.id),
+  userId: integer("user_id").references(() => users.id), // Null for system changes
+  action: text("action").notNull(), // create, update, delete, restore, purge
+  changes: jsonb("changes").$type<PicaAuditChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("pica_audit_log_pica_idx").on(table.picaId),
+  index("pica_audit_log_org_user_idx").on(table.organizationId, table.userId),
+]);
+
+// Evidence files (photos, inspection reports, signed documents) attached to a PICA,
+// optionally to one of its history entries. File contents live in the storage driver.
+export const picaAttachments = pgTable("pica_attachments", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  historyId: integer("history_id").references(() => picaHistory.id),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  fileName: text("file_name").notNull(), // Original file name as uploaded
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"), // Only for images
+  uploadedById: integer("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Attachment upload limits, shared by the upload endpoint and the client
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB per file
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+export const attachmentContentTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/plain",
+  "text/csv",
+];
+
+// Discussion thread on a PICA. Replies point at a top-level comment through parentId.
+export const picaComments = pgTable("pica_comments", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => picaComments.id),
+  body: text("body").notNull(), // Markdown-lite text with @username mentions
+  mentionedUserIds: integer("mentioned_user_ids").array().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at"), // Deleted comments keep their place in the thread
+});
+
+// Closure request status enum
+export const closureRequestStatusEnum = z.enum(["pending", "approved", "rejected"]);
+export type ClosureRequestStatus = z.infer<typeof closureRequestStatusEnum>;
+
+// Request to close a PICA, submitted by the person in charge and decided by a verifier
+export const picaClosureRequests = pgTable("pica_closure_requests", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  requestedById: integer("requested_by_id").references(() => users.id),
+  completionNote: text("completion_note").notNull(),
+  evidence: text("evidence").notNull(), // Description of or links to the closure evidence
+  verifierId: integer("verifier_id").references(() => people.id), // Site manager or department head; admins verify when empty
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decisionReason: text("decision_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  decidedAt: timestamp("decided_at"),
+});
+
+// Request to move a PICA's due date, submitted by the person in charge and decided by an approver.
+// Approved requests are the PICA's due date revisions.
+export const picaDueDateExtensions = pgTable("pica_due_date_extensions", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  requestedById: integer("requested_by_id").references(() => users.id),
+  previousDueDate: date("previous_due_date").notNull(), // Due date when the extension was requested
+  requestedDueDate: date("requested_due_date").notNull(),
+  justification: text("justification").notNull(),
+  approverId: integer("approver_id").references(() => people.id), // Site manager or department head; admins approve when empty
+  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decisionReason: text("decision_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  decidedAt: timestamp("decided_at"),
+});
+
+// Ishikawa (fishbone) cause categories
+export const fishboneCategoryEnum = z.enum(["man", "machine", "method", "material", "measurement", "environment"]);
+export type FishboneCategory = z.infer<typeof fishboneCategoryEnum>;
+
+// Structured root cause analysis of a PICA: a 5-Why chain and the concluded root cause
+export const picaRootCauseAnalyses = pgTable("pica_root_cause_analyses", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull().unique(), // One analysis per PICA
+  organizationId: integer("organization_id").references(() => organizations.id),
+  whys: jsonb("whys").$type<string[]>().notNull().default([]), // Answers to "why?", first to last
+  rootCause: text("root_cause"),
+  updatedById: integer("updated_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Fishbone causes of an analysis; kept in their own table so categories can be aggregated
+export const picaRootCauseFactors = pgTable("pica_root_cause_factors", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").references(() => picaRootCauseAnalyses.id).notNull(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  category: text("category").notNull(), // man, machine, method, material, measurement, environment
+  description: text("description").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => [
+  index("pica_root_cause_factors_org_category_idx").on(table.organizationId, table.category),
+]);
+
+// Action item types and statuses
+export const actionItemTypeEnum = z.enum(["corrective", "preventive", "containment"]);
+export type ActionItemType = z.infer<typeof actionItemTypeEnum>;
+
+export const actionItemStatusEnum = z.enum(["open", "in_progress", "done"]);
+export type ActionItemStatus = z.infer<typeof actionItemStatusEnum>;
+
+// Individual action of a PICA with its own owner, due date and progress
+export const picaActionItems = pgTable("pica_action_items", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  type: text("type").notNull(), // corrective, preventive, containment
+  description: text("description").notNull(),
+  ownerId: integer("owner_id").references(() => people.id).notNull(),
+  dueDate: date("due_date").notNull(),
+  status: text("status").notNull().default("open"), // open, in_progress, done
+  progress: integer("progress").notNull().default(0), // Percentage complete; 100 once done
+  completedAt: timestamp("completed_at"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("pica_action_items_pica_idx").on(table.picaId),
+]);
+
+// Reusable PICA content for recurring findings
+export const picaTemplates = pgTable("pica_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  name: text("name").notNull(),
+  issue: text("issue").notNull(),
+  problemIdentification: text("problem_identification").notNull(),
+  correctiveAction: text("corrective_action").notNull(),
+  personInChargeId: integer("person_in_charge_id").references(() => people.id), // Default PIC; optional
+  dueInDays: integer("due_in_days").notNull().default(7), // Due date offset from the PICA date
+  severity: integer("severity"),
+  likelihood: integer("likelihood"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Recurrence frequencies
+export const recurrenceFrequencyEnum = z.enum(["daily", "weekly", "monthly"]);
+export type RecurrenceFrequency = z.infer<typeof recurrenceFrequencyEnum>;
+
+// Schedule that generates a PICA from a template at a project site on a cadence
+export const picaRecurrenceSchedules = pgTable("pica_recurrence_schedules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  templateId: integer("template_id").references(() => picaTemplates.id).notNull(),
+  projectSiteId: integer("project_site_id").references(() => projectSites.id).notNull(),
+  personInChargeId: integer("person_in_charge_id").references(() => people.id), // Overrides the template's default PIC
+  frequency: text("frequency").notNull(), // daily, weekly, monthly
+  interval: integer("interval").notNull().default(1), // Every N days, weeks or months
+  startDate: date("start_date").notNull(), // First occurrence; later ones keep its weekday or day of month
+  endDate: date("end_date"), // Last possible occurrence; null runs indefinitely
+  nextRunDate: date("next_run_date"), // Next occurrence to generate; null once the schedule has ended
+  isPaused: boolean("is_paused").notNull().default(false),
+  lastRunAt: timestamp("last_run_at"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("pica_recurrence_schedules_next_run_idx").on(table.isPaused, table.nextRunDate),
+]);
+
+// Kinds of PICA-to-PICA links, read as "<source> is <type> <target>"
+export const picaLinkTypeEnum = z.enum(["duplicate_of", "caused_by", "related_to", "recurrence_of"]);
+export type PicaLinkType = z.infer<typeof picaLinkTypeEnum>;
+
+// Directed link between two PICAs of an organization
+export const picaLinks = pgTable("pica_links", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  sourcePicaId: integer("source_pica_id").references(() => picas.id).notNull(),
+  targetPicaId: integer("target_pica_id").references(() => picas.id).notNull(),
+  linkType: text("link_type").notNull(), // duplicate_of, caused_by, related_to, recurrence_of
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("pica_links_source_target_idx").on(table.sourcePicaId, table.targetPicaId),
+  index("pica_links_target_idx").on(table.targetPicaId),
+]);
+
+export const effectivenessReviewStatusEnum = z.enum(["pending", "effective", "ineffective", "cancelled"]);
+export type EffectivenessReviewStatus = z.infer<typeof effectivenessReviewStatusEnum>;
+
+// What happens to a PICA whose corrective action was found ineffective
+export const effectivenessFollowUpEnum = z.enum(["reopen", "new_pica"]);
+export type EffectivenessFollowUp = z.infer<typeof effectivenessFollowUpEnum>;
+
+// Check, a set number of days after closure, that a PICA's corrective action prevented recurrence.
+// Created when a closure is approved; pending checks are cancelled when the PICA is reopened.
+export const picaEffectivenessReviews = pgTable("pica_effectiveness_reviews", {
+  id: serial("id").primaryKey(),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  daysAfterClosure: integer("days_after_closure").notNull(),
+  dueDate: date("due_date").notNull(),
+  reviewerId: integer("reviewer_id").references(() => people.id), // Closure verifier; admins review when empty
+  status: text("status").notNull().default("pending"), // pending, effective, ineffective, cancelled
+  notes: text("notes"),
+  followUp: text("follow_up"), // reopen or new_pica, for ineffective reviews
+  followUpPicaId: integer("follow_up_pica_id").references((): AnyPgColumn => picas.id), // PICA raised for an ineffective action
+  decidedById: integer("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("pica_effectiveness_reviews_pica_idx").on(table.picaId),
+  index("pica_effectiveness_reviews_due_idx").on(table.organizationId, table.status, table.dueDate),
+]);
+
+// Email notification events
+export const notificationEventEnum = z.enum(["assigned", "reassigned", "due_soon", "overdue", "closure_rejected"]);
+export type NotificationEvent = z.infer<typeof notificationEventEnum>;
+
+export const emailOutboxStatusEnum = z.enum(["pending", "sent", "failed"]);
+export type EmailOutboxStatus = z.infer<typeof emailOutboxStatusEnum>;
+
+// Rendered notification emails waiting to be sent, and the record of those sent or given up on.
+// Failed sends stay pending and are retried with backoff until MAX_EMAIL_ATTEMPTS is reached.
+// picaId has no foreign key so entries outlive purged PICAs.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  event: text("event").notNull(), // assigned, reassigned, due_soon, overdue, closure_rejected, daily_digest, weekly_digest
+  picaId: integer("pica_id"),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body").notNull(),
+  dedupeKey: text("dedupe_key"), // Keeps reminders and digests from being queued twice, e.g. "due_soon:42:2025-04-30"
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("email_outbox_dedupe_key_idx").on(table.dedupeKey),
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Digest frequencies; users receive no digest until they opt in
+export const digestFrequencyEnum = z.enum(["off", "daily", "weekly"]);
+export type DigestFrequency = z.infer<typeof digestFrequencyEnum>;
+
+// A user's digest subscription. The digest covers the person with the user's email: the PICAs
+// they're in charge of, the sites they manage and the departments they head.
+export const digestPreferences = pgTable("digest_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  frequency: text("frequency").notNull().default("off"), // off, daily, weekly
+  weekday: integer("weekday").notNull().default(1), // Day of weekly digests, 0 (Sunday) to 6 (Saturday)
+  hour: integer("hour").notNull().default(7), // Local hour (0-23) digests go out at
+  timeZone: text("time_zone").notNull().default("UTC"), // IANA time zone of weekday and hour
+  lastSentOn: date("last_sent_on"), // Local date the last digest went out
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// In-app notification types
+export const userNotificationTypeEnum = z.enum(["pica_created", "reassigned", "status_changed", "comment", "mention", "due_soon"]);
+export type UserNotificationType = z.infer<typeof userNotificationTypeEnum>;
+
+// In-app notification about a PICA for a user, shown under the bell in the sidebar.
+// Users are matched to the person in charge of a PICA by email.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  picaId: integer("pica_id").references(() => picas.id).notNull(),
+  type: text("type").notNull(), // pica_created, reassigned, status_changed, comment, mention, due_soon
+  message: text("message").notNull(),
+  actorId: integer("actor_id").references(() => users.id), // User whose change raised it; null for system changes
+  dedupeKey: text("dedupe_key"), // Keeps due date reminders from repeating, e.g. "due_soon:42:2025-04-30"
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+  uniqueIndex("notifications_user_dedupe_key_idx").on(table.userId, table.dedupeKey),
+]);
+
+// PICA lifecycle events webhooks can subscribe to
+export const webhookEventEnum = z.enum(["pica.created", "pica.updated", "pica.completed", "pica.overdue"]);
+export type WebhookEvent = z.infer<typeof webhookEventEnum>;
+
+// Webhook delivery status enum
+export const webhookDeliveryStatusEnum = z.enum(["pending", "delivered", "failed"]);
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusEnum>;
+
+// An organization's subscription to PICA events, posted as signed JSON to its URL.
+// Webhooks that keep failing are disabled until an admin enables them again.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  url: text("url").notNull(),
+  events: text("events").array().notNull().default([]), // Subscribed webhookEventEnum values
+  secret: text("secret").notNull(), // Key of the X-Pica-Signature HMAC
+  enabled: boolean("enabled").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // Failed attempts since the last successful one
+  disabledReason: text("disabled_reason"),
+  createdById: integer("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Events queued for a webhook and the outcome of posting them. Failed posts stay pending and are
+// retried with backoff until MAX_WEBHOOK_ATTEMPTS is reached. picaId has no foreign key so the
+// log outlives purged PICAs.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").references(() => webhooks.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  event: text("event").notNull(), // A webhookEventEnum value, or "test" for test events
+  picaId: integer("pica_id"),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: text("status").notNull().default("pending"), // pending, delivered, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt, null when no response came back
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt),
+]);
+
 // Relations
 export const peopleRelations = relations(people, ({ one, many }) => ({
   department: one(departments, {
@@ -101,6 +556,7 @@ export const peopleRelations = relations(people, ({ one, many }) => ({
   }),
   managedProjectSites: many(projectSites),
   picasInCharge: many(picas, { relationName: "pica_person" }),
+  actionItems: many(picaActionItems),
 }));
 
 export const departmentsRelations = relations(departments, ({ one, many }) => ({
@@ -130,9 +586,191 @@ export const picasRelations = relations(picas, ({ one, many }) => ({
     relationName: "pica_person",
   }),
   history: many(picaHistory),
+  closureRequests: many(picaClosureRequests),
+  dueDateExtensions: many(picaDueDateExtensions),
+  rootCauseAnalysis: one(picaRootCauseAnalyses),
+  actionItems: many(picaActionItems),
+  effectivenessReviews: many(picaEffectivenessReviews, { relationName: "pica_effectiveness_review" }),
+  outgoingLinks: many(picaLinks, { relationName: "pica_link_source" }),
+  incomingLinks: many(picaLinks, { relationName: "pica_link_target" }),
+  recurrenceSchedule: one(picaRecurrenceSchedules, {
+    fields: [picas.recurrenceScheduleId],
+    references: [picaRecurrenceSchedules.id],
+  }),
+  attachments: many(picaAttachments),
+  comments: many(picaComments),
+}));
+
+export const picaCommentsRelations = relations(picaComments, ({ one, many }) => ({
+  pica: one(picas, {
+    fields: [picaComments.picaId],
+    references: [picas.id],
+  }),
+  user: one(users, {
+    fields: [picaComments.userId],
+    references: [users.id],
+  }),
+  parent: one(picaComments, {
+    fields: [picaComments.parentId],
+    references: [picaComments.id],
+    relationName: "comment_replies",
+  }),
+  replies: many(picaComments, { relationName: "comment_replies" }),
+}));
+
+export const picaAttachmentsRelations = relations(picaAttachments, ({ one }) => ({
+  pica: one(picas, {
+    fields: [picaAttachments.picaId],
+    references: [picas.id],
+  }),
+  history: one(picaHistory, {
+    fields: [picaAttachments.historyId],
+    references: [picaHistory.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [picaAttachments.uploadedById],
+    references: [users.id],
+  }),
+}));
+
+export const picaClosureRequestsRelations = relations(picaClosureRequests, ({ one }) => ({
+  pica: one(picas, {
+    fields: [picaClosureRequests.picaId],
+    references: [picas.id],
+  }),
+  verifier: one(people, {
+    fields: [picaClosureRequests.verifierId],
+    references: [people.id],
+  }),
+  requestedBy: one(users, {
+    fields: [picaClosureRequests.requestedById],
+    references: [users.id],
+  }),
+  decidedBy: one(users, {
+    fields: [picaClosureRequests.decidedById],
+    references: [users.id],
+  }),
+}));
+
+export const picaDueDateExtensionsRelations = relations(picaDueDateExtensions, ({ one }) => ({
+  pica: one(picas, {
+    fields: [picaDueDateExtensions.picaId],
+    references: [picas.id],
+  }),
+  approver: one(people, {
+    fields: [picaDueDateExtensions.approverId],
+    references: [people.id],
+  }),
+  requestedBy: one(users, {
+    fields: [picaDueDateExtensions.requestedById],
+    references: [users.id],
+  }),
+  decidedBy: one(users, {
+    fields: [picaDueDateExtensions.decidedById],
+    references: [users.id],
+  }),
+}));
+
+export const picaRootCauseAnalysesRelations = relations(picaRootCauseAnalyses, ({ one, many }) => ({
+  pica: one(picas, {
+    fields: [picaRootCauseAnalyses.picaId],
+    references: [picas.id],
+  }),
+  updatedBy: one(users, {
+    fields: [picaRootCauseAnalyses.updatedById],
+    references: [users.id],
+  }),
+  factors: many(picaRootCauseFactors),
+}));
+
+export const picaRootCauseFactorsRelations = relations(picaRootCauseFactors, ({ one }) => ({
+  analysis: one(picaRootCauseAnalyses, {
+    fields: [picaRootCauseFactors.analysisId],
+    references: [picaRootCauseAnalyses.id],
+  }),
+  pica: one(picas, {
+    fields: [picaRootCauseFactors.picaId],
+    references: [picas.id],
+  }),
+}));
+
+export const picaActionItemsRelations = relations(picaActionItems, ({ one }) => ({
+  pica: one(picas, {
+    fields: [picaActionItems.picaId],
+    references: [picas.id],
+  }),
+  owner: one(people, {
+    fields: [picaActionItems.ownerId],
+    references: [people.id],
+  }),
+  createdBy: one(users, {
+    fields: [picaActionItems.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const picaTemplatesRelations = relations(picaTemplates, ({ one, many }) => ({
+  personInCharge: one(people, {
+    fields: [picaTemplates.personInChargeId],
+    references: [people.id],
+  }),
+  schedules: many(picaRecurrenceSchedules),
+}));
+
+export const picaRecurrenceSchedulesRelations = relations(picaRecurrenceSchedules, ({ one, many }) => ({
+  template: one(picaTemplates, {
+    fields: [picaRecurrenceSchedules.templateId],
+    references: [picaTemplates.id],
+  }),
+  projectSite: one(projectSites, {
+    fields: [picaRecurrenceSchedules.projectSiteId],
+    references: [projectSites.id],
+  }),
+  personInCharge: one(people, {
+    fields: [picaRecurrenceSchedules.personInChargeId],
+    references: [people.id],
+  }),
+  picas: many(picas),
+}));
+
+export const picaLinksRelations = relations(picaLinks, ({ one }) => ({
+  sourcePica: one(picas, {
+    fields: [picaLinks.sourcePicaId],
+    references: [picas.id],
+    relationName: "pica_link_source",
+  }),
+  targetPica: one(picas, {
+    fields: [picaLinks.targetPicaId],
+    references: [picas.id],
+    relationName: "pica_link_target",
+  }),
+  createdBy: one(users, {
+    fields: [picaLinks.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const picaEffectivenessReviewsRelations = relations(picaEffectivenessReviews, ({ one }) => ({
+  pica: one(picas, {
+    fields: [picaEffectivenessReviews.picaId],
+    references: [picas.id],
+    relationName: "pica_effectiveness_review",
+  }),
+  reviewer: one(people, {
+    fields: [picaEffectivenessReviews.reviewerId],
+    references: [people.id],
+  }),
+  followUpPica: one(picas, {
+    fields: [picaEffectivenessReviews.followUpPicaId],
+    references: [picas.id],
+  }),
+  decidedBy: one(users, {
+    fields: [picaEffectivenessReviews.decidedById],
+    references: [users.id],
+  }),
 }));
 
-export const picaHistoryRelations = relations(picaHistory, ({ one }) => ({
+export const picaHistoryRelations = relations(picaHistory, ({ one, many }) => ({
   pica: one(picas, {
     fields: [picaHistory.picaId],
     references: [picas.id],
@@ -141,6 +779,7 @@ export const picaHistoryRelations = relations(picaHistory, ({ one }) => ({
     fields: [picaHistory.userId],
     references: [users.id],
   }),
+  attachments: many(picaAttachments),
 }));
 
 // Organization relations
@@ -155,6 +794,8 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
 // Insert schemas and types
 export const insertPersonSchema = createInsertSchema(people).omit({
   id: true,
+  deletedAt: true,
+  deletedById: true,
 });
 
 export type InsertPerson = z.infer<typeof insertPersonSchema>;
@@ -162,6 +803,8 @@ export type Person = typeof people.$inferSelect;
 
 export const insertDepartmentSchema = createInsertSchema(departments).omit({
   id: true,
+  deletedAt: true,
+  deletedById: true,
 });
 
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
@@ -169,13 +812,33 @@ export type Department = typeof departments.$inferSelect;
 
 export const insertProjectSiteSchema = createInsertSchema(projectSites).omit({
   id: true,
+  deletedAt: true,
+  deletedById: true,
 });
 
 export type InsertProjectSite = z.infer<typeof insertProjectSiteSchema>;
 export type ProjectSite = typeof projectSites.$inferSelect;
 
-export const insertPicaSchema = createInsertSchema(picas).omit({
+// Extension tracking is maintained by the server through extension requests,
+// the risk score and level are computed from severity and likelihood,
+// the action item roll-up follows the PICA's action items, only schedules link generated PICAs,
+// and PICAs only enter the trash through the delete route
+export const insertPicaSchema = createInsertSchema(picas, {
+  severity: riskRatingSchema.nullish(),
+  likelihood: riskRatingSchema.nullish(),
+}).omit({
   id: true,
+  originalDueDate: true,
+  extensionCount: true,
+  riskScore: true,
+  riskLevel: true,
+  actionItemCount: true,
+  completedActionItemCount: true,
+  actionProgress: true,
+  recurrenceScheduleId: true,
+  reopenCount: true,
+  deletedAt: true,
+  deletedById: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -183,6 +846,132 @@ export const insertPicaSchema = createInsertSchema(picas).omit({
 export type InsertPica = z.infer<typeof insertPicaSchema>;
 export type Pica = typeof picas.$inferSelect;
 
+// Query parameters for listing PICAs (GET /api/picas)
+export const picaSortFields = ["date", "dueDate", "createdAt", "updatedAt", "picaId", "status", "riskScore"] as const;
+export type PicaSortField = typeof picaSortFields[number];
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const picaListQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : undefined)), // comma-separated
+  riskLevel: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").filter(Boolean) : undefined)), // comma-separated level keys
+  projectSiteId: z.coerce.number().int().positive().optional(),
+  personInChargeId: z.coerce.number().int().positive().optional(),
+  departmentId: z.coerce.number().int().positive().optional(),
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+  dueDateFrom: isoDateSchema.optional(),
+  dueDateTo: isoDateSchema.optional(),
+  search: z.string().trim().optional(), // matches PICA ID, issue, problem and corrective action
+  sort: z.enum(picaSortFields).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type PicaListQuery = z.infer<typeof picaListQuerySchema>;
+
+// Page size used when a page is requested without one
+export const DEFAULT_PICA_PAGE_SIZE = 20;
+
+// Paginated PICA list, returned when page or pageSize is requested
+export type PicaListPage = {
+  items: PicaWithRelations[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+// Optional PICA date range used to scope the statistics endpoints
+export const picaDateRangeSchema = z.object({
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+});
+
+export type PicaDateRange = z.infer<typeof picaDateRangeSchema>;
+
+// Batch creation: a master header (site, date) plus one entry per PICA item.
+// Item PICA IDs are allocated by the server.
+export const picaBatchItemSchema = insertPicaSchema.pick({
+  issue: true,
+  problemIdentification: true,
+  correctiveAction: true,
+  personInChargeId: true,
+  dueDate: true,
+  severity: true,
+  likelihood: true,
+}).extend({
+  issue: z.string().trim().min(1, "Issue is required"),
+  problemIdentification: z.string().trim().min(1, "Problem identification is required"),
+  correctiveAction: z.string().trim().min(1, "Corrective action is required"),
+  personInChargeId: z.number().int().positive("Person in charge is required"),
+  dueDate: isoDateSchema,
+  recurrenceOfPicaId: z.number().int().positive().nullish(), // Earlier PICA this item repeats; linked on creation
+});
+
+export const picaBatchSchema = z.object({
+  projectSiteId: z.number().int().positive(),
+  date: isoDateSchema,
+  items: z.array(z.unknown()).min(1, "At least one PICA item is required").max(99),
+});
+
+export type PicaBatchItem = z.infer<typeof picaBatchItemSchema>;
+
+// Validation error for a single item of a batch
+export type PicaBatchItemError = {
+  index: number;
+  field: string;
+  message: string;
+};
+
+// Bulk actions on PICAs selected in the PICA list (POST /api/picas/bulk). Every PICA is checked and
+// updated on its own, so one PICA failing a check doesn't hold back the rest.
+const bulkPicaIdsSchema = z
+  .array(z.number().int().positive())
+  .min(1, "Select at least one PICA")
+  .max(200, "At most 200 PICAs can be updated at once");
+
+export const picaBulkActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("reassign"),
+    picaIds: bulkPicaIdsSchema,
+    personInChargeId: z.number().int().positive("Person in charge is required"),
+    comment: z.string().trim().optional(),
+  }),
+  // Due dates still move through extension requests, so this files one per PICA for its verifier
+  z.object({
+    action: z.literal("due_date"),
+    picaIds: bulkPicaIdsSchema,
+    dueDate: isoDateSchema,
+    comment: z.string().trim().min(1, "Justification is required"),
+  }),
+  z.object({
+    action: z.literal("status"),
+    picaIds: bulkPicaIdsSchema,
+    status: z.string().min(1, "Status is required"),
+    comment: z.string().trim().optional(),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    picaIds: bulkPicaIdsSchema,
+  }),
+]);
+
+export type PicaBulkAction = z.infer<typeof picaBulkActionSchema>;
+
+// Outcome of a bulk action: the PICAs it applied to and why the others were skipped
+export type PicaBulkResult = {
+  updated: number[];
+  failed: { id: number; picaId: string | null; message: string }[];
+};
+
 // Expanded PICA type with relations
 export type PicaWithRelations = Pica & {
   projectSite: ProjectSite;
@@ -218,12 +1007,642 @@ export type PicaHistoryWithRelations = PicaHistory & {
   user?: User;
 };
 
+// Audit log types
+export type PicaAuditEntry = typeof picaAuditLog.$inferSelect;
+
+export type PicaAuditEntryWithUser = PicaAuditEntry & {
+  user: Pick<User, "id" | "name" | "username"> | null;
+};
+
+// Filters for GET /api/audit
+export const picaAuditQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  picaId: z.coerce.number().int().positive().optional(),
+  action: picaAuditActionEnum.optional(),
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type PicaAuditQuery = z.infer<typeof picaAuditQuerySchema>;
+
+export type PicaAuditPage = {
+  items: PicaAuditEntryWithUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+// Attachment schemas and types
+export const insertPicaAttachmentSchema = createInsertSchema(picaAttachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPicaAttachment = z.infer<typeof insertPicaAttachmentSchema>;
+export type PicaAttachment = typeof picaAttachments.$inferSelect;
+
+export type PicaAttachmentWithUploader = PicaAttachment & {
+  uploadedBy: Pick<User, "id" | "name" | "username"> | null;
+};
+
+// Attachment as returned by the API (storage keys stay on the server)
+export type PicaAttachmentInfo = Omit<PicaAttachmentWithUploader, "storageKey" | "thumbnailKey"> & {
+  hasThumbnail: boolean;
+};
+
+// Comment schemas and types
+export const insertPicaCommentSchema = createInsertSchema(picaComments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export type InsertPicaComment = z.infer<typeof insertPicaCommentSchema>;
+export type PicaComment = typeof picaComments.$inferSelect;
+
+// Body of POST/PUT /api/picas/:id/comments
+export const commentInputSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000, "Comment is too long"),
+  parentId: z.number().int().positive().nullish(),
+});
+
+export type CommentInput = z.infer<typeof commentInputSchema>;
+
+// User fields safe to show next to comments and in the mention picker
+export type UserSummary = Pick<User, "id" | "name" | "username">;
+
+// Comment with its author; deleted comments come back with an empty body
+export type PicaCommentWithAuthor = PicaComment & {
+  author: UserSummary | null;
+};
+
+// Closure request schemas and types
+export const insertPicaClosureRequestSchema = createInsertSchema(picaClosureRequests).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPicaClosureRequest = z.infer<typeof insertPicaClosureRequestSchema>;
+export type PicaClosureRequest = typeof picaClosureRequests.$inferSelect;
+
+// Body of POST /api/picas/:id/closure-requests
+export const closureRequestInputSchema = z.object({
+  completionNote: z.string().trim().min(1, "Completion note is required"),
+  evidence: z.string().trim().min(1, "Evidence is required"),
+});
+
+// Body of POST /api/closure-requests/:id/decision; rejections need a reason
+export const closureDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().trim().optional(),
+}).refine((data) => data.decision === "approve" || !!data.reason, {
+  message: "A reason is required to reject a closure",
+  path: ["reason"],
+});
+
+export type ClosureDecision = z.infer<typeof closureDecisionSchema>;
+
+// Body of POST /api/picas/:id/reopen
+export const reopenPicaSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reopen a PICA"),
+});
+
+export type ReopenPicaInput = z.infer<typeof reopenPicaSchema>;
+
+// Reopen figures for a department or person in charge: closed counts PICAs that reached completion
+// at least once (currently complete or reopened before), reopened those reopened at least once
+export type ReopenRateStat = {
+  id: number;
+  name: string;
+  closed: number;
+  reopened: number;
+  reopenCount: number; // Total reopenings, counting repeats
+  rate: number; // reopened / closed, 0 without closed PICAs
+};
+
+export type ReopenStats = {
+  departments: ReopenRateStat[];
+  peopleInCharge: ReopenRateStat[];
+};
+
+// Closure request with the PICA and the people involved
+export type PicaClosureRequestWithRelations = PicaClosureRequest & {
+  pica: PicaWithRelations;
+  verifier: Person | null;
+  requestedBy: Pick<User, "id" | "name" | "username"> | null;
+  decidedBy: Pick<User, "id" | "name" | "username"> | null;
+};
+
+// Verification queue for the current user
+export type ClosureQueue = {
+  pendingVerification: PicaClosureRequestWithRelations[]; // Awaiting my decision
+  rejected: PicaClosureRequestWithRelations[]; // My latest closures that were rejected
+};
+
+// Due date extension schemas and types
+export const insertPicaDueDateExtensionSchema = createInsertSchema(picaDueDateExtensions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPicaDueDateExtension = z.infer<typeof insertPicaDueDateExtensionSchema>;
+export type PicaDueDateExtension = typeof picaDueDateExtensions.$inferSelect;
+
+// Body of POST /api/picas/:id/extension-requests
+export const extensionRequestInputSchema = z.object({
+  requestedDueDate: isoDateSchema,
+  justification: z.string().trim().min(1, "Justification is required"),
+});
+
+// Body of POST /api/extension-requests/:id/decision; rejections need a reason
+export const extensionDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().trim().optional(),
+}).refine((data) => data.decision === "approve" || !!data.reason, {
+  message: "A reason is required to reject an extension",
+  path: ["reason"],
+});
+
+export type ExtensionDecision = z.infer<typeof extensionDecisionSchema>;
+
+// Extension request with the PICA and the people involved
+export type PicaDueDateExtensionWithRelations = PicaDueDateExtension & {
+  pica: PicaWithRelations;
+  approver: Person | null;
+  requestedBy: Pick<User, "id" | "name" | "username"> | null;
+  decidedBy: Pick<User, "id" | "name" | "username"> | null;
+};
+
+// Root cause analysis schemas and types
+export type PicaRootCauseAnalysis = typeof picaRootCauseAnalyses.$inferSelect;
+export type PicaRootCauseFactor = typeof picaRootCauseFactors.$inferSelect;
+
+export const MAX_WHYS = 5;
+
+// Body of PUT /api/picas/:id/root-cause; replaces the whole analysis
+export const rootCauseAnalysisInputSchema = z.object({
+  whys: z.array(z.string().trim().min(1, "Answer is required")).max(MAX_WHYS, `At most ${MAX_WHYS} whys`),
+  rootCause: z.string().trim().nullish(),
+  factors: z.array(z.object({
+    category: fishboneCategoryEnum,
+    description: z.string().trim().min(1, "Cause description is required"),
+  })).max(60, "At most 60 causes"),
+});
+
+export type RootCauseAnalysisInput = z.infer<typeof rootCauseAnalysisInputSchema>;
+
+// Analysis with its fishbone causes and who last changed it
+export type PicaRootCauseAnalysisWithFactors = PicaRootCauseAnalysis & {
+  factors: Pick<PicaRootCauseFactor, "id" | "category" | "description">[];
+  updatedBy: Pick<User, "id" | "name" | "username"> | null;
+};
+
+// PICAs citing a fishbone category at a project site
+export type RootCauseCategoryStat = {
+  category: FishboneCategory;
+  projectSiteId: number;
+  site: string;
+  picaCount: number;
+};
+
+// Action item schemas and types
+export type PicaActionItem = typeof picaActionItems.$inferSelect;
+
+// Body of POST /api/picas/:id/actions
+export const actionItemInputSchema = z.object({
+  type: actionItemTypeEnum,
+  description: z.string().trim().min(1, "Description is required"),
+  ownerId: z.number().int().positive("Owner is required"),
+  dueDate: isoDateSchema,
+});
+
+export type ActionItemInput = z.infer<typeof actionItemInputSchema>;
+
+// Body of PUT /api/picas/:id/actions/:actionId; progress and status are kept consistent by the server
+export const actionItemUpdateSchema = actionItemInputSchema.partial().extend({
+  status: actionItemStatusEnum.optional(),
+  progress: z.number().int().min(0).max(100).optional(),
+}).refine(
+  (update) => !(update.progress === 100 && update.status && update.status !== "done"),
+  { message: "An action at 100% progress must be done", path: ["status"] },
+);
+
+export type ActionItemUpdate = z.infer<typeof actionItemUpdateSchema>;
+
+// Action item with its owner
+export type PicaActionItemWithOwner = PicaActionItem & {
+  owner: Person | null;
+};
+
+// PICA link schemas and types
+export type PicaLink = typeof picaLinks.$inferSelect;
+
+// Body of POST /api/picas/:id/links
+export const picaLinkInputSchema = z.object({
+  targetPicaId: z.number().int().positive("Linked PICA is required"),
+  linkType: picaLinkTypeEnum,
+});
+
+export type PicaLinkInput = z.infer<typeof picaLinkInputSchema>;
+
+// Summary of the PICA at the other end of a link or similarity match
+export type PicaReference = Pick<Pica, "id" | "picaId" | "issue" | "status" | "date" | "projectSiteId">;
+
+// A link as seen from one PICA: outgoing links start at it, incoming links point at it
+export type PicaLinkWithPica = PicaLink & {
+  direction: "outgoing" | "incoming";
+  linkedPica: PicaReference;
+};
+
+// Earlier PICA at the same site whose issue text resembles a new one (similarity 0-1)
+export type SimilarPica = PicaReference & {
+  similarity: number;
+};
+
+// Share of a site's PICAs that repeat an earlier finding
+export type RepeatFindingStat = {
+  projectSiteId: number;
+  site: string;
+  total: number;
+  repeats: number;
+  rate: number; // repeats / total, 0 when the site has no PICAs
+};
+
+// Effectiveness review schemas and types
+export type PicaEffectivenessReview = typeof picaEffectivenessReviews.$inferSelect;
+
+// Body of PUT /api/effectiveness-checks: distinct day offsets; an empty list turns reviews off
+export const effectivenessCheckDaysSchema = z.object({
+  days: z
+    .array(z.number().int().min(1, "Checks start at least one day after closure").max(730))
+    .max(10, "At most 10 checks are allowed")
+    .refine((days) => new Set(days).size === days.length, { message: "Check days must be unique" }),
+});
+
+export type EffectivenessCheckDaysInput = z.infer<typeof effectivenessCheckDaysSchema>;
+
+// Returned by GET /api/effectiveness-checks; isDefault is true when the organization never configured them
+export type EffectivenessCheckSettings = {
+  days: number[];
+  isDefault: boolean;
+};
+
+// Body of POST /api/effectiveness-reviews/:id/decision. Ineffective actions need notes and a follow-up;
+// a new PICA also needs its corrective action.
+export const effectivenessDecisionSchema = z.object({
+  outcome: z.enum(["effective", "ineffective"]),
+  notes: z.string().trim().optional(),
+  followUp: effectivenessFollowUpEnum.optional(),
+  correctiveAction: z.string().trim().optional(),
+}).superRefine((data, ctx) => {
+  if (data.outcome !== "ineffective") return;
+  if (!data.notes) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["notes"], message: "Describe why the action was ineffective" });
+  }
+  if (!data.followUp) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["followUp"], message: "Choose to reopen the PICA or raise a new one" });
+  }
+  if (data.followUp === "new_pica" && !data.correctiveAction) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctiveAction"], message: "Corrective action is required for the new PICA" });
+  }
+});
+
+export type EffectivenessDecision = z.infer<typeof effectivenessDecisionSchema>;
+
+// Effectiveness review with the PICA and the people involved
+export type PicaEffectivenessReviewWithRelations = PicaEffectivenessReview & {
+  pica: PicaWithRelations;
+  reviewer: Person | null;
+  decidedBy: Pick<User, "id" | "name" | "username"> | null;
+  followUpPica: PicaReference | null;
+};
+
+// Decided effectiveness reviews of a site's PICAs
+export type EffectivenessStat = {
+  projectSiteId: number;
+  site: string;
+  reviewed: number;
+  effective: number;
+  ineffective: number;
+  rate: number; // effective / reviewed, 0 without reviews
+};
+
+// PICA template schemas and types
+export type PicaTemplate = typeof picaTemplates.$inferSelect;
+
+// Body of POST and PUT /api/pica-templates
+export const picaTemplateInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  issue: z.string().trim().min(1, "Issue is required"),
+  problemIdentification: z.string().trim().min(1, "Problem identification is required"),
+  correctiveAction: z.string().trim().min(1, "Corrective action is required"),
+  personInChargeId: z.number().int().positive().nullish(),
+  dueInDays: z.number().int().min(0).max(365),
+  severity: riskRatingSchema.nullish(),
+  likelihood: riskRatingSchema.nullish(),
+});
+
+export type PicaTemplateInput = z.infer<typeof picaTemplateInputSchema>;
+
+// Recurrence schedule schemas and types
+export type PicaRecurrenceSchedule = typeof picaRecurrenceSchedules.$inferSelect;
+
+const recurrenceScheduleFieldsSchema = z.object({
+  templateId: z.number().int().positive("Template is required"),
+  projectSiteId: z.number().int().positive("Project site is required"),
+  personInChargeId: z.number().int().positive().nullish(),
+  frequency: recurrenceFrequencyEnum,
+  interval: z.number().int().min(1).max(52),
+  startDate: isoDateSchema,
+  endDate: isoDateSchema.nullish(),
+  isPaused: z.boolean().optional(),
+});
+
+const endsAfterStart = (schedule: { startDate?: string; endDate?: string | null }) =>
+  !schedule.startDate || !schedule.endDate || schedule.endDate >= schedule.startDate;
+
+// Body of POST /api/recurrence-schedules
+export const recurrenceScheduleInputSchema = recurrenceScheduleFieldsSchema.refine(endsAfterStart, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+// Body of PUT /api/recurrence-schedules/:id; pausing and resuming are plain updates of isPaused
+export const recurrenceScheduleUpdateSchema = recurrenceScheduleFieldsSchema.partial().refine(endsAfterStart, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export type RecurrenceScheduleInput = z.infer<typeof recurrenceScheduleInputSchema>;
+export type RecurrenceScheduleUpdate = z.infer<typeof recurrenceScheduleUpdateSchema>;
+
+// Schedule with its template, site, PIC override and the number of PICAs it has generated
+export type PicaRecurrenceScheduleWithRelations = PicaRecurrenceSchedule & {
+  template: PicaTemplate;
+  projectSite: ProjectSite;
+  personInCharge: Person | null;
+  generatedCount: number;
+};
+
 // Organization schema and types
-export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  picaIdFormat: picaIdFormatSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   paymentDate: true,
+  riskMatrix: true, // Managed through /api/risk-matrix
+  effectivenessCheckDays: true, // Managed through /api/effectiveness-checks
+  notificationSettings: true, // Managed through /api/notification-settings
 });
 
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Organization = typeof organizations.$inferSelect;
+
+// Workflow definition as edited through the API
+export const workflowStatusInputSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Status key must be lowercase letters, digits or underscores"),
+  label: z.string().trim().min(1, "Status label is required"),
+  color: workflowColorEnum,
+  category: picaStatusEnum,
+  isInitial: z.boolean().default(false),
+});
+
+export const workflowTransitionInputSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  allowedRoles: z.array(userRoleEnum).min(1, "At least one role is required"),
+  requiresComment: z.boolean().default(false),
+});
+
+export const workflowDefinitionSchema = z.object({
+  statuses: z.array(workflowStatusInputSchema).min(1, "At least one status is required"),
+  transitions: z.array(workflowTransitionInputSchema),
+}).superRefine((definition, ctx) => {
+  const keys = definition.statuses.map((status) => status.key);
+  const keySet = new Set(keys);
+  
+  if (keySet.size !== keys.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "Status keys must be unique" });
+  }
+  if (definition.statuses.filter((status) => status.isInitial).length !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "Exactly one status must be the initial status" });
+  }
+  if (!definition.statuses.some((status) => status.category === "complete")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "At least one status must be in the complete category" });
+  }
+  
+  const transitionKeys = new Set<string>();
+  definition.transitions.forEach((transition, index) => {
+    if (!keySet.has(transition.from) || !keySet.has(transition.to)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: "Transition refers to an unknown status" });
+    }
+    if (transition.from === transition.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: "Transition must change the status" });
+    }
+    const transitionKey = `${transition.from}->${transition.to}`;
+    if (transitionKeys.has(transitionKey)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: "Duplicate transition" });
+    }
+    transitionKeys.add(transitionKey);
+  });
+});
+
+export type WorkflowStatusDefinition = z.infer<typeof workflowStatusInputSchema>;
+export type WorkflowTransitionDefinition = z.infer<typeof workflowTransitionInputSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+
+// Workflow returned by GET /api/workflow; isDefault is true when the organization has no custom workflow
+export type OrganizationWorkflow = WorkflowDefinition & {
+  isDefault: boolean;
+};
+
+// Risk matrix: PICAs are rated 1 to RISK_SCALE for severity and likelihood,
+// and their score (severity × likelihood) falls into the level with the highest reached minScore
+export const riskLevelInputSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Risk level key must be lowercase letters, digits or underscores"),
+  label: z.string().trim().min(1, "Risk level label is required"),
+  color: workflowColorEnum,
+  minScore: z.number().int().min(1).max(RISK_SCALE * RISK_SCALE),
+  dueInDays: z.number().int().min(0).max(365), // Default due date offset for new PICAs at this level
+});
+
+const riskScaleLabelsSchema = z
+  .array(z.string().trim().min(1, "Label is required"))
+  .length(RISK_SCALE, `Exactly ${RISK_SCALE} labels are required`);
+
+export const riskMatrixSchema = z.object({
+  severityLabels: riskScaleLabelsSchema, // Index 0 is rating 1
+  likelihoodLabels: riskScaleLabelsSchema,
+  levels: z.array(riskLevelInputSchema).min(1, "At least one risk level is required"),
+}).superRefine((matrix, ctx) => {
+  const keys = matrix.levels.map((level) => level.key);
+  if (new Set(keys).size !== keys.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["levels"], message: "Risk level keys must be unique" });
+  }
+  const minScores = matrix.levels.map((level) => level.minScore);
+  if (new Set(minScores).size !== minScores.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["levels"], message: "Risk level minimum scores must be unique" });
+  }
+  if (!minScores.includes(1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["levels"], message: "One risk level must start at score 1" });
+  }
+});
+
+export type RiskLevelDefinition = z.infer<typeof riskLevelInputSchema>;
+export type RiskMatrix = z.infer<typeof riskMatrixSchema>;
+
+// Risk matrix returned by GET /api/risk-matrix; isDefault is true when the organization has no custom matrix
+export type OrganizationRiskMatrix = RiskMatrix & {
+  isDefault: boolean;
+};
+
+// Number of open PICAs per severity/likelihood cell, for the risk heat-map
+export type RiskHeatMapCell = {
+  severity: number;
+  likelihood: number;
+  count: number;
+};
+
+// Reserved master PICA ID with one PICA ID per item
+export type PicaIdReservation = {
+  masterPicaId: string;
+  picaIds: string[];
+};
+
+// Trash: soft-deleted PICAs and master data, restorable or permanently purged by admins
+export const trashItemTypeEnum = z.enum(["pica", "person", "department", "project_site"]);
+export type TrashItemType = z.infer<typeof trashItemTypeEnum>;
+
+export type TrashItem = {
+  type: TrashItemType;
+  id: number;
+  label: string; // PICA ID, person or department name, or site code
+  description: string | null; // PICA issue, email, or site name
+  deletedAt: Date;
+  deletedBy: UserSummary | null;
+};
+
+// Notification settings: which emails an organization sends, and how many days before the due date reminders go out
+export const notificationSettingsSchema = z.object({
+  events: z.object({
+    assigned: z.boolean(),
+    reassigned: z.boolean(),
+    due_soon: z.boolean(),
+    overdue: z.boolean(),
+    closure_rejected: z.boolean(),
+  }),
+  dueSoonDays: z.number().int().min(1, "Reminders go out at least one day ahead").max(30),
+});
+
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+
+// Returned by GET /api/notification-settings; isDefault is true when the organization never configured them
+export type OrganizationNotificationSettings = NotificationSettings & {
+  isDefault: boolean;
+};
+
+// Email outbox types
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = typeof emailOutbox.$inferInsert;
+
+// Digest preference schemas and types
+export type DigestPreferences = typeof digestPreferences.$inferSelect;
+
+// Whether the runtime knows an IANA time zone name such as "Asia/Jakarta"
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Body of PUT /api/digest-preferences
+export const digestPreferencesInputSchema = z.object({
+  frequency: digestFrequencyEnum,
+  weekday: z.number().int().min(0).max(6),
+  hour: z.number().int().min(0).max(23),
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }),
+});
+
+export type DigestPreferencesInput = z.infer<typeof digestPreferencesInputSchema>;
+
+// Status counts of a site or department, counted like /api/picas/stats/site and /api/picas/stats/department
+export type PicaDigestSummary = {
+  id: number;
+  name: string;
+  progress: number;
+  complete: number;
+  overdue: number;
+  total: number;
+  overduePicas: PicaWithRelations[]; // Oldest due date first, at most DIGEST_LIST_LIMIT
+};
+
+// Everything a person's digest reports on
+export type PicaDigest = {
+  person: Person;
+  progressCount: number; // PICAs the person is in charge of, per status category
+  overdueCount: number;
+  picas: PicaWithRelations[]; // Their open and overdue PICAs, earliest due first, at most DIGEST_LIST_LIMIT
+  sites: PicaDigestSummary[]; // Sites the person manages
+  departments: PicaDigestSummary[]; // Departments the person heads
+};
+
+// Longest PICA list shown per digest section
+export const DIGEST_LIST_LIMIT = 20;
+
+// In-app notification schemas and types
+export type UserNotification = typeof notifications.$inferSelect;
+export type InsertUserNotification = typeof notifications.$inferInsert;
+
+// Notification with the PICA it links to and who raised it
+export type UserNotificationWithRelations = UserNotification & {
+  pica: { id: number; picaId: string };
+  actor: UserSummary | null;
+};
+
+// Returned by GET /api/notifications
+export type UserNotificationPage = {
+  items: UserNotificationWithRelations[];
+  unreadCount: number;
+};
+
+// Webhook schemas and types
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// Body of a webhook POST; test events carry the organization's latest PICA, or null without one
+export type WebhookPayload = {
+  event: WebhookEvent | "test";
+  occurredAt: string;
+  organizationId: number | null;
+  data: PicaWithRelations | null;
+};
+
+// Body of POST and PUT /api/webhooks; a secret is generated when none is given.
+// The server also rejects URLs whose host resolves to a private or local address.
+export const webhookInputSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  events: z.array(webhookEventEnum).min(1, "Choose at least one event"),
+  secret: z.string().trim().min(16, "Secret must be at least 16 characters").max(200).optional(),
+  enabled: z.boolean().default(true),
+});
+export type WebhookInput = z.infer<typeof webhookInputSchema>;
+
+// Kinds of records whose changes are pushed to open event streams
+export const changeEntityEnum = z.enum(["pica", "person", "department", "project_site"]);
+export type ChangeEntity = z.infer<typeof changeEntityEnum>;
+
+// Sent on GET /api/events when a record of the organization changes; id is null when
+// several records may have changed, e.g. after a bulk action
+export type ChangeEvent = {
+  entity: ChangeEntity;
+  id: number | null;
+};
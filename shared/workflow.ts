@@ -0,0 +1,70 @@
+import type {
+  PicaStatus,
+  WorkflowDefinition,
+  WorkflowStatusDefinition,
+  WorkflowTransitionDefinition,
+} from "./schema";
+
+const defaultStatuses: WorkflowStatusDefinition[] = [
+  { key: "progress", label: "Progress", color: "blue", category: "progress", isInitial: true },
+  { key: "complete", label: "Complete", color: "green", category: "complete", isInitial: false },
+  { key: "overdue", label: "Overdue", color: "red", category: "overdue", isInitial: false },
+];
+
+// The original free-form workflow: editors and admins may move between any two statuses
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  statuses: defaultStatuses,
+  transitions: defaultStatuses.flatMap((from) =>
+    defaultStatuses
+      .filter((to) => to.key !== from.key)
+      .map((to) => ({
+        from: from.key,
+        to: to.key,
+        allowedRoles: ["admin", "user"],
+        requiresComment: false,
+      })),
+  ),
+};
+
+export function findWorkflowStatus(
+  workflow: WorkflowDefinition,
+  key: string,
+): WorkflowStatusDefinition | undefined {
+  return workflow.statuses.find((status) => status.key === key);
+}
+
+// Category of a status key; unknown keys fall back to the key itself (legacy statuses)
+export function getStatusCategory(workflow: WorkflowDefinition, key: string): PicaStatus | string {
+  return findWorkflowStatus(workflow, key)?.category ?? key;
+}
+
+export function getInitialStatus(workflow: WorkflowDefinition): WorkflowStatusDefinition {
+  return workflow.statuses.find((status) => status.isInitial) ?? workflow.statuses[0];
+}
+
+// First status of a category, e.g. where approved closures or rejected closures land
+export function getCategoryStatus(
+  workflow: WorkflowDefinition,
+  category: PicaStatus,
+): WorkflowStatusDefinition | undefined {
+  return workflow.statuses.find((status) => status.category === category);
+}
+
+export function findTransition(
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string,
+): WorkflowTransitionDefinition | undefined {
+  return workflow.transitions.find((transition) => transition.from === from && transition.to === to);
+}
+
+// Transitions out of a status that a user with the given role may perform
+export function getAvailableTransitions(
+  workflow: WorkflowDefinition,
+  from: string,
+  role: string,
+): WorkflowTransitionDefinition[] {
+  return workflow.transitions.filter(
+    (transition) => transition.from === from && (transition.allowedRoles as string[]).includes(role),
+  );
+}